@@ -11,13 +11,21 @@ import {
 
 import { determineMapBounds } from "./logic/map/map.js";
 import { SectorCache } from "./logic/map/sector.js";
-import { MissionController } from "./logic/mission/missionController.js";
+import { MapAnalysisStore } from "./logic/map/mapAnalysis.js";
+import { MissionController, MissionStats } from "./logic/mission/missionController.js";
 import { QueueController } from "./logic/building/queueController.js";
-import { MatchAwareness, MatchAwarenessImpl } from "./logic/awareness.js";
+import { HarvesterController } from "./logic/building/harvesterController.js";
+import { ArmyStats, MatchAwareness, MatchAwarenessImpl } from "./logic/awareness.js";
 import { Countries, formatTimeDuration } from "./logic/common/utils.js";
 import { TriggeredAttackMissionFactory } from "./logic/mission/missions/triggers/triggerManager.js";
 import { createBaseMissionFactories } from "./logic/mission/missionFactories.js";
-import { DynamicAttackMissionFactory } from "./logic/mission/missions/attackMission.js";
+import { DynamicAttackMissionFactory, generateTarget } from "./logic/mission/missions/attackMission.js";
+import { AllInAttackMission } from "./logic/mission/missions/allInAttackMission.js";
+import { ProfileReport, TickProfiler } from "./logic/common/profiler.js";
+import { BotPersonality, PERSONALITIES, PersonalityName } from "./logic/common/personality.js";
+import { AllyCommandHandler } from "./logic/chat/allyCommands.js";
+import { TeamChannel } from "./logic/team/teamChannel.js";
+import { BaseLayoutPlanner } from "./logic/building/baseLayoutPlanner.js";
 
 const DEBUG_STATE_UPDATE_INTERVAL_SECONDS = 6;
 
@@ -31,12 +39,99 @@ export enum BotDifficulty {
     Hard,
 }
 
+/**
+ * How quickly the bot plays at a given difficulty.
+ */
+export type DifficultyProfile = {
+    // Actions per minute, which sets how often the bot updates.
+    apm: number;
+    // Missions, and so the micro of the units in them, update once this many ticks have passed since their last update.
+    missionUpdateIntervalTicks: number;
+    // How long an enemy has to be in sight before the bot reacts to it.
+    reactionDelaySeconds: number;
+};
+
+const HARD_PROFILE: DifficultyProfile = { apm: 300, missionUpdateIntervalTicks: 5, reactionDelaySeconds: 0 };
+
+export const DIFFICULTY_PROFILES: { [difficulty in BotDifficulty]: DifficultyProfile } = {
+    [BotDifficulty.Dynamic]: HARD_PROFILE,
+    [BotDifficulty.Easy]: { apm: 120, missionUpdateIntervalTicks: 20, reactionDelaySeconds: 4 },
+    [BotDifficulty.Medium]: { apm: 200, missionUpdateIntervalTicks: 10, reactionDelaySeconds: 1.5 },
+    [BotDifficulty.Hard]: HARD_PROFILE,
+};
+
+/**
+ * Behaviour settings that can be changed per bot.
+ */
+export type BotOptions = {
+    // Strategic leanings of the bot, see `PERSONALITIES`.
+    personality: PersonalityName;
+    // Share sightings, scouting, threat estimates and attack plans with allied bots that run in the same process.
+    shareIntel: boolean;
+    // If nothing meaningful is destroyed for this long, the bot goes all in and rescouts. If there is still no fighting
+    // after the same amount of time again, it declares a stalemate. 0 turns stalemate detection off.
+    stalemateWindowSeconds: number;
+    // Time the bot's subsystems, see `getProfileReport()`.
+    profile: boolean;
+    // When profiling, AI updates that take longer than this are logged as budget overruns.
+    profileTickBudgetMs: number;
+};
+
+export const DEFAULT_BOT_OPTIONS: BotOptions = {
+    personality: PersonalityName.Balanced,
+    shareIntel: true,
+    stalemateWindowSeconds: 900,
+    profile: false,
+    profileTickBudgetMs: 5,
+};
+
+/**
+ * Settings of the match that bots can't look up through the game API, so whoever sets up the match passes them on.
+ */
+export type BotMatchSettings = {
+    // Whether buildings can be placed next to allied buildings.
+    buildOffAlly: boolean;
+};
+
+export const DEFAULT_MATCH_SETTINGS: BotMatchSettings = {
+    buildOffAlly: false,
+};
+
+enum StalemateState {
+    None,
+    // We have tried to break the stalemate and are waiting to see if it worked.
+    Escalated,
+    Stalemate,
+}
+
+/**
+ * The bot's own account of a match, for the end-of-match report.
+ */
+export type BotMatchStats = ArmyStats & {
+    name: string;
+    country: string;
+    difficulty: string;
+    personality: string;
+    creditsSpent: number;
+    missions: MissionStats;
+};
+
 export class SupalosaBot extends Bot {
     private tickRatio?: number;
     private knownMapBounds: Size | undefined;
     private missionController?: MissionController;
     private queueController: QueueController;
+    private harvesterController = new HarvesterController();
     private tickOfLastAttackOrder: number = 0;
+    private tickOfLastMissionUpdate: number | null = null;
+    private stalemateState: StalemateState = StalemateState.None;
+    private stalemateEscalatedAt: number = 0;
+    private options: BotOptions;
+    private difficultyProfile: DifficultyProfile;
+    private personality: BotPersonality;
+    private teamChannel: TeamChannel | null;
+    private allyCommandHandler: AllyCommandHandler;
+    private profiler: TickProfiler;
 
     private matchAwareness: MatchAwareness | null = null;
 
@@ -47,24 +142,39 @@ export class SupalosaBot extends Bot {
         country: Countries,
         private difficulty: BotDifficulty,
         private tryAllyWith: string[] = [],
+        options: Partial<BotOptions> = {},
+        teamChannel: TeamChannel | null = null,
+        private mapAnalysisStore: MapAnalysisStore | null = null,
+        private matchSettings: BotMatchSettings = DEFAULT_MATCH_SETTINGS,
     ) {
         super(name, country);
-        this.queueController = new QueueController();
+        this.options = { ...DEFAULT_BOT_OPTIONS, ...options };
+        this.difficultyProfile = DIFFICULTY_PROFILES[difficulty];
+        this.personality = PERSONALITIES[this.options.personality];
+        this.teamChannel = this.options.shareIntel ? teamChannel : null;
+        this.queueController = new QueueController(this.personality);
+        this.allyCommandHandler = new AllyCommandHandler(
+            (message, sayInGame) => this.logBotStatus(message, sayInGame),
+            this.personality,
+        );
+        this.profiler = new TickProfiler(this.options.profile, this.options.profileTickBudgetMs);
     }
 
     private createMissionFactories(game: GameApi, playerData: PlayerData) {
-        const baseMissionFactories = createBaseMissionFactories();
+        const baseMissionFactories = createBaseMissionFactories(this.personality);
         if (this.difficulty === BotDifficulty.Dynamic) {
-            return [...baseMissionFactories, new DynamicAttackMissionFactory()];
+            return [...baseMissionFactories, new DynamicAttackMissionFactory(this.personality)];
         } else {
-            return [...baseMissionFactories, new TriggeredAttackMissionFactory(game, playerData, this.difficulty)];
+            return [
+                ...baseMissionFactories,
+                new TriggeredAttackMissionFactory(game, playerData, this.difficulty, this.personality),
+            ];
         }
     }
 
     override onGameStart(game: GameApi) {
         const gameRate = game.getTickRate();
-        const botApm = 300;
-        const botRate = botApm / 60;
+        const botRate = this.difficultyProfile.apm / 60;
         this.tickRatio = Math.ceil(gameRate / botRate);
 
         const myPlayer = game.getPlayerData(this.name);
@@ -72,6 +182,7 @@ export class SupalosaBot extends Bot {
         this.missionController = new MissionController(
             this.createMissionFactories(game, myPlayer),
             (message, sayInGame) => this.logBotStatus(message, sayInGame),
+            this.profiler,
         );
 
         this.knownMapBounds = determineMapBounds(game.mapApi);
@@ -81,10 +192,21 @@ export class SupalosaBot extends Bot {
             new SectorCache(game.mapApi, this.knownMapBounds),
             myPlayer.startLocation,
             (message, sayInGame) => this.logBotStatus(message, sayInGame),
+            this.difficultyProfile.reactionDelaySeconds * NATURAL_TICK_RATE,
+            this.personality,
+            this.teamChannel,
+            this.profiler,
+            this.mapAnalysisStore,
+            new BaseLayoutPlanner(this.matchSettings.buildOffAlly),
         );
         this.matchAwareness.onGameStart(game, myPlayer);
 
         this.logBotStatus(`Map bounds: ${this.knownMapBounds.width}, ${this.knownMapBounds.height}`);
+        const { apm, missionUpdateIntervalTicks, reactionDelaySeconds } = this.difficultyProfile;
+        this.logBotStatus(
+            `Difficulty ${BotDifficulty[this.difficulty]}: ${apm} APM, missions every ${missionUpdateIntervalTicks} ` +
+                `ticks, ${reactionDelaySeconds}s reaction delay. Personality: ${this.personality.name}.`,
+        );
 
         this.tryAllyWith
             .filter((playerName) => playerName !== this.name)
@@ -109,9 +231,12 @@ export class SupalosaBot extends Bot {
         }
 
         if (game.getCurrentTick() % this.tickRatio! === 0) {
+            this.profiler.beginTick(game.getCurrentTick());
             const myPlayer = game.getPlayerData(this.name);
+            const matchAwareness = this.matchAwareness;
+            const missionController = this.missionController;
 
-            this.matchAwareness.onAiUpdate(game, myPlayer);
+            this.profiler.measure("MatchAwareness.onAiUpdate", () => matchAwareness.onAiUpdate(game, myPlayer));
 
             // hacky resign condition
             const armyUnits = game.getVisibleUnits(this.name, "self", (r) => r.isSelectableCombatant);
@@ -131,32 +256,142 @@ export class SupalosaBot extends Bot {
                 this.didQuitGame = true;
             }
 
-            // Mission logic every 5 ticks
-            if (this.gameApi.getCurrentTick() % 5 === 0) {
-                this.missionController.onAiUpdate(
-                    game,
-                    this.productionApi,
-                    this.actionsApi,
-                    myPlayer,
-                    this.matchAwareness,
+            // Mission logic every few ticks, depending on the difficulty.
+            const currentTick = game.getCurrentTick();
+            if (
+                this.tickOfLastMissionUpdate === null ||
+                currentTick - this.tickOfLastMissionUpdate >= this.difficultyProfile.missionUpdateIntervalTicks
+            ) {
+                this.tickOfLastMissionUpdate = currentTick;
+                this.profiler.measure("MissionController.onAiUpdate", () =>
+                    missionController.onAiUpdate(game, this.productionApi, this.actionsApi, myPlayer, matchAwareness),
                 );
             }
 
+            this.updateStalemateState(game, myPlayer);
+
             const unitTypeRequests = this.missionController.getRequestedUnitTypes();
 
             // Build logic.
-            this.queueController.onAiUpdate(
-                game,
-                this.productionApi,
-                this.actionsApi,
-                myPlayer,
-                threatCache,
-                unitTypeRequests,
-                (message) => this.logBotStatus(message),
+            this.profiler.measure("QueueController.onAiUpdate", () =>
+                this.queueController.onAiUpdate(
+                    game,
+                    this.productionApi,
+                    this.actionsApi,
+                    myPlayer,
+                    matchAwareness,
+                    threatCache,
+                    unitTypeRequests,
+                    (message) => this.logBotStatus(message),
+                ),
             );
+
+            this.profiler.measure("HarvesterController.onAiUpdate", () =>
+                this.harvesterController.onAiUpdate(game, this.actionsApi, myPlayer, matchAwareness, (message) =>
+                    this.logBotStatus(message),
+                ),
+            );
+            this.profiler.endTick();
         }
     }
 
+    private updateStalemateState(game: GameApi, playerData: PlayerData) {
+        const windowTicks = this.options.stalemateWindowSeconds * NATURAL_TICK_RATE;
+        if (windowTicks <= 0 || !this.matchAwareness || !this.missionController) {
+            return;
+        }
+        const currentTick = game.getCurrentTick();
+        const quietTicks = currentTick - this.tickOfLastAttackOrder;
+        if (quietTicks < windowTicks) {
+            if (this.stalemateState !== StalemateState.None) {
+                this.logBotStatus(`Fighting has resumed, no longer in a stalemate.`);
+                this.stalemateState = StalemateState.None;
+            }
+            return;
+        }
+
+        if (this.stalemateState === StalemateState.None) {
+            this.logBotStatus(
+                `Nothing destroyed for ${formatTimeDuration(quietTicks / NATURAL_TICK_RATE)}, going all in.`,
+                true,
+            );
+            this.stalemateState = StalemateState.Escalated;
+            this.stalemateEscalatedAt = currentTick;
+            this.matchAwareness.forceAttackUntil(currentTick + windowTicks);
+            this.matchAwareness.getScoutingManager().rescout(game, playerData, this.matchAwareness.getSectorCache());
+            const target =
+                generateTarget(game, playerData, this.matchAwareness, true) ?? this.matchAwareness.getMainRallyPoint();
+            this.missionController.addMission(
+                new AllInAttackMission(
+                    "all-in_" + currentTick,
+                    this.matchAwareness.getMainRallyPoint(),
+                    target,
+                    (message, sayInGame) => this.logBotStatus(message, sayInGame),
+                ),
+            );
+        } else if (
+            this.stalemateState === StalemateState.Escalated &&
+            currentTick > this.stalemateEscalatedAt + windowTicks
+        ) {
+            this.logBotStatus(`Still nothing destroyed after going all in, declaring a stalemate.`, true);
+            this.stalemateState = StalemateState.Stalemate;
+        }
+    }
+
+    /**
+     * Handles a chat message from another player. Allies can give the bot orders such as "attack <player>", "defend me",
+     * "expand", "go air", "stop air", "hold" and "status", see `parseAllyCommand`.
+     *
+     * The game API doesn't pass chat messages on to bots, so this has to be called by whatever is relaying the chat,
+     * such as the runner's `ConsoleChatRelay`.
+     */
+    public onAllyChatMessage(sender: string, text: string) {
+        if (!this.matchAwareness || !this.missionController || this.didQuitGame) {
+            return;
+        }
+        this.allyCommandHandler.onChatMessage(
+            this.gameApi,
+            this.actionsApi,
+            this.gameApi.getPlayerData(this.name),
+            this.matchAwareness,
+            this.missionController,
+            this.queueController,
+            sender,
+            text,
+        );
+    }
+
+    /**
+     * True if nothing has been destroyed for a long time, even after we tried to force the issue.
+     */
+    public isStalemated() {
+        return this.stalemateState === StalemateState.Stalemate;
+    }
+
+    public getMatchStats(): BotMatchStats {
+        return {
+            name: this.name,
+            country: this.country,
+            difficulty: BotDifficulty[this.difficulty],
+            personality: this.personality.name,
+            ...(this.matchAwareness?.getArmyStats() ?? {
+                unitsBuilt: {},
+                unitsLost: {},
+                buildingsLost: {},
+                peakArmyValue: 0,
+            }),
+            creditsSpent: this.queueController.getCreditsSpent(),
+            missions: this.missionController?.getMissionStats() ?? { started: {}, disbanded: {} },
+        };
+    }
+
+    /**
+     * Timings of the bot's subsystems over the match so far, or null if profiling is off.
+     */
+    public getProfileReport(): ProfileReport | null {
+        return this.profiler.isEnabled() ? this.profiler.getReport() : null;
+    }
+
     private getHumanTimestamp(game: GameApi) {
         return formatTimeDuration(game.getCurrentTick() / NATURAL_TICK_RATE);
     }
@@ -198,8 +433,9 @@ export class SupalosaBot extends Bot {
     override onGameEvent(ev: ApiEvent) {
         switch (ev.type) {
             case ApiEventType.ObjectDestroy: {
-                // Add to the stalemate detection.
-                if (ev.attackerInfo?.playerName == this.name) {
+                // Add to the stalemate detection. Only count player-owned objects that were destroyed in combat, so
+                // that sold buildings or trees don't keep a stalled game going.
+                if (ev.attackerInfo && this.matchAwareness?.isPlayerObject(ev.target)) {
                     this.tickOfLastAttackOrder += (this.gameApi.getCurrentTick() - this.tickOfLastAttackOrder) / 2;
                 }
                 break;
@@ -207,5 +443,6 @@ export class SupalosaBot extends Bot {
             default:
                 break;
         }
+        this.matchAwareness?.onGameEvent(this.gameApi, ev);
     }
 }
@@ -0,0 +1,126 @@
+import assert from "assert";
+import { ObjectType, Vector2 } from "@chronodivide/game-api";
+import { MatchAwarenessImpl } from "./awareness.js";
+import { SECTOR_SIZE, SectorCache } from "./map/sector.js";
+import { FakeGameApi } from "../../test/fakeGameApi.js";
+
+describe("MatchAwarenessImpl", () => {
+    const ME = "Me";
+    const ENEMY = "Enemy";
+    const MAP_SIZE = { width: SECTOR_SIZE * 4, height: SECTOR_SIZE * 4 };
+    const MY_START = new Vector2(4, 4);
+    const ENEMY_START = new Vector2(40, 40);
+    const REACTION_DELAY_TICKS = 20;
+
+    let game: FakeGameApi;
+    let matchAwareness: MatchAwarenessImpl;
+
+    // Avoids the ticks where the threat and rally point are recalculated, which aren't under test here.
+    const updateAt = (tick: number) => {
+        game.currentTick = tick;
+        matchAwareness.onAiUpdate(game.asGameApi(), game.getPlayerData(ME));
+    };
+    const hostileIds = () => matchAwareness.getHostilesNearPoint2d(MY_START, 10).map(({ unitId }) => unitId);
+
+    beforeEach(() => {
+        game = new FakeGameApi(MAP_SIZE, [MY_START, ENEMY_START])
+            .addPlayer(ME, { startLocation: MY_START })
+            .addPlayer(ENEMY, { startLocation: ENEMY_START });
+        game.mapApi.reveal(ME, { x: 0, y: 0, width: 10, height: 10 });
+        matchAwareness = new MatchAwarenessImpl(
+            null,
+            new SectorCache(game.mapApi.asMapApi(), MAP_SIZE),
+            MY_START,
+            () => {},
+            REACTION_DELAY_TICKS,
+        );
+        matchAwareness.onGameStart(game.asGameApi(), game.getPlayerData(ME));
+    });
+
+    it("only reports hostiles after they have been in sight for the reaction delay", () => {
+        const tank = game.addObject({ name: "HTNK", owner: ENEMY, rx: 6, ry: 6 });
+
+        updateAt(1);
+        assert.deepStrictEqual(hostileIds(), []);
+        updateAt(1 + REACTION_DELAY_TICKS - 1);
+        assert.deepStrictEqual(hostileIds(), []);
+        updateAt(1 + REACTION_DELAY_TICKS);
+        assert.deepStrictEqual(hostileIds(), [tank]);
+    });
+
+    it("has to notice hostiles again after losing sight of them", () => {
+        const tank = game.addObject({ name: "HTNK", owner: ENEMY, rx: 6, ry: 6 });
+        updateAt(1);
+        updateAt(1 + REACTION_DELAY_TICKS);
+        assert.deepStrictEqual(hostileIds(), [tank]);
+
+        game.moveObject(tank, 20, 20);
+        updateAt(41);
+        game.moveObject(tank, 6, 6);
+        updateAt(42);
+        assert.deepStrictEqual(hostileIds(), []);
+        updateAt(42 + REACTION_DELAY_TICKS);
+        assert.deepStrictEqual(hostileIds(), [tank]);
+    });
+
+    it("reports hostiles straight away without a reaction delay", () => {
+        matchAwareness = new MatchAwarenessImpl(
+            null,
+            new SectorCache(game.mapApi.asMapApi(), MAP_SIZE),
+            MY_START,
+            () => {},
+        );
+        const tank = game.addObject({ name: "HTNK", owner: ENEMY, rx: 6, ry: 6 });
+
+        updateAt(1);
+        assert.deepStrictEqual(hostileIds(), [tank]);
+    });
+
+    it("carries on when the map analysis can't be saved", () => {
+        const messages: string[] = [];
+        matchAwareness = new MatchAwarenessImpl(
+            null,
+            new SectorCache(game.mapApi.asMapApi(), MAP_SIZE),
+            MY_START,
+            (message) => messages.push(message),
+            REACTION_DELAY_TICKS,
+            undefined,
+            null,
+            undefined,
+            {
+                load: () => null,
+                save: () => {
+                    throw new Error("read-only file system");
+                },
+            },
+        );
+        matchAwareness.onGameStart(game.asGameApi(), game.getPlayerData(ME));
+
+        assert.ok(messages.includes("Couldn't save the map analysis: read-only file system"));
+        assert.notStrictEqual(matchAwareness.getReachabilityMap(), null);
+    });
+
+    it("keeps the main base at the construction yard closest to where we started", () => {
+        game.defineRules("GACNST", ObjectType.Building, { constructionYard: true });
+        const home = game.addObject({ name: "GACNST", owner: ME, rx: 5, ry: 5 });
+        game.addObject({ name: "GACNST", owner: ME, rx: 25, ry: 20 });
+
+        updateAt(1);
+        assert.deepStrictEqual(matchAwareness.getMainBaseLocation(), new Vector2(5, 5));
+
+        game.removeObject(home);
+        updateAt(2);
+        assert.deepStrictEqual(matchAwareness.getMainBaseLocation(), new Vector2(25, 20));
+    });
+
+    it("remembers where the main base was once we have no construction yard left", () => {
+        assert.deepStrictEqual(matchAwareness.getMainBaseLocation(), MY_START);
+
+        game.defineRules("GACNST", ObjectType.Building, { constructionYard: true });
+        const constructionYard = game.addObject({ name: "GACNST", owner: ME, rx: 20, ry: 8 });
+        updateAt(1);
+        game.removeObject(constructionYard);
+        updateAt(2);
+        assert.deepStrictEqual(matchAwareness.getMainBaseLocation(), new Vector2(20, 8));
+    });
+});
@@ -1,13 +1,54 @@
-import { GameApi, GameObjectData, ObjectType, PlayerData, UnitData, Vector2 } from "@chronodivide/game-api";
-import { SectorCache } from "./map/sector";
+import {
+    ApiEvent,
+    ApiEventType,
+    GameApi,
+    GameObjectData,
+    ObjectType,
+    PlayerData,
+    UnitData,
+    Vector2,
+} from "@chronodivide/game-api";
+import { InfluenceSource, SectorCache } from "./map/sector";
 import { GlobalThreat } from "./threat/threat";
-import { calculateGlobalThreat } from "./threat/threatCalculator.js";
+import { calculateFirepowerByTarget, calculateGlobalThreat, getWeaponRange } from "./threat/threatCalculator.js";
 import { determineMapBounds, getDistanceBetweenPoints, getPointTowardsOtherPoint } from "./map/map.js";
 import { Circle, Quadtree } from "@timohausmann/quadtree-ts";
 import { ScoutingManager } from "./common/scout.js";
+import { getCachedTechnoRules, getCachedTechnoRulesByName } from "./common/rulesCache.js";
+import { isOwnedByNeutral, isSelectableCombatant, maxBy } from "./common/utils.js";
+import { TickProfiler } from "./common/profiler.js";
+import { BotPersonality, DEFAULT_PERSONALITY } from "./common/personality.js";
+import { TeamChannel, combineTeamThreat } from "./team/teamChannel.js";
+import { EnemyModel, EnemyTracker } from "./threat/enemyTracker.js";
+import { EnemyMemory } from "./threat/enemyMemory.js";
+import { EnemyTech, inferEnemyTech } from "./threat/enemyTech.js";
+import { OreFieldTracker, PlayerBase } from "./map/oreFields.js";
+import { MapConnectivity, MapConnectivityAnalysis, ReachabilityMap } from "./map/connectivity.js";
+import { MapTopology, RegionKind, getPointBehindRegion } from "./map/topology.js";
+import {
+    MapAnalysis,
+    MapAnalysisStore,
+    analyseMap,
+    deserialiseMapAnalysis,
+    hashMap,
+    serialiseMapAnalysis,
+} from "./map/mapAnalysis.js";
+import { BaseLayoutPlanner } from "./building/baseLayoutPlanner.js";
 
 export type UnitPositionQuery = { x: number; y: number; unitId: number };
 
+/**
+ * Running totals of the bot's own forces over the course of the match.
+ */
+export type ArmyStats = {
+    // Objects that appeared under our control after the start of the game (built, deployed or captured), by type.
+    unitsBuilt: { [name: string]: number };
+    unitsLost: { [name: string]: number };
+    buildingsLost: { [name: string]: number };
+    // Highest total cost of our combat units seen at any one time.
+    peakArmyValue: number;
+};
+
 /**
  * The bot's understanding of the current state of the game.
  */
@@ -25,6 +66,7 @@ export interface MatchAwareness {
     /**
      * Returns the enemy unit IDs in a certain radius of a point.
      * Warning: this may return non-combatant hostiles, such as neutral units.
+     * Enemies only show up once they have been in sight for the bot's reaction delay.
      */
     getHostilesNearPoint2d(point: Vector2, radius: number): UnitPositionQuery[];
 
@@ -39,6 +81,49 @@ export interface MatchAwareness {
      */
     getMainRallyPoint(): Vector2;
 
+    /**
+     * Returns where our main base is: our construction yard closest to where we started, or where the last one was if
+     * we have none left. Buildings are placed around it.
+     */
+    getMainBaseLocation(): Vector2;
+
+    /**
+     * Returns what we know about each of our opponents.
+     */
+    getEnemies(): EnemyModel[];
+
+    /**
+     * Returns the opponent we are focusing our attacks on, or null if there is none left.
+     */
+    getTargetPlayer(): EnemyModel | null;
+
+    /**
+     * Returns what we have inferred of each opponent's tech from the buildings of theirs that we have seen.
+     */
+    getEnemyTechs(): EnemyTech[];
+
+    getEnemyTech(playerName: string): EnemyTech | null;
+
+    /**
+     * Returns how the terrain lets us reach the base of another player, by land, by sea or both.
+     */
+    getConnectivityTo(playerName: string): MapConnectivity;
+
+    /**
+     * Returns the land and water connectivity of the map, or null before the game has started.
+     */
+    getMapConnectivity(): MapConnectivityAnalysis | null;
+
+    /**
+     * Returns where each kind of unit can get to on the map, or null before the game has started.
+     */
+    getReachabilityMap(): ReachabilityMap | null;
+
+    /**
+     * Returns the chokepoints and ramps of the map, or null before the game has started.
+     */
+    getMapTopology(): MapTopology | null;
+
     onGameStart(gameApi: GameApi, playerData: PlayerData): void;
 
     /**
@@ -53,8 +138,55 @@ export interface MatchAwareness {
      */
     shouldAttack(): boolean;
 
+    /**
+     * Stay in attack mode until the given tick, regardless of the threat assessment.
+     */
+    forceAttackUntil(tick: number): void;
+
+    /**
+     * Stay in defence mode and don't start new attacks until the given tick. Forcing an attack ends the hold.
+     */
+    holdUntil(tick: number): void;
+
+    /**
+     * True if we have been told to hold.
+     */
+    isHolding(gameApi: GameApi): boolean;
+
+    /**
+     * True if the object belongs to us, or to a (non-neutral) enemy that was visible in the last update.
+     */
+    isPlayerObject(unitId: number): boolean;
+
     getScoutingManager(): ScoutingManager;
 
+    /**
+     * Returns the ore and gem fields on the map.
+     */
+    getOreFields(): OreFieldTracker;
+
+    /**
+     * Returns the enemy units and buildings we have seen, including the ones that are now out of sight.
+     */
+    getEnemyMemory(): EnemyMemory;
+
+    /**
+     * Returns the planner that decides where our new buildings go.
+     */
+    getBaseLayoutPlanner(): BaseLayoutPlanner;
+
+    /**
+     * Returns the channel shared with our allied bots, or null if we aren't sharing intel.
+     */
+    getTeamChannel(): TeamChannel | null;
+
+    /**
+     * Returns the totals of units built and lost so far.
+     */
+    getArmyStats(): ArmyStats;
+
+    onGameEvent(gameApi: GameApi, event: ApiEvent): void;
+
     getGlobalDebugText(): string | undefined;
 }
 
@@ -62,8 +194,30 @@ const SECTORS_TO_UPDATE_PER_CYCLE = 8;
 
 const RALLY_POINT_UPDATE_INTERVAL_TICKS = 90;
 
+// The rally point goes to a chokepoint towards the target player within this distance of our base, if there is one.
+const RALLY_CHOKEPOINT_MIN_DISTANCE = 8;
+const RALLY_CHOKEPOINT_MAX_DISTANCE = 25;
+
+// How far on our side of that chokepoint to rally, so that the army waiting there doesn't block it.
+const RALLY_CHOKEPOINT_SETBACK = 4;
+
 const THREAT_UPDATE_INTERVAL_TICKS = 30;
 
+// Moves of the main base shorter than this aren't worth mentioning, e.g. when our first construction yard deploys.
+const MAIN_BASE_MOVE_LOG_DISTANCE = 15;
+
+const ORE_FIELD_UPDATE_INTERVAL_TICKS = 150;
+
+const CONNECTIVITY_DESCRIPTIONS: { [connectivity in MapConnectivity]: string } = {
+    [MapConnectivity.Land]: "by land",
+    [MapConnectivity.Mixed]: "by land or by sea",
+    [MapConnectivity.Naval]: "by sea only",
+    [MapConnectivity.None]: "by air only",
+};
+
+// Allies' threat estimates older than this are ignored when deciding whether to attack.
+const MAX_ALLY_THREAT_AGE_TICKS = THREAT_UPDATE_INTERVAL_TICKS * 4;
+
 type QTUnit = Circle<number>;
 
 const rebuildQuadtree = (quadtree: Quadtree<QTUnit>, units: GameObjectData[]) => {
@@ -79,15 +233,42 @@ export class MatchAwarenessImpl implements MatchAwareness {
     private hostileQuadTree: Quadtree<QTUnit>;
     private scoutingManager: ScoutingManager;
 
+    // Objects we have owned and that haven't been destroyed yet, so losses can be attributed by type. Entries are kept
+    // when an object disappears for other reasons (e.g. entering a transport) so it isn't counted as built twice.
+    private ownObjects: Map<number, { name: string; type: ObjectType; cost: number }> = new Map();
+    private armyStats: ArmyStats = { unitsBuilt: {}, unitsLost: {}, buildingsLost: {}, peakArmyValue: 0 };
+
+    private hostilePlayerUnitIds: Set<number> = new Set();
+    // Tick at which each hostile currently in sight was first seen, for the reaction delay.
+    private hostileFirstSeenAt: Map<number, number> = new Map();
+    private forcedAttackUntilTick = 0;
+    private holdUntilTick = 0;
+    private enemyTracker = new EnemyTracker();
+    private enemyMemory = new EnemyMemory();
+    private enemyTechs: Map<string, EnemyTech> = new Map();
+    private oreFields = new OreFieldTracker();
+    private mapConnectivity: MapConnectivityAnalysis | null = null;
+    private connectivityByPlayer: Map<string, MapConnectivity> = new Map();
+    private reachabilityMap: ReachabilityMap | null = null;
+    private mapTopology: MapTopology | null = null;
+    // Set at the start of the game.
+    private mainBaseLocation = new Vector2(0, 0);
+
     constructor(
         private threatCache: GlobalThreat | null,
         private sectorCache: SectorCache,
         private mainRallyPoint: Vector2,
         private logger: (message: string, sayInGame?: boolean) => void,
+        private reactionDelayTicks: number = 0,
+        private personality: BotPersonality = DEFAULT_PERSONALITY,
+        private teamChannel: TeamChannel | null = null,
+        private profiler: TickProfiler = new TickProfiler(false, 0),
+        private mapAnalysisStore: MapAnalysisStore | null = null,
+        private baseLayoutPlanner: BaseLayoutPlanner = new BaseLayoutPlanner(),
     ) {
         const { width, height } = sectorCache.getMapBounds();
         this.hostileQuadTree = new Quadtree({ width, height });
-        this.scoutingManager = new ScoutingManager(logger);
+        this.scoutingManager = new ScoutingManager(logger, personality);
     }
 
     getHostilesNearPoint2d(point: Vector2, radius: number): UnitPositionQuery[] {
@@ -111,14 +292,94 @@ export class MatchAwarenessImpl implements MatchAwareness {
     getMainRallyPoint(): Vector2 {
         return this.mainRallyPoint;
     }
+    getMainBaseLocation(): Vector2 {
+        return this.mainBaseLocation;
+    }
+    getEnemies(): EnemyModel[] {
+        return this.enemyTracker.getEnemies();
+    }
+    getTargetPlayer(): EnemyModel | null {
+        return this.enemyTracker.getTargetPlayer();
+    }
+
+    getEnemyTechs(): EnemyTech[] {
+        return [...this.enemyTechs.values()];
+    }
+
+    getEnemyTech(playerName: string): EnemyTech | null {
+        return this.enemyTechs.get(playerName) ?? null;
+    }
+
+    getConnectivityTo(playerName: string): MapConnectivity {
+        return this.connectivityByPlayer.get(playerName) ?? MapConnectivity.Land;
+    }
+
+    getMapConnectivity(): MapConnectivityAnalysis | null {
+        return this.mapConnectivity;
+    }
+
+    getReachabilityMap(): ReachabilityMap | null {
+        return this.reachabilityMap;
+    }
+
+    getMapTopology(): MapTopology | null {
+        return this.mapTopology;
+    }
+
     getScoutingManager(): ScoutingManager {
         return this.scoutingManager;
     }
 
+    getOreFields(): OreFieldTracker {
+        return this.oreFields;
+    }
+
+    getEnemyMemory(): EnemyMemory {
+        return this.enemyMemory;
+    }
+
+    getBaseLayoutPlanner(): BaseLayoutPlanner {
+        return this.baseLayoutPlanner;
+    }
+
+    getTeamChannel(): TeamChannel | null {
+        return this.teamChannel;
+    }
+
+    getArmyStats(): ArmyStats {
+        return this.armyStats;
+    }
+
     shouldAttack(): boolean {
         return this._shouldAttack;
     }
 
+    forceAttackUntil(tick: number): void {
+        this.forcedAttackUntilTick = Math.max(this.forcedAttackUntilTick, tick);
+        this.holdUntilTick = 0;
+        if (!this._shouldAttack) {
+            this.logger(`Forced switch to attack mode.`);
+            this._shouldAttack = true;
+        }
+    }
+
+    holdUntil(tick: number): void {
+        this.holdUntilTick = Math.max(this.holdUntilTick, tick);
+        this.forcedAttackUntilTick = 0;
+        if (this._shouldAttack) {
+            this.logger(`Holding, switched to defence mode.`);
+            this._shouldAttack = false;
+        }
+    }
+
+    isHolding(gameApi: GameApi): boolean {
+        return gameApi.getCurrentTick() < this.holdUntilTick;
+    }
+
+    isPlayerObject(unitId: number): boolean {
+        return this.ownObjects.has(unitId) || this.hostilePlayerUnitIds.has(unitId);
+    }
+
     private checkShouldAttack(threatCache: GlobalThreat, threatFactor: number) {
         let scaledGroundPower = threatCache.totalAvailableAntiGroundFirepower * 1.1;
         let scaledGroundThreat =
@@ -133,11 +394,77 @@ export class MatchAwarenessImpl implements MatchAwareness {
 
     public onGameStart(gameApi: GameApi, playerData: PlayerData) {
         this.scoutingManager.onGameStart(gameApi, playerData, this.sectorCache);
+        this.enemyTracker.onGameStart(gameApi, playerData);
+        this.mainBaseLocation = playerData.startLocation;
+        this.analyseMap(gameApi, playerData);
+        // Starting units don't count as built.
+        this.updateOwnObjects(gameApi, playerData, false);
+    }
+
+    private updateOwnObjects(game: GameApi, playerData: PlayerData, countAsBuilt: boolean) {
+        let armyValue = 0;
+        game.getVisibleUnits(playerData.name, "self").forEach((unitId) => {
+            const unit = game.getGameObjectData(unitId);
+            if (!unit) {
+                return;
+            }
+            if (!this.ownObjects.has(unitId)) {
+                this.ownObjects.set(unitId, {
+                    name: unit.name,
+                    type: unit.type,
+                    cost: getCachedTechnoRules(game, unitId)?.cost ?? 0,
+                });
+                if (countAsBuilt) {
+                    this.armyStats.unitsBuilt[unit.name] = (this.armyStats.unitsBuilt[unit.name] ?? 0) + 1;
+                }
+            }
+            if (isSelectableCombatant(unit)) {
+                armyValue += getCachedTechnoRules(game, unitId)?.cost ?? 0;
+            }
+        });
+        this.armyStats.peakArmyValue = Math.max(this.armyStats.peakArmyValue, armyValue);
+    }
+
+    private updateMainBaseLocation(game: GameApi, playerData: PlayerData) {
+        const constructionYard = maxBy(
+            game
+                .getVisibleUnits(playerData.name, "self", (r) => r.constructionYard)
+                .map((unitId) => game.getGameObjectData(unitId))
+                .filter((unit): unit is GameObjectData => !!unit)
+                .map(({ tile }) => new Vector2(tile.rx, tile.ry)),
+            (position) => -position.distanceTo(playerData.startLocation),
+        );
+        if (!constructionYard) {
+            return;
+        }
+        if (constructionYard.distanceTo(this.mainBaseLocation) >= MAIN_BASE_MOVE_LOG_DISTANCE) {
+            this.logger(`Our main base is now at ${constructionYard.x},${constructionYard.y}.`);
+        }
+        this.mainBaseLocation = constructionYard;
+    }
+
+    onGameEvent(gameApi: GameApi, event: ApiEvent): void {
+        if (event.type !== ApiEventType.ObjectDestroy) {
+            return;
+        }
+        this.teamChannel?.forgetSighting(event.target);
+        this.enemyMemory.forget(event.target);
+        const ownObject = this.ownObjects.get(event.target);
+        this.enemyTracker.onObjectDestroyed(event.target, event.attackerInfo?.playerName, ownObject?.cost ?? null);
+        if (!ownObject) {
+            return;
+        }
+        const losses = ownObject.type === ObjectType.Building ? this.armyStats.buildingsLost : this.armyStats.unitsLost;
+        losses[ownObject.name] = (losses[ownObject.name] ?? 0) + 1;
+        this.ownObjects.delete(event.target);
     }
 
     onAiUpdate(game: GameApi, playerData: PlayerData): void {
         const sectorCache = this.sectorCache;
 
+        this.updateOwnObjects(game, playerData, true);
+        this.updateMainBaseLocation(game, playerData);
+
         sectorCache.updateSectors(game.getCurrentTick(), SECTORS_TO_UPDATE_PER_CYCLE, game.mapApi, playerData);
 
         this.scoutingManager.onAiUpdate(game, playerData, sectorCache);
@@ -149,6 +476,8 @@ export class MatchAwarenessImpl implements MatchAwareness {
 
         // Build the quadtree, if this is too slow we should consider doing this periodically.
         const hostileUnitIds = game.getVisibleUnits(playerData.name, "enemy");
+        // Hostiles that have been in sight for the reaction delay.
+        let noticedHostiles: GameObjectData[] = [];
         try {
             const hostileUnits = hostileUnitIds
                 .map((id) => game.getGameObjectData(id))
@@ -157,32 +486,91 @@ export class MatchAwarenessImpl implements MatchAwareness {
                         gameObjectData !== undefined && (gameObjectData.hitPoints ?? 0) > 0,
                 );
 
-            rebuildQuadtree(this.hostileQuadTree, hostileUnits);
+            // Units that go out of sight have to be noticed again when they come back.
+            const currentTick = game.getCurrentTick();
+            const firstSeenAt = new Map(
+                hostileUnits.map((unit) => [unit.id, this.hostileFirstSeenAt.get(unit.id) ?? currentTick]),
+            );
+            this.hostileFirstSeenAt = firstSeenAt;
+            noticedHostiles = hostileUnits.filter(
+                (unit) => currentTick - firstSeenAt.get(unit.id)! >= this.reactionDelayTicks,
+            );
+            rebuildQuadtree(this.hostileQuadTree, noticedHostiles);
+            const hostilePlayerUnits = hostileUnits.filter((unit) => !!unit.owner && !isOwnedByNeutral(unit));
+            this.hostilePlayerUnitIds = new Set(hostilePlayerUnits.map((unit) => unit.id));
+            this.enemyMemory.update(
+                game,
+                playerData,
+                noticedHostiles.filter((unit) => this.hostilePlayerUnitIds.has(unit.id)),
+                this.hostilePlayerUnitIds,
+            );
+            this.teamChannel?.reportSightings(
+                noticedHostiles
+                    .filter((unit) => this.hostilePlayerUnitIds.has(unit.id))
+                    .map((unit) => ({
+                        unitId: unit.id,
+                        name: unit.name,
+                        owner: unit.owner!,
+                        type: unit.type,
+                        position: new Vector2(unit.tile.rx, unit.tile.ry),
+                        tick: currentTick,
+                    })),
+            );
         } catch (err) {
             // Hack. Will be fixed soon.
             console.error(`caught error`, hostileUnitIds);
         }
 
+        this.profiler.measure("SectorCache.updateInfluence", () =>
+            sectorCache.updateInfluence(
+                game.getCurrentTick(),
+                this.getInfluenceSources(game, playerData),
+                SECTORS_TO_UPDATE_PER_CYCLE,
+            ),
+        );
+
         if (game.getCurrentTick() % THREAT_UPDATE_INTERVAL_TICKS == 0) {
-            let visibility = sectorCache?.getOverallVisibility();
+            const visibility = sectorCache?.getOverallVisibility();
             if (visibility) {
                 this.logger(`${Math.round(visibility * 1000.0) / 10}% of tiles visible. Calculating threat.`);
                 // Update the global threat cache
-                this.threatCache = calculateGlobalThreat(game, playerData, visibility);
+                this.threatCache = this.profiler.measure("calculateGlobalThreat", () =>
+                    calculateGlobalThreat(game, playerData, visibility, this.enemyMemory),
+                );
+                this.teamChannel?.reportThreat(playerData.name, this.threatCache, game.getCurrentTick());
+                // Decide together with our allies, so that the team attacks as one.
+                const teamThreat = this.teamChannel
+                    ? combineTeamThreat(
+                          this.threatCache,
+                          this.teamChannel
+                              .getAllyThreats(playerData.name, game.getCurrentTick() - MAX_ALLY_THREAT_AGE_TICKS)
+                              .map(({ threat }) => threat),
+                      )
+                    : this.threatCache;
 
                 // As the game approaches 2 hours, be more willing to attack. (15 ticks per second)
                 const gameLengthFactor = Math.max(0, 1.0 - game.getCurrentTick() / (15 * 7200.0));
                 this.logger(`Game length multiplier: ${gameLengthFactor}`);
 
-                if (!this._shouldAttack) {
+                if (game.getCurrentTick() < this.forcedAttackUntilTick) {
+                    this._shouldAttack = true;
+                } else if (this.isHolding(game)) {
+                    this._shouldAttack = false;
+                } else if (!this._shouldAttack) {
                     // If not attacking, make it harder to switch to attack mode by multiplying the opponent's threat.
-                    this._shouldAttack = this.checkShouldAttack(this.threatCache, 1.25 * gameLengthFactor);
+                    this._shouldAttack = this.checkShouldAttack(
+                        teamThreat,
+                        this.personality.attackThreatFactor * gameLengthFactor,
+                    );
                     if (this._shouldAttack) {
                         this.logger(`Globally switched to attack mode.`);
                     }
                 } else {
                     // If currently attacking, make it harder to switch to defence mode my dampening the opponent's threat.
-                    this._shouldAttack = this.checkShouldAttack(this.threatCache, 0.75 * gameLengthFactor);
+                    this._shouldAttack = this.checkShouldAttack(
+                        teamThreat,
+                        this.personality.retreatThreatFactor * gameLengthFactor,
+                    );
                     if (!this._shouldAttack) {
                         this.logger(`Globally switched to defence mode.`);
                     }
@@ -190,27 +578,173 @@ export class MatchAwarenessImpl implements MatchAwareness {
             }
         }
 
-        // Update rally point every few ticks.
+        if (game.getCurrentTick() % ORE_FIELD_UPDATE_INTERVAL_TICKS === 0) {
+            this.profiler.measure("OreFieldTracker.update", () => this.updateOreFields(game, playerData));
+        }
+
+        // Update the enemy models and the rally point every few ticks.
         if (game.getCurrentTick() % RALLY_POINT_UPDATE_INTERVAL_TICKS === 0) {
-            const enemyPlayers = game
-                .getPlayers()
-                .filter((p) => p !== playerData.name && !game.areAlliedPlayers(playerData.name, p));
-            const enemy = game.getPlayerData(enemyPlayers[0]);
-            this.mainRallyPoint = getPointTowardsOtherPoint(
+            const targetChanged = this.profiler.measure("EnemyTracker.update", () =>
+                this.enemyTracker.update(game, playerData, noticedHostiles),
+            );
+            const targetPlayer = this.enemyTracker.getTargetPlayer();
+            if (targetChanged) {
+                this.logger(`Now focusing on ${targetPlayer?.name ?? "nobody"}.`);
+            }
+            this.updateEnemyTechs(game);
+            if (targetPlayer) {
+                const chokepoint = this.mapTopology?.getRegionTowards(
+                    this.mainBaseLocation,
+                    targetPlayer.baseLocation,
+                    RALLY_CHOKEPOINT_MIN_DISTANCE,
+                    RALLY_CHOKEPOINT_MAX_DISTANCE,
+                );
+                this.mainRallyPoint = chokepoint
+                    ? getPointBehindRegion(chokepoint, this.mainBaseLocation, RALLY_CHOKEPOINT_SETBACK)
+                    : getPointTowardsOtherPoint(game, this.mainBaseLocation, targetPlayer.baseLocation, 10, 10, 0);
+            }
+        }
+    }
+
+    // Our combat units and defences, and the enemy ones we remember counting for as much as we are sure they are still there.
+    private getInfluenceSources(game: GameApi, playerData: PlayerData): InfluenceSource[] {
+        const ourSources = game
+            .getVisibleUnits(playerData.name, "self", (r) => r.isSelectableCombatant || r.isBaseDefense)
+            .map((unitId) => game.getGameObjectData(unitId))
+            .filter((unit): unit is GameObjectData => !!unit)
+            .map((unit) => {
+                const rules = getCachedTechnoRules(game, unit.id);
+                const firepower = rules
+                    ? calculateFirepowerByTarget(game, rules, unit.hitPoints ?? 0, unit.maxHitPoints ?? 0)
+                    : { antiGround: 0, antiAir: 0 };
+                return { position: new Vector2(unit.tile.rx, unit.tile.ry), friendly: true, ...firepower };
+            });
+        const enemySources = this.enemyMemory.getRemembered().flatMap((object) => {
+            const rules = getCachedTechnoRulesByName(game, object.name);
+            if (!rules) {
+                return [];
+            }
+            const { antiGround, antiAir } = calculateFirepowerByTarget(
                 game,
-                playerData.startLocation,
-                enemy.startLocation,
-                10,
-                10,
-                0,
+                rules,
+                object.hitPoints,
+                object.maxHitPoints,
             );
+            if (antiGround === 0 && antiAir === 0) {
+                return [];
+            }
+            return [
+                {
+                    position: object.position,
+                    friendly: false,
+                    antiGround: antiGround * object.confidence,
+                    antiAir: antiAir * object.confidence,
+                    staticDefenceRange: object.type === ObjectType.Building ? getWeaponRange(game, rules) : undefined,
+                },
+            ];
+        });
+        return [...ourSources, ...enemySources];
+    }
+
+    // Loads what we know of the terrain from an earlier game on this map if we can, or works it out and saves it.
+    private analyseMap(game: GameApi, playerData: PlayerData) {
+        const mapBounds = this.sectorCache.getMapBounds();
+        const mapHash = this.profiler.measure("MapAnalysis.hash", () => hashMap(game.mapApi, mapBounds));
+        let mapAnalysis: MapAnalysis | null = null;
+        const serialised = this.mapAnalysisStore?.load();
+        if (serialised) {
+            try {
+                mapAnalysis = this.profiler.measure("MapAnalysis.load", () =>
+                    deserialiseMapAnalysis(serialised, mapHash, mapBounds),
+                );
+            } catch (err) {
+                this.logger(`Ignoring the saved map analysis, as it couldn't be read: ${(err as Error).message}`);
+            }
+        }
+        if (mapAnalysis) {
+            this.logger(`Loaded the saved map analysis (${mapHash}).`);
+            this.oreFields.restoreLayout(mapAnalysis.oreFieldLayout);
+            this.updateOreFields(game, playerData);
+        } else {
+            this.updateOreFields(game, playerData);
+            mapAnalysis = this.profiler.measure("MapAnalysis.analyse", () =>
+                analyseMap(game.mapApi, mapBounds, this.oreFields),
+            );
+            try {
+                this.mapAnalysisStore?.save(serialiseMapAnalysis(mapHash, mapAnalysis));
+            } catch (err) {
+                this.logger(`Couldn't save the map analysis: ${(err as Error).message}`);
+            }
         }
+        const { connectivity: mapConnectivity, reachability, topology } = mapAnalysis;
+        this.mapConnectivity = mapConnectivity;
+        this.reachabilityMap = reachability;
+        this.mapTopology = topology;
+
+        this.enemyTracker.getEnemies().forEach(({ name }) => {
+            const connectivity = mapConnectivity.getConnectivity(
+                playerData.startLocation,
+                game.getPlayerData(name).startLocation,
+            );
+            this.connectivityByPlayer.set(name, connectivity);
+            if (connectivity !== MapConnectivity.Land) {
+                this.logger(`${name} can be reached ${CONNECTIVITY_DESCRIPTIONS[connectivity]}.`);
+            }
+        });
+        const regions = topology.getRegions();
+        this.logger(
+            `Found ${regions.filter(({ kind }) => kind === RegionKind.Chokepoint).length} chokepoints and ` +
+                `${regions.filter(({ kind }) => kind === RegionKind.Ramp).length} ramps.`,
+        );
+    }
+
+    private updateOreFields(game: GameApi, playerData: PlayerData) {
+        const ourBases: PlayerBase[] = game
+            .getVisibleUnits(playerData.name, "self", (r) => r.constructionYard)
+            .map((unitId) => game.getGameObjectData(unitId))
+            .filter((unit): unit is GameObjectData => !!unit)
+            .map(({ tile }) => ({ owner: playerData.name, position: new Vector2(tile.rx, tile.ry) }));
+        const allyBases: PlayerBase[] = game
+            .getPlayers()
+            .filter((name) => name !== playerData.name && game.areAlliedPlayers(playerData.name, name))
+            .map((name) => ({ owner: name, position: game.getPlayerData(name).startLocation }));
+        const enemyBases: PlayerBase[] = this.enemyTracker
+            .getEnemies()
+            .map(({ name, baseLocation }) => ({ owner: name, position: baseLocation }));
+        const enemyBuildings = this.enemyMemory
+            .getRemembered()
+            .filter(({ type }) => type === ObjectType.Building)
+            .map(({ position }) => position);
+        this.oreFields.update(
+            game,
+            this.sectorCache,
+            [
+                ...(ourBases.length > 0 ? ourBases : [{ owner: playerData.name, position: this.mainBaseLocation }]),
+                ...allyBases,
+                ...enemyBases,
+            ],
+            enemyBuildings,
+        );
+    }
+
+    private updateEnemyTechs(game: GameApi) {
+        const remembered = this.enemyMemory.getRemembered();
+        this.enemyTracker.getEnemies().forEach(({ name }) => {
+            const tech = inferEnemyTech(game, name, remembered);
+            const previousPlan = this.enemyTechs.get(name)?.likelyPlan;
+            if (previousPlan !== undefined && previousPlan !== tech.likelyPlan) {
+                this.logger(`${name} is likely going for ${tech.likelyPlan}.`);
+            }
+            this.enemyTechs.set(name, tech);
+        });
     }
 
     public getGlobalDebugText(): string | undefined {
         if (!this.threatCache) {
             return undefined;
         }
+        const targetPlayer = this.enemyTracker.getTargetPlayer();
+        const targetTech = targetPlayer ? this.getEnemyTech(targetPlayer.name) : null;
         return (
             `Threat LAND: Them ${Math.round(this.threatCache.totalOffensiveLandThreat)}, us: ${Math.round(
                 this.threatCache.totalAvailableAntiGroundFirepower,
@@ -220,7 +754,9 @@ export class MatchAwarenessImpl implements MatchAwareness {
             )}.\n` +
             `Threat AIR: Them ${Math.round(this.threatCache.totalOffensiveAirThreat)}, us: ${Math.round(
                 this.threatCache.totalAvailableAntiAirFirepower,
-            )}.`
+            )}.\n` +
+            `Target: ${targetPlayer?.name ?? "none"}` +
+            (targetTech ? ` (likely going for ${targetTech.likelyPlan}).` : ".")
         );
     }
 }
@@ -0,0 +1,241 @@
+import assert from "assert";
+import { ObjectType, QueueStatus, QueueType, SideType, Vector2 } from "@chronodivide/game-api";
+import {
+    BuildOrderError,
+    BuildOrderRunner,
+    loadBuildOrders,
+    parseBuildOrders,
+    selectBuildOrder,
+} from "./buildOrderRunner.js";
+import { BuildOrder, MapSize } from "./common.js";
+import { MatchAwareness } from "../awareness.js";
+import { MapConnectivity } from "../map/connectivity.js";
+import { EnemyModel } from "../threat/enemyTracker.js";
+import { Countries } from "../common/utils.js";
+import { FakeGameApi, createTechnoRules } from "../../../test/fakeGameApi.js";
+import { FakeProductionApi } from "../../../test/fakeProductionApi.js";
+
+describe("parseBuildOrders", () => {
+    const parseProblems = (json: unknown) => {
+        try {
+            parseBuildOrders(json, "test.json");
+        } catch (err) {
+            assert.ok(err instanceof BuildOrderError);
+            return err.problems;
+        }
+        assert.fail("expected a BuildOrderError");
+    };
+
+    it("reads the side, countries and map sizes", () => {
+        const [buildOrder] = parseBuildOrders(
+            [
+                {
+                    name: "French",
+                    side: "allied",
+                    countries: ["French"],
+                    mapSizes: ["small", "large"],
+                    steps: [{ name: "GAPOWR" }, { name: "E1", count: 2, onlyIf: { maxEnemyDistance: 50 } }],
+                },
+            ],
+            "test.json",
+        );
+
+        assert.deepStrictEqual(buildOrder, {
+            name: "French",
+            side: SideType.GDI,
+            countries: [Countries.FRANCE],
+            mapSizes: [MapSize.Small, MapSize.Large],
+            steps: [{ name: "GAPOWR" }, { name: "E1", count: 2, onlyIf: { maxEnemyDistance: 50 } }],
+        });
+    });
+
+    it("reports every problem at once", () => {
+        const problems = parseProblems([
+            { name: "Bad side", side: "mutant", steps: [{ name: "GAPOWR" }] },
+            {
+                name: "Bad fields",
+                side: "soviet",
+                countries: ["Martians"],
+                mapSizes: ["huge"],
+                steps: [{ name: "NAPOWR", count: 0 }, { count: 2 }, { name: "E2", onlyIf: { maxEnemyDistance: "50" } }],
+                colour: "red",
+            },
+            { name: "No steps", side: "soviet", steps: [] },
+        ]);
+
+        assert.deepStrictEqual(problems, [
+            '[0].side: expected one of: allied, soviet, got "mutant"',
+            "[1].colour: unknown field, expected one of: name, description, side, countries, mapSizes, steps",
+            '[1].countries: unknown value "Martians", expected one of: ' + Object.values(Countries).join(", "),
+            '[1].mapSizes: unknown value "huge", expected one of: small, medium, large',
+            "[1].steps[0].count: expected a positive whole number, got 0",
+            "[1].steps[1].name: expected the name of a structure or unit",
+            '[1].steps[2].onlyIf.maxEnemyDistance: expected a number, got "50"',
+            "[2].steps: expected a non-empty array",
+        ]);
+    });
+
+    it("rejects anything but an array of build orders", () => {
+        assert.deepStrictEqual(parseProblems({ name: "Not a list" }), ["expected an array of build orders"]);
+    });
+
+    it("accepts the build orders that come with the bot", () => {
+        const buildOrders = loadBuildOrders();
+
+        assert.ok(buildOrders.some(({ side }) => side === SideType.GDI));
+        assert.ok(buildOrders.some(({ side }) => side === SideType.Nod));
+    });
+});
+
+describe("selectBuildOrder", () => {
+    const BUILD_ORDERS: BuildOrder[] = [
+        { name: "Allied", side: SideType.GDI, steps: [] },
+        { name: "Allied small", side: SideType.GDI, mapSizes: [MapSize.Small], steps: [] },
+        { name: "French", side: SideType.GDI, countries: [Countries.FRANCE], steps: [] },
+        { name: "Soviet", side: SideType.Nod, steps: [] },
+    ];
+
+    const select = (country: { name: string; side: SideType }, enemyDistance: number, random = 0) => {
+        const game = new FakeGameApi({ width: 50, height: 50 })
+            .addPlayer("Me", { startLocation: new Vector2(5, 5), country })
+            .queueRandomValues(random);
+        const matchAwareness = {
+            getEnemies: () => [{ name: "Enemy", distance: enemyDistance, defeated: false }],
+        } as unknown as MatchAwareness;
+        return selectBuildOrder(game.asGameApi(), game.getPlayerData("Me"), matchAwareness, BUILD_ORDERS)?.name;
+    };
+
+    it("picks from the build orders for our side, country and map size", () => {
+        assert.strictEqual(select({ name: Countries.USA, side: SideType.GDI }, 200), "Allied");
+        assert.strictEqual(select({ name: Countries.USA, side: SideType.GDI }, 50, 0.99), "Allied small");
+        assert.strictEqual(select({ name: Countries.FRANCE, side: SideType.GDI }, 200, 0.99), "French");
+        assert.strictEqual(select({ name: Countries.RUSSIA, side: SideType.Nod }, 50, 0.99), "Soviet");
+    });
+
+    it("finds nothing for a side without build orders", () => {
+        assert.strictEqual(select({ name: "Mutants", side: SideType.Mutant }, 50), undefined);
+    });
+});
+
+describe("BuildOrderRunner", () => {
+    const ME = "Me";
+    const POWER = createTechnoRules("GAPOWR", ObjectType.Building);
+    const REFINERY = createTechnoRules("GAREFN", ObjectType.Building);
+    const BARRACKS = createTechnoRules("GAPILE", ObjectType.Building);
+    const GI = createTechnoRules("E1", ObjectType.Infantry);
+
+    let game: FakeGameApi;
+    let productionApi: FakeProductionApi;
+    let enemy: EnemyModel;
+    let connectivity: MapConnectivity;
+    let runner: BuildOrderRunner;
+    let log: string[];
+
+    const matchAwareness = {
+        getEnemies: () => [enemy],
+        getConnectivityTo: () => connectivity,
+    } as unknown as MatchAwareness;
+    const update = (tick = game.currentTick) => {
+        game.currentTick = tick;
+        return runner.onAiUpdate(
+            game.asGameApi(),
+            productionApi.asProductionApi(),
+            game.getPlayerData(ME),
+            matchAwareness,
+            (message) => log.push(message),
+        )?.name;
+    };
+
+    beforeEach(() => {
+        game = new FakeGameApi({ width: 50, height: 50 }).addPlayer(ME, { startLocation: new Vector2(5, 5) });
+        productionApi = new FakeProductionApi()
+            .setAvailable(QueueType.Structures, POWER, REFINERY)
+            .setAvailable(QueueType.Infantry, GI);
+        enemy = {
+            name: "Enemy",
+            baseLocation: new Vector2(45, 45),
+            distance: 100,
+            strength: 0,
+            aggression: 0,
+            defeated: false,
+        };
+        connectivity = MapConnectivity.Land;
+        runner = new BuildOrderRunner([
+            {
+                name: "Test",
+                side: SideType.GDI,
+                steps: [
+                    { name: "GAPOWR" },
+                    { name: "E1", count: 2 },
+                    { name: "GAREFN", onlyIf: { maxEnemyDistance: 50 } },
+                    { name: "GAPILE" },
+                    { name: "GAPOWR", count: 2, onlyIf: { enemyReachableByLand: true } },
+                ],
+            },
+        ]);
+        log = [];
+    });
+
+    it("goes through the steps in order, counting what we have and what is in production", () => {
+        assert.strictEqual(update(), "GAPOWR");
+        assert.strictEqual(runner.isActive(), true);
+
+        productionApi.setQueueData(QueueType.Structures, {
+            status: QueueStatus.Active,
+            items: [{ rules: POWER, quantity: 1 }],
+        });
+        assert.strictEqual(update(), "E1");
+        game.addObject({ name: "E1", owner: ME, type: ObjectType.Infantry, rx: 5, ry: 5 });
+        assert.strictEqual(update(), "E1");
+        game.addObject({ name: "E1", owner: ME, type: ObjectType.Infantry, rx: 5, ry: 5 });
+        productionApi.setQueueData(QueueType.Structures, { status: QueueStatus.Idle, items: [] });
+        game.addObject({ name: "GAPOWR", owner: ME, type: ObjectType.Building, rx: 15, ry: 15 });
+
+        // The refinery is skipped as the enemy is too far away, and the barracks can't be built yet.
+        assert.strictEqual(update(), undefined);
+        assert.strictEqual(runner.getGlobalDebugText(), "Build order: Test, step 4/5 (GAPILE)");
+        assert.ok(log.includes("Skipping GAREFN in the build order."));
+
+        productionApi.setAvailable(QueueType.Structures, BARRACKS);
+        assert.strictEqual(update(), "GAPILE");
+        game.addObject({ name: "GAPILE", owner: ME, type: ObjectType.Building, rx: 10, ry: 10 });
+        assert.strictEqual(update(), "GAPOWR");
+        game.addObject({ name: "GAPOWR", owner: ME, type: ObjectType.Building, rx: 20, ry: 20 });
+
+        assert.strictEqual(update(), undefined);
+        assert.strictEqual(runner.isActive(), false);
+        assert.strictEqual(runner.getGlobalDebugText(), undefined);
+        assert.ok(log.includes("Finished the Test build order."));
+    });
+
+    it("is abandoned when an enemy rushes us", () => {
+        assert.strictEqual(update(), "GAPOWR");
+
+        enemy.aggression = 1000;
+        assert.strictEqual(update(), undefined);
+        assert.strictEqual(runner.isActive(), false);
+        assert.ok(log.includes("Abandoning the Test build order, as Enemy is rushing us."));
+    });
+
+    it("is abandoned when a step can't be built for too long", () => {
+        game.addObject({ name: "GAPOWR", owner: ME, type: ObjectType.Building, rx: 5, ry: 5 });
+        productionApi = new FakeProductionApi();
+
+        assert.strictEqual(update(100), undefined);
+        assert.strictEqual(update(900), undefined);
+        assert.strictEqual(runner.isActive(), true);
+        assert.strictEqual(update(1001), undefined);
+        assert.strictEqual(runner.isActive(), false);
+        assert.ok(log.includes("Abandoning the Test build order, as we can't build E1."));
+    });
+
+    it("does nothing without a build order for our side", () => {
+        game = new FakeGameApi({ width: 50, height: 50 }).addPlayer(ME, {
+            startLocation: new Vector2(5, 5),
+            country: { name: Countries.RUSSIA, side: SideType.Nod },
+        });
+
+        assert.strictEqual(update(), undefined);
+        assert.strictEqual(runner.isActive(), false);
+    });
+});
@@ -0,0 +1,355 @@
+import { readFileSync, readdirSync } from "fs";
+import { join } from "path";
+import { fileURLToPath } from "url";
+import { GameApi, PlayerData, ProductionApi, SideType, TechnoRules } from "@chronodivide/game-api";
+import { BuildOrder, BuildOrderCondition, BuildOrderStep, MapSize } from "./common.js";
+import { MatchAwareness } from "../awareness.js";
+import { MapConnectivity } from "../map/connectivity.js";
+import { Countries, DebugLogger } from "../common/utils.js";
+
+// The `buildOrders` directory at the root of the package, which holds one JSON file of build orders per side.
+export const DEFAULT_BUILD_ORDER_DIR = fileURLToPath(new URL("../../../../buildOrders/", import.meta.url));
+
+const SIDES: { [name: string]: SideType } = {
+    allied: SideType.GDI,
+    soviet: SideType.Nod,
+};
+
+const BUILD_ORDER_KEYS = ["name", "description", "side", "countries", "mapSizes", "steps"];
+const STEP_KEYS = ["name", "count", "onlyIf"];
+const CONDITION_TYPES: { [key: string]: string } = {
+    minEnemyDistance: "number",
+    maxEnemyDistance: "number",
+    enemyReachableByLand: "boolean",
+};
+
+export class BuildOrderError extends Error {
+    constructor(
+        public readonly source: string,
+        public readonly problems: string[],
+    ) {
+        super(`Invalid build orders (${source}):\n${problems.map((problem) => `  - ${problem}`).join("\n")}`);
+    }
+}
+
+const isObject = (value: unknown): value is { [key: string]: unknown } =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+
+const checkKeys = (input: { [key: string]: unknown }, keys: string[], path: string, problems: string[]) =>
+    Object.keys(input)
+        .filter((key) => !keys.includes(key))
+        .forEach((key) => problems.push(`${path}.${key}: unknown field, expected one of: ${keys.join(", ")}`));
+
+// Checks that `input` is an array of allowed values, recording a problem for anything else.
+function parseList<T>(input: unknown, allowed: T[], path: string, problems: string[]): T[] {
+    if (!Array.isArray(input) || input.length === 0) {
+        problems.push(`${path}: expected a non-empty array`);
+        return [];
+    }
+    input
+        .filter((value) => !allowed.includes(value))
+        .forEach((value) =>
+            problems.push(`${path}: unknown value ${JSON.stringify(value)}, expected one of: ${allowed.join(", ")}`),
+        );
+    return input;
+}
+
+function parseCondition(input: unknown, path: string, problems: string[]): BuildOrderCondition {
+    if (!isObject(input)) {
+        problems.push(`${path}: expected an object`);
+        return {};
+    }
+    checkKeys(input, Object.keys(CONDITION_TYPES), path, problems);
+    Object.entries(input)
+        .filter(([key, value]) => CONDITION_TYPES[key] && typeof value !== CONDITION_TYPES[key])
+        .forEach(([key, value]) =>
+            problems.push(`${path}.${key}: expected a ${CONDITION_TYPES[key]}, got ${JSON.stringify(value)}`),
+        );
+    return input as BuildOrderCondition;
+}
+
+function parseStep(input: unknown, path: string, problems: string[]): BuildOrderStep {
+    if (!isObject(input)) {
+        problems.push(`${path}: expected an object`);
+        return { name: "" };
+    }
+    checkKeys(input, STEP_KEYS, path, problems);
+    const { name, count, onlyIf } = input;
+    if (typeof name !== "string" || name === "") {
+        problems.push(`${path}.name: expected the name of a structure or unit`);
+    }
+    if (count !== undefined && (typeof count !== "number" || !Number.isInteger(count) || count < 1)) {
+        problems.push(`${path}.count: expected a positive whole number, got ${JSON.stringify(count)}`);
+    }
+    return {
+        name: name as string,
+        ...(count !== undefined && { count: count as number }),
+        ...(onlyIf !== undefined && { onlyIf: parseCondition(onlyIf, `${path}.onlyIf`, problems) }),
+    };
+}
+
+function parseBuildOrder(input: unknown, path: string, problems: string[]): BuildOrder | null {
+    if (!isObject(input)) {
+        problems.push(`${path}: expected an object`);
+        return null;
+    }
+    checkKeys(input, BUILD_ORDER_KEYS, path, problems);
+    const { name, description, side, countries, mapSizes, steps } = input;
+    if (typeof name !== "string" || name === "") {
+        problems.push(`${path}.name: expected a string`);
+    }
+    if (description !== undefined && typeof description !== "string") {
+        problems.push(`${path}.description: expected a string`);
+    }
+    if (typeof side !== "string" || !(side in SIDES)) {
+        problems.push(`${path}.side: expected one of: ${Object.keys(SIDES).join(", ")}, got ${JSON.stringify(side)}`);
+    }
+    if (!Array.isArray(steps) || steps.length === 0) {
+        problems.push(`${path}.steps: expected a non-empty array`);
+    }
+    return {
+        name: name as string,
+        ...(description !== undefined && { description: description as string }),
+        side: SIDES[side as string],
+        ...(countries !== undefined && {
+            countries: parseList(countries, Object.values(Countries), `${path}.countries`, problems),
+        }),
+        ...(mapSizes !== undefined && {
+            mapSizes: parseList(mapSizes, Object.values(MapSize), `${path}.mapSizes`, problems),
+        }),
+        steps: Array.isArray(steps)
+            ? steps.map((step, index) => parseStep(step, `${path}.steps[${index}]`, problems))
+            : [],
+    };
+}
+
+/**
+ * Validates parsed JSON as a list of build orders.
+ *
+ * @throws BuildOrderError listing every problem found, not just the first.
+ */
+export function parseBuildOrders(json: unknown, source: string): BuildOrder[] {
+    if (!Array.isArray(json)) {
+        throw new BuildOrderError(source, ["expected an array of build orders"]);
+    }
+    const problems: string[] = [];
+    const buildOrders = json
+        .map((buildOrder, index) => parseBuildOrder(buildOrder, `[${index}]`, problems))
+        .filter((buildOrder): buildOrder is BuildOrder => !!buildOrder);
+    if (problems.length > 0) {
+        throw new BuildOrderError(source, problems);
+    }
+    return buildOrders;
+}
+
+/**
+ * Loads the build orders from every JSON file in the given directory.
+ */
+export function loadBuildOrders(dir: string = DEFAULT_BUILD_ORDER_DIR): BuildOrder[] {
+    let fileNames: string[];
+    try {
+        fileNames = readdirSync(dir)
+            .filter((fileName) => fileName.endsWith(".json"))
+            .sort();
+    } catch (err) {
+        throw new BuildOrderError(dir, [`could not read directory: ${(err as Error).message}`]);
+    }
+    return fileNames.flatMap((fileName) => {
+        const path = join(dir, fileName);
+        let json: unknown;
+        try {
+            json = JSON.parse(readFileSync(path, "utf-8"));
+        } catch (err) {
+            throw new BuildOrderError(path, [`could not read file: ${(err as Error).message}`]);
+        }
+        return parseBuildOrders(json, path);
+    });
+}
+
+// Maps where the closest enemy starts within these distances are small or medium. Anything further is large.
+const SMALL_MAP_MAX_ENEMY_DISTANCE = 70;
+const MEDIUM_MAP_MAX_ENEMY_DISTANCE = 130;
+
+// We give up on the build order if we can't build the next step for this long, e.g. because we lost what it needs...
+const STEP_UNAVAILABLE_TIMEOUT_TICKS = 900;
+
+// ... or if it takes longer than this altogether...
+const BUILD_ORDER_TIMEOUT_TICKS = 9000;
+
+// ... or if an enemy has been attacking us this much (see `EnemyModel.aggression`), as the opening doesn't plan for it.
+const RUSH_AGGRESSION = 600;
+
+export const getMapSize = (enemyDistance: number) =>
+    enemyDistance <= SMALL_MAP_MAX_ENEMY_DISTANCE
+        ? MapSize.Small
+        : enemyDistance <= MEDIUM_MAP_MAX_ENEMY_DISTANCE
+        ? MapSize.Medium
+        : MapSize.Large;
+
+const getClosestEnemyDistance = (matchAwareness: MatchAwareness) =>
+    Math.min(
+        ...matchAwareness
+            .getEnemies()
+            .filter(({ defeated }) => !defeated)
+            .map(({ distance }) => distance),
+    );
+
+const conditionHolds = (matchAwareness: MatchAwareness, condition: BuildOrderCondition) => {
+    const enemyDistance = getClosestEnemyDistance(matchAwareness);
+    const { minEnemyDistance = 0, maxEnemyDistance = Infinity, enemyReachableByLand } = condition;
+    if (enemyDistance < minEnemyDistance || enemyDistance > maxEnemyDistance) {
+        return false;
+    }
+    if (enemyReachableByLand !== undefined) {
+        const reachableByLand = matchAwareness
+            .getEnemies()
+            .some(({ name }) =>
+                [MapConnectivity.Land, MapConnectivity.Mixed].includes(matchAwareness.getConnectivityTo(name)),
+            );
+        return reachableByLand === enemyReachableByLand;
+    }
+    return true;
+};
+
+/**
+ * Picks one of the build orders for our side, country and map size at random, or null if there is none.
+ */
+export function selectBuildOrder(
+    gameApi: GameApi,
+    playerData: PlayerData,
+    matchAwareness: MatchAwareness,
+    buildOrders: BuildOrder[],
+): BuildOrder | null {
+    const { country } = playerData;
+    if (!country) {
+        return null;
+    }
+    const mapSize = getMapSize(getClosestEnemyDistance(matchAwareness));
+    const candidates = buildOrders.filter(
+        ({ side, countries, mapSizes }) =>
+            side === country.side &&
+            (!countries || countries.some((name) => name === country.name)) &&
+            (!mapSizes || mapSizes.includes(mapSize)),
+    );
+    if (candidates.length === 0) {
+        return null;
+    }
+    return candidates[Math.floor(gameApi.generateRandom() * candidates.length)];
+}
+
+/**
+ * Follows a build order at the start of the game, one step at a time, until it is done or no longer makes sense.
+ */
+export class BuildOrderRunner {
+    // Undefined until we have picked one, null once there is no build order to follow.
+    private buildOrder: BuildOrder | null | undefined = undefined;
+    private stepIndex = 0;
+    private startedAt = 0;
+    private stepUnavailableSince: number | null = null;
+
+    constructor(private buildOrders: BuildOrder[] = loadBuildOrders()) {}
+
+    /**
+     * Moves the build order along.
+     *
+     * @returns What to build for the current step, or null if there is nothing to build for now, e.g. because the step
+     * is waiting for the previous one to finish.
+     */
+    public onAiUpdate(
+        gameApi: GameApi,
+        productionApi: ProductionApi,
+        playerData: PlayerData,
+        matchAwareness: MatchAwareness,
+        logger: DebugLogger,
+    ): TechnoRules | null {
+        const currentTick = gameApi.getCurrentTick();
+        if (this.buildOrder === undefined) {
+            this.buildOrder = selectBuildOrder(gameApi, playerData, matchAwareness, this.buildOrders);
+            this.startedAt = currentTick;
+            if (this.buildOrder) {
+                logger(`Following the ${this.buildOrder.name} build order.`);
+            }
+        }
+        const buildOrder = this.buildOrder;
+        if (!buildOrder) {
+            return null;
+        }
+
+        const rushingEnemy = matchAwareness.getEnemies().find(({ aggression }) => aggression >= RUSH_AGGRESSION);
+        if (rushingEnemy) {
+            return this.abandon(`${rushingEnemy.name} is rushing us`, logger);
+        }
+        if (currentTick > this.startedAt + BUILD_ORDER_TIMEOUT_TICKS) {
+            return this.abandon("it is taking too long", logger);
+        }
+
+        const availableObjects = productionApi.getAvailableObjects();
+        const findRules = (name: string) => availableObjects.find((rules) => rules.name === name);
+        while (this.stepIndex < buildOrder.steps.length) {
+            const { name, count = 1, onlyIf } = buildOrder.steps[this.stepIndex];
+            if (onlyIf && !conditionHolds(matchAwareness, onlyIf)) {
+                logger(`Skipping ${name} in the build order.`);
+            } else if (this.countOwnedAndQueued(gameApi, productionApi, playerData, name, findRules(name)) < count) {
+                break;
+            }
+            this.stepIndex++;
+            this.stepUnavailableSince = null;
+        }
+        if (this.stepIndex >= buildOrder.steps.length) {
+            logger(`Finished the ${buildOrder.name} build order.`);
+            this.buildOrder = null;
+            return null;
+        }
+
+        const { name } = buildOrder.steps[this.stepIndex];
+        const rules = findRules(name);
+        if (!rules) {
+            this.stepUnavailableSince = this.stepUnavailableSince ?? currentTick;
+            if (currentTick > this.stepUnavailableSince + STEP_UNAVAILABLE_TIMEOUT_TICKS) {
+                return this.abandon(`we can't build ${name}`, logger);
+            }
+            return null;
+        }
+        this.stepUnavailableSince = null;
+        return rules;
+    }
+
+    /**
+     * True while we are following a build order.
+     */
+    public isActive() {
+        return !!this.buildOrder;
+    }
+
+    public getGlobalDebugText(): string | undefined {
+        if (!this.buildOrder) {
+            return undefined;
+        }
+        const { name, steps } = this.buildOrder;
+        const step = steps[this.stepIndex];
+        return `Build order: ${name}, step ${this.stepIndex + 1}/${steps.length}` + (step ? ` (${step.name})` : "");
+    }
+
+    private abandon(reason: string, logger: DebugLogger) {
+        logger(`Abandoning the ${this.buildOrder?.name} build order, as ${reason}.`);
+        this.buildOrder = null;
+        return null;
+    }
+
+    private countOwnedAndQueued(
+        gameApi: GameApi,
+        productionApi: ProductionApi,
+        playerData: PlayerData,
+        name: string,
+        rules: TechnoRules | undefined,
+    ) {
+        const owned = gameApi.getVisibleUnits(playerData.name, "self", (r) => r.name === name).length;
+        if (!rules) {
+            return owned;
+        }
+        return productionApi
+            .getQueueData(productionApi.getQueueTypeForObject(rules))
+            .items.filter((item) => item.rules.name === name)
+            .reduce((total, { quantity }) => total + quantity, owned);
+    }
+}
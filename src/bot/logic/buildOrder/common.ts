@@ -0,0 +1,51 @@
+import { SideType } from "@chronodivide/game-api";
+import { Countries } from "../common/utils.js";
+
+/**
+ * How big the map is, judged by how far the closest enemy starts from us, which is what matters for an opening.
+ */
+export enum MapSize {
+    Small = "small",
+    Medium = "medium",
+    Large = "large",
+}
+
+/**
+ * Something about the match that decides whether a build order step is worth doing. Every field that is set has to
+ * hold.
+ */
+export type BuildOrderCondition = {
+    // Distance to the closest enemy start location.
+    minEnemyDistance?: number;
+    maxEnemyDistance?: number;
+    // Whether an enemy can reach us by land.
+    enemyReachableByLand?: boolean;
+};
+
+/**
+ * One step of a build order: a structure or unit to build.
+ */
+export type BuildOrderStep = {
+    name: string;
+    // The step is done once we have this many, counting the ones we had before and the ones in production. Defaults to
+    // 1.
+    count?: number;
+    // The step is skipped if this doesn't hold when we get to it.
+    onlyIf?: BuildOrderCondition;
+};
+
+/**
+ * A scripted opening, followed step by step at the start of the game before the build priorities take over. Build orders
+ * are loaded from the JSON files in the `buildOrders` directory, where `side` is written as `allied` or `soviet`.
+ */
+export type BuildOrder = {
+    name: string;
+    // What the build order is for, for whoever edits the build order files.
+    description?: string;
+    side: SideType;
+    // Only used by these countries, or by any country of the side if not set.
+    countries?: Countries[];
+    // Only used on maps of these sizes, or on any map if not set.
+    mapSizes?: MapSize[];
+    steps: BuildOrderStep[];
+};
@@ -1,7 +1,9 @@
-import { GameApi, PlayerData, TechnoRules, Vector2 } from "@chronodivide/game-api";
-import { getPointTowardsOtherPoint } from "../map/map.js";
+import { GameApi, PlayerData, TechnoRules } from "@chronodivide/game-api";
 import { GlobalThreat } from "../threat/threat.js";
-import { AiBuildingRules, getDefaultPlacementLocation, numBuildingsOwnedOfType } from "./buildingRules.js";
+import { AiBuildingRules, numBuildingsOwnedOfType } from "./buildingRules.js";
+import { getStaticDefencePlacement, isAirThreat } from "./common.js";
+import { MatchAwareness } from "../awareness.js";
+import { isExpectingAirUnits } from "../composition/common.js";
 
 export class AntiAirStaticDefence implements AiBuildingRules {
     constructor(
@@ -14,24 +16,9 @@ export class AntiAirStaticDefence implements AiBuildingRules {
         game: GameApi,
         playerData: PlayerData,
         technoRules: TechnoRules,
+        matchAwareness: MatchAwareness,
     ): { rx: number; ry: number } | undefined {
-        // Prefer front towards enemy.
-        let startLocation = playerData.startLocation;
-        let players = game.getPlayers();
-        let enemyFacingLocationCandidates: Vector2[] = [];
-        for (let i = 0; i < players.length; ++i) {
-            let playerName = players[i];
-            if (playerName == playerData.name) {
-                continue;
-            }
-            let enemyPlayer = game.getPlayerData(playerName);
-            enemyFacingLocationCandidates.push(
-                getPointTowardsOtherPoint(game, startLocation, enemyPlayer.startLocation, 4, 16, 1.5),
-            );
-        }
-        let selectedLocation =
-            enemyFacingLocationCandidates[Math.floor(game.generateRandom() * enemyFacingLocationCandidates.length)];
-        return getDefaultPlacementLocation(game, playerData, selectedLocation, technoRules, false, 0);
+        return getStaticDefencePlacement(game, playerData, technoRules, matchAwareness, isAirThreat, 0, false);
     }
 
     getPriority(
@@ -39,17 +26,21 @@ export class AntiAirStaticDefence implements AiBuildingRules {
         playerData: PlayerData,
         technoRules: TechnoRules,
         threatCache: GlobalThreat | null,
+        matchAwareness: MatchAwareness,
     ): number {
+        const strengthPerCost = (this.airStrength / technoRules.cost) * 1000;
+        const numOwned = numBuildingsOwnedOfType(game, playerData, technoRules);
         if (threatCache) {
             let denominator = threatCache.totalAvailableAntiAirFirepower + this.airStrength;
             if (threatCache.totalOffensiveAirThreat > denominator * 1.1) {
                 return this.basePriority * (threatCache.totalOffensiveAirThreat / Math.max(1, denominator));
+            } else if (isExpectingAirUnits(matchAwareness)) {
+                // Get the base amount up before the aircraft we know are coming show up.
+                return Math.max(0, this.basePriority * (1.0 - numOwned / this.baseAmount) * strengthPerCost);
             } else {
                 return 0;
             }
         }
-        const strengthPerCost = (this.airStrength / technoRules.cost) * 1000;
-        const numOwned = numBuildingsOwnedOfType(game, playerData, technoRules);
         return this.basePriority * (1.0 - numOwned / this.baseAmount) * strengthPerCost;
     }
 
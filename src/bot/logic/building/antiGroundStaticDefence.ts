@@ -3,6 +3,7 @@ import { getPointTowardsOtherPoint } from "../map/map.js";
 import { GlobalThreat } from "../threat/threat.js";
 import { AiBuildingRules, getDefaultPlacementLocation, numBuildingsOwnedOfType } from "./buildingRules.js";
 import { getStaticDefencePlacement } from "./common.js";
+import { MatchAwareness } from "../awareness.js";
 
 export class AntiGroundStaticDefence implements AiBuildingRules {
     constructor(
@@ -16,8 +17,9 @@ export class AntiGroundStaticDefence implements AiBuildingRules {
         game: GameApi,
         playerData: PlayerData,
         technoRules: TechnoRules,
+        matchAwareness: MatchAwareness,
     ): { rx: number; ry: number } | undefined {
-        return getStaticDefencePlacement(game, playerData, technoRules);
+        return getStaticDefencePlacement(game, playerData, technoRules, matchAwareness);
     }
 
     getPriority(
@@ -0,0 +1,85 @@
+import assert from "assert";
+import { FactoryType, ObjectType, Vector2 } from "@chronodivide/game-api";
+import { BaseLayoutPlanner, BuildingZone, PlacementRequest } from "./baseLayoutPlanner.js";
+import { MatchAwareness } from "../awareness.js";
+import { FakeGameApi } from "../../../test/fakeGameApi.js";
+
+describe("BaseLayoutPlanner", () => {
+    const ME = "Me";
+    const ALLY = "Ally";
+    const ENEMY = "Enemy";
+    const BASE = new Vector2(20, 20);
+
+    let game: FakeGameApi;
+
+    const matchAwareness = {
+        getMainBaseLocation: () => BASE,
+        getTargetPlayer: () => ({ name: ENEMY, baseLocation: new Vector2(40, 20), distance: 20, defeated: false }),
+        getEnemies: () => [],
+    } as unknown as MatchAwareness;
+    const place = (name: string, request: PlacementRequest, planner = new BaseLayoutPlanner()) => {
+        const location = planner.getPlacementLocation(
+            game.asGameApi(),
+            game.getPlayerData(ME),
+            game.rulesApi.buildingRules.get(name)!,
+            matchAwareness,
+            request,
+        );
+        return [location?.rx, location?.ry];
+    };
+
+    beforeEach(() => {
+        game = new FakeGameApi({ width: 50, height: 50 })
+            .addPlayer(ME, { startLocation: BASE })
+            .addPlayer(ALLY, { startLocation: new Vector2(5, 5) })
+            .addPlayer(ENEMY, { startLocation: new Vector2(40, 20) })
+            .setAllied(ME, ALLY)
+            .setBuildingFoundation("GACNST", { width: 3, height: 3 })
+            .setBuildingFoundation("GAWEAP", { width: 3, height: 3 })
+            .setBuildingFoundation("GAPOWR", { width: 2, height: 2 });
+        game.defineRules("GACNST", ObjectType.Building);
+        game.defineRules("GAWEAP", ObjectType.Building, { factory: FactoryType.UnitType, adjacent: 2 });
+        game.defineRules("GAPOWR", ObjectType.Building, { adjacent: 2 });
+        game.mapApi.reveal(ME);
+    });
+
+    it("puts power plants at the back of the base, away from the enemy", () => {
+        game.addObject({ name: "GACNST", owner: ME, rx: 20, ry: 20 });
+
+        // The closest spot to the base would be right next to it, in the space kept for production and tech.
+        assert.deepStrictEqual(place("GAPOWR", { zone: BuildingZone.Core }), [17, 20]);
+        assert.deepStrictEqual(place("GAPOWR", { zone: BuildingZone.Back }), [16, 16]);
+    });
+
+    it("keeps war factory exits clear", () => {
+        game.addObject({ name: "GAWEAP", owner: ME, rx: 20, ry: 20 });
+
+        // Vehicles leave on the east side, so the power plant can't go at 24,20 or 24,21.
+        assert.deepStrictEqual(place("GAPOWR", { zone: BuildingZone.Core, idealPoint: new Vector2(24, 21) }), [24, 23]);
+    });
+
+    it("keeps room for the next core building", () => {
+        game.setBuildingFoundation("GAPILL", { width: 1, height: 1 });
+        game.defineRules("GAPILL", ObjectType.Building, { adjacent: 2 });
+        game.addObject({ name: "GACNST", owner: ME, rx: 20, ry: 20 });
+        const build = (name: string, zone: BuildingZone) => {
+            const [rx, ry] = place(name, { zone });
+            game.addObject({ name, owner: ME, rx: rx!, ry: ry! });
+            return new Vector2(rx!, ry!);
+        };
+
+        for (let i = 0; i < 8; ++i) {
+            build("GAPOWR", BuildingZone.Back);
+            build("GAPILL", BuildingZone.Perimeter);
+        }
+        // Without room kept for it, the war factory would end up out past the power plants and defences.
+        assert.ok(build("GAWEAP", BuildingZone.Core).distanceTo(BASE) <= 6);
+    });
+
+    it("only builds off allied buildings when the match allows it", () => {
+        game.addObject({ name: "GACNST", owner: ALLY, rx: 20, ry: 20 });
+
+        assert.deepStrictEqual(place("GAPOWR", { zone: BuildingZone.Core }), [undefined, undefined]);
+        assert.deepStrictEqual(place("GAPOWR", { zone: BuildingZone.Core }, new BaseLayoutPlanner(true)), [17, 20]);
+    });
+});
@@ -0,0 +1,241 @@
+import {
+    FactoryType,
+    GameApi,
+    ObjectType,
+    PlayerData,
+    Rectangle,
+    Size,
+    TechnoRules,
+    Tile,
+    UnitData,
+    Vector2,
+} from "@chronodivide/game-api";
+import { getAdjacencyTiles, getClosestPlaceableTile } from "./buildingRules.js";
+import { MatchAwareness } from "../awareness.js";
+import { maxBy, minBy } from "../common/utils.js";
+import { isLandTile } from "../map/connectivity.js";
+
+// Only core buildings go within this distance of the main base, so that there is room for production and tech
+// buildings later on.
+const CORE_RADIUS = 5;
+
+// Power plants are grouped this far behind the main base, on the side away from the enemy.
+const BACK_OFFSET = 8;
+
+// Vehicles leave war factories on their east side, so we keep this many tiles clear there...
+const FACTORY_EXIT_LANE_LENGTH = 3;
+
+// ... and harvesters dock at refineries from the same side.
+const REFINERY_DOCK_LANE_LENGTH = 2;
+
+// Buildings outside the core zone keep out of an area by the construction yard, so that there is always room for the
+// next core building: enough for a war factory, its exit lane and a tile of space all around.
+const RESERVED_CORE_SIZE = { width: 3 + FACTORY_EXIT_LANE_LENGTH + 2, height: 3 + 2 };
+
+// The area is kept as close as we can to this far in front of the main base, towards the enemy.
+const RESERVED_CORE_OFFSET = 3;
+
+/**
+ * Where in the base a building belongs.
+ */
+export enum BuildingZone {
+    // Production, tech and anything else that belongs close to the construction yard.
+    Core,
+    // Power plants, at the back of the base away from the enemy.
+    Back,
+    // Static defences, on the edge of the base.
+    Perimeter,
+    // Buildings that go wherever their ideal point is, e.g. refineries by the ore and naval yards on the water.
+    Anywhere,
+}
+
+export type PlacementRequest = {
+    zone: BuildingZone;
+    // Where we would like the building to go. Defaults to the middle of its zone.
+    idealPoint?: Vector2;
+    onWater?: boolean;
+    // Tiles to leave between the new building and the ones it is built off.
+    minSpace?: number;
+};
+
+// Towards the enemy for a positive offset, away from it for a negative one.
+const getPointFromBase = (baseLocation: Vector2, enemyLocation: Vector2 | null, offset: number) => {
+    if (!enemyLocation) {
+        return baseLocation;
+    }
+    const distance = Math.max(1, enemyLocation.distanceTo(baseLocation));
+    return new Vector2(
+        Math.round(baseLocation.x + ((enemyLocation.x - baseLocation.x) * offset) / distance),
+        Math.round(baseLocation.y + ((enemyLocation.y - baseLocation.y) * offset) / distance),
+    );
+};
+
+const overlaps = (a: Rectangle, b: Rectangle) =>
+    a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+
+/**
+ * The tiles that units need to get in and out of a building, or null if it has none.
+ */
+function getReservedLane(rules: TechnoRules, tile: { rx: number; ry: number }, foundation: Size): Rectangle | null {
+    const length =
+        rules.factory === FactoryType.UnitType && !rules.naval
+            ? FACTORY_EXIT_LANE_LENGTH
+            : rules.refinery
+            ? REFINERY_DOCK_LANE_LENGTH
+            : 0;
+    if (length === 0) {
+        return null;
+    }
+    return { x: tile.rx + foundation.width, y: tile.ry, width: length, height: foundation.height };
+}
+
+/**
+ * Decides where new buildings go, so that the base stays compact and usable: production and tech stay close to the
+ * construction yard, with room always kept there for the next one, power plants are grouped at the back, defences go on
+ * the perimeter, and war factory exits and refinery docks are kept clear.
+ */
+export class BaseLayoutPlanner {
+    /**
+     * @param buildOffAlly Whether the match lets us build next to our allies' buildings.
+     */
+    constructor(private buildOffAlly: boolean = false) {}
+
+    public getPlacementLocation(
+        game: GameApi,
+        playerData: PlayerData,
+        technoRules: TechnoRules,
+        matchAwareness: MatchAwareness,
+        request: PlacementRequest,
+    ): { rx: number; ry: number } | undefined {
+        const { zone, onWater = false, minSpace = 1 } = request;
+        const placementData = game.getBuildingPlacementData(technoRules.name);
+        if (!placementData) {
+            return undefined;
+        }
+        const { foundation } = placementData;
+        const baseLocation = matchAwareness.getMainBaseLocation();
+        const enemyLocation = this.getEnemyLocation(matchAwareness);
+        const idealPoint = request.idealPoint ?? this.getZoneCenter(zone, baseLocation, enemyLocation);
+
+        const buildings = this.getBaseBuildings(game, playerData);
+        const reservedLanes = buildings
+            .map(({ rules, tile, foundation }) => getReservedLane(rules, tile, foundation))
+            .filter((lane): lane is Rectangle => !!lane);
+        const footprints = buildings.map(({ tile, foundation }) => ({ x: tile.rx, y: tile.ry, ...foundation }));
+        const reservedCore =
+            zone === BuildingZone.Core
+                ? null
+                : this.getReservedCoreArea(game, baseLocation, enemyLocation, [...footprints, ...reservedLanes]);
+        const candidates = getAdjacencyTiles(
+            game,
+            playerData,
+            technoRules,
+            onWater,
+            minSpace,
+            this.buildOffAlly,
+        ).filter((tile) => {
+            const footprint = { x: tile.rx, y: tile.ry, ...foundation };
+            if (
+                reservedLanes.some((lane) => overlaps(lane, footprint)) ||
+                (reservedCore && overlaps(reservedCore, footprint))
+            ) {
+                return false;
+            }
+            const ownLane = getReservedLane(technoRules, tile, foundation);
+            return (
+                !ownLane ||
+                (game.mapApi.getTilesInRect(ownLane).length === ownLane.width * ownLane.height &&
+                    !footprints.some((other) => overlaps(other, ownLane)) &&
+                    !(reservedCore && overlaps(reservedCore, ownLane)))
+            );
+        });
+
+        // Stick to the zone if we can, but a building out of place is better than no building.
+        const inZone = (tile: Tile) => this.isInZone(zone, tile, baseLocation, enemyLocation);
+        return (
+            getClosestPlaceableTile(game, playerData, idealPoint, technoRules, candidates.filter(inZone)) ??
+            getClosestPlaceableTile(
+                game,
+                playerData,
+                idealPoint,
+                technoRules,
+                candidates.filter((tile) => !inZone(tile)),
+            )
+        );
+    }
+
+    private getBaseBuildings(game: GameApi, playerData: PlayerData) {
+        // The same buildings that `getAdjacencyTiles` builds off.
+        const isBuilding = (r: TechnoRules) => r.type === ObjectType.Building;
+        const ownBuildings = game.getVisibleUnits(playerData.name, "self", isBuilding);
+        const alliedBuildings = this.buildOffAlly ? game.getVisibleUnits(playerData.name, "allied", isBuilding) : [];
+        return [...ownBuildings, ...alliedBuildings]
+            .map((unitId) => game.getUnitData(unitId))
+            .filter((unit): unit is UnitData => !!unit)
+            .map(({ rules, tile, foundation }) => ({ rules, tile, foundation }));
+    }
+
+    /**
+     * The free area in front of the main base that we keep for the next core building, or null if there is none left.
+     */
+    private getReservedCoreArea(
+        game: GameApi,
+        baseLocation: Vector2,
+        enemyLocation: Vector2 | null,
+        taken: Rectangle[],
+    ): Rectangle | null {
+        const front = getPointFromBase(baseLocation, enemyLocation, RESERVED_CORE_OFFSET);
+        const candidates: Rectangle[] = [];
+        for (let x = baseLocation.x - CORE_RADIUS; x <= baseLocation.x + CORE_RADIUS; ++x) {
+            for (let y = baseLocation.y - CORE_RADIUS; y <= baseLocation.y + CORE_RADIUS; ++y) {
+                const area = { x, y, ...RESERVED_CORE_SIZE };
+                const tiles = game.mapApi.getTilesInRect(area);
+                if (
+                    tiles.length === area.width * area.height &&
+                    tiles.every(isLandTile) &&
+                    !taken.some((other) => overlaps(other, area))
+                ) {
+                    candidates.push(area);
+                }
+            }
+        }
+        return minBy(candidates, ({ x, y, width, height }) =>
+            new Vector2(x + width / 2, y + height / 2).distanceTo(front),
+        );
+    }
+
+    private getEnemyLocation(matchAwareness: MatchAwareness) {
+        return (
+            matchAwareness.getTargetPlayer()?.baseLocation ??
+            maxBy(
+                matchAwareness.getEnemies().filter(({ defeated }) => !defeated),
+                ({ distance }) => -distance,
+            )?.baseLocation ??
+            null
+        );
+    }
+
+    private getZoneCenter(zone: BuildingZone, baseLocation: Vector2, enemyLocation: Vector2 | null) {
+        return zone === BuildingZone.Back ? getPointFromBase(baseLocation, enemyLocation, -BACK_OFFSET) : baseLocation;
+    }
+
+    private isInZone(zone: BuildingZone, tile: Tile, baseLocation: Vector2, enemyLocation: Vector2 | null) {
+        const distance = new Vector2(tile.rx, tile.ry).distanceTo(baseLocation);
+        switch (zone) {
+            case BuildingZone.Core:
+            case BuildingZone.Anywhere:
+                return true;
+            case BuildingZone.Perimeter:
+                return distance > CORE_RADIUS;
+            case BuildingZone.Back: {
+                // Behind the base means on the other side of it from the enemy.
+                const isBehind =
+                    !enemyLocation ||
+                    (tile.rx - baseLocation.x) * (enemyLocation.x - baseLocation.x) +
+                        (tile.ry - baseLocation.y) * (enemyLocation.y - baseLocation.y) <=
+                        0;
+                return distance > CORE_RADIUS && isBehind;
+            }
+        }
+    }
+}
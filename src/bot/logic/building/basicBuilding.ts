@@ -1,6 +1,8 @@
 import { GameApi, PlayerData, TechnoRules } from "@chronodivide/game-api";
-import { AiBuildingRules, getDefaultPlacementLocation, numBuildingsOwnedOfType } from "./buildingRules.js";
+import { AiBuildingRules, numBuildingsOwnedOfType } from "./buildingRules.js";
+import { BuildingZone } from "./baseLayoutPlanner.js";
 import { GlobalThreat } from "../threat/threat.js";
+import { MatchAwareness } from "../awareness.js";
 
 export class BasicBuilding implements AiBuildingRules {
     constructor(
@@ -13,8 +15,11 @@ export class BasicBuilding implements AiBuildingRules {
         game: GameApi,
         playerData: PlayerData,
         technoRules: TechnoRules,
+        matchAwareness: MatchAwareness,
     ): { rx: number; ry: number } | undefined {
-        return getDefaultPlacementLocation(game, playerData, playerData.startLocation, technoRules);
+        return matchAwareness
+            .getBaseLayoutPlanner()
+            .getPlacementLocation(game, playerData, technoRules, matchAwareness, { zone: BuildingZone.Core });
     }
 
     getPriority(
@@ -22,6 +27,7 @@ export class BasicBuilding implements AiBuildingRules {
         playerData: PlayerData,
         technoRules: TechnoRules,
         threatCache: GlobalThreat | null,
+        matchAwareness: MatchAwareness,
     ): number {
         const numOwned = numBuildingsOwnedOfType(game, playerData, technoRules);
         const calcMaxCount = this.getMaxCount(game, playerData, technoRules, threatCache);
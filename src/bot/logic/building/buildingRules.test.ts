@@ -0,0 +1,103 @@
+import assert from "assert";
+import { FactoryType, LandType, ObjectType, Vector2 } from "@chronodivide/game-api";
+import { BUILDING_NAME_TO_RULES, getBuildingRole, getDefaultPlacementLocation } from "./buildingRules.js";
+import { FakeGameApi, createTechnoRules } from "../../../test/fakeGameApi.js";
+import { BuildingRole } from "../common/personality.js";
+
+describe("getDefaultPlacementLocation", () => {
+    const ME = "Me";
+    const ENEMY = "Enemy";
+
+    let game: FakeGameApi;
+
+    beforeEach(() => {
+        game = new FakeGameApi({ width: 30, height: 30 })
+            .addPlayer(ME, { startLocation: new Vector2(10, 10) })
+            .addPlayer(ENEMY, { startLocation: new Vector2(25, 25) })
+            .setBuildingFoundation("GACNST", { width: 3, height: 3 })
+            .setBuildingFoundation("GAPOWR", { width: 2, height: 2 })
+            .setBuildingFoundation("GAYARD", { width: 2, height: 2 });
+        game.defineRules("GACNST", ObjectType.Building);
+        game.defineRules("GAPOWR", ObjectType.Building, { adjacent: 2 });
+        game.defineRules("GAYARD", ObjectType.Building, { adjacent: 2, naval: true });
+    });
+
+    const place = (idealPoint: Vector2, minSpace?: number) =>
+        getDefaultPlacementLocation(
+            game.asGameApi(),
+            game.getPlayerData(ME),
+            idealPoint,
+            game.rulesApi.buildingRules.get("GAPOWR")!,
+            false,
+            minSpace,
+        );
+
+    it("places nothing without any buildings to build off", () => {
+        assert.strictEqual(place(new Vector2(10, 10)), undefined);
+    });
+
+    it("places the building as close as possible to the ideal point, leaving a gap", () => {
+        game.addObject({ name: "GACNST", owner: ME, rx: 10, ry: 10 });
+
+        // The construction yard covers 10-12, so with one tile of space the power plant can start at 14.
+        const location = place(new Vector2(20, 11));
+        assert.deepStrictEqual([location?.rx, location?.ry], [14, 11]);
+    });
+
+    it("can place buildings right next to each other", () => {
+        game.addObject({ name: "GACNST", owner: ME, rx: 10, ry: 10 });
+
+        const withGap = place(new Vector2(13, 11));
+        assert.deepStrictEqual([withGap?.rx, withGap?.ry], [14, 11]);
+        const withoutGap = place(new Vector2(13, 11), 0);
+        assert.deepStrictEqual([withoutGap?.rx, withoutGap?.ry], [13, 11]);
+    });
+
+    it("doesn't build off other players' buildings", () => {
+        game.addObject({ name: "GACNST", owner: ENEMY, rx: 10, ry: 10 });
+
+        assert.strictEqual(place(new Vector2(20, 11)), undefined);
+    });
+
+    it("skips locations that are blocked", () => {
+        game.addObject({ name: "GACNST", owner: ME, rx: 10, ry: 10 });
+        game.addObject({ name: "GACNST", owner: ENEMY, rx: 15, ry: 12, foundation: { width: 1, height: 1 } });
+
+        const location = place(new Vector2(20, 11));
+        assert.deepStrictEqual([location?.rx, location?.ry], [14, 10]);
+    });
+
+    it("only considers water tiles for naval buildings", () => {
+        game.addObject({ name: "GACNST", owner: ME, rx: 10, ry: 10 });
+        for (let rx = 6; rx < 8; ++rx) {
+            for (let ry = 14; ry < 16; ++ry) {
+                game.mapApi.setLandType(rx, ry, LandType.Water);
+            }
+        }
+
+        const location = getDefaultPlacementLocation(
+            game.asGameApi(),
+            game.getPlayerData(ME),
+            new Vector2(20, 11),
+            game.rulesApi.buildingRules.get("GAYARD")!,
+            true,
+        );
+        assert.deepStrictEqual([location?.rx, location?.ry], [6, 14]);
+    });
+});
+
+describe("getBuildingRole", () => {
+    const roleOf = (name: string, type = ObjectType.Building, factory = FactoryType.None) =>
+        getBuildingRole(BUILDING_NAME_TO_RULES.get(name)!, createTechnoRules(name, type, { factory }));
+
+    it("classifies buildings and units by what they are for", () => {
+        assert.strictEqual(roleOf("NAPOWR"), undefined);
+        assert.strictEqual(roleOf("NAREFN"), BuildingRole.Economy);
+        assert.strictEqual(roleOf("HARV", ObjectType.Vehicle), BuildingRole.Economy);
+        assert.strictEqual(roleOf("NAWEAP", ObjectType.Building, FactoryType.UnitType), BuildingRole.Production);
+        assert.strictEqual(roleOf("NATECH"), BuildingRole.Tech);
+        assert.strictEqual(roleOf("TESLA"), BuildingRole.Defence);
+        assert.strictEqual(roleOf("NAFLAK"), BuildingRole.Defence);
+        assert.strictEqual(roleOf("HTNK", ObjectType.Vehicle), BuildingRole.Army);
+    });
+});
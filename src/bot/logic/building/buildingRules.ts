@@ -1,5 +1,6 @@
 import {
     BuildingPlacementData,
+    FactoryType,
     GameApi,
     GameMath,
     LandType,
@@ -22,6 +23,9 @@ import { ResourceCollectionBuilding } from "./resourceCollectionBuilding.js";
 import { Harvester } from "./harvester.js";
 import { uniqBy } from "../common/utils.js";
 import { AntiAirStaticDefence } from "./antiAirStaticDefence.js";
+import { NavalYard } from "./navalYard.js";
+import { BuildingRole } from "../common/personality.js";
+import { MatchAwareness } from "../awareness.js";
 
 export interface AiBuildingRules {
     getPriority(
@@ -29,12 +33,14 @@ export interface AiBuildingRules {
         playerData: PlayerData,
         technoRules: TechnoRules,
         threatCache: GlobalThreat | null,
+        matchAwareness: MatchAwareness,
     ): number;
 
     getPlacementLocation(
         game: GameApi,
         playerData: PlayerData,
         technoRules: TechnoRules,
+        matchAwareness: MatchAwareness,
     ): { rx: number; ry: number } | undefined;
 
     getMaxCount(
@@ -82,17 +88,26 @@ function getAdjacentTiles(game: GameApi, range: Rectangle, onWater: boolean) {
     return adjacentTiles;
 }
 
+/**
+ * Returns the tiles a new building could be placed on, next to our buildings, or next to our allies' buildings too if
+ * `includeAllies` is set (for matches where building off allies is allowed).
+ */
 export function getAdjacencyTiles(
     game: GameApi,
     playerData: PlayerData,
     technoRules: TechnoRules,
     onWater: boolean,
     minimumSpace: number,
+    includeAllies: boolean = false,
 ): Tile[] {
     const placementRules = game.getBuildingPlacementData(technoRules.name);
     const { width: newBuildingWidth, height: newBuildingHeight } = placementRules.foundation;
     const tiles = [];
-    const buildings = game.getVisibleUnits(playerData.name, "self", (r: TechnoRules) => r.type === ObjectType.Building);
+    const isBuilding = (r: TechnoRules) => r.type === ObjectType.Building;
+    const buildings = [
+        ...game.getVisibleUnits(playerData.name, "self", isBuilding),
+        ...(includeAllies ? game.getVisibleUnits(playerData.name, "allied", isBuilding) : []),
+    ];
     const removedTiles = new Set<string>();
     for (let buildingId of buildings) {
         const building = game.getUnitData(buildingId);
@@ -174,6 +189,19 @@ export function getDefaultPlacementLocation(
         return undefined;
     }
     const tiles = getAdjacencyTiles(game, playerData, technoRules, onWater, minSpace);
+    return getClosestPlaceableTile(game, playerData, idealPoint, technoRules, tiles);
+}
+
+/**
+ * Returns the tile closest to `idealPoint` out of `tiles` that the building can be placed on, if any.
+ */
+export function getClosestPlaceableTile(
+    game: GameApi,
+    playerData: PlayerData,
+    idealPoint: Vector2,
+    technoRules: TechnoRules,
+    tiles: Tile[],
+): Tile | undefined {
     const tileDistances = getTileDistances(idealPoint, tiles);
 
     for (let tileDistance of tileDistances) {
@@ -184,6 +212,24 @@ export function getDefaultPlacementLocation(
     return undefined;
 }
 
+/**
+ * Works out what a building or unit is for from the rules the AI uses for it. Power plants have no role, as they are
+ * only built when we need the power.
+ */
+export function getBuildingRole(logic: AiBuildingRules, technoRules: TechnoRules): BuildingRole | undefined {
+    if (logic instanceof PowerPlant) {
+        return undefined;
+    } else if (logic instanceof Harvester || logic instanceof ResourceCollectionBuilding) {
+        return BuildingRole.Economy;
+    } else if (logic instanceof AntiGroundStaticDefence || logic instanceof AntiAirStaticDefence) {
+        return BuildingRole.Defence;
+    } else if (logic instanceof BasicBuilding) {
+        return technoRules.factory !== FactoryType.None ? BuildingRole.Production : BuildingRole.Tech;
+    } else {
+        return BuildingRole.Army;
+    }
+}
+
 // Priority 0 = don't build.
 export type TechnoRulesWithPriority = { unit: TechnoRules; priority: number };
 
@@ -201,7 +247,7 @@ export const BUILDING_NAME_TO_RULES = new Map<string, AiBuildingRules>([
     ["AMRADR", new BasicBuilding(10, 1, 500)], // Airforce Command (USA)
 
     ["GATECH", new BasicBuilding(20, 1, 4000)], // Allied Battle Lab
-    ["GAYARD", new BasicBuilding(0, 0, 0)], // Naval Yard, disabled
+    ["GAYARD", new NavalYard(10, 1)], // Naval Yard
 
     ["GAPILL", new AntiGroundStaticDefence(2, 1, 5, 5)], // Pillbox
     ["ATESLA", new AntiGroundStaticDefence(2, 1, 10, 3)], // Prism Cannon
@@ -218,6 +264,8 @@ export const BUILDING_NAME_TO_RULES = new Map<string, AiBuildingRules>([
     ["SREF", new ArtilleryUnit(10, 5, 3, 3)], // Prism Tank
     ["CLEG", new BasicGroundUnit(0, 0)], // Chrono Legionnaire (Disabled - we don't handle the warped out phase properly and it tends to bug both bots out)
     ["SHAD", new BasicGroundUnit(0, 0)], // Nighthawk (Disabled)
+    ["DEST", new BasicGroundUnit(0, 0, 2, 0)], // Destroyer
+    ["AEGIS", new BasicGroundUnit(0, 0, 0, 3)], // Aegis Cruiser
 
     // Soviet
     ["NAPOWR", new PowerPlant()],
@@ -228,7 +276,7 @@ export const BUILDING_NAME_TO_RULES = new Map<string, AiBuildingRules>([
     ["NADEPT", new BasicBuilding(1, 1, 10000)], // Repair Depot
     ["NARADR", new BasicBuilding(10, 1, 500)], // Radar
     ["NANRCT", new PowerPlant()], // Nuclear Reactor
-    ["NAYARD", new BasicBuilding(0, 0, 0)], // Naval Yard, disabled
+    ["NAYARD", new NavalYard(10, 1)], // Naval Yard
 
     ["NATECH", new BasicBuilding(20, 1, 4000)], // Soviet Battle Lab
 
@@ -247,4 +295,6 @@ export const BUILDING_NAME_TO_RULES = new Map<string, AiBuildingRules>([
     ["HTK", new BasicGroundUnit(5, 2, 0.33, 1.5)], // Flak Track
     ["ZEP", new BasicAirUnit(5, 1, 5, 1)], // Kirov
     ["V3", new ArtilleryUnit(9, 10, 0, 3)], // V3 Rocket Launcher
+    ["SUB", new BasicGroundUnit(0, 0, 2, 0)], // Typhoon Attack Sub
+    ["HYD", new BasicGroundUnit(0, 0, 1, 1)], // Sea Scorpion
 ]);
@@ -1,21 +1,78 @@
-import { GameApi, PlayerData, TechnoRules, Vector2 } from "@chronodivide/game-api";
+import { GameApi, ObjectType, PlayerData, TechnoRules, Vector2 } from "@chronodivide/game-api";
 import { getPointTowardsOtherPoint } from "../map/map.js";
-import { getDefaultPlacementLocation } from "./buildingRules.js";
+import { getPointBehindRegion } from "../map/topology.js";
+import { BuildingZone } from "./baseLayoutPlanner.js";
+import { MatchAwareness } from "../awareness.js";
+import { RememberedObject } from "../threat/enemyMemory.js";
+import { maxBy } from "../common/utils.js";
 
-export const getStaticDefencePlacement = (game: GameApi, playerData: PlayerData, technoRules: TechnoRules) => {
+// Enemies we remember seeing within this distance of our base decide which way static defences face.
+const DEFENCE_THREAT_RADIUS = 40;
+
+// Ground defences go by a chokepoint in the direction of the enemy that is within this distance of our base.
+const DEFENCE_CHOKEPOINT_MIN_DISTANCE = 4;
+const DEFENCE_CHOKEPOINT_MAX_DISTANCE = 20;
+
+// How far on our side of the chokepoint to place defences, so they don't block it.
+const DEFENCE_CHOKEPOINT_SETBACK = 3;
+
+export const isGroundThreat = ({ type }: RememberedObject) => type !== ObjectType.Aircraft;
+export const isAirThreat = ({ type }: RememberedObject) => type === ObjectType.Aircraft;
+
+export const getStaticDefencePlacement = (
+    game: GameApi,
+    playerData: PlayerData,
+    technoRules: TechnoRules,
+    matchAwareness: MatchAwareness,
+    isThreat: (object: RememberedObject) => boolean = isGroundThreat,
+    minSpace: number = 2,
+    preferChokepoints: boolean = true,
+) => {
     // Prefer front towards enemy.
-    const { startLocation, name: currentName } = playerData;
+    const { name: currentName } = playerData;
+    const placeTowards = (idealPoint: Vector2) =>
+        matchAwareness.getBaseLayoutPlanner().getPlacementLocation(game, playerData, technoRules, matchAwareness, {
+            zone: BuildingZone.Perimeter,
+            idealPoint,
+            minSpace,
+        });
+    const baseLocation = matchAwareness.getMainBaseLocation();
+    const getLocationTowards = (target: Vector2) => {
+        const chokepoint = preferChokepoints
+            ? matchAwareness
+                  .getMapTopology()
+                  ?.getRegionTowards(
+                      baseLocation,
+                      target,
+                      DEFENCE_CHOKEPOINT_MIN_DISTANCE,
+                      DEFENCE_CHOKEPOINT_MAX_DISTANCE,
+                  )
+            : null;
+        if (!chokepoint) {
+            return getPointTowardsOtherPoint(game, baseLocation, target, 4, 16, 1.5);
+        }
+        return getPointBehindRegion(chokepoint, baseLocation, DEFENCE_CHOKEPOINT_SETBACK);
+    };
+
+    // Face the closest enemies we have seen near the base, weighed by how sure we are that they are still there.
+    const nearbyThreat = maxBy(
+        matchAwareness.getEnemyMemory().getRememberedNearPoint(baseLocation, DEFENCE_THREAT_RADIUS).filter(isThreat),
+        ({ position, confidence }) => confidence / Math.max(1, position.distanceTo(baseLocation)),
+    );
+    if (nearbyThreat) {
+        return placeTowards(getLocationTowards(nearbyThreat.position));
+    }
+
     const allNames = game.getPlayers();
     // Create a list of positions that point roughly towards hostile player start locatoins.
     const candidates = allNames
         .filter((otherName) => otherName !== currentName && !game.areAlliedPlayers(otherName, currentName))
         .map((otherName) => {
             const enemyPlayer = game.getPlayerData(otherName);
-            return getPointTowardsOtherPoint(game, startLocation, enemyPlayer.startLocation, 4, 16, 1.5);
+            return getLocationTowards(enemyPlayer.startLocation);
         });
     if (candidates.length === 0) {
         return undefined;
     }
-    const selectedLocation = candidates[Math.floor(game.generateRandom() * candidates.length)];
-    return getDefaultPlacementLocation(game, playerData, selectedLocation, technoRules, false, 2);
+    return placeTowards(candidates[Math.floor(game.generateRandom() * candidates.length)]);
 };
@@ -0,0 +1,55 @@
+import { ActionsApi, GameApi, OrderType, PlayerData, Vector2 } from "@chronodivide/game-api";
+import { MatchAwareness } from "../awareness.js";
+import { DebugLogger, maxBy } from "../common/utils.js";
+import { OreField, isFieldDepleted } from "../map/oreFields.js";
+
+const HARVESTER_CHECK_INTERVAL_TICKS = 150;
+
+/**
+ * Sends harvesters away from fields that have run dry or that the enemy controls, to the best field they can reach.
+ */
+export class HarvesterController {
+    private lastCheckAt = 0;
+
+    public onAiUpdate(
+        game: GameApi,
+        actionsApi: ActionsApi,
+        playerData: PlayerData,
+        matchAwareness: MatchAwareness,
+        logger: DebugLogger,
+    ) {
+        if (game.getCurrentTick() < this.lastCheckAt + HARVESTER_CHECK_INTERVAL_TICKS) {
+            return;
+        }
+        this.lastCheckAt = game.getCurrentTick();
+
+        const oreFields = matchAwareness.getOreFields();
+        const mineableFields = oreFields.getMineableFields();
+        game.getVisibleUnits(playerData.name, "self", (r) => r.harvester).forEach((unitId) => {
+            const harvester = game.getGameObjectData(unitId);
+            if (!harvester) {
+                return;
+            }
+            const field = oreFields.getFieldAt(harvester.tile.rx, harvester.tile.ry);
+            if (!field || (!field.contested && !isFieldDepleted(field))) {
+                return;
+            }
+            const position = new Vector2(harvester.tile.rx, harvester.tile.ry);
+            const newField = maxBy(
+                mineableFields,
+                (candidate) => candidate.value / (1 + position.distanceTo(candidate.center)),
+            );
+            const target = newField && getClosestTile(newField, position);
+            if (!target) {
+                return;
+            }
+            logger(
+                `Harvester ${unitId} is in a ${field.contested ? "contested" : "depleted"} field, ` +
+                    `sending it to ${target.x},${target.y}`,
+            );
+            actionsApi.orderUnits([unitId], OrderType.Gather, target.x, target.y);
+        });
+    }
+}
+
+const getClosestTile = (field: OreField, position: Vector2) => maxBy(field.tiles, (tile) => -tile.distanceTo(position));
@@ -0,0 +1,56 @@
+import { GameApi, PlayerData, TechnoRules } from "@chronodivide/game-api";
+import { GlobalThreat } from "../threat/threat.js";
+import { BasicBuilding } from "./basicBuilding.js";
+import { BuildingZone } from "./baseLayoutPlanner.js";
+import { MatchAwareness } from "../awareness.js";
+import { MapConnectivity } from "../map/connectivity.js";
+
+// When we can also reach every enemy by land, the naval yard is a lot less important.
+const MIXED_MAP_PRIORITY_MULTIPLIER = 0.25;
+
+/**
+ * Only built when there is an enemy we can reach by sea, on the water closest to our base.
+ */
+export class NavalYard extends BasicBuilding {
+    getPlacementLocation(
+        game: GameApi,
+        playerData: PlayerData,
+        technoRules: TechnoRules,
+        matchAwareness: MatchAwareness,
+    ): { rx: number; ry: number } | undefined {
+        const water = matchAwareness.getMapConnectivity()?.getClosestNavalWater(matchAwareness.getMainBaseLocation());
+        if (!water) {
+            return undefined;
+        }
+        return matchAwareness
+            .getBaseLayoutPlanner()
+            .getPlacementLocation(game, playerData, technoRules, matchAwareness, {
+                zone: BuildingZone.Anywhere,
+                idealPoint: water,
+                onWater: true,
+                minSpace: 0,
+            });
+    }
+
+    getPriority(
+        game: GameApi,
+        playerData: PlayerData,
+        technoRules: TechnoRules,
+        threatCache: GlobalThreat | null,
+        matchAwareness: MatchAwareness,
+    ): number {
+        const connectivities = matchAwareness
+            .getEnemies()
+            .filter(({ defeated }) => !defeated)
+            .map(({ name }) => matchAwareness.getConnectivityTo(name));
+        if (connectivities.includes(MapConnectivity.Naval)) {
+            return super.getPriority(game, playerData, technoRules, threatCache, matchAwareness);
+        } else if (connectivities.includes(MapConnectivity.Mixed)) {
+            return (
+                super.getPriority(game, playerData, technoRules, threatCache, matchAwareness) *
+                MIXED_MAP_PRIORITY_MULTIPLIER
+            );
+        }
+        return 0;
+    }
+}
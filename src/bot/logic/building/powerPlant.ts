@@ -1,14 +1,19 @@
 import { GameApi, PlayerData, TechnoRules } from "@chronodivide/game-api";
-import { AiBuildingRules, getDefaultPlacementLocation } from "./buildingRules.js";
+import { AiBuildingRules } from "./buildingRules.js";
+import { BuildingZone } from "./baseLayoutPlanner.js";
 import { GlobalThreat } from "../threat/threat.js";
+import { MatchAwareness } from "../awareness.js";
 
 export class PowerPlant implements AiBuildingRules {
     getPlacementLocation(
         game: GameApi,
         playerData: PlayerData,
-        technoRules: TechnoRules
+        technoRules: TechnoRules,
+        matchAwareness: MatchAwareness,
     ): { rx: number; ry: number } | undefined {
-        return getDefaultPlacementLocation(game, playerData, playerData.startLocation, technoRules);
+        return matchAwareness
+            .getBaseLayoutPlanner()
+            .getPlacementLocation(game, playerData, technoRules, matchAwareness, { zone: BuildingZone.Back });
     }
 
     getPriority(game: GameApi, playerData: PlayerData, technoRules: TechnoRules): number {
@@ -25,7 +30,7 @@ export class PowerPlant implements AiBuildingRules {
         game: GameApi,
         playerData: PlayerData,
         technoRules: TechnoRules,
-        threatCache: GlobalThreat | null
+        threatCache: GlobalThreat | null,
     ): number | null {
         return null;
     }
@@ -1,5 +1,6 @@
 import {
     ActionsApi,
+    FactoryType,
     GameApi,
     PlayerData,
     ProductionApi,
@@ -8,13 +9,18 @@ import {
     TechnoRules,
 } from "@chronodivide/game-api";
 import { GlobalThreat } from "../threat/threat";
+import { MatchAwareness } from "../awareness.js";
 import {
     TechnoRulesWithPriority,
     BUILDING_NAME_TO_RULES,
     DEFAULT_BUILDING_PRIORITY,
-    getDefaultPlacementLocation,
+    getBuildingRole,
 } from "./buildingRules.js";
+import { BuildingZone } from "./baseLayoutPlanner.js";
 import { DebugLogger } from "../common/utils";
+import { BotPersonality, DEFAULT_PERSONALITY } from "../common/personality.js";
+import { BasicAirUnit } from "./basicAirUnit.js";
+import { BuildOrderRunner } from "../buildOrder/buildOrderRunner.js";
 
 export const QUEUES = [
     QueueType.Structures,
@@ -53,31 +59,64 @@ type QueueState = {
 
 const REPAIR_CHECK_INTERVAL = 30;
 
+// Priority of the current build order step, so that it is never paused for something else.
+const BUILD_ORDER_STEP_PRIORITY = 100;
+
+// When focusing on air, the priority of aircraft and the buildings that produce them is multiplied by this.
+const AIR_FOCUS_PRIORITY_MULTIPLIER = 3;
+
 export class QueueController {
     private queueStates: QueueState[] = [];
     private lastRepairCheckAt = 0;
+    // Cost of everything we have queued for production, less anything we took back out of the queue.
+    private creditsSpent = 0;
+    private airFocus = false;
 
-    constructor() {}
+    constructor(
+        private personality: BotPersonality = DEFAULT_PERSONALITY,
+        private buildOrderRunner: BuildOrderRunner = new BuildOrderRunner(),
+    ) {}
 
     public onAiUpdate(
         game: GameApi,
         productionApi: ProductionApi,
         actionsApi: ActionsApi,
         playerData: PlayerData,
+        matchAwareness: MatchAwareness,
         threatCache: GlobalThreat | null,
         unitTypeRequests: Map<string, number>,
         logger: (message: string) => void,
     ) {
+        const buildOrderStep = this.buildOrderRunner.onAiUpdate(
+            game,
+            productionApi,
+            playerData,
+            matchAwareness,
+            logger,
+        );
+        const buildOrderQueue = buildOrderStep ? productionApi.getQueueTypeForObject(buildOrderStep) : null;
         this.queueStates = QUEUES.map((queueType) => {
             const options = productionApi.getAvailableObjects(queueType);
-            const items = this.getPrioritiesForBuildingOptions(
-                game,
-                options,
-                threatCache,
-                playerData,
-                unitTypeRequests,
-                logger,
-            );
+            // While following a build order, the queue for its current step builds only that, once the queue is free.
+            // The other queues carry on as usual.
+            const items =
+                queueType === buildOrderQueue
+                    ? options
+                          .filter(
+                              (option) =>
+                                  option.name === buildOrderStep?.name &&
+                                  productionApi.getQueueData(queueType).status === QueueStatus.Idle,
+                          )
+                          .map((option) => ({ unit: option, priority: BUILD_ORDER_STEP_PRIORITY }))
+                    : this.getPrioritiesForBuildingOptions(
+                          game,
+                          options,
+                          threatCache,
+                          playerData,
+                          matchAwareness,
+                          unitTypeRequests,
+                          logger,
+                      );
             const topItem = items.length > 0 ? items[items.length - 1] : undefined;
             return {
                 queue: queueType,
@@ -99,6 +138,7 @@ export class QueueController {
                 productionApi,
                 actionsApi,
                 playerData,
+                matchAwareness,
                 threatCache,
                 decision.queue,
                 decision.topItem,
@@ -128,6 +168,7 @@ export class QueueController {
         productionApi: ProductionApi,
         actionsApi: ActionsApi,
         playerData: PlayerData,
+        matchAwareness: MatchAwareness,
         threatCache: GlobalThreat | null,
         queueType: QueueType,
         decision: TechnoRulesWithPriority | undefined,
@@ -143,6 +184,7 @@ export class QueueController {
             if (decision !== undefined) {
                 logger(`Decision (${queueTypeToName(queueType)}): ${decision.unit.name}`);
                 actionsApi.queueForProduction(queueType, decision.unit.name, decision.unit.type, 1);
+                this.creditsSpent += decision.unit.cost;
             }
         } else if (queueData.status == QueueStatus.Ready && queueData.items.length > 0) {
             // Consider placing it.
@@ -151,6 +193,7 @@ export class QueueController {
                 let location: { rx: number; ry: number } | undefined = this.getBestLocationForStructure(
                     game,
                     playerData,
+                    matchAwareness,
                     objectReady,
                 );
                 if (location !== undefined) {
@@ -173,6 +216,7 @@ export class QueueController {
                     currentProduction,
                     game,
                     playerData,
+                    matchAwareness,
                     threatCache,
                 );
                 let newItemPriority = decision.priority;
@@ -183,6 +227,7 @@ export class QueueController {
                         } has 2x higher priority.`,
                     );
                     actionsApi.unqueueFromProduction(queueData.type, currentProduction.name, currentProduction.type, 1);
+                    this.creditsSpent -= currentProduction.cost;
                 }
             } else {
                 // Not changing our mind, but maybe other queues are more important for now.
@@ -216,12 +261,19 @@ export class QueueController {
         options: TechnoRules[],
         threatCache: GlobalThreat | null,
         playerData: PlayerData,
+        matchAwareness: MatchAwareness,
         unitTypeRequests: Map<string, number>,
         logger: DebugLogger,
     ): TechnoRulesWithPriority[] {
         let priorityQueue: TechnoRulesWithPriority[] = [];
         options.forEach((option) => {
-            const calculatedPriority = this.getPriorityForBuildingOption(option, game, playerData, threatCache);
+            const calculatedPriority = this.getPriorityForBuildingOption(
+                option,
+                game,
+                playerData,
+                matchAwareness,
+                threatCache,
+            );
             // Get the higher of the dynamic and the mission priority for the unit.
             const actualPriority = Math.max(
                 calculatedPriority,
@@ -240,11 +292,17 @@ export class QueueController {
         option: TechnoRules,
         game: GameApi,
         playerStatus: PlayerData,
+        matchAwareness: MatchAwareness,
         threatCache: GlobalThreat | null,
     ) {
         if (BUILDING_NAME_TO_RULES.has(option.name)) {
             let logic = BUILDING_NAME_TO_RULES.get(option.name)!;
-            return logic.getPriority(game, playerStatus, option, threatCache);
+            const role = getBuildingRole(logic, option);
+            let multiplier = (role && this.personality.buildPriorityMultipliers[role]) ?? 1;
+            if (this.airFocus && (logic instanceof BasicAirUnit || option.factory === FactoryType.AircraftType)) {
+                multiplier *= AIR_FOCUS_PRIORITY_MULTIPLIER;
+            }
+            return logic.getPriority(game, playerStatus, option, threatCache, matchAwareness) * multiplier;
         } else {
             // Fallback priority when there are no rules.
             return (
@@ -256,17 +314,35 @@ export class QueueController {
     private getBestLocationForStructure(
         game: GameApi,
         playerData: PlayerData,
+        matchAwareness: MatchAwareness,
         objectReady: TechnoRules,
     ): { rx: number; ry: number } | undefined {
         if (BUILDING_NAME_TO_RULES.has(objectReady.name)) {
             let logic = BUILDING_NAME_TO_RULES.get(objectReady.name)!;
-            return logic.getPlacementLocation(game, playerData, objectReady);
+            return logic.getPlacementLocation(game, playerData, objectReady, matchAwareness);
         } else {
             // fallback placement logic
-            return getDefaultPlacementLocation(game, playerData, playerData.startLocation, objectReady);
+            return matchAwareness
+                .getBaseLayoutPlanner()
+                .getPlacementLocation(game, playerData, objectReady, matchAwareness, { zone: BuildingZone.Core });
         }
     }
 
+    /**
+     * Favour aircraft (and the buildings needed to produce them) over everything else.
+     */
+    public setAirFocus(airFocus: boolean) {
+        this.airFocus = airFocus;
+    }
+
+    public hasAirFocus() {
+        return this.airFocus;
+    }
+
+    public getCreditsSpent() {
+        return this.creditsSpent;
+    }
+
     public getGlobalDebugText(gameApi: GameApi, productionApi: ProductionApi) {
         const productionState = QUEUES.reduce((prev, queueType) => {
             if (productionApi.getQueueData(queueType).size === 0) {
@@ -296,6 +372,7 @@ export class QueueController {
             })
             .join("");
 
-        return `Production: ${productionState}\n${queueStates}`;
+        const buildOrderText = this.buildOrderRunner.getGlobalDebugText();
+        return `Production: ${productionState}\n${buildOrderText ? buildOrderText + "\n" : ""}${queueStates}`;
     }
 }
@@ -1,8 +1,15 @@
-import { GameApi, GameMath, PlayerData, TechnoRules, Tile } from "@chronodivide/game-api";
+import { GameApi, PlayerData, TechnoRules, Vector2 } from "@chronodivide/game-api";
 import { GlobalThreat } from "../threat/threat.js";
 import { BasicBuilding } from "./basicBuilding.js";
-import { getDefaultPlacementLocation } from "./buildingRules.js";
-import { Vector2 } from "three";
+import { BuildingZone } from "./baseLayoutPlanner.js";
+import { MatchAwareness } from "../awareness.js";
+import { maxBy } from "../common/utils.js";
+
+// Refineries this close to a field already serve it.
+const REFINERY_SERVICE_RADIUS = 12;
+
+// Fields that grow back are worth this much on top of what is in them now.
+const REGROWING_FIELD_BONUS_VALUE = 5000;
 
 export class ResourceCollectionBuilding extends BasicBuilding {
     constructor(basePriority: number, maxNeeded: number, onlyBuildWhenFloatingCreditsAmount?: number) {
@@ -13,30 +20,32 @@ export class ResourceCollectionBuilding extends BasicBuilding {
         game: GameApi,
         playerData: PlayerData,
         technoRules: TechnoRules,
+        matchAwareness: MatchAwareness,
     ): { rx: number; ry: number } | undefined {
-        // Prefer spawning close to ore.
-        let selectedLocation = playerData.startLocation;
-
-        var closeOre: Tile | undefined;
-        var closeOreDist: number | undefined;
-        let allTileResourceData = game.mapApi.getAllTilesResourceData();
-        for (let i = 0; i < allTileResourceData.length; ++i) {
-            let tileResourceData = allTileResourceData[i];
-            if (tileResourceData.spawnsOre) {
-                let dist = GameMath.sqrt(
-                    (selectedLocation.x - tileResourceData.tile.rx) ** 2 +
-                        (selectedLocation.y - tileResourceData.tile.ry) ** 2,
-                );
-                if (closeOreDist == undefined || dist < closeOreDist) {
-                    closeOreDist = dist;
-                    closeOre = tileResourceData.tile;
-                }
-            }
-        }
-        if (closeOre) {
-            selectedLocation = new Vector2(closeOre.rx, closeOre.ry);
-        }
-        return getDefaultPlacementLocation(game, playerData, selectedLocation, technoRules);
+        // Prefer the richest, closest field that the enemy doesn't control and that doesn't have a refinery yet.
+        const refineries = game
+            .getVisibleUnits(playerData.name, "self", (r) => r.refinery)
+            .map((unitId) => game.getGameObjectData(unitId))
+            .map((unit) => (unit ? new Vector2(unit.tile.rx, unit.tile.ry) : null))
+            .filter((position): position is Vector2 => !!position);
+        const mainBaseLocation = matchAwareness.getMainBaseLocation();
+        const bestField = maxBy(matchAwareness.getOreFields().getMineableFields(), (field) => {
+            const distance = field.baseDistances.get(playerData.name) ?? field.center.distanceTo(mainBaseLocation);
+            const servingRefineries = refineries.filter(
+                (position) => position.distanceTo(field.center) <= REFINERY_SERVICE_RADIUS,
+            ).length;
+            const value = field.value + (field.regrows ? REGROWING_FIELD_BONUS_VALUE : 0);
+            return value / ((1 + distance) * (1 + servingRefineries));
+        });
+        // Build on the side of the field closest to our base.
+        const selectedLocation =
+            maxBy(bestField?.tiles ?? [], (tile) => -tile.distanceTo(mainBaseLocation)) ?? mainBaseLocation;
+        return matchAwareness
+            .getBaseLayoutPlanner()
+            .getPlacementLocation(game, playerData, technoRules, matchAwareness, {
+                zone: BuildingZone.Anywhere,
+                idealPoint: selectedLocation,
+            });
     }
 
     // Don't build/start selling these if we don't have any harvesters
@@ -0,0 +1,174 @@
+import assert from "assert";
+import { ObjectType, Vector2 } from "@chronodivide/game-api";
+import { AllyCommandHandler, AllyCommandType, parseAllyCommand } from "./allyCommands.js";
+import { MatchAwarenessImpl } from "../awareness.js";
+import { QueueController } from "../building/queueController.js";
+import { DEFAULT_PERSONALITY } from "../common/personality.js";
+import { SECTOR_SIZE, SectorCache } from "../map/sector.js";
+import { MissionController } from "../mission/missionController.js";
+import { AttackMission } from "../mission/missions/attackMission.js";
+import { FakeActionsApi } from "../../../test/fakeActionsApi.js";
+import { FakeGameApi } from "../../../test/fakeGameApi.js";
+
+describe("parseAllyCommand", () => {
+    it("parses commands, ignoring case and whitespace", () => {
+        assert.deepStrictEqual(parseAllyCommand("  Defend   ME "), {
+            addressee: null,
+            command: { type: AllyCommandType.Defend },
+        });
+        assert.deepStrictEqual(parseAllyCommand("go air")?.command, { type: AllyCommandType.GoAir });
+        assert.deepStrictEqual(parseAllyCommand("Stop Air")?.command, { type: AllyCommandType.StopAir });
+        assert.deepStrictEqual(parseAllyCommand("HOLD")?.command, { type: AllyCommandType.Hold });
+    });
+
+    it("keeps the player name of an attack command as written", () => {
+        assert.deepStrictEqual(parseAllyCommand("attack Big Bob")?.command, {
+            type: AllyCommandType.Attack,
+            playerName: "Big Bob",
+        });
+        assert.strictEqual(parseAllyCommand("attack"), null);
+    });
+
+    it("reads who a command is addressed to", () => {
+        assert.deepStrictEqual(parseAllyCommand("@Joe status"), {
+            addressee: "Joe",
+            command: { type: AllyCommandType.Status },
+        });
+    });
+
+    it("ignores anything else", () => {
+        assert.strictEqual(parseAllyCommand(""), null);
+        assert.strictEqual(parseAllyCommand("gg"), null);
+        assert.strictEqual(parseAllyCommand("constructor"), null);
+        assert.strictEqual(parseAllyCommand("@Joe"), null);
+    });
+});
+
+describe("AllyCommandHandler", () => {
+    const ME = "Me";
+    const ALLY = "Ally";
+    const ENEMY = "Enemy";
+    const MAP_SIZE = { width: SECTOR_SIZE * 4, height: SECTOR_SIZE * 4 };
+
+    let game: FakeGameApi;
+    let actionsApi: FakeActionsApi;
+    let matchAwareness: MatchAwarenessImpl;
+    let missionController: MissionController;
+    let queueController: QueueController;
+
+    const say = (sender: string, text: string) =>
+        new AllyCommandHandler(() => {}, DEFAULT_PERSONALITY).onChatMessage(
+            game.asGameApi(),
+            actionsApi.asActionsApi(),
+            game.getPlayerData(ME),
+            matchAwareness,
+            missionController,
+            queueController,
+            sender,
+            text,
+        );
+    const replies = () => actionsApi.callsTo("sayAll").map(([text]) => text as string);
+
+    beforeEach(() => {
+        game = new FakeGameApi(MAP_SIZE)
+            .addPlayer(ME, { startLocation: new Vector2(5, 5) })
+            .addPlayer(ALLY, { startLocation: new Vector2(5, 50) })
+            .addPlayer(ENEMY, { startLocation: new Vector2(50, 50) })
+            .setAllied(ME, ALLY);
+        actionsApi = new FakeActionsApi();
+        matchAwareness = new MatchAwarenessImpl(
+            null,
+            new SectorCache(game.mapApi.asMapApi(), MAP_SIZE),
+            new Vector2(10, 10),
+            () => {},
+        );
+        missionController = new MissionController([], () => {});
+        queueController = new QueueController();
+    });
+
+    it("only takes orders from allies", () => {
+        assert.strictEqual(say(ENEMY, "hold"), false);
+        assert.strictEqual(say(ME, "hold"), false);
+        assert.strictEqual(say(ALLY, "@Someone hold"), false);
+        assert.deepStrictEqual(replies(), []);
+
+        assert.strictEqual(say(ALLY, "@me hold"), true);
+        assert.deepStrictEqual(replies(), ["@Ally Holding, calling back 0 attack(s)."]);
+    });
+
+    it("attacks the requested enemy", () => {
+        say(ALLY, "attack enemy");
+
+        const missions = missionController.getMissions();
+        assert.strictEqual(missions.length, 1);
+        assert.ok(missions[0] instanceof AttackMission);
+        assert.strictEqual(matchAwareness.shouldAttack(), true);
+        assert.deepStrictEqual(replies(), ["@Ally Attacking Enemy."]);
+    });
+
+    it("lists the enemies when it doesn't know the target", () => {
+        say(ALLY, "attack Ally");
+
+        assert.deepStrictEqual(missionController.getMissions(), []);
+        assert.deepStrictEqual(replies(), ["@Ally I don't know an enemy called Ally. Enemies: Enemy."]);
+    });
+
+    it("calls back attacks and stops attacking when told to hold", () => {
+        say(ALLY, "attack Enemy");
+        say(ALLY, "hold");
+
+        assert.strictEqual(matchAwareness.shouldAttack(), false);
+        assert.strictEqual(matchAwareness.isHolding(game.asGameApi()), true);
+        assert.strictEqual(replies()[1], "@Ally Holding, calling back 1 attack(s).");
+
+        // Another attack order ends the hold.
+        say(ALLY, "attack Enemy");
+        assert.strictEqual(matchAwareness.isHolding(game.asGameApi()), false);
+    });
+
+    it("defends the ally's base once", () => {
+        say(ALLY, "defend me");
+        say(ALLY, "defend me");
+
+        assert.deepStrictEqual(
+            missionController.getMissions().map((mission) => mission.getUniqueName()),
+            ["ally-defence_Ally"],
+        );
+        assert.deepStrictEqual(replies(), ["@Ally Defending your base.", "@Ally Already defending your base."]);
+    });
+
+    it("expands once, if it has a construction yard", () => {
+        say(ALLY, "expand");
+        assert.deepStrictEqual(missionController.getMissions(), []);
+
+        game.defineRules("GACNST", ObjectType.Building, { constructionYard: true });
+        game.addObject({ name: "GACNST", owner: ME, rx: 5, ry: 5 });
+        say(ALLY, "expand");
+        say(ALLY, "expand");
+        assert.strictEqual(missionController.getMissions().length, 1);
+        assert.deepStrictEqual(replies(), [
+            "@Ally I can't expand, as I have no construction yard.",
+            "@Ally Building an MCV to expand.",
+            "@Ally Already expanding.",
+        ]);
+    });
+
+    it("reports its status", () => {
+        say(ALLY, "go air");
+        say(ALLY, "status");
+
+        assert.strictEqual(queueController.hasAirFocus(), true);
+        assert.match(
+            replies()[1],
+            /^@Ally \d+ credits, 0 combat units, defending, 0 attack\(s\) under way, focusing on air\.$/,
+        );
+    });
+
+    it("stops focusing on air when told to", () => {
+        say(ALLY, "go air");
+        say(ALLY, "stop air");
+
+        assert.strictEqual(queueController.hasAirFocus(), false);
+        assert.deepStrictEqual(replies(), ["@Ally Switching to air units.", "@Ally Back to the usual mix of units."]);
+    });
+});
@@ -0,0 +1,247 @@
+import { ActionsApi, GameApi, ObjectType, PlayerData, Vector2 } from "@chronodivide/game-api";
+import { MatchAwareness } from "../awareness.js";
+import { QueueController } from "../building/queueController.js";
+import { BotPersonality } from "../common/personality.js";
+import { DebugLogger } from "../common/utils.js";
+import { MissionController } from "../mission/missionController.js";
+import { AllInAttackMission } from "../mission/missions/allInAttackMission.js";
+import {
+    ATTACK_MISSION_INITIAL_PRIORITY,
+    AttackMission,
+    startAttackMission,
+} from "../mission/missions/attackMission.js";
+import { DefenceMission } from "../mission/missions/defenceMission.js";
+import { ExpansionMission } from "../mission/missions/expansionMission.js";
+
+export enum AllyCommandType {
+    Attack = "attack",
+    Defend = "defend",
+    Expand = "expand",
+    GoAir = "goAir",
+    Hold = "hold",
+    Status = "status",
+    StopAir = "stopAir",
+}
+
+type SimpleAllyCommandType = Exclude<AllyCommandType, AllyCommandType.Attack>;
+
+export type AllyCommand = { type: AllyCommandType.Attack; playerName: string } | { type: SimpleAllyCommandType };
+
+export type ParsedAllyMessage = {
+    // Name of the bot the message is for, or null if it is for every allied bot.
+    addressee: string | null;
+    command: AllyCommand;
+};
+
+const SIMPLE_COMMANDS = new Map<string, SimpleAllyCommandType>([
+    ["defend me", AllyCommandType.Defend],
+    ["defend", AllyCommandType.Defend],
+    ["expand", AllyCommandType.Expand],
+    ["go air", AllyCommandType.GoAir],
+    ["hold", AllyCommandType.Hold],
+    ["status", AllyCommandType.Status],
+    ["stop air", AllyCommandType.StopAir],
+]);
+
+/**
+ * Parses a chat message into a command, ignoring case and extra whitespace. A message can be addressed to a single
+ * bot by starting it with `@<name>`. Returns null for anything that isn't a command, such as chat between humans.
+ */
+export function parseAllyCommand(text: string): ParsedAllyMessage | null {
+    let words = text.trim().split(/\s+/);
+    let addressee: string | null = null;
+    if (words[0]?.startsWith("@") && words[0].length > 1) {
+        addressee = words[0].substring(1);
+        words = words.slice(1);
+    }
+    if (words.length === 0) {
+        return null;
+    }
+    if (words[0].toLowerCase() === "attack" && words.length > 1) {
+        return { addressee, command: { type: AllyCommandType.Attack, playerName: words.slice(1).join(" ") } };
+    }
+    const type = SIMPLE_COMMANDS.get(words.join(" ").toLowerCase());
+    return type ? { addressee, command: { type } } : null;
+}
+
+// How long an ally's order to attack or hold lasts.
+const ALLY_ORDER_DURATION_TICKS = 4500; // 5 minutes
+
+const ALLY_ATTACK_RADIUS = 15;
+
+// Radius around the ally's base to defend.
+const ALLY_DEFENCE_RADIUS = 20;
+const ALLY_DEFENCE_PRIORITY = 10;
+
+const ALLY_EXPANSION_PRIORITY = 50;
+
+/**
+ * Carries out commands that allied players give the bot in chat, and answers them.
+ */
+export class AllyCommandHandler {
+    constructor(
+        private logger: DebugLogger,
+        private personality: BotPersonality,
+    ) {}
+
+    /**
+     * Reacts to a chat message, if it is a command from one of our allies.
+     *
+     * @returns true if the message was a command for us.
+     */
+    public onChatMessage(
+        game: GameApi,
+        actionsApi: ActionsApi,
+        playerData: PlayerData,
+        matchAwareness: MatchAwareness,
+        missionController: MissionController,
+        queueController: QueueController,
+        sender: string,
+        text: string,
+    ): boolean {
+        if (sender === playerData.name || !game.areAlliedPlayers(playerData.name, sender)) {
+            return false;
+        }
+        const parsed = parseAllyCommand(text);
+        if (
+            !parsed ||
+            (parsed.addressee !== null && parsed.addressee.toLowerCase() !== playerData.name.toLowerCase())
+        ) {
+            return false;
+        }
+        const { command } = parsed;
+        this.logger(`${sender} ordered: ${command.type}`);
+        const reply = (message: string) => actionsApi.sayAll(`@${sender} ${message}`);
+
+        switch (command.type) {
+            case AllyCommandType.Attack: {
+                const enemies = game
+                    .getPlayers()
+                    .filter((name) => name !== playerData.name && !game.areAlliedPlayers(playerData.name, name))
+                    .filter((name) => game.getPlayerData(name).isCombatant);
+                const target = enemies.find((name) => name.toLowerCase() === command.playerName.toLowerCase());
+                if (!target) {
+                    reply(`I don't know an enemy called ${command.playerName}. Enemies: ${enemies.join(", ")}.`);
+                    return true;
+                }
+                const attackArea = this.getPlayerTarget(game, playerData, target);
+                matchAwareness.forceAttackUntil(game.getCurrentTick() + ALLY_ORDER_DURATION_TICKS);
+                const mission = startAttackMission(
+                    `ally-attack_${target}_${game.getCurrentTick()}`,
+                    ATTACK_MISSION_INITIAL_PRIORITY,
+                    attackArea,
+                    ALLY_ATTACK_RADIUS,
+                    game,
+                    playerData,
+                    matchAwareness,
+                    missionController,
+                    this.logger,
+                    this.personality.attackMissionMaxPriority,
+                );
+                reply(mission ? `Attacking ${target}.` : `Already attacking ${target}.`);
+                return true;
+            }
+            case AllyCommandType.Defend: {
+                const mission = missionController.addMission(
+                    new DefenceMission(
+                        `ally-defence_${sender}`,
+                        ALLY_DEFENCE_PRIORITY,
+                        matchAwareness.getMainRallyPoint(),
+                        game.getPlayerData(sender).startLocation,
+                        ALLY_DEFENCE_RADIUS,
+                        this.logger,
+                    ),
+                );
+                reply(mission ? `Defending your base.` : `Already defending your base.`);
+                return true;
+            }
+            case AllyCommandType.Expand: {
+                const { baseUnit } = game.getGeneralRules();
+                const canExpand =
+                    game.getVisibleUnits(
+                        playerData.name,
+                        "self",
+                        (r) => r.constructionYard || baseUnit.includes(r.name),
+                    ).length > 0;
+                if (!canExpand) {
+                    reply(`I can't expand, as I have no construction yard.`);
+                    return true;
+                }
+                const isExpanding = missionController
+                    .getMissions()
+                    .some((mission) => mission instanceof ExpansionMission);
+                const mission = isExpanding
+                    ? null
+                    : missionController.addMission(
+                          new ExpansionMission(
+                              `ally-expand_${game.getCurrentTick()}`,
+                              ALLY_EXPANSION_PRIORITY,
+                              null,
+                              this.logger,
+                          ),
+                      );
+                reply(mission ? `Building an MCV to expand.` : `Already expanding.`);
+                return true;
+            }
+            case AllyCommandType.GoAir:
+                queueController.setAirFocus(true);
+                reply(`Switching to air units.`);
+                return true;
+            case AllyCommandType.StopAir:
+                queueController.setAirFocus(false);
+                reply(`Back to the usual mix of units.`);
+                return true;
+            case AllyCommandType.Hold: {
+                matchAwareness.holdUntil(game.getCurrentTick() + ALLY_ORDER_DURATION_TICKS);
+                const attacks = missionController
+                    .getMissions()
+                    .filter((mission) => mission instanceof AttackMission || mission instanceof AllInAttackMission);
+                attacks.forEach((mission) => missionController.disbandMission(mission.getUniqueName()));
+                reply(`Holding, calling back ${attacks.length} attack(s).`);
+                return true;
+            }
+            case AllyCommandType.Status:
+                reply(this.getStatus(game, playerData, matchAwareness, missionController, queueController));
+                return true;
+        }
+    }
+
+    // The enemy building closest to our base, or their start location if we haven't seen any.
+    private getPlayerTarget(game: GameApi, playerData: PlayerData, playerName: string): Vector2 {
+        const buildings = game
+            .getVisibleUnits(playerData.name, "enemy", (r) => r.type === ObjectType.Building)
+            .map((unitId) => game.getGameObjectData(unitId))
+            .filter((unit) => unit?.owner === playerName)
+            .map((unit) => new Vector2(unit!.tile.rx, unit!.tile.ry));
+        if (buildings.length === 0) {
+            return game.getPlayerData(playerName).startLocation;
+        }
+        return buildings.reduce((closest, building) =>
+            building.distanceTo(playerData.startLocation) < closest.distanceTo(playerData.startLocation)
+                ? building
+                : closest,
+        );
+    }
+
+    private getStatus(
+        game: GameApi,
+        playerData: PlayerData,
+        matchAwareness: MatchAwareness,
+        missionController: MissionController,
+        queueController: QueueController,
+    ): string {
+        const armySize = game.getVisibleUnits(playerData.name, "self", (r) => r.isSelectableCombatant).length;
+        const attacks = missionController
+            .getMissions()
+            .filter((mission) => mission instanceof AttackMission || mission instanceof AllInAttackMission).length;
+        const mode = matchAwareness.isHolding(game)
+            ? "holding"
+            : matchAwareness.shouldAttack()
+            ? "attacking"
+            : "defending";
+        return (
+            `${playerData.credits} credits, ${armySize} combat units, ${mode}, ${attacks} attack(s) under way` +
+            (queueController.hasAirFocus() ? ", focusing on air." : ".")
+        );
+    }
+}
@@ -0,0 +1,121 @@
+export enum PersonalityName {
+    Balanced = "balanced",
+    Rusher = "rusher",
+    Turtle = "turtle",
+    Boomer = "boomer",
+    TechRusher = "tech-rusher",
+}
+
+/**
+ * What a building or unit is for, so a personality can favour some kinds of production over others.
+ */
+export enum BuildingRole {
+    // Refineries and harvesters.
+    Economy = "Economy",
+    // Buildings that produce units.
+    Production = "Production",
+    // Other buildings that unlock or support things, e.g. radars and battle labs.
+    Tech = "Tech",
+    Defence = "Defence",
+    Army = "Army",
+}
+
+/**
+ * The strategic leanings of a bot. Every module that makes a strategic trade-off consults the same profile.
+ */
+export type BotPersonality = {
+    name: PersonalityName;
+    // Attack missions raise the priority of the units they are waiting for up to this.
+    attackMissionMaxPriority: number;
+    // The enemy's offensive threat is multiplied by this when deciding whether to switch to attack mode...
+    attackThreatFactor: number;
+    // ... and by this when deciding whether to stay in attack mode.
+    retreatThreatFactor: number;
+    // Radius around the base that triggers a defence mission at the start of the game. It grows over time.
+    defenceStartingRadius: number;
+    // Build priorities are multiplied by these, roles that aren't listed are left alone.
+    buildPriorityMultipliers: { [role in BuildingRole]?: number };
+    // Radius in sectors around the base that is scouted at the start of the game.
+    scoutingStartingRadius: number;
+    // The scouting radius grows by one sector every this many ticks.
+    scoutingRadiusExpansionTicks: number;
+    // Before this many ticks, we only build an MCV to expand with when the ore around our bases runs low.
+    firstExpansionTicks: number;
+};
+
+const BALANCED: BotPersonality = {
+    name: PersonalityName.Balanced,
+    attackMissionMaxPriority: 50,
+    attackThreatFactor: 1.25,
+    retreatThreatFactor: 0.75,
+    defenceStartingRadius: 10,
+    buildPriorityMultipliers: {},
+    scoutingStartingRadius: 2,
+    scoutingRadiusExpansionTicks: 9000, // 10 minutes
+    firstExpansionTicks: 9000,
+};
+
+export const PERSONALITIES: { [name in PersonalityName]: BotPersonality } = {
+    [PersonalityName.Balanced]: BALANCED,
+    // Builds an army early at the expense of economy and defences, and attacks even when it is behind.
+    [PersonalityName.Rusher]: {
+        ...BALANCED,
+        name: PersonalityName.Rusher,
+        attackMissionMaxPriority: 80,
+        attackThreatFactor: 0.9,
+        retreatThreatFactor: 0.5,
+        defenceStartingRadius: 8,
+        buildPriorityMultipliers: {
+            [BuildingRole.Economy]: 0.7,
+            [BuildingRole.Production]: 1.5,
+            [BuildingRole.Tech]: 0.5,
+            [BuildingRole.Defence]: 0.3,
+            [BuildingRole.Army]: 1.5,
+        },
+        // Find the enemy base before looking around our own.
+        scoutingStartingRadius: 1,
+        firstExpansionTicks: 18000,
+    },
+    // Fortifies its base and defends a wide area, only attacking with an overwhelming advantage.
+    [PersonalityName.Turtle]: {
+        ...BALANCED,
+        name: PersonalityName.Turtle,
+        attackMissionMaxPriority: 35,
+        attackThreatFactor: 1.75,
+        retreatThreatFactor: 1.0,
+        defenceStartingRadius: 16,
+        buildPriorityMultipliers: {
+            [BuildingRole.Defence]: 3,
+            [BuildingRole.Army]: 0.8,
+        },
+        scoutingStartingRadius: 3,
+        scoutingRadiusExpansionTicks: 6000,
+        firstExpansionTicks: 13500,
+    },
+    // Expands its economy first and attacks late with a larger army.
+    [PersonalityName.Boomer]: {
+        ...BALANCED,
+        name: PersonalityName.Boomer,
+        attackMissionMaxPriority: 40,
+        attackThreatFactor: 1.5,
+        buildPriorityMultipliers: {
+            [BuildingRole.Economy]: 2,
+            [BuildingRole.Production]: 0.8,
+            [BuildingRole.Defence]: 0.8,
+            [BuildingRole.Army]: 0.7,
+        },
+        firstExpansionTicks: 4500, // 5 minutes
+    },
+    // Heads for the top of the tech tree before building up an army.
+    [PersonalityName.TechRusher]: {
+        ...BALANCED,
+        name: PersonalityName.TechRusher,
+        buildPriorityMultipliers: {
+            [BuildingRole.Production]: 0.8,
+            [BuildingRole.Tech]: 3,
+            [BuildingRole.Army]: 0.8,
+        },
+    },
+};
+
+export const DEFAULT_PERSONALITY = BALANCED;
@@ -0,0 +1,177 @@
+// Timing of the bot's subsystems, to find out what is slow in bigger games.
+
+export type SectionSummary = {
+    section: string;
+    calls: number;
+    totalMs: number;
+    meanMs: number;
+    p50Ms: number;
+    p90Ms: number;
+    p99Ms: number;
+    maxMs: number;
+};
+
+/**
+ * A tick where the bot took longer than its budget, with the time spent in each section during that tick.
+ * Sections can be nested (e.g. `calculateGlobalThreat` runs inside `MatchAwareness.onAiUpdate`), so they don't add up
+ * to the total.
+ */
+export type BudgetOverrun = {
+    tick: number;
+    totalMs: number;
+    sections: { [section: string]: number };
+};
+
+export type ProfileReport = {
+    tickBudgetMs: number;
+    ticksMeasured: number;
+    overrunCount: number;
+    // Per-tick totals, as if they were a section of their own.
+    ticks: SectionSummary;
+    sections: SectionSummary[];
+    // The worst overruns, slowest first.
+    worstOverruns: BudgetOverrun[];
+};
+
+const MAX_LOGGED_OVERRUNS = 100;
+
+const CSV_COLUMNS: (keyof SectionSummary)[] = [
+    "section",
+    "calls",
+    "totalMs",
+    "meanMs",
+    "p50Ms",
+    "p90Ms",
+    "p99Ms",
+    "maxMs",
+];
+
+// `performance` isn't a global in Node 14, so fall back to the (millisecond resolution) clock there.
+const now = () => (typeof performance !== "undefined" ? performance.now() : Date.now());
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+// Nearest-rank percentile of an already sorted array.
+const percentile = (sorted: number[], fraction: number) =>
+    sorted.length === 0 ? 0 : sorted[Math.min(sorted.length - 1, Math.ceil(fraction * sorted.length) - 1)];
+
+const summarise = (section: string, samples: number[]): SectionSummary => {
+    const sorted = [...samples].sort((a, b) => a - b);
+    const totalMs = sorted.reduce((sum, sample) => sum + sample, 0);
+    return {
+        section,
+        calls: sorted.length,
+        totalMs: round(totalMs),
+        meanMs: round(sorted.length > 0 ? totalMs / sorted.length : 0),
+        p50Ms: round(percentile(sorted, 0.5)),
+        p90Ms: round(percentile(sorted, 0.9)),
+        p99Ms: round(percentile(sorted, 0.99)),
+        maxMs: round(sorted.length > 0 ? sorted[sorted.length - 1] : 0),
+    };
+};
+
+/**
+ * Records how long named sections of the bot take, and which ticks go over the time budget.
+ * When disabled, `measure` just runs the function, so it is safe to leave in place.
+ */
+export class TickProfiler {
+    private samples: Map<string, number[]> = new Map();
+    private tickSamples: number[] = [];
+    private overrunCount = 0;
+    private worstOverruns: BudgetOverrun[] = [];
+
+    private currentTick: number | null = null;
+    private currentTickStartedAt = 0;
+    private currentTickSections: { [section: string]: number } = {};
+
+    constructor(
+        private enabled: boolean,
+        private tickBudgetMs: number,
+    ) {}
+
+    public isEnabled() {
+        return this.enabled;
+    }
+
+    public beginTick(tick: number) {
+        if (!this.enabled) {
+            return;
+        }
+        this.currentTick = tick;
+        this.currentTickSections = {};
+        this.currentTickStartedAt = now();
+    }
+
+    public endTick() {
+        if (!this.enabled || this.currentTick === null) {
+            return;
+        }
+        const totalMs = now() - this.currentTickStartedAt;
+        this.tickSamples.push(totalMs);
+        if (totalMs > this.tickBudgetMs) {
+            this.overrunCount++;
+            this.logOverrun({ tick: this.currentTick, totalMs: round(totalMs), sections: this.currentTickSections });
+        }
+        this.currentTick = null;
+    }
+
+    public measure<T>(section: string, fn: () => T): T {
+        if (!this.enabled) {
+            return fn();
+        }
+        const startedAt = now();
+        try {
+            return fn();
+        } finally {
+            const elapsed = now() - startedAt;
+            let sectionSamples = this.samples.get(section);
+            if (!sectionSamples) {
+                sectionSamples = [];
+                this.samples.set(section, sectionSamples);
+            }
+            sectionSamples.push(elapsed);
+            this.currentTickSections[section] = round((this.currentTickSections[section] ?? 0) + elapsed);
+        }
+    }
+
+    // Keeps only the slowest overruns, so long games don't build up an unbounded log.
+    private logOverrun(overrun: BudgetOverrun) {
+        if (this.worstOverruns.length < MAX_LOGGED_OVERRUNS) {
+            this.worstOverruns.push(overrun);
+            return;
+        }
+        let fastestIdx = 0;
+        this.worstOverruns.forEach((logged, idx) => {
+            if (logged.totalMs < this.worstOverruns[fastestIdx].totalMs) {
+                fastestIdx = idx;
+            }
+        });
+        if (overrun.totalMs > this.worstOverruns[fastestIdx].totalMs) {
+            this.worstOverruns[fastestIdx] = overrun;
+        }
+    }
+
+    public getReport(): ProfileReport {
+        return {
+            tickBudgetMs: this.tickBudgetMs,
+            ticksMeasured: this.tickSamples.length,
+            overrunCount: this.overrunCount,
+            ticks: summarise("tick", this.tickSamples),
+            sections: [...this.samples.entries()]
+                .map(([section, samples]) => summarise(section, samples))
+                .sort((a, b) => b.totalMs - a.totalMs),
+            worstOverruns: [...this.worstOverruns].sort((a, b) => b.totalMs - a.totalMs),
+        };
+    }
+}
+
+/**
+ * Formats the per-section summaries (including the per-tick totals) as CSV.
+ */
+export function profileReportToCsv(report: ProfileReport): string {
+    return (
+        [report.ticks, ...report.sections]
+            .map((summary) => CSV_COLUMNS.map((column) => summary[column]).join(","))
+            .reduce((csv, row) => csv + "\n" + row, CSV_COLUMNS.join(",")) + "\n"
+    );
+}
@@ -9,8 +9,12 @@ export const getCachedTechnoRules = (gameApi: GameApi, unitId: number): TechnoRu
     if (!gameObject) {
         return null;
     }
+    return getCachedTechnoRulesByName(gameApi, gameObject.name);
+};
+
+// For objects we can no longer see, such as remembered enemies.
+export const getCachedTechnoRulesByName = (gameApi: GameApi, name: string): TechnoRules | null => {
     const { rulesApi } = gameApi;
-    const { name } = gameObject;
 
     if (technoRulesCache[name]) {
         // object is present in cache, either with TechnoRules or null (indicating that it does not have TechnoRules)
@@ -0,0 +1,112 @@
+import assert from "assert";
+import { Vector2 } from "@chronodivide/game-api";
+import { ScoutingManager, PrioritisedScoutTarget } from "./scout.js";
+import { SECTOR_SIZE, SectorCache } from "../map/sector.js";
+import { FakeGameApi } from "../../../test/fakeGameApi.js";
+import { PERSONALITIES, PersonalityName } from "./personality.js";
+
+const drainTargets = (scoutingManager: ScoutingManager) => {
+    const targets: PrioritisedScoutTarget[] = [];
+    while (scoutingManager.hasScoutTargets()) {
+        targets.push(scoutingManager.getNewScoutTarget()!);
+    }
+    return targets;
+};
+
+describe("ScoutingManager", () => {
+    const ME = "Me";
+    const ENEMY = "Enemy";
+    const MAP_SIZE = { width: SECTOR_SIZE * 8, height: SECTOR_SIZE * 8 };
+    const MY_START = new Vector2(4, 4);
+    const ENEMY_START = new Vector2(60, 60);
+
+    let game: FakeGameApi;
+    let sectorCache: SectorCache;
+    let scoutingManager: ScoutingManager;
+
+    beforeEach(() => {
+        game = new FakeGameApi(MAP_SIZE, [MY_START, ENEMY_START])
+            .addPlayer(ME, { startLocation: MY_START })
+            .addPlayer(ENEMY, { startLocation: ENEMY_START });
+        sectorCache = new SectorCache(game.mapApi.asMapApi(), MAP_SIZE);
+        scoutingManager = new ScoutingManager(() => {});
+    });
+
+    it("scouts the sectors around the base before the enemy start location", () => {
+        scoutingManager.onGameStart(game.asGameApi(), game.getPlayerData(ME), sectorCache);
+
+        const targets = drainTargets(scoutingManager);
+        const points = targets.map((target) => target.asVector2());
+        // The closest sectors (in either order), then the diagonal one, then the enemy.
+        assert.deepStrictEqual(
+            points.slice(0, 2).sort((a, b) => a!.x - b!.x),
+            [new Vector2(0, SECTOR_SIZE), new Vector2(SECTOR_SIZE, 0)],
+        );
+        assert.deepStrictEqual(points.slice(2), [new Vector2(SECTOR_SIZE, SECTOR_SIZE), ENEMY_START]);
+        assert.strictEqual(targets[3].isPermanent, true);
+    });
+
+    it("doesn't scout start locations that are already visible", () => {
+        game.mapApi.reveal(ME, { x: ENEMY_START.x, y: ENEMY_START.y, width: 1, height: 1 });
+        scoutingManager.onGameStart(game.asGameApi(), game.getPlayerData(ME), sectorCache);
+
+        const points = drainTargets(scoutingManager).map((target) => target.asVector2());
+        assert.ok(!points.some((point) => point?.equals(ENEMY_START)));
+    });
+
+    it("drops targets once they are visible", () => {
+        scoutingManager.onGameStart(game.asGameApi(), game.getPlayerData(ME), sectorCache);
+        game.mapApi.reveal(ME);
+
+        for (let i = 0; i < 4; ++i) {
+            scoutingManager.onAiUpdate(game.asGameApi(), game.getPlayerData(ME), sectorCache);
+        }
+        assert.strictEqual(scoutingManager.hasScoutTargets(), false);
+    });
+
+    it("scouts targets that were put back again", () => {
+        scoutingManager.onGameStart(game.asGameApi(), game.getPlayerData(ME), sectorCache);
+        const [first, ...rest] = drainTargets(scoutingManager);
+        scoutingManager.returnScoutTarget(rest[rest.length - 1]);
+        scoutingManager.returnScoutTarget(first);
+
+        assert.deepStrictEqual(drainTargets(scoutingManager), [first, rest[rest.length - 1]]);
+    });
+
+    it("scouts further out as the game goes on", () => {
+        scoutingManager.onGameStart(game.asGameApi(), game.getPlayerData(ME), sectorCache);
+
+        // 10 minutes per extra sector of radius.
+        game.currentTick = 9000 * 3;
+        scoutingManager.onAiUpdate(game.asGameApi(), game.getPlayerData(ME), sectorCache);
+
+        const sectorPoints = drainTargets(scoutingManager)
+            .map((target) => target.asVector2()!)
+            .filter((point) => !point.equals(ENEMY_START));
+        // The 3 initial sectors, then all 8 sectors within the new radius (including the initial ones again).
+        assert.strictEqual(sectorPoints.length, 3 + 8);
+        assert.ok(sectorPoints.every((point) => point.x < SECTOR_SIZE * 3 && point.y < SECTOR_SIZE * 3));
+    });
+
+    it("scouts a personality-dependent radius around the base", () => {
+        const countSectorTargets = (personality: PersonalityName) => {
+            const manager = new ScoutingManager(() => {}, PERSONALITIES[personality]);
+            manager.onGameStart(game.asGameApi(), game.getPlayerData(ME), sectorCache);
+            return drainTargets(manager).filter((target) => !target.asVector2()!.equals(ENEMY_START)).length;
+        };
+
+        // Rushers go straight for the enemy, turtles look further around their own base first.
+        assert.strictEqual(countSectorTargets(PersonalityName.Rusher), 0);
+        assert.strictEqual(countSectorTargets(PersonalityName.Balanced), 3);
+        assert.strictEqual(countSectorTargets(PersonalityName.Turtle), 8);
+    });
+
+    it("queues the whole map again when rescouting", () => {
+        scoutingManager.rescout(game.asGameApi(), game.getPlayerData(ME), sectorCache);
+
+        const points = drainTargets(scoutingManager).map((target) => target.asVector2()!);
+        assert.strictEqual(points.filter((point) => point.equals(ENEMY_START)).length, 1);
+        // Every sector but our own, plus the enemy start location.
+        assert.strictEqual(points.length, 8 * 8 - 1 + 1);
+    });
+});
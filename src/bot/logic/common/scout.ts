@@ -2,6 +2,7 @@ import { GameApi, GameMath, PlayerData, Vector2 } from "@chronodivide/game-api";
 import { Sector, SectorCache } from "../map/sector";
 import { DebugLogger } from "./utils";
 import { PriorityQueue } from "@datastructures-js/priority-queue";
+import { BotPersonality, DEFAULT_PERSONALITY } from "./personality.js";
 
 export const getUnseenStartingLocations = (gameApi: GameApi, playerData: PlayerData) => {
     const unseenStartingLocations = gameApi.mapApi.getStartingLocations().filter((startingLocation) => {
@@ -53,19 +54,18 @@ export class PrioritisedScoutTarget {
 
 const ENEMY_SPAWN_POINT_PRIORITY = 100;
 
-// Amount of sectors around the starting sector to try to scout.
-const NEARBY_SECTOR_STARTING_RADIUS = 2;
 const NEARBY_SECTOR_BASE_PRIORITY = 1000;
 
-// Amount of ticks per 'radius' to expand for scouting.
-const SCOUTING_RADIUS_EXPANSION_TICKS = 9000; // 10 minutes
-
 export class ScoutingManager {
     private scoutingQueue: PriorityQueue<PrioritisedScoutTarget>;
 
-    private queuedRadius = NEARBY_SECTOR_STARTING_RADIUS;
+    private queuedRadius: number;
 
-    constructor(private logger: DebugLogger) {
+    constructor(
+        private logger: DebugLogger,
+        private personality: BotPersonality = DEFAULT_PERSONALITY,
+    ) {
+        this.queuedRadius = personality.scoutingStartingRadius;
         // Order by descending priority.
         this.scoutingQueue = new PriorityQueue(
             (a: PrioritisedScoutTarget, b: PrioritisedScoutTarget) => b.priority - a.priority,
@@ -137,7 +137,25 @@ export class ScoutingManager {
             gameApi,
             playerData.startLocation,
             sectorCache,
-            NEARBY_SECTOR_STARTING_RADIUS,
+            this.personality.scoutingStartingRadius,
+            NEARBY_SECTOR_BASE_PRIORITY,
+        );
+    }
+
+    /**
+     * Queues every enemy starting location and every sector on the map to be scouted again, for when we have lost
+     * track of the enemy.
+     */
+    rescout(gameApi: GameApi, playerData: PlayerData, sectorCache: SectorCache) {
+        getUnseenStartingLocations(gameApi, playerData)
+            .map((tile) => new PrioritisedScoutTarget(ENEMY_SPAWN_POINT_PRIORITY, tile, true))
+            .forEach((target) => this.scoutingQueue.enqueue(target));
+        const { width: sectorsX, height: sectorsY } = sectorCache.getSectorBounds();
+        this.addRadiusToScout(
+            gameApi,
+            playerData.startLocation,
+            sectorCache,
+            Math.max(sectorsX, sectorsY),
             NEARBY_SECTOR_BASE_PRIORITY,
         );
     }
@@ -159,7 +177,7 @@ export class ScoutingManager {
             this.scoutingQueue.dequeue();
         }
 
-        const requiredRadius = Math.floor(gameApi.getCurrentTick() / SCOUTING_RADIUS_EXPANSION_TICKS);
+        const requiredRadius = Math.floor(gameApi.getCurrentTick() / this.personality.scoutingRadiusExpansionTicks);
         if (requiredRadius > this.queuedRadius) {
             this.logger(`expanding scouting radius from ${this.queuedRadius} to ${requiredRadius}`);
             this.addRadiusToScout(
@@ -177,6 +195,13 @@ export class ScoutingManager {
         return this.scoutingQueue.dequeue();
     }
 
+    /**
+     * Puts a target we took with `getNewScoutTarget()` back in the queue, for when we can't scout it just yet.
+     */
+    returnScoutTarget(target: PrioritisedScoutTarget) {
+        this.scoutingQueue.enqueue(target);
+    }
+
     hasScoutTargets() {
         return !this.scoutingQueue.isEmpty();
     }
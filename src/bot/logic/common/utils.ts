@@ -14,7 +14,7 @@ export enum Countries {
 
 export type DebugLogger = (message: string, sayInGame?: boolean) => void;
 
-export const isOwnedByNeutral = (unitData: UnitData | undefined) => unitData?.owner === "@@NEUTRAL@@";
+export const isOwnedByNeutral = (unitData: { owner?: string } | undefined) => unitData?.owner === "@@NEUTRAL@@";
 
 // Return if the given unit would have .isSelectableCombatant = true.
 // Usable on GameObjectData (which is faster to get than TechnoRules)
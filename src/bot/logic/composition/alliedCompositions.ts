@@ -1,6 +1,6 @@
 import { GameApi, PlayerData } from "@chronodivide/game-api";
 import { MatchAwareness } from "../awareness";
-import { UnitComposition } from "./common";
+import { UnitComposition, isExpectingAirUnits } from "./common.js";
 
 export const getAlliedCompositions = (
     gameApi: GameApi,
@@ -11,11 +11,12 @@ export const getAlliedCompositions = (
     const hasAirforce =
         gameApi.getVisibleUnits(playerData.name, "self", (r) => r.name === "GAAIRC" || r.name === "AMRADR").length > 0;
     const hasBattleLab = gameApi.getVisibleUnits(playerData.name, "self", (r) => r.name === "GATECH").length > 0;
+    const expectAirUnits = isExpectingAirUnits(matchAwareness);
 
     const includeInfantry = !hasAirforce && !hasBattleLab;
     return {
         ...(includeInfantry && { E1: 5 }),
-        ...(hasWarFactory && { MTNK: 3, FV: 2 }),
+        ...(hasWarFactory && { MTNK: 3, FV: expectAirUnits ? 4 : 2 }),
         ...(hasAirforce && { JUMPJET: 6 }),
         ...(hasBattleLab && { SREF: 2, MGTK: 3 }),
     };
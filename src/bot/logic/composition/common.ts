@@ -1,3 +1,11 @@
+import { MatchAwareness } from "../awareness.js";
+
 export type UnitComposition = {
     [unitType: string]: number;
 };
+
+/**
+ * True if an opponent has the tech for air units, so that we can start building anti-air before they show up.
+ */
+export const isExpectingAirUnits = (matchAwareness: MatchAwareness) =>
+    matchAwareness.getEnemyTechs().some(({ expectAirUnits }) => expectAirUnits);
@@ -0,0 +1,32 @@
+import { GameApi, PlayerData, SideType } from "@chronodivide/game-api";
+import { MatchAwareness } from "../awareness.js";
+import { UnitComposition, isExpectingAirUnits } from "./common.js";
+
+/**
+ * Ships to attack enemies we can only reach by sea. Empty until we have a naval yard.
+ */
+export const getNavalComposition = (
+    gameApi: GameApi,
+    playerData: PlayerData,
+    matchAwareness: MatchAwareness,
+): UnitComposition => {
+    const isSoviet = playerData.country?.side === SideType.Nod;
+    const hasBuilding = (...names: string[]) =>
+        gameApi.getVisibleUnits(playerData.name, "self", (r) => names.includes(r.name)).length > 0;
+    if (!hasBuilding(isSoviet ? "NAYARD" : "GAYARD")) {
+        return {};
+    }
+    const expectAirUnits = isExpectingAirUnits(matchAwareness);
+    if (isSoviet) {
+        const hasRadar = hasBuilding("NARADR");
+        return {
+            SUB: 4,
+            ...(hasRadar && { HYD: expectAirUnits ? 4 : 2 }),
+        };
+    }
+    const hasAirforce = hasBuilding("GAAIRC", "AMRADR");
+    return {
+        DEST: 4,
+        ...(hasAirforce && { AEGIS: expectAirUnits ? 3 : 1 }),
+    };
+};
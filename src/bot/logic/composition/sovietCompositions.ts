@@ -1,6 +1,6 @@
 import { GameApi, PlayerData } from "@chronodivide/game-api";
 import { MatchAwareness } from "../awareness";
-import { UnitComposition } from "./common";
+import { UnitComposition, isExpectingAirUnits } from "./common.js";
 
 export const getSovietComposition = (
     gameApi: GameApi,
@@ -10,11 +10,12 @@ export const getSovietComposition = (
     const hasWarFactory = gameApi.getVisibleUnits(playerData.name, "self", (r) => r.name === "NAWEAP").length > 0;
     const hasRadar = gameApi.getVisibleUnits(playerData.name, "self", (r) => r.name === "NARADR").length > 0;
     const hasBattleLab = gameApi.getVisibleUnits(playerData.name, "self", (r) => r.name === "NATECH").length > 0;
+    const expectAirUnits = isExpectingAirUnits(matchAwareness);
 
     const includeInfantry = !hasBattleLab;
     return {
         ...(includeInfantry && { E2: 10 }),
-        ...(hasWarFactory && { HTNK: 3, HTK: 2 }),
+        ...(hasWarFactory && { HTNK: 3, HTK: expectAirUnits ? 4 : 2 }),
         ...(hasRadar && { V3: 1 }),
         ...(hasBattleLab && { APOC: 2 }),
     };
@@ -0,0 +1,146 @@
+import assert from "assert";
+import { LandType, MovementZone, TechnoRules, Vector2 } from "@chronodivide/game-api";
+import {
+    ComponentMap,
+    MapConnectivity,
+    MapConnectivityAnalysis,
+    ReachabilityMap,
+    ReachabilityZone,
+    getReachabilityZone,
+    isLandTile,
+} from "./connectivity.js";
+import { SectorCache } from "./sector.js";
+import { FakeMapApi } from "../../../test/fakeMapApi.js";
+
+describe("MapConnectivityAnalysis", () => {
+    const MAP_SIZE = { width: 64, height: 64 };
+
+    let mapApi: FakeMapApi;
+
+    const addWater = (x: number, y: number, width: number, height: number) => {
+        for (let rx = x; rx < x + width; ++rx) {
+            for (let ry = y; ry < y + height; ++ry) {
+                mapApi.setLandType(rx, ry, LandType.Water);
+            }
+        }
+    };
+    const analyse = () => MapConnectivityAnalysis.analyse(mapApi.asMapApi(), MAP_SIZE);
+
+    beforeEach(() => {
+        mapApi = new FakeMapApi(MAP_SIZE);
+    });
+
+    it("knows when bases can only be reached by land", () => {
+        addWater(30, 0, 4, 64);
+        assert.strictEqual(analyse().getConnectivity(new Vector2(2, 50), new Vector2(2, 60)), MapConnectivity.Land);
+    });
+
+    it("knows when bases can only be reached by sea", () => {
+        addWater(30, 0, 4, 64);
+        const connectivity = analyse();
+        assert.strictEqual(
+            connectivity.getConnectivity(new Vector2(10, 10), new Vector2(50, 10)),
+            MapConnectivity.Naval,
+        );
+        assert.strictEqual(connectivity.hasNavalAccess(new Vector2(10, 10)), true);
+        assert.deepStrictEqual(connectivity.getClosestNavalWater(new Vector2(10, 10)), new Vector2(30, 10));
+    });
+
+    it("knows when bases can be reached by land or by sea", () => {
+        // Units can walk around the bottom of the lake.
+        addWater(30, 0, 4, 40);
+        assert.strictEqual(analyse().getConnectivity(new Vector2(10, 10), new Vector2(50, 10)), MapConnectivity.Mixed);
+    });
+
+    it("ignores water that is too small for ships", () => {
+        // An island in a moat.
+        addWater(46, 46, 9, 9);
+        for (let rx = 48; rx < 53; ++rx) {
+            for (let ry = 48; ry < 53; ++ry) {
+                mapApi.setLandType(rx, ry, LandType.Clear);
+            }
+        }
+        const connectivity = analyse();
+        assert.strictEqual(
+            connectivity.getConnectivity(new Vector2(10, 10), new Vector2(50, 50)),
+            MapConnectivity.None,
+        );
+        assert.strictEqual(connectivity.hasNavalAccess(new Vector2(50, 50)), false);
+        assert.strictEqual(connectivity.getClosestNavalWater(new Vector2(50, 50)), null);
+    });
+});
+
+describe("ComponentMap", () => {
+    it("labels connected regions of passable tiles", () => {
+        const mapSize = { width: 16, height: 16 };
+        const mapApi = new FakeMapApi(mapSize);
+        for (let ry = 0; ry < 16; ++ry) {
+            mapApi.setLandType(8, ry, LandType.Rock);
+        }
+        const componentMap = ComponentMap.analyse(mapApi.asMapApi(), mapSize, isLandTile);
+
+        const left = componentMap.getComponentId(0, 0);
+        const right = componentMap.getComponentId(15, 15);
+        assert.notStrictEqual(left, null);
+        assert.notStrictEqual(left, right);
+        assert.strictEqual(componentMap.getComponentId(7, 15), left);
+        assert.strictEqual(componentMap.getComponentId(8, 0), null);
+        assert.strictEqual(componentMap.getComponentSize(left!), 8 * 16);
+        assert.deepStrictEqual(componentMap.getComponentIdsNearPoint(new Vector2(8, 8), 1), new Set([left, right]));
+    });
+});
+
+describe("ReachabilityMap", () => {
+    const MAP_SIZE = { width: 64, height: 64 };
+    const BASE = new Vector2(10, 10);
+    const ISLAND = new Vector2(52, 52);
+
+    let mapApi: FakeMapApi;
+    let reachabilityMap: ReachabilityMap;
+
+    beforeEach(() => {
+        mapApi = new FakeMapApi(MAP_SIZE);
+        // An island in a lake in the corner of the map.
+        for (let rx = 36; rx < 64; ++rx) {
+            for (let ry = 36; ry < 64; ++ry) {
+                const onIsland = rx >= 48 && rx < 56 && ry >= 48 && ry < 56;
+                mapApi.setLandType(rx, ry, onIsland ? LandType.Clear : LandType.Water);
+            }
+        }
+        reachabilityMap = ReachabilityMap.analyse(mapApi.asMapApi(), MAP_SIZE);
+    });
+
+    it("knows where each kind of unit can go", () => {
+        assert.strictEqual(reachabilityMap.canReach(ReachabilityZone.Ground, BASE, new Vector2(30, 10)), true);
+        assert.strictEqual(reachabilityMap.canReach(ReachabilityZone.Ground, BASE, ISLAND), false);
+        assert.strictEqual(reachabilityMap.canReach(ReachabilityZone.Infantry, BASE, ISLAND), false);
+        assert.strictEqual(reachabilityMap.canReach(ReachabilityZone.Amphibious, BASE, ISLAND), true);
+        assert.strictEqual(
+            reachabilityMap.canReach(ReachabilityZone.Water, new Vector2(44, 44), new Vector2(60, 60)),
+            true,
+        );
+        assert.strictEqual(reachabilityMap.canReach(ReachabilityZone.Water, BASE, new Vector2(60, 60)), false);
+        // Aircraft can go anywhere.
+        assert.strictEqual(reachabilityMap.canReach(null, BASE, ISLAND), true);
+        assert.strictEqual(reachabilityMap.getComponentId(ReachabilityZone.Ground, 44, 44), null);
+    });
+
+    it("knows whether any part of a sector can be reached", () => {
+        const sectorCache = new SectorCache(mapApi.asMapApi(), MAP_SIZE);
+        const islandSector = sectorCache.getSector(6, 6)!;
+        // Only part of this sector is on our side of the lake.
+        const shoreSector = sectorCache.getSector(4, 4)!;
+        assert.strictEqual(reachabilityMap.canReachSector(ReachabilityZone.Ground, BASE, islandSector), false);
+        assert.strictEqual(reachabilityMap.canReachSector(ReachabilityZone.Amphibious, BASE, islandSector), true);
+        assert.strictEqual(reachabilityMap.canReachSector(ReachabilityZone.Ground, BASE, shoreSector), true);
+    });
+
+    it("groups movement zones by where they can go", () => {
+        const zoneOf = (movementZone: MovementZone) => getReachabilityZone({ movementZone } as TechnoRules);
+        assert.strictEqual(zoneOf(MovementZone.Crusher), ReachabilityZone.Ground);
+        assert.strictEqual(zoneOf(MovementZone.InfantryDestroyer), ReachabilityZone.Infantry);
+        assert.strictEqual(zoneOf(MovementZone.AmphibiousDestroyer), ReachabilityZone.Amphibious);
+        assert.strictEqual(zoneOf(MovementZone.Water), ReachabilityZone.Water);
+        assert.strictEqual(zoneOf(MovementZone.Fly), null);
+    });
+});
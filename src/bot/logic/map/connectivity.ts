@@ -0,0 +1,363 @@
+import { LandType, MapApi, MovementZone, Size, SpeedType, TechnoRules, Tile, Vector2 } from "@chronodivide/game-api";
+import { SECTOR_SIZE, Sector } from "./sector.js";
+
+/**
+ * How our units can get from our base to another.
+ */
+export enum MapConnectivity {
+    // By land only.
+    Land = "land",
+    // By land or by sea.
+    Mixed = "mixed",
+    // By sea only.
+    Naval = "naval",
+    // Only by air.
+    None = "none",
+}
+
+const LAND_TYPES = new Set([
+    LandType.Clear,
+    LandType.Road,
+    LandType.Beach,
+    LandType.Rough,
+    LandType.Railroad,
+    LandType.Weeds,
+    LandType.Tiberium,
+]);
+
+export const isLandTile = (tile: Tile) =>
+    LAND_TYPES.has(tile.landType) || (tile.onBridgeLandType !== undefined && LAND_TYPES.has(tile.onBridgeLandType));
+
+export const isWaterTile = (tile: Tile) => tile.landType === LandType.Water;
+
+// Bodies of water smaller than this are ponds that ships can't do anything with.
+const MIN_NAVAL_WATER_TILES = 100;
+
+// A base can use water this close to its start location, e.g. for a naval yard.
+const NAVAL_ACCESS_RADIUS = 25;
+
+/**
+ * A `ComponentMap` in a form that can be saved as JSON.
+ */
+export type ComponentMapData = {
+    // Region of each tile, or -1 if it isn't passable, run-length encoded as pairs of region and count.
+    componentIds: number[];
+    componentSizes: number[];
+};
+
+// Labels every passable tile reachable from the given one, returning how many there were.
+function fillComponent(
+    passable: Uint8Array,
+    componentIds: Int32Array,
+    { width, height }: Size,
+    rx: number,
+    ry: number,
+    componentId: number,
+) {
+    const stack = [[rx, ry]];
+    componentIds[rx * height + ry] = componentId;
+    let size = 0;
+    while (stack.length > 0) {
+        const [x, y] = stack.pop()!;
+        ++size;
+        for (let dx = -1; dx <= 1; ++dx) {
+            for (let dy = -1; dy <= 1; ++dy) {
+                const nx = x + dx;
+                const ny = y + dy;
+                if (nx < 0 || nx >= width || ny < 0 || ny >= height || componentIds[nx * height + ny] !== -1) {
+                    continue;
+                }
+                if (passable[nx * height + ny]) {
+                    componentIds[nx * height + ny] = componentId;
+                    stack.push([nx, ny]);
+                }
+            }
+        }
+    }
+    return size;
+}
+
+/**
+ * Splits the map into regions of tiles that pass a test and are connected to each other, diagonals included.
+ */
+export class ComponentMap {
+    constructor(
+        private mapBounds: Size,
+        private componentIds: Int32Array,
+        private componentSizes: number[],
+    ) {}
+
+    static analyse(mapApi: MapApi, mapBounds: Size, isPassable: (tile: Tile) => boolean): ComponentMap {
+        const { width, height } = mapBounds;
+        // Test each tile once up front, as the fill looks at every tile from all of its neighbours.
+        const passable = new Uint8Array(width * height);
+        for (let rx = 0; rx < width; ++rx) {
+            for (let ry = 0; ry < height; ++ry) {
+                const tile = mapApi.getTile(rx, ry);
+                passable[rx * height + ry] = tile && isPassable(tile) ? 1 : 0;
+            }
+        }
+        const componentIds = new Int32Array(width * height).fill(-1);
+        const componentSizes: number[] = [];
+        for (let rx = 0; rx < width; ++rx) {
+            for (let ry = 0; ry < height; ++ry) {
+                if (componentIds[rx * height + ry] !== -1 || !passable[rx * height + ry]) {
+                    continue;
+                }
+                componentSizes.push(fillComponent(passable, componentIds, mapBounds, rx, ry, componentSizes.length));
+            }
+        }
+        return new ComponentMap(mapBounds, componentIds, componentSizes);
+    }
+
+    static fromData(mapBounds: Size, { componentIds, componentSizes }: ComponentMapData): ComponentMap {
+        const decoded = new Int32Array(mapBounds.width * mapBounds.height);
+        let offset = 0;
+        for (let i = 0; i < componentIds.length; i += 2) {
+            decoded.fill(componentIds[i], offset, offset + componentIds[i + 1]);
+            offset += componentIds[i + 1];
+        }
+        if (offset !== decoded.length) {
+            throw new Error(`Expected ${decoded.length} tiles in component map, got ${offset}`);
+        }
+        return new ComponentMap(mapBounds, decoded, componentSizes);
+    }
+
+    toData(): ComponentMapData {
+        const encoded: number[] = [];
+        this.componentIds.forEach((componentId) => {
+            if (encoded.length > 0 && encoded[encoded.length - 2] === componentId) {
+                ++encoded[encoded.length - 1];
+            } else {
+                encoded.push(componentId, 1);
+            }
+        });
+        return { componentIds: encoded, componentSizes: this.componentSizes };
+    }
+
+    /**
+     * Returns the region a tile is in, or null if it isn't passable.
+     */
+    getComponentId(rx: number, ry: number): number | null {
+        const { width, height } = this.mapBounds;
+        if (rx < 0 || rx >= width || ry < 0 || ry >= height) {
+            return null;
+        }
+        const componentId = this.componentIds[rx * height + ry];
+        return componentId !== -1 ? componentId : null;
+    }
+
+    getComponentSize(componentId: number): number {
+        return this.componentSizes[componentId] ?? 0;
+    }
+
+    /**
+     * Returns the regions within a radius of a point.
+     */
+    getComponentIdsNearPoint(point: Vector2, radius: number): Set<number> {
+        const componentIds = new Set<number>();
+        for (let rx = Math.floor(point.x - radius); rx <= point.x + radius; ++rx) {
+            for (let ry = Math.floor(point.y - radius); ry <= point.y + radius; ++ry) {
+                const componentId = this.getComponentId(rx, ry);
+                if (componentId !== null && point.distanceTo(new Vector2(rx, ry)) <= radius) {
+                    componentIds.add(componentId);
+                }
+            }
+        }
+        return componentIds;
+    }
+
+    /**
+     * Returns the regions of the tiles in a rectangle.
+     */
+    getComponentIdsInRect(x: number, y: number, width: number, height: number): Set<number> {
+        const componentIds = new Set<number>();
+        for (let rx = x; rx < x + width; ++rx) {
+            for (let ry = y; ry < y + height; ++ry) {
+                const componentId = this.getComponentId(rx, ry);
+                if (componentId !== null) {
+                    componentIds.add(componentId);
+                }
+            }
+        }
+        return componentIds;
+    }
+}
+
+/**
+ * Works out whether bases can reach each other over land, over water, or neither, from the terrain of the map.
+ */
+export class MapConnectivityAnalysis {
+    constructor(
+        public readonly land: ComponentMap,
+        public readonly water: ComponentMap,
+    ) {}
+
+    static analyse(mapApi: MapApi, mapBounds: Size): MapConnectivityAnalysis {
+        return new MapConnectivityAnalysis(
+            ComponentMap.analyse(mapApi, mapBounds, isLandTile),
+            ComponentMap.analyse(mapApi, mapBounds, isWaterTile),
+        );
+    }
+
+    getConnectivity(from: Vector2, to: Vector2): MapConnectivity {
+        const fromLand = this.land.getComponentId(from.x, from.y);
+        const byLand = fromLand !== null && fromLand === this.land.getComponentId(to.x, to.y);
+        const toWater = this.getNavalWaterIds(to);
+        const bySea = [...this.getNavalWaterIds(from)].some((waterId) => toWater.has(waterId));
+        if (byLand) {
+            return bySea ? MapConnectivity.Mixed : MapConnectivity.Land;
+        }
+        return bySea ? MapConnectivity.Naval : MapConnectivity.None;
+    }
+
+    /**
+     * Whether a base has water nearby that is big enough for ships.
+     */
+    hasNavalAccess(location: Vector2): boolean {
+        return this.getNavalWaterIds(location).size > 0;
+    }
+
+    /**
+     * Returns the closest water tile to a location that is part of a body of water big enough for ships.
+     */
+    getClosestNavalWater(location: Vector2): Vector2 | null {
+        const navalWaterIds = this.getNavalWaterIds(location);
+        let closest: Vector2 | null = null;
+        for (let rx = location.x - NAVAL_ACCESS_RADIUS; rx <= location.x + NAVAL_ACCESS_RADIUS; ++rx) {
+            for (let ry = location.y - NAVAL_ACCESS_RADIUS; ry <= location.y + NAVAL_ACCESS_RADIUS; ++ry) {
+                const waterId = this.water.getComponentId(rx, ry);
+                const point = new Vector2(rx, ry);
+                if (
+                    waterId !== null &&
+                    navalWaterIds.has(waterId) &&
+                    (!closest || point.distanceTo(location) < closest.distanceTo(location))
+                ) {
+                    closest = point;
+                }
+            }
+        }
+        return closest;
+    }
+
+    private getNavalWaterIds(location: Vector2): Set<number> {
+        return new Set(
+            [...this.water.getComponentIdsNearPoint(location, NAVAL_ACCESS_RADIUS)].filter(
+                (waterId) => this.water.getComponentSize(waterId) >= MIN_NAVAL_WATER_TILES,
+            ),
+        );
+    }
+}
+
+/**
+ * Groups of movement zones that can get to the same places.
+ */
+export enum ReachabilityZone {
+    Ground = "ground",
+    Infantry = "infantry",
+    Amphibious = "amphibious",
+    Water = "water",
+}
+
+const REACHABILITY_ZONE_SPEED_TYPES: { [zone in ReachabilityZone]: SpeedType } = {
+    [ReachabilityZone.Ground]: SpeedType.Track,
+    [ReachabilityZone.Infantry]: SpeedType.Foot,
+    [ReachabilityZone.Amphibious]: SpeedType.Amphibious,
+    [ReachabilityZone.Water]: SpeedType.Float,
+};
+
+/**
+ * Returns where a unit can go, or null for aircraft, which can go anywhere.
+ */
+export const getReachabilityZone = ({ movementZone }: TechnoRules): ReachabilityZone | null => {
+    switch (movementZone) {
+        case MovementZone.Fly:
+            return null;
+        case MovementZone.Amphibious:
+        case MovementZone.AmphibiousCrusher:
+        case MovementZone.AmphibiousDestroyer:
+            return ReachabilityZone.Amphibious;
+        case MovementZone.Infantry:
+        case MovementZone.InfantryDestroyer:
+            return ReachabilityZone.Infantry;
+        case MovementZone.Water:
+            return ReachabilityZone.Water;
+        default:
+            return ReachabilityZone.Ground;
+    }
+};
+
+/**
+ * Returns a test for whether units of a speed type can move over a tile, on the ground or over a bridge.
+ */
+export const getPassabilityTest =
+    (mapApi: MapApi, speedType: SpeedType) =>
+    (tile: Tile): boolean =>
+        mapApi.isPassableTile(tile, speedType, false, false) ||
+        (tile.onBridgeLandType !== undefined && mapApi.isPassableTile(tile, speedType, true, false));
+
+// Units and buildings block the tile they are on, so look for passable tiles this close to the start and end points.
+const REACHABILITY_SEARCH_RADIUS = 3;
+
+/**
+ * Works out which parts of the map each kind of unit can get to from where it is, so we don't send units to islands
+ * or plateaus they have no way of reaching.
+ */
+export class ReachabilityMap {
+    constructor(private componentMaps: Map<ReachabilityZone, ComponentMap>) {}
+
+    static analyse(mapApi: MapApi, mapBounds: Size): ReachabilityMap {
+        return new ReachabilityMap(
+            new Map(
+                Object.values(ReachabilityZone).map((zone) => [
+                    zone,
+                    ComponentMap.analyse(
+                        mapApi,
+                        mapBounds,
+                        getPassabilityTest(mapApi, REACHABILITY_ZONE_SPEED_TYPES[zone]),
+                    ),
+                ]),
+            ),
+        );
+    }
+
+    getComponentMap(zone: ReachabilityZone): ComponentMap {
+        return this.componentMaps.get(zone)!;
+    }
+
+    /**
+     * Returns the region of a tile for a zone, or null if units in that zone can't stand on it.
+     */
+    getComponentId(zone: ReachabilityZone, rx: number, ry: number): number | null {
+        return this.componentMaps.get(zone)!.getComponentId(rx, ry);
+    }
+
+    /**
+     * Whether a unit in the given zone could get from one point to another.
+     */
+    canReach(zone: ReachabilityZone | null, from: Vector2, to: Vector2): boolean {
+        if (zone === null) {
+            return true;
+        }
+        const componentMap = this.componentMaps.get(zone)!;
+        const toComponentIds = componentMap.getComponentIdsNearPoint(to, REACHABILITY_SEARCH_RADIUS);
+        return [...componentMap.getComponentIdsNearPoint(from, REACHABILITY_SEARCH_RADIUS)].some((componentId) =>
+            toComponentIds.has(componentId),
+        );
+    }
+
+    /**
+     * Whether a unit in the given zone could get from a point to any part of a sector.
+     */
+    canReachSector(zone: ReachabilityZone | null, from: Vector2, sector: Sector): boolean {
+        if (zone === null) {
+            return true;
+        }
+        const componentMap = this.componentMaps.get(zone)!;
+        const { x, y } = sector.sectorStartPoint;
+        const sectorComponentIds = componentMap.getComponentIdsInRect(x, y, SECTOR_SIZE, SECTOR_SIZE);
+        return [...componentMap.getComponentIdsNearPoint(from, REACHABILITY_SEARCH_RADIUS)].some((componentId) =>
+            sectorComponentIds.has(componentId),
+        );
+    }
+}
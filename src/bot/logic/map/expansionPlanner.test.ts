@@ -0,0 +1,102 @@
+import assert from "assert";
+import { LandType, ObjectType, Vector2 } from "@chronodivide/game-api";
+import { findExpansionSites } from "./expansionPlanner.js";
+import { OreField } from "./oreFields.js";
+import { FakeGameApi } from "../../../test/fakeGameApi.js";
+
+describe("findExpansionSites", () => {
+    const ME = "Me";
+    const CONSTRUCTION_YARD = "EXPCNST";
+    const MAP_SIZE = { width: 100, height: 100 };
+    const OUR_BASE = new Vector2(10, 10);
+    const ENEMY_BASE = new Vector2(90, 90);
+
+    let game: FakeGameApi;
+
+    const field = (id: number, x: number, y: number, value: number): OreField => ({
+        id,
+        tiles: [new Vector2(x, y)],
+        center: new Vector2(x, y),
+        value,
+        depletionRate: 0,
+        regrows: false,
+        contested: false,
+        baseDistances: new Map(),
+        updatedAt: 0,
+    });
+    const findSites = (oreFields: OreField[], isReachable: (point: Vector2) => boolean = () => true) =>
+        findExpansionSites(game.asGameApi(), ME, CONSTRUCTION_YARD, [OUR_BASE], [ENEMY_BASE], oreFields, isReachable);
+
+    beforeEach(() => {
+        game = new FakeGameApi(MAP_SIZE).addPlayer(ME, { startLocation: OUR_BASE });
+        game.defineRules(CONSTRUCTION_YARD, ObjectType.Building, { constructionYard: true });
+        game.setBuildingFoundation(CONSTRUCTION_YARD, { width: 4, height: 4 });
+    });
+
+    it("prefers rich fields close to our base, on the side of the field facing it", () => {
+        const sites = findSites([field(1, 50, 12, 4000), field(2, 12, 50, 5000), field(3, 12, 80, 5000)]);
+
+        assert.deepStrictEqual(
+            sites.map(({ fieldId }) => fieldId),
+            [2, 1, 3],
+        );
+        assert.deepStrictEqual(sites[1].position, new Vector2(44, 12));
+    });
+
+    it("ignores fields next to our base or the enemy base", () => {
+        assert.deepStrictEqual(findSites([field(1, 15, 15, 10000), field(2, 80, 80, 10000)]), []);
+    });
+
+    it("scores sites lower the closer they are to the enemy", () => {
+        const enemyBase = new Vector2(90, 10);
+        const sites = findExpansionSites(
+            game.asGameApi(),
+            ME,
+            CONSTRUCTION_YARD,
+            [OUR_BASE],
+            [enemyBase],
+            [field(1, 60, 10, 5000), field(2, 10, 60, 5000)],
+            () => true,
+        );
+
+        assert.deepStrictEqual(
+            sites.map(({ fieldId }) => fieldId),
+            [2, 1],
+        );
+        assert.ok(sites[1].score < sites[0].score * 0.75);
+    });
+
+    it("only picks sites that can be reached and where a construction yard fits", () => {
+        // Water all around the second field.
+        for (let rx = 0; rx < 30; ++rx) {
+            for (let ry = 40; ry < 60; ++ry) {
+                game.mapApi.setLandType(rx, ry, LandType.Water);
+            }
+        }
+        const oreFields = [field(1, 50, 12, 4000), field(2, 12, 50, 5000)];
+
+        assert.deepStrictEqual(
+            findSites(oreFields).map(({ fieldId }) => fieldId),
+            [1],
+        );
+        assert.deepStrictEqual(
+            findSites(oreFields, ({ x }) => x < 40),
+            [],
+        );
+    });
+
+    it("finds nothing without a base to expand from", () => {
+        assert.deepStrictEqual(
+            findExpansionSites(
+                game.asGameApi(),
+                ME,
+                CONSTRUCTION_YARD,
+                [],
+                [ENEMY_BASE],
+                [field(1, 50, 12, 4000)],
+                () => true,
+            ),
+            [],
+        );
+    });
+});
@@ -0,0 +1,89 @@
+import { GameApi, GameMath, Vector2 } from "@chronodivide/game-api";
+import { OreField } from "./oreFields.js";
+
+/**
+ * A place for an MCV to deploy to start a new base.
+ */
+export type ExpansionSite = {
+    position: Vector2;
+    // The ore field the base would mine.
+    fieldId: number;
+    score: number;
+};
+
+// Fields this close to one of our bases are already covered by it.
+export const EXPANSION_MIN_FIELD_DISTANCE = 25;
+
+// The MCV deploys this far from the centre of the field it expands to, so the base doesn't sit on the ore.
+const EXPANSION_SITE_FIELD_DISTANCE = 6;
+
+// Number of directions around a field to try deploying in.
+const EXPANSION_SITE_DIRECTIONS = 8;
+
+// Sites closer than this to an enemy base are never chosen...
+const MIN_ENEMY_DISTANCE = 30;
+
+// ... and sites are less attractive the closer to an enemy base they get, up to this distance.
+const SAFE_ENEMY_DISTANCE = 60;
+
+// A site this far from our closest base is worth half as much as one right next to it.
+const BASE_DISTANCE_HALF_SCORE = 40;
+
+/**
+ * Scores the places we could expand to: next to an ore field that none of our bases cover, where a construction yard
+ * can be placed. Richer fields closer to our bases and further from the enemy are better.
+ *
+ * @param ourBases Where our construction yards are.
+ * @param enemyBases Where we think the enemy bases are.
+ * @param oreFields Fields that could be mined.
+ * @param isReachable Whether an MCV could drive to a point and deploy there safely.
+ * @returns The sites, best first.
+ */
+export function findExpansionSites(
+    gameApi: GameApi,
+    playerName: string,
+    constructionYardName: string,
+    ourBases: Vector2[],
+    enemyBases: Vector2[],
+    oreFields: OreField[],
+    isReachable: (point: Vector2) => boolean,
+): ExpansionSite[] {
+    if (ourBases.length === 0) {
+        return [];
+    }
+    const { foundationCenter } = gameApi.getBuildingPlacementData(constructionYardName);
+    const canDeployAt = ({ x, y }: Vector2) => {
+        const tile = gameApi.mapApi.getTile(x - foundationCenter.x, y - foundationCenter.y);
+        return !!tile && gameApi.canPlaceBuilding(playerName, constructionYardName, tile);
+    };
+    const getDistance = (bases: Vector2[], point: Vector2) => Math.min(...bases.map((base) => base.distanceTo(point)));
+
+    return oreFields
+        .flatMap((field) => {
+            const baseDistance = getDistance(ourBases, field.center);
+            if (baseDistance <= EXPANSION_MIN_FIELD_DISTANCE || !isReachable(field.center)) {
+                return [];
+            }
+            const position = getSitesAroundField(field)
+                .filter((site) => getDistance(enemyBases, site) >= MIN_ENEMY_DISTANCE)
+                .sort((a, b) => getDistance(ourBases, a) - getDistance(ourBases, b))
+                .find((site) => isReachable(site) && canDeployAt(site));
+            if (!position) {
+                return [];
+            }
+            const baseFactor = 1 / (1 + baseDistance / BASE_DISTANCE_HALF_SCORE);
+            const enemyFactor = Math.min(1, getDistance(enemyBases, position) / SAFE_ENEMY_DISTANCE);
+            return [{ position, fieldId: field.id, score: field.value * baseFactor * enemyFactor }];
+        })
+        .sort((a, b) => b.score - a.score);
+}
+
+// Points in a ring around the field.
+const getSitesAroundField = (field: OreField) =>
+    Array.from({ length: EXPANSION_SITE_DIRECTIONS }, (_, i) => {
+        const angle = (2 * Math.PI * i) / EXPANSION_SITE_DIRECTIONS;
+        return new Vector2(
+            Math.round(field.center.x + GameMath.cos(angle) * EXPANSION_SITE_FIELD_DISTANCE),
+            Math.round(field.center.y + GameMath.sin(angle) * EXPANSION_SITE_FIELD_DISTANCE),
+        );
+    });
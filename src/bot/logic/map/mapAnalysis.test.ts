@@ -0,0 +1,104 @@
+import assert from "assert";
+import { LandType, Vector2 } from "@chronodivide/game-api";
+import { analyseMap, deserialiseMapAnalysis, hashMap, serialiseMapAnalysis } from "./mapAnalysis.js";
+import { MapConnectivity, ReachabilityZone } from "./connectivity.js";
+import { OreFieldTracker } from "./oreFields.js";
+import { SectorCache } from "./sector.js";
+import { FakeGameApi } from "../../../test/fakeGameApi.js";
+
+describe("mapAnalysis", () => {
+    const MAP_SIZE = { width: 64, height: 64 };
+    const BASES = [new Vector2(10, 32), new Vector2(50, 32)];
+
+    let game: FakeGameApi;
+
+    const analyse = () => {
+        const oreFields = new OreFieldTracker();
+        oreFields.update(
+            game.asGameApi(),
+            new SectorCache(game.mapApi.asMapApi(), MAP_SIZE),
+            BASES.map((position) => ({ owner: "Me", position })),
+            [],
+        );
+        return analyseMap(game.mapApi.asMapApi(), MAP_SIZE, oreFields);
+    };
+    const hash = () => hashMap(game.mapApi.asMapApi(), MAP_SIZE);
+
+    beforeEach(() => {
+        game = new FakeGameApi(MAP_SIZE, BASES);
+        // A wall between the bases with a gap in the middle, and a lake in the corner.
+        for (let ry = 0; ry < 64; ++ry) {
+            if (ry < 30 || ry > 33) {
+                game.mapApi.setLandType(30, ry, LandType.Rock);
+            }
+        }
+        for (let rx = 0; rx < 8; ++rx) {
+            for (let ry = 0; ry < 8; ++ry) {
+                game.mapApi.setLandType(rx, ry, LandType.Water);
+            }
+        }
+        for (let rx = 15; rx < 18; ++rx) {
+            for (let ry = 40; ry < 43; ++ry) {
+                game.mapApi.setResourceData({ tile: game.mapApi.getTile(rx, ry)!, ore: 4, gems: 0, spawnsOre: false });
+            }
+        }
+    });
+
+    it("reads back what it saved", () => {
+        const analysis = analyse();
+        const restored = deserialiseMapAnalysis(serialiseMapAnalysis(hash(), analysis), hash(), MAP_SIZE)!;
+
+        assert.deepStrictEqual(restored.oreFieldLayout, analysis.oreFieldLayout);
+        assert.strictEqual(restored.oreFieldLayout.length, 1);
+        assert.deepStrictEqual(restored.topology.getRegions(), analysis.topology.getRegions());
+        assert.strictEqual(restored.topology.getChokepoints().length, 1);
+        assert.strictEqual(restored.connectivity.getConnectivity(BASES[0], BASES[1]), MapConnectivity.Land);
+        for (const zone of Object.values(ReachabilityZone)) {
+            for (const [rx, ry] of [
+                [3, 3],
+                [10, 32],
+                [30, 10],
+                [30, 31],
+            ]) {
+                assert.strictEqual(
+                    restored.reachability.getComponentId(zone, rx, ry),
+                    analysis.reachability.getComponentId(zone, rx, ry),
+                );
+            }
+        }
+    });
+
+    it("restores the ore fields it found", () => {
+        const analysis = analyse();
+        const oreFields = new OreFieldTracker();
+        oreFields.restoreLayout(analysis.oreFieldLayout);
+        oreFields.update(game.asGameApi(), new SectorCache(game.mapApi.asMapApi(), MAP_SIZE), [], []);
+
+        const [field] = oreFields.getFields();
+        assert.strictEqual(oreFields.getFields().length, 1);
+        assert.strictEqual(field.id, analysis.oreFieldLayout[0].id);
+        assert.strictEqual(field.tiles.length, 9);
+        assert.strictEqual(oreFields.getFieldAt(16, 41), field);
+    });
+
+    it("ignores what was saved for a different map", () => {
+        const serialised = serialiseMapAnalysis(hash(), analyse());
+        game.mapApi.setLandType(30, 31, LandType.Rock);
+
+        assert.notStrictEqual(hash(), JSON.parse(serialised).mapHash);
+        assert.strictEqual(deserialiseMapAnalysis(serialised, hash(), MAP_SIZE), null);
+    });
+
+    it("ignores what was saved by another version", () => {
+        const serialised = JSON.parse(serialiseMapAnalysis(hash(), analyse()));
+        serialised.version = 0;
+
+        assert.strictEqual(deserialiseMapAnalysis(JSON.stringify(serialised), hash(), MAP_SIZE), null);
+    });
+
+    it("fails on malformed data", () => {
+        assert.throws(() => deserialiseMapAnalysis("{", hash(), MAP_SIZE));
+        const serialised = serialiseMapAnalysis(hash(), analyse());
+        assert.throws(() => deserialiseMapAnalysis(serialised, hash(), { width: 32, height: 32 }));
+    });
+});
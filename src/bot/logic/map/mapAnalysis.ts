@@ -0,0 +1,161 @@
+import { MapApi, Size, Vector2 } from "@chronodivide/game-api";
+import {
+    ComponentMap,
+    ComponentMapData,
+    MapConnectivityAnalysis,
+    ReachabilityMap,
+    ReachabilityZone,
+} from "./connectivity.js";
+import { OreFieldLayout, OreFieldTracker } from "./oreFields.js";
+import { MapRegion, MapTopology, analyseMapTopology } from "./topology.js";
+
+// Bump this whenever the analysis or its format changes, so analyses saved by older versions are ignored.
+const MAP_ANALYSIS_VERSION = 1;
+
+/**
+ * Everything we work out from the terrain of a map at the start of a game, which is the same for every game on it.
+ */
+export type MapAnalysis = {
+    oreFieldLayout: OreFieldLayout;
+    connectivity: MapConnectivityAnalysis;
+    reachability: ReachabilityMap;
+    topology: MapTopology;
+};
+
+/**
+ * Somewhere to keep the analysis of a map between games, e.g. a file named after the map.
+ */
+export interface MapAnalysisStore {
+    // Returns what was last saved, or null if nothing was.
+    load(): string | null;
+    save(data: string): void;
+}
+
+type SerialisedRegion = Omit<MapRegion, "tiles" | "center"> & {
+    tiles: [number, number][];
+    center: [number, number];
+};
+
+type SerialisedMapAnalysis = {
+    version: number;
+    mapHash: string;
+    oreFieldLayout: OreFieldLayout;
+    land: ComponentMapData;
+    water: ComponentMapData;
+    reachability: { [zone in ReachabilityZone]: ComponentMapData };
+    regions: SerialisedRegion[];
+};
+
+/**
+ * Analyses the terrain of the map. The ore fields must have been found already.
+ */
+export function analyseMap(mapApi: MapApi, mapBounds: Size, oreFields: OreFieldTracker): MapAnalysis {
+    return {
+        oreFieldLayout: oreFields.getLayout(),
+        connectivity: MapConnectivityAnalysis.analyse(mapApi, mapBounds),
+        reachability: ReachabilityMap.analyse(mapApi, mapBounds),
+        topology: analyseMapTopology(
+            mapApi,
+            mapBounds,
+            mapApi.getStartingLocations(),
+            oreFields.getFields().map(({ center }) => center),
+        ),
+    };
+}
+
+// FNV-1a, which is quick and good enough to tell maps apart.
+const FNV_OFFSET_BASIS = 0x811c9dc5;
+const FNV_PRIME = 0x01000193;
+
+/**
+ * Returns a hash of everything the analysis depends on: the terrain, the starting locations and the resources.
+ */
+export function hashMap(mapApi: MapApi, mapBounds: Size): string {
+    let hash = FNV_OFFSET_BASIS;
+    const add = (value: number) => {
+        hash = Math.imul(hash ^ (value & 0xffffffff), FNV_PRIME) >>> 0;
+    };
+    add(mapBounds.width);
+    add(mapBounds.height);
+    for (let rx = 0; rx < mapBounds.width; ++rx) {
+        for (let ry = 0; ry < mapBounds.height; ++ry) {
+            const tile = mapApi.getTile(rx, ry);
+            if (!tile) {
+                add(-1);
+                continue;
+            }
+            add(tile.landType);
+            add(tile.onBridgeLandType ?? -1);
+            add(tile.rampType);
+            add(tile.z);
+        }
+    }
+    mapApi.getStartingLocations().forEach(({ x, y }) => {
+        add(x);
+        add(y);
+    });
+    mapApi.getAllTilesResourceData().forEach(({ tile, ore, gems, spawnsOre }) => {
+        add(tile.rx);
+        add(tile.ry);
+        add(ore);
+        add(gems);
+        add(spawnsOre ? 1 : 0);
+    });
+    return hash.toString(16).padStart(8, "0");
+}
+
+export function serialiseMapAnalysis(mapHash: string, analysis: MapAnalysis): string {
+    const toPair = ({ x, y }: Vector2): [number, number] => [x, y];
+    const data: SerialisedMapAnalysis = {
+        version: MAP_ANALYSIS_VERSION,
+        mapHash,
+        oreFieldLayout: analysis.oreFieldLayout,
+        land: analysis.connectivity.land.toData(),
+        water: analysis.connectivity.water.toData(),
+        reachability: Object.fromEntries(
+            Object.values(ReachabilityZone).map((zone) => [zone, analysis.reachability.getComponentMap(zone).toData()]),
+        ) as SerialisedMapAnalysis["reachability"],
+        regions: analysis.topology.getRegions().map((region) => ({
+            ...region,
+            tiles: region.tiles.map(toPair),
+            center: toPair(region.center),
+        })),
+    };
+    return JSON.stringify(data);
+}
+
+/**
+ * Reads a saved analysis back.
+ *
+ * @returns The analysis, or null if it was saved by another version or for a different map.
+ * @throws Error if the saved data is malformed.
+ */
+export function deserialiseMapAnalysis(serialised: string, mapHash: string, mapBounds: Size): MapAnalysis | null {
+    const data = JSON.parse(serialised) as SerialisedMapAnalysis;
+    if (data.version !== MAP_ANALYSIS_VERSION || data.mapHash !== mapHash) {
+        return null;
+    }
+    const toVector = ([x, y]: [number, number]) => new Vector2(x, y);
+    return {
+        oreFieldLayout: data.oreFieldLayout,
+        connectivity: new MapConnectivityAnalysis(
+            ComponentMap.fromData(mapBounds, data.land),
+            ComponentMap.fromData(mapBounds, data.water),
+        ),
+        reachability: new ReachabilityMap(
+            new Map(
+                Object.values(ReachabilityZone).map((zone) => [
+                    zone,
+                    ComponentMap.fromData(mapBounds, data.reachability[zone]),
+                ]),
+            ),
+        ),
+        topology: new MapTopology(
+            data.regions.map((region) => ({
+                ...region,
+                tiles: region.tiles.map(toVector),
+                center: toVector(region.center),
+            })),
+        ),
+    };
+}
@@ -0,0 +1,93 @@
+import assert from "assert";
+import { Vector2 } from "@chronodivide/game-api";
+import { OreFieldTracker, isFieldDepleted } from "./oreFields.js";
+import { SectorCache } from "./sector.js";
+import { FakeGameApi } from "../../../test/fakeGameApi.js";
+
+describe("OreFieldTracker", () => {
+    const ME = "Me";
+    const ENEMY = "Enemy";
+    const MAP_SIZE = { width: 64, height: 64 };
+
+    let game: FakeGameApi;
+    let sectorCache: SectorCache;
+    let tracker: OreFieldTracker;
+
+    const setOre = (rx: number, ry: number, ore: number, options: { gems?: number; spawnsOre?: boolean } = {}) =>
+        game.mapApi.setResourceData({
+            tile: game.mapApi.getTile(rx, ry)!,
+            ore,
+            gems: options.gems ?? 0,
+            spawnsOre: options.spawnsOre ?? false,
+        });
+    const addField = (x: number, y: number, size: number, ore: number) => {
+        for (let rx = x; rx < x + size; ++rx) {
+            for (let ry = y; ry < y + size; ++ry) {
+                setOre(rx, ry, ore);
+            }
+        }
+    };
+    const bases = [
+        { owner: ME, position: new Vector2(5, 5) },
+        { owner: ENEMY, position: new Vector2(60, 60) },
+    ];
+    const update = (enemyBuildings: Vector2[] = []) =>
+        tracker.update(game.asGameApi(), sectorCache, bases, enemyBuildings);
+
+    beforeEach(() => {
+        game = new FakeGameApi(MAP_SIZE);
+        sectorCache = new SectorCache(game.mapApi.asMapApi(), MAP_SIZE);
+        tracker = new OreFieldTracker();
+    });
+
+    it("groups nearby resource tiles into fields", () => {
+        addField(10, 10, 3, 4);
+        // Gems two tiles away from the first field are part of it.
+        setOre(14, 10, 0, { gems: 2 });
+        addField(40, 40, 2, 1);
+        update();
+
+        const fields = tracker.getFields();
+        assert.strictEqual(fields.length, 2);
+        assert.strictEqual(fields[0].tiles.length, 10);
+        assert.strictEqual(fields[0].value, 9 * 4 * 25 + 2 * 50);
+        assert.deepStrictEqual(fields[1].center, new Vector2(41, 41));
+        assert.strictEqual(tracker.getFieldAt(14, 10), fields[0]);
+        assert.strictEqual(tracker.getFieldAt(20, 20), null);
+    });
+
+    it("tracks how quickly a field is being mined, and when it runs dry", () => {
+        addField(10, 10, 2, 4);
+        update();
+        const [field] = tracker.getFields();
+        assert.strictEqual(field.depletionRate, 0);
+
+        addField(10, 10, 2, 2);
+        game.currentTick = 100;
+        update();
+        assert.strictEqual(field.value, 200);
+        // Half of the latest rate of 2 credits per tick.
+        assert.strictEqual(field.depletionRate, 1);
+
+        addField(10, 10, 2, 0);
+        game.currentTick = 200;
+        update();
+        assert.strictEqual(isFieldDepleted(field), true);
+        assert.deepStrictEqual(tracker.getMineableFields(), []);
+        // The field is still known, so that ore growing back joins it.
+        assert.strictEqual(tracker.getFieldAt(10, 10), field);
+    });
+
+    it("knows which fields are contested and how far they are from each base", () => {
+        addField(10, 10, 2, 1);
+        addField(50, 50, 2, 1);
+        update([new Vector2(55, 55)]);
+
+        const [ours, theirs] = tracker.getFields();
+        assert.strictEqual(ours.contested, false);
+        assert.strictEqual(theirs.contested, true);
+        assert.deepStrictEqual(tracker.getMineableFields(), [ours]);
+        assert.strictEqual(ours.baseDistances.get(ME), new Vector2(5, 5).distanceTo(ours.center));
+        assert.strictEqual(theirs.baseDistances.get(ENEMY), new Vector2(60, 60).distanceTo(theirs.center));
+    });
+});
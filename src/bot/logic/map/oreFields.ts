@@ -0,0 +1,233 @@
+import { GameApi, Tile, TileResourceData, Vector2 } from "@chronodivide/game-api";
+import { SectorCache } from "./sector.js";
+
+// Credits a harvester gets for a bail of ore or gems.
+const ORE_BAIL_VALUE = 25;
+const GEM_BAIL_VALUE = 50;
+
+// Resource tiles this close to each other are part of the same field.
+const FIELD_MAX_GAP = 2;
+
+// A field is contested if enemy buildings are this close to its centre.
+const CONTESTED_RADIUS = 15;
+
+// How much of the latest depletion rate goes into the running estimate.
+const DEPLETION_RATE_SMOOTHING = 0.5;
+
+/**
+ * A cluster of ore and gem tiles that harvesters can work together.
+ */
+export type OreField = {
+    id: number;
+    tiles: Vector2[];
+    // Centre of the field when it was first found.
+    center: Vector2;
+    // Credits' worth of ore and gems left in the field.
+    value: number;
+    // Credits' worth mined per tick, averaged over recent updates. Negative while the field is growing back.
+    depletionRate: number;
+    // Whether the field has ore trees or drills that grow it back.
+    regrows: boolean;
+    // Whether the enemy has buildings near the field, or is stronger than us there.
+    contested: boolean;
+    // Distance from the centre of the field to the closest base of each player.
+    baseDistances: Map<string, number>;
+    updatedAt: number;
+};
+
+export type PlayerBase = { owner: string; position: Vector2 };
+
+/**
+ * The tiles of each field, in a form that can be saved as JSON.
+ */
+export type OreFieldLayout = { id: number; center: [number, number]; tiles: [number, number][] }[];
+
+export const isFieldDepleted = ({ value, regrows }: OreField) => value === 0 && !regrows;
+
+const getTileKey = (rx: number, ry: number) => `${rx},${ry}`;
+
+const getTileValue = ({ ore, gems }: TileResourceData) => ore * ORE_BAIL_VALUE + gems * GEM_BAIL_VALUE;
+
+const isResourceTile = (data: TileResourceData) => getTileValue(data) > 0 || data.spawnsOre;
+
+/**
+ * Groups resource tiles that are within `FIELD_MAX_GAP` of each other.
+ */
+function clusterTiles(tiles: TileResourceData[]): TileResourceData[][] {
+    const remaining = new Map(tiles.map((data) => [getTileKey(data.tile.rx, data.tile.ry), data]));
+    const clusters: TileResourceData[][] = [];
+    while (remaining.size > 0) {
+        const [firstKey, first] = remaining.entries().next().value as [string, TileResourceData];
+        remaining.delete(firstKey);
+        const cluster = [first];
+        for (let i = 0; i < cluster.length; ++i) {
+            const { rx, ry } = cluster[i].tile;
+            for (let dx = -FIELD_MAX_GAP; dx <= FIELD_MAX_GAP; ++dx) {
+                for (let dy = -FIELD_MAX_GAP; dy <= FIELD_MAX_GAP; ++dy) {
+                    const key = getTileKey(rx + dx, ry + dy);
+                    const neighbour = remaining.get(key);
+                    if (neighbour) {
+                        remaining.delete(key);
+                        cluster.push(neighbour);
+                    }
+                }
+            }
+        }
+        clusters.push(cluster);
+    }
+    return clusters;
+}
+
+/**
+ * Finds the ore and gem fields on the map, and keeps track of how much is left in each and who is near them.
+ */
+export class OreFieldTracker {
+    private fields: Map<number, OreField> = new Map();
+    // Field ID of every resource tile we have seen, by tile key.
+    private fieldIdsByTile: Map<string, number> = new Map();
+    private nextFieldId = 0;
+
+    /**
+     * Recounts the resources in every field. Ore that grows next to a field becomes part of it, ore that grows
+     * elsewhere becomes a new field.
+     *
+     * @param bases Where the bases of each player are.
+     * @param enemyBuildings Where the enemy buildings we know of are.
+     */
+    update(game: GameApi, sectorCache: SectorCache, bases: PlayerBase[], enemyBuildings: Vector2[]) {
+        const currentTick = game.getCurrentTick();
+        const fieldTiles = new Map<number, TileResourceData[]>();
+        const unassignedTiles: TileResourceData[] = [];
+        game.mapApi
+            .getAllTilesResourceData()
+            .filter(isResourceTile)
+            .forEach((data) => {
+                const fieldId = this.findFieldIdForTile(data.tile);
+                if (fieldId === undefined) {
+                    unassignedTiles.push(data);
+                    return;
+                }
+                this.fieldIdsByTile.set(getTileKey(data.tile.rx, data.tile.ry), fieldId);
+                if (!fieldTiles.has(fieldId)) {
+                    fieldTiles.set(fieldId, []);
+                }
+                fieldTiles.get(fieldId)!.push(data);
+            });
+
+        clusterTiles(unassignedTiles).forEach((cluster) => {
+            const id = this.nextFieldId++;
+            const center = new Vector2(
+                Math.round(cluster.reduce((total, { tile }) => total + tile.rx, 0) / cluster.length),
+                Math.round(cluster.reduce((total, { tile }) => total + tile.ry, 0) / cluster.length),
+            );
+            cluster.forEach(({ tile }) => this.fieldIdsByTile.set(getTileKey(tile.rx, tile.ry), id));
+            fieldTiles.set(id, cluster);
+            this.fields.set(id, {
+                id,
+                tiles: [],
+                center,
+                value: cluster.reduce((total, data) => total + getTileValue(data), 0),
+                depletionRate: 0,
+                regrows: false,
+                contested: false,
+                baseDistances: new Map(),
+                updatedAt: currentTick,
+            });
+        });
+
+        this.fields.forEach((field) => {
+            const tiles = fieldTiles.get(field.id) ?? [];
+            const value = tiles.reduce((total, data) => total + getTileValue(data), 0);
+            const elapsedTicks = currentTick - field.updatedAt;
+            if (elapsedTicks > 0) {
+                const latestRate = (field.value - value) / elapsedTicks;
+                field.depletionRate =
+                    field.depletionRate * (1 - DEPLETION_RATE_SMOOTHING) + latestRate * DEPLETION_RATE_SMOOTHING;
+            }
+            field.value = value;
+            field.tiles = tiles.map(({ tile }) => new Vector2(tile.rx, tile.ry));
+            field.regrows = tiles.some(({ spawnsOre }) => spawnsOre);
+            field.contested =
+                !!sectorCache.getSectorForWorldPosition(field.center.x, field.center.y)?.isDangerous() ||
+                enemyBuildings.some((position) => position.distanceTo(field.center) <= CONTESTED_RADIUS);
+            field.baseDistances = new Map();
+            bases.forEach(({ owner, position }) => {
+                const distance = position.distanceTo(field.center);
+                field.baseDistances.set(owner, Math.min(distance, field.baseDistances.get(owner) ?? distance));
+            });
+            field.updatedAt = currentTick;
+        });
+    }
+
+    private findFieldIdForTile({ rx, ry }: Tile): number | undefined {
+        const fieldId = this.fieldIdsByTile.get(getTileKey(rx, ry));
+        if (fieldId !== undefined) {
+            return fieldId;
+        }
+        for (let dx = -FIELD_MAX_GAP; dx <= FIELD_MAX_GAP; ++dx) {
+            for (let dy = -FIELD_MAX_GAP; dy <= FIELD_MAX_GAP; ++dy) {
+                const neighbourFieldId = this.fieldIdsByTile.get(getTileKey(rx + dx, ry + dy));
+                if (neighbourFieldId !== undefined) {
+                    return neighbourFieldId;
+                }
+            }
+        }
+        return undefined;
+    }
+
+    getFields(): OreField[] {
+        return [...this.fields.values()];
+    }
+
+    getLayout(): OreFieldLayout {
+        const tilesByField = new Map<number, [number, number][]>();
+        this.fieldIdsByTile.forEach((fieldId, key) => {
+            const [rx, ry] = key.split(",").map(Number);
+            const tiles = tilesByField.get(fieldId) ?? [];
+            tiles.push([rx, ry]);
+            tilesByField.set(fieldId, tiles);
+        });
+        return this.getFields().map(({ id, center }) => ({
+            id,
+            center: [center.x, center.y],
+            tiles: tilesByField.get(id) ?? [],
+        }));
+    }
+
+    /**
+     * Starts from fields found in an earlier game on the same map, instead of finding them again. Must be called
+     * before the first update.
+     */
+    restoreLayout(layout: OreFieldLayout) {
+        layout.forEach(({ id, center, tiles }) => {
+            this.fields.set(id, {
+                id,
+                tiles: [],
+                center: new Vector2(center[0], center[1]),
+                value: 0,
+                depletionRate: 0,
+                regrows: false,
+                contested: false,
+                baseDistances: new Map(),
+                updatedAt: 0,
+            });
+            tiles.forEach(([rx, ry]) => this.fieldIdsByTile.set(getTileKey(rx, ry), id));
+            this.nextFieldId = Math.max(this.nextFieldId, id + 1);
+        });
+    }
+
+    /**
+     * Returns the field that a tile is part of, if any.
+     */
+    getFieldAt(rx: number, ry: number): OreField | null {
+        const fieldId = this.fieldIdsByTile.get(getTileKey(rx, ry));
+        return fieldId !== undefined ? this.fields.get(fieldId) ?? null : null;
+    }
+
+    /**
+     * Returns the fields that still have something to mine and that the enemy doesn't control.
+     */
+    getMineableFields(): OreField[] {
+        return this.getFields().filter((field) => !field.contested && !isFieldDepleted(field));
+    }
+}
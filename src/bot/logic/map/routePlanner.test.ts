@@ -0,0 +1,69 @@
+import assert from "assert";
+import { Vector2 } from "@chronodivide/game-api";
+import { planRoute } from "./routePlanner.js";
+import { SECTOR_SIZE, SectorCache } from "./sector.js";
+import { FakeMapApi } from "../../../test/fakeMapApi.js";
+
+describe("planRoute", () => {
+    // 10 x 5 sectors.
+    const MAP_SIZE = { width: SECTOR_SIZE * 10, height: SECTOR_SIZE * 5 };
+    const FROM = new Vector2(4, 20);
+    const TO = new Vector2(76, 20);
+
+    let sectorCache: SectorCache;
+
+    beforeEach(() => {
+        sectorCache = new SectorCache(new FakeMapApi(MAP_SIZE).asMapApi(), MAP_SIZE);
+        // A defence in the middle of the map, covering its own sector and the ones next to it.
+        sectorCache.updateInfluence(
+            1,
+            [
+                {
+                    position: new Vector2(44, 20),
+                    friendly: false,
+                    antiGround: 1000,
+                    antiAir: 0,
+                    staticDefenceRange: SECTOR_SIZE / 2,
+                },
+            ],
+            50,
+        );
+    });
+
+    it("goes straight to the destination when nothing is in the way", () => {
+        assert.deepStrictEqual(
+            planRoute(sectorCache, new Vector2(4, 4), new Vector2(76, 4), { threatWeight: 1, strength: 100 }),
+            [new Vector2(76, 4)],
+        );
+    });
+
+    it("goes around enemy defences", () => {
+        const route = planRoute(sectorCache, FROM, TO, { threatWeight: 1, strength: 100 })!;
+
+        assert.ok(route.length > 1);
+        assert.strictEqual(route[route.length - 1], TO);
+        route.forEach(({ x, y }) => assert.strictEqual(sectorCache.getDangerForWorldPosition(x, y), 0));
+    });
+
+    it("goes through enemy defences when it's strong enough or doesn't care about threats", () => {
+        assert.deepStrictEqual(planRoute(sectorCache, FROM, TO, { threatWeight: 1, strength: 100000 }), [TO]);
+        assert.deepStrictEqual(planRoute(sectorCache, FROM, TO, { threatWeight: 0, strength: 100 }), [TO]);
+    });
+
+    it("only goes through sectors that can be entered", () => {
+        // A wall down the middle of the map with a gap at the bottom.
+        const canEnterSector = ({ sectorStartPoint: { x, y } }: { sectorStartPoint: Vector2 }) =>
+            x !== SECTOR_SIZE * 5 || y === SECTOR_SIZE * 4;
+        const route = planRoute(sectorCache, FROM, TO, { threatWeight: 0, strength: 100, canEnterSector })!;
+
+        assert.ok(route.some(({ y }) => y === 36));
+        assert.strictEqual(
+            planRoute(sectorCache, FROM, TO, {
+                threatWeight: 0,
+                strength: 100,
+                canEnterSector: ({ sectorStartPoint: { x } }) => x !== SECTOR_SIZE * 5,
+            }),
+            null,
+        );
+    });
+});
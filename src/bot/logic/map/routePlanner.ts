@@ -0,0 +1,123 @@
+import { GameMath, Vector2 } from "@chronodivide/game-api";
+import { SECTOR_SIZE, Sector, SectorCache } from "./sector.js";
+
+/**
+ * How a route should be planned.
+ */
+export type RouteOptions = {
+    // How far out of the way to go to avoid enemy firepower. 0 takes the shortest route whatever the danger.
+    threatWeight: number;
+    // Firepower of whatever is following the route. The stronger it is, the less it has to fear.
+    strength: number;
+    againstAir?: boolean;
+    // Sectors that can't be entered at all, e.g. because the units following the route can't get there.
+    canEnterSector?: (sector: Sector) => boolean;
+};
+
+// However outgunned we would be in a sector, crossing it costs at most this many times as much as crossing it
+// safely, so that a route is still found when every way is dangerous.
+const MAX_DANGER_RATIO = 5;
+
+const NEIGHBOURS = [-1, 0, 1].flatMap((dx) => [-1, 0, 1].map((dy) => [dx, dy])).filter(([dx, dy]) => dx || dy);
+
+const DIAGONAL_DISTANCE = GameMath.sqrt(2);
+
+/**
+ * Plans a route across the sector grid that weighs its length against the enemy firepower along the way, i.e. the
+ * enemy static defences and armies in each sector.
+ *
+ * @returns Points to move through in turn, ending with `to`, or null if there is no route.
+ */
+export function planRoute(
+    sectorCache: SectorCache,
+    from: Vector2,
+    to: Vector2,
+    options: RouteOptions,
+): Vector2[] | null {
+    const start = sectorCache.getSectorCoordinatesForWorldPosition(from.x, from.y);
+    const end = sectorCache.getSectorCoordinatesForWorldPosition(to.x, to.y);
+    if (!start || !end) {
+        return null;
+    }
+    const { width, height } = sectorCache.getSectorBounds();
+    const index = (sx: number, sy: number) => sx * height + sy;
+    const startIndex = index(start.sectorX, start.sectorY);
+    const endIndex = index(end.sectorX, end.sectorY);
+    const { threatWeight, strength, againstAir = false, canEnterSector = () => true } = options;
+
+    const getCostMultiplier = (sector: Sector) =>
+        1 + threatWeight * Math.min(MAX_DANGER_RATIO, sector.getDanger(againstAir) / Math.max(1, strength));
+    const heuristic = (sx: number, sy: number) =>
+        GameMath.sqrt((sx - end.sectorX) * (sx - end.sectorX) + (sy - end.sectorY) * (sy - end.sectorY));
+
+    // A* over the sectors. The grid is small, so the open set is just scanned for the best sector.
+    const costs = new Float64Array(width * height).fill(Infinity);
+    const parents = new Int32Array(width * height).fill(-1);
+    const closed = new Uint8Array(width * height);
+    const open = new Set<number>([startIndex]);
+    const estimates = new Map<number, number>([[startIndex, heuristic(start.sectorX, start.sectorY)]]);
+    costs[startIndex] = 0;
+    parents[startIndex] = startIndex;
+    while (open.size > 0) {
+        let current = -1;
+        open.forEach((candidate) => {
+            if (current === -1 || estimates.get(candidate)! < estimates.get(current)!) {
+                current = candidate;
+            }
+        });
+        if (current === endIndex) {
+            break;
+        }
+        open.delete(current);
+        closed[current] = 1;
+        const sx = Math.floor(current / height);
+        const sy = current % height;
+        NEIGHBOURS.forEach(([dx, dy]) => {
+            const nx = sx + dx;
+            const ny = sy + dy;
+            const neighbour = sectorCache.getSector(nx, ny);
+            const neighbourIndex = index(nx, ny);
+            // The destination can always be entered, in case only the part of it we're heading for can be reached.
+            if (!neighbour || closed[neighbourIndex] || (neighbourIndex !== endIndex && !canEnterSector(neighbour))) {
+                return;
+            }
+            const cost = costs[current] + (dx && dy ? DIAGONAL_DISTANCE : 1) * getCostMultiplier(neighbour);
+            if (cost < costs[neighbourIndex]) {
+                costs[neighbourIndex] = cost;
+                parents[neighbourIndex] = current;
+                estimates.set(neighbourIndex, cost + heuristic(nx, ny));
+                open.add(neighbourIndex);
+            }
+        });
+    }
+    if (parents[endIndex] === -1) {
+        return null;
+    }
+
+    const path: Vector2[] = [];
+    for (let current = endIndex; current !== startIndex; current = parents[current]) {
+        path.push(new Vector2(Math.floor(current / height), current % height));
+    }
+    path.push(new Vector2(start.sectorX, start.sectorY));
+    path.reverse();
+    // Only keep the middle of the sectors where the route changes direction, and end at the destination itself.
+    const mapBounds = sectorCache.getMapBounds();
+    const waypoints = path
+        .filter((current, i) => {
+            if (i === 0 || i === path.length - 1) {
+                return false;
+            }
+            const previous = path[i - 1];
+            const next = path[i + 1];
+            return current.x - previous.x !== next.x - current.x || current.y - previous.y !== next.y - current.y;
+        })
+        .map(
+            ({ x, y }) =>
+                new Vector2(
+                    Math.min(Math.floor((x + 0.5) * SECTOR_SIZE), mapBounds.width - 1),
+                    Math.min(Math.floor((y + 0.5) * SECTOR_SIZE), mapBounds.height - 1),
+                ),
+        );
+    waypoints.push(to);
+    return waypoints;
+}
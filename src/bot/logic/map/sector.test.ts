@@ -0,0 +1,113 @@
+import assert from "assert";
+import { Vector2 } from "@chronodivide/game-api";
+import { InfluenceSource, SECTOR_SIZE, SectorCache } from "./sector.js";
+import { FakeGameApi } from "../../../test/fakeGameApi.js";
+
+describe("SectorCache", () => {
+    const PLAYER = "Player";
+    // 3 x 2 sectors, with the last column and row only partially on the map.
+    const MAP_SIZE = { width: SECTOR_SIZE * 2 + 4, height: SECTOR_SIZE + 4 };
+
+    let game: FakeGameApi;
+    let sectorCache: SectorCache;
+
+    beforeEach(() => {
+        game = new FakeGameApi(MAP_SIZE).addPlayer(PLAYER, { startLocation: new Vector2(0, 0) });
+        sectorCache = new SectorCache(game.mapApi.asMapApi(), MAP_SIZE);
+    });
+
+    it("covers the map with sectors", () => {
+        assert.deepStrictEqual(sectorCache.getSectorBounds(), { width: 3, height: 2 });
+        assert.deepStrictEqual(
+            sectorCache.getSector(2, 1)?.sectorStartPoint,
+            new Vector2(SECTOR_SIZE * 2, SECTOR_SIZE),
+        );
+        assert.strictEqual(sectorCache.getSector(3, 0), undefined);
+    });
+
+    it("finds the sector for a world position", () => {
+        assert.deepStrictEqual(sectorCache.getSectorCoordinatesForWorldPosition(SECTOR_SIZE + 1, 3), {
+            sectorX: 1,
+            sectorY: 0,
+        });
+        assert.strictEqual(sectorCache.getSectorForWorldPosition(SECTOR_SIZE + 1, 3), sectorCache.getSector(1, 0));
+        assert.strictEqual(sectorCache.getSectorCoordinatesForWorldPosition(MAP_SIZE.width, 0), undefined);
+        assert.strictEqual(sectorCache.getSectorCoordinatesForWorldPosition(-1, 0), undefined);
+    });
+
+    it("calculates the visibility of each sector", () => {
+        // Half of the first sector is visible.
+        game.mapApi.reveal(PLAYER, { x: 0, y: 0, width: SECTOR_SIZE / 2, height: SECTOR_SIZE });
+        sectorCache.updateSectors(1, 6, game.mapApi.asMapApi(), game.getPlayerData(PLAYER));
+
+        assert.strictEqual(sectorCache.getSector(0, 0)?.sectorVisibilityPct, 0.5);
+        assert.strictEqual(sectorCache.getSector(1, 0)?.sectorVisibilityPct, 0);
+        assert.strictEqual(sectorCache.getOverallVisibility(), 0.5 / 6);
+        assert.strictEqual(sectorCache.getSectorUpdateRatio(1), 1);
+    });
+
+    it("updates a limited number of sectors at a time, in turn", () => {
+        const playerData = game.getPlayerData(PLAYER);
+        for (let tick = 1; tick <= 6; ++tick) {
+            sectorCache.updateSectors(tick, 1, game.mapApi.asMapApi(), playerData);
+        }
+
+        // Every sector has been updated exactly once.
+        assert.strictEqual(sectorCache.getSectorUpdateRatio(1), 1);
+        assert.strictEqual(sectorCache.getSectorUpdateRatio(2), 5 / 6);
+        assert.strictEqual(sectorCache.getSector(0, 0)?.sectorVisibilityLastCheckTick, 1);
+        assert.strictEqual(sectorCache.getSector(2, 1)?.sectorVisibilityLastCheckTick, 6);
+    });
+
+    describe("influence", () => {
+        const source = (x: number, y: number, options: Partial<InfluenceSource> = {}): InfluenceSource => ({
+            position: new Vector2(x, y),
+            friendly: false,
+            antiGround: 100,
+            antiAir: 0,
+            ...options,
+        });
+
+        it("adds up the firepower of each side in a sector", () => {
+            sectorCache.updateInfluence(
+                1,
+                [source(1, 1), source(2, 2, { antiAir: 50 }), source(3, 3, { friendly: true, antiGround: 120 })],
+                6,
+            );
+
+            const sector = sectorCache.getSector(0, 0)!;
+            assert.deepStrictEqual(sector.influence, {
+                ourStrength: 120,
+                enemyAntiGround: 200,
+                enemyAntiAir: 50,
+                enemyStaticDefence: 0,
+                updatedAt: 1,
+            });
+            assert.strictEqual(sector.isDangerous(), true);
+            assert.strictEqual(sector.isDangerous(true), false);
+            assert.strictEqual(sectorCache.getDangerForWorldPosition(SECTOR_SIZE + 1, 1), 0);
+        });
+
+        it("spreads static defences over the sectors in their range", () => {
+            sectorCache.updateInfluence(1, [source(SECTOR_SIZE - 1, 1, { staticDefenceRange: 4 })], 6);
+
+            assert.strictEqual(sectorCache.getSector(0, 0)?.influence.enemyStaticDefence, 100);
+            assert.strictEqual(sectorCache.getSector(1, 0)?.influence.enemyStaticDefence, 100);
+            assert.strictEqual(sectorCache.getSector(2, 0)?.influence.enemyStaticDefence, 0);
+            assert.strictEqual(sectorCache.getDangerForWorldPosition(SECTOR_SIZE + 1, 1), 100);
+        });
+
+        it("updates a limited number of sectors at a time, in turn", () => {
+            sectorCache.updateInfluence(1, [source(1, 1), source(SECTOR_SIZE * 2 + 1, 1)], 4);
+            assert.strictEqual(sectorCache.getSector(0, 0)?.influence.updatedAt, 1);
+            assert.strictEqual(sectorCache.getSector(2, 0)?.influence.updatedAt, undefined);
+            assert.strictEqual(sectorCache.getDangerForWorldPosition(SECTOR_SIZE * 2 + 1, 1), 0);
+
+            sectorCache.updateInfluence(2, [source(SECTOR_SIZE * 2 + 1, 1)], 4);
+            assert.strictEqual(sectorCache.getDangerForWorldPosition(SECTOR_SIZE * 2 + 1, 1), 100);
+            // The first sector was updated again once every sector had its turn.
+            assert.strictEqual(sectorCache.getSector(0, 0)?.influence.updatedAt, 2);
+            assert.strictEqual(sectorCache.getDangerForWorldPosition(1, 1), 0);
+        });
+    });
+});
@@ -5,11 +5,46 @@ import { calculateAreaVisibility } from "./map.js";
 
 export const SECTOR_SIZE = 8;
 
+/**
+ * The firepower of each side in a sector, as of the last time the sector was updated.
+ */
+export type SectorInfluence = {
+    ourStrength: number;
+    // Includes the static defences covering the sector.
+    enemyAntiGround: number;
+    enemyAntiAir: number;
+    // Firepower of the enemy static defences that cover the sector.
+    enemyStaticDefence: number;
+    updatedAt: number | undefined;
+};
+
+/**
+ * Something that contributes to the influence of the sector it's in.
+ */
+export type InfluenceSource = {
+    position: Vector2;
+    friendly: boolean;
+    antiGround: number;
+    antiAir: number;
+    // Static defences influence every sector within their range instead of just their own.
+    staticDefenceRange?: number;
+};
+
+const emptyInfluence = (updatedAt: number | undefined): SectorInfluence => ({
+    ourStrength: 0,
+    enemyAntiGround: 0,
+    enemyAntiAir: 0,
+    enemyStaticDefence: 0,
+    updatedAt,
+});
+
 export class Sector {
     // How many times we've attempted to enter the sector.
     private sectorExploreAttempts: number;
     private sectorLastExploredAt: number | undefined;
 
+    public influence: SectorInfluence = emptyInfluence(undefined);
+
     constructor(
         public sectorStartPoint: Vector2,
         public sectorStartTile: Tile | undefined,
@@ -36,6 +71,18 @@ export class Sector {
 
         return true;
     }
+
+    /**
+     * How much enemy firepower we would face in this sector, from units or from static defences covering it.
+     */
+    public getDanger(againstAir: boolean = false) {
+        return againstAir ? this.influence.enemyAntiAir : this.influence.enemyAntiGround;
+    }
+
+    // Whether the enemy is stronger than us in this sector.
+    public isDangerous(againstAir: boolean = false) {
+        return this.getDanger(againstAir) > this.influence.ourStrength;
+    }
 }
 
 export class SectorCache {
@@ -45,6 +92,7 @@ export class SectorCache {
     private sectorsY: number;
     private lastUpdatedSectorX: number | undefined;
     private lastUpdatedSectorY: number | undefined;
+    private nextInfluenceSectorIndex = 0;
 
     constructor(mapApi: MapApi, mapBounds: Size) {
         this.mapBounds = mapBounds;
@@ -71,8 +119,8 @@ export class SectorCache {
     }
 
     public updateSectors(currentGameTick: number, maxSectorsToUpdate: number, mapApi: MapApi, playerData: PlayerData) {
-        let nextSectorX = this.lastUpdatedSectorX ? this.lastUpdatedSectorX + 1 : 0;
-        let nextSectorY = this.lastUpdatedSectorY ? this.lastUpdatedSectorY : 0;
+        let nextSectorX = this.lastUpdatedSectorX !== undefined ? this.lastUpdatedSectorX + 1 : 0;
+        let nextSectorY = this.lastUpdatedSectorY ?? 0;
         let updatedThisCycle = 0;
 
         while (updatedThisCycle < maxSectorsToUpdate) {
@@ -103,6 +151,72 @@ export class SectorCache {
         }
     }
 
+    /**
+     * Recalculates the influence of the next few sectors in turn from the given sources, so that the whole map is kept
+     * up to date without doing it all at once.
+     */
+    public updateInfluence(currentGameTick: number, sources: InfluenceSource[], maxSectorsToUpdate: number) {
+        const totalSectors = this.sectorsX * this.sectorsY;
+        const sectorsToUpdate = Math.min(maxSectorsToUpdate, totalSectors);
+        const influences = new Map<number, SectorInfluence>();
+        for (let i = 0; i < sectorsToUpdate; ++i) {
+            influences.set((this.nextInfluenceSectorIndex + i) % totalSectors, emptyInfluence(currentGameTick));
+        }
+        this.nextInfluenceSectorIndex = (this.nextInfluenceSectorIndex + sectorsToUpdate) % totalSectors;
+
+        sources.forEach((source) => {
+            this.getInfluencedSectorIndexes(source).forEach((index) => {
+                const influence = influences.get(index);
+                if (!influence) {
+                    return;
+                }
+                if (source.friendly) {
+                    influence.ourStrength += source.antiGround + source.antiAir;
+                    return;
+                }
+                influence.enemyAntiGround += source.antiGround;
+                influence.enemyAntiAir += source.antiAir;
+                if (source.staticDefenceRange !== undefined) {
+                    influence.enemyStaticDefence += source.antiGround + source.antiAir;
+                }
+            });
+        });
+
+        influences.forEach((influence, index) => {
+            this.sectors[Math.floor(index / this.sectorsY)][index % this.sectorsY].influence = influence;
+        });
+    }
+
+    private getInfluencedSectorIndexes({ position, staticDefenceRange }: InfluenceSource): number[] {
+        const coordinates = this.getSectorCoordinatesForWorldPosition(position.x, position.y);
+        if (!coordinates) {
+            return [];
+        }
+        if (staticDefenceRange === undefined) {
+            return [coordinates.sectorX * this.sectorsY + coordinates.sectorY];
+        }
+        // Any sector whose centre is within range, give or take half a sector.
+        const reach = Math.ceil(staticDefenceRange / SECTOR_SIZE);
+        const indexes: number[] = [];
+        for (
+            let x = Math.max(0, coordinates.sectorX - reach);
+            x <= Math.min(this.sectorsX - 1, coordinates.sectorX + reach);
+            ++x
+        ) {
+            for (
+                let y = Math.max(0, coordinates.sectorY - reach);
+                y <= Math.min(this.sectorsY - 1, coordinates.sectorY + reach);
+                ++y
+            ) {
+                const centre = new Vector2((x + 0.5) * SECTOR_SIZE, (y + 0.5) * SECTOR_SIZE);
+                if (centre.distanceTo(position) <= staticDefenceRange + SECTOR_SIZE / 2) {
+                    indexes.push(x * this.sectorsY + y);
+                }
+            }
+        }
+        return indexes;
+    }
+
     // Return % of sectors that are updated.
     public getSectorUpdateRatio(sectorsUpdatedSinceGameTick: number): number {
         let updated = 0,
@@ -171,4 +285,11 @@ export class SectorCache {
         }
         return this.sectors[Math.floor(x / SECTOR_SIZE)][Math.floor(y / SECTOR_SIZE)];
     }
+
+    /**
+     * How much enemy firepower we would face at a position, or 0 if it's off the map.
+     */
+    public getDangerForWorldPosition(x: number, y: number, againstAir: boolean = false): number {
+        return this.getSectorForWorldPosition(x, y)?.getDanger(againstAir) ?? 0;
+    }
 }
@@ -0,0 +1,94 @@
+import assert from "assert";
+import { LandType, Vector2 } from "@chronodivide/game-api";
+import { RegionKind, analyseMapTopology, getPointBehindRegion } from "./topology.js";
+import { FakeMapApi } from "../../../test/fakeMapApi.js";
+
+describe("analyseMapTopology", () => {
+    const MAP_SIZE = { width: 64, height: 64 };
+    const BASES = [new Vector2(10, 32), new Vector2(50, 32)];
+
+    let mapApi: FakeMapApi;
+
+    const addRock = (x: number, fromY: number, toY: number) => {
+        for (let ry = fromY; ry <= toY; ++ry) {
+            mapApi.setLandType(x, ry, LandType.Rock);
+        }
+    };
+    const analyse = (oreFields: Vector2[] = []) => analyseMapTopology(mapApi.asMapApi(), MAP_SIZE, BASES, oreFields);
+
+    beforeEach(() => {
+        mapApi = new FakeMapApi(MAP_SIZE);
+    });
+
+    it("finds the gap in a wall between two bases", () => {
+        addRock(30, 0, 29);
+        addRock(30, 34, 63);
+        const topology = analyse();
+
+        const [chokepoint] = topology.getRegions();
+        assert.strictEqual(topology.getRegions().length, 1);
+        assert.strictEqual(chokepoint.kind, RegionKind.Chokepoint);
+        assert.strictEqual(chokepoint.width, 4);
+        assert.strictEqual(chokepoint.center.x, 30);
+        assert.deepStrictEqual(
+            chokepoint.tiles.map(({ y }) => y),
+            [30, 31, 32, 33],
+        );
+        assert.strictEqual(topology.getRegionAt(30, 31), chokepoint);
+        assert.strictEqual(topology.getRegionAt(29, 31), null);
+    });
+
+    it("ignores gaps that can be walked around", () => {
+        addRock(30, 25, 30);
+        addRock(30, 34, 39);
+        assert.deepStrictEqual(analyse().getRegions(), []);
+    });
+
+    it("ignores chokepoints that aren't on the way between bases and ore fields", () => {
+        addRock(30, 0, 29);
+        addRock(30, 34, 63);
+        // A room in the corner of the map with a narrow entrance.
+        addRock(11, 0, 10);
+        for (let rx = 0; rx <= 10; ++rx) {
+            if (rx !== 4 && rx !== 5) {
+                mapApi.setLandType(rx, 10, LandType.Rock);
+            }
+        }
+        assert.strictEqual(analyse().getRegions().length, 1);
+        // Unless there's ore in the room.
+        assert.strictEqual(analyse([new Vector2(4, 4)]).getRegions().length, 2);
+    });
+
+    it("finds ramps on the way between bases", () => {
+        for (let ry = 0; ry < 64; ++ry) {
+            mapApi.getTile(20, ry)!.rampType = 1;
+        }
+        const [ramp] = analyse().getRegions();
+        assert.strictEqual(ramp.kind, RegionKind.Ramp);
+        assert.strictEqual(ramp.tiles.length, 64);
+    });
+
+    it("finds the chokepoint towards a point", () => {
+        addRock(30, 0, 29);
+        addRock(30, 34, 63);
+        const topology = analyse();
+        const [chokepoint] = topology.getRegions();
+
+        assert.strictEqual(topology.getRegionTowards(BASES[0], BASES[1], 4, 25), chokepoint);
+        assert.strictEqual(topology.getRegionTowards(BASES[0], BASES[1], 4, 15), null);
+        assert.strictEqual(topology.getRegionTowards(BASES[0], new Vector2(10, 0), 4, 25), null);
+        assert.deepStrictEqual(topology.getRegionsNear(new Vector2(25, 32), 10), [chokepoint]);
+    });
+
+    it("finds a point behind a chokepoint that stays clear of it", () => {
+        addRock(30, 0, 29);
+        addRock(30, 34, 63);
+        const topology = analyse();
+        const [chokepoint] = topology.getRegions();
+        const point = getPointBehindRegion(chokepoint, BASES[0], 3);
+
+        assert.strictEqual(topology.getRegionAt(point.x, point.y), null);
+        assert.strictEqual(Math.round(point.distanceTo(chokepoint.center)), 3);
+        assert.ok(point.distanceTo(BASES[0]) < chokepoint.center.distanceTo(BASES[0]));
+    });
+});
@@ -0,0 +1,294 @@
+import { GameMath, MapApi, Size, SpeedType, Vector2 } from "@chronodivide/game-api";
+import { getPassabilityTest } from "./connectivity.js";
+import { minBy } from "../common/utils.js";
+
+export enum RegionKind {
+    // A narrow passage between impassable terrain.
+    Chokepoint = "chokepoint",
+    // A slope between two levels of the map.
+    Ramp = "ramp",
+}
+
+/**
+ * A part of the map that armies have to funnel through on the way between bases and ore fields.
+ */
+export type MapRegion = {
+    name: string;
+    kind: RegionKind;
+    tiles: Vector2[];
+    // The narrowest tile of a chokepoint, or the middle of a ramp.
+    center: Vector2;
+    // How many tiles wide the region is at its narrowest.
+    width: number;
+};
+
+// Passages at most this many tiles wide are narrow.
+const MAX_CHOKEPOINT_WIDTH = 6;
+
+// How far around a narrow passage to look for the open ground on either side of it.
+const CHOKEPOINT_CHECK_RADIUS = 10;
+
+// The ground on each side of a chokepoint must be at least this big, so that small nooks don't count.
+const MIN_CHOKEPOINT_SIDE_TILES = 10;
+
+// A region is "on the way" to a point if it's within this angle of the direct line to it.
+const MAX_DIRECTION_DEVIATION = Math.PI / 4;
+
+// Directions to measure the width of a passage in: horizontal, vertical and both diagonals.
+const AXES = [
+    [1, 0],
+    [0, 1],
+    [1, 1],
+    [1, -1],
+];
+
+const NEIGHBOURS = [-1, 0, 1].flatMap((dx) => [-1, 0, 1].map((dy) => [dx, dy])).filter(([dx, dy]) => dx || dy);
+
+/**
+ * Finds the chokepoints and ramps between bases and ore fields from the passability of the map for ground units.
+ *
+ * @param bases Starting locations, which paths are traced from.
+ * @param oreFields Centres of the ore fields, which paths are traced to along with the other bases.
+ */
+export function analyseMapTopology(mapApi: MapApi, mapBounds: Size, bases: Vector2[], oreFields: Vector2[]) {
+    const { width, height } = mapBounds;
+    const index = (rx: number, ry: number) => rx * height + ry;
+    const inBounds = (rx: number, ry: number) => rx >= 0 && rx < width && ry >= 0 && ry < height;
+
+    const isPassableTile = getPassabilityTest(mapApi, SpeedType.Track);
+    const passable = new Uint8Array(width * height);
+    const ramp = new Uint8Array(width * height);
+    for (let rx = 0; rx < width; ++rx) {
+        for (let ry = 0; ry < height; ++ry) {
+            const tile = mapApi.getTile(rx, ry);
+            if (tile && isPassableTile(tile)) {
+                passable[index(rx, ry)] = 1;
+                ramp[index(rx, ry)] = tile.rampType !== 0 ? 1 : 0;
+            }
+        }
+    }
+    const isPassable = (rx: number, ry: number) => inBounds(rx, ry) && passable[index(rx, ry)] === 1;
+
+    // Width of the passage through each tile, along whichever axis it's narrowest.
+    const widths = new Uint8Array(width * height);
+    const run = (rx: number, ry: number, dx: number, dy: number) => {
+        let length = 0;
+        while (length <= MAX_CHOKEPOINT_WIDTH && isPassable(rx + dx * (length + 1), ry + dy * (length + 1))) {
+            ++length;
+        }
+        return length;
+    };
+    for (let rx = 0; rx < width; ++rx) {
+        for (let ry = 0; ry < height; ++ry) {
+            if (isPassable(rx, ry)) {
+                widths[index(rx, ry)] = Math.min(
+                    MAX_CHOKEPOINT_WIDTH + 1,
+                    ...AXES.map(([dx, dy]) => 1 + run(rx, ry, dx, dy) + run(rx, ry, -dx, -dy)),
+                );
+            }
+        }
+    }
+
+    // Mark the shortest paths from each base to the other bases and to every ore field.
+    const onPath = new Uint8Array(width * height);
+    bases.forEach((base) => {
+        const parents = new Int32Array(width * height).fill(-1);
+        const start = findPassableNear(base, isPassable);
+        if (!start) {
+            return;
+        }
+        parents[index(start.x, start.y)] = index(start.x, start.y);
+        const queue = [start];
+        for (let i = 0; i < queue.length; ++i) {
+            const { x, y } = queue[i];
+            NEIGHBOURS.forEach(([dx, dy]) => {
+                const nx = x + dx;
+                const ny = y + dy;
+                if (isPassable(nx, ny) && parents[index(nx, ny)] === -1) {
+                    parents[index(nx, ny)] = index(x, y);
+                    queue.push(new Vector2(nx, ny));
+                }
+            });
+        }
+        [...bases, ...oreFields].forEach((destination) => {
+            const end = findPassableNear(destination, isPassable);
+            if (!end || parents[index(end.x, end.y)] === -1) {
+                return;
+            }
+            let current = index(end.x, end.y);
+            while (!onPath[current] && parents[current] !== current) {
+                onPath[current] = 1;
+                current = parents[current];
+            }
+        });
+    });
+
+    const isNarrow = (rx: number, ry: number) => isPassable(rx, ry) && widths[index(rx, ry)] <= MAX_CHOKEPOINT_WIDTH;
+    const isRamp = (rx: number, ry: number) => isPassable(rx, ry) && ramp[index(rx, ry)] === 1;
+    const regions: MapRegion[] = [];
+    const addRegions = (kind: RegionKind, isInRegion: (rx: number, ry: number) => boolean) => {
+        const visited = new Uint8Array(width * height);
+        for (let rx = 0; rx < width; ++rx) {
+            for (let ry = 0; ry < height; ++ry) {
+                if (visited[index(rx, ry)] || !isInRegion(rx, ry)) {
+                    continue;
+                }
+                const tiles = floodFill(rx, ry, isInRegion, visited, index);
+                if (!tiles.some(({ x, y }) => onPath[index(x, y)])) {
+                    continue;
+                }
+                const centroid = new Vector2(
+                    tiles.reduce((total, { x }) => total + x, 0) / tiles.length,
+                    tiles.reduce((total, { y }) => total + y, 0) / tiles.length,
+                );
+                const regionWidth = Math.min(...tiles.map(({ x, y }) => widths[index(x, y)]));
+                const center =
+                    kind === RegionKind.Chokepoint
+                        ? minBy(
+                              tiles.filter(({ x, y }) => widths[index(x, y)] === regionWidth),
+                              (tile) => tile.distanceTo(centroid),
+                          )!
+                        : minBy(tiles, (tile) => tile.distanceTo(centroid))!;
+                if (kind === RegionKind.Chokepoint && !separatesGround(center, regionWidth, tiles, isPassable)) {
+                    continue;
+                }
+                regions.push({ name: `${kind}-${regions.length}`, kind, tiles, center, width: regionWidth });
+            }
+        }
+    };
+    addRegions(RegionKind.Ramp, isRamp);
+    addRegions(RegionKind.Chokepoint, (rx, ry) => isNarrow(rx, ry) && !isRamp(rx, ry));
+    return new MapTopology(regions);
+}
+
+const findPassableNear = (point: Vector2, isPassable: (rx: number, ry: number) => boolean) => {
+    for (let radius = 0; radius <= 3; ++radius) {
+        for (let dx = -radius; dx <= radius; ++dx) {
+            for (let dy = -radius; dy <= radius; ++dy) {
+                if (isPassable(point.x + dx, point.y + dy)) {
+                    return new Vector2(point.x + dx, point.y + dy);
+                }
+            }
+        }
+    }
+    return null;
+};
+
+const floodFill = (
+    rx: number,
+    ry: number,
+    isInRegion: (rx: number, ry: number) => boolean,
+    visited: Uint8Array,
+    index: (rx: number, ry: number) => number,
+) => {
+    visited[index(rx, ry)] = 1;
+    const tiles = [new Vector2(rx, ry)];
+    for (let i = 0; i < tiles.length; ++i) {
+        const { x, y } = tiles[i];
+        NEIGHBOURS.forEach(([dx, dy]) => {
+            const nx = x + dx;
+            const ny = y + dy;
+            if (isInRegion(nx, ny) && !visited[index(nx, ny)]) {
+                visited[index(nx, ny)] = 1;
+                tiles.push(new Vector2(nx, ny));
+            }
+        });
+    }
+    return tiles;
+};
+
+// Whether blocking the narrowest part of a passage would split the ground around it in two, i.e. whether there's no
+// way around it nearby.
+const separatesGround = (
+    center: Vector2,
+    regionWidth: number,
+    tiles: Vector2[],
+    isPassable: (rx: number, ry: number) => boolean,
+) => {
+    const cut = new Set(tiles.filter((tile) => tile.distanceTo(center) <= regionWidth).map(({ x, y }) => `${x},${y}`));
+    const isOpen = (rx: number, ry: number) =>
+        Math.abs(rx - center.x) <= CHOKEPOINT_CHECK_RADIUS &&
+        Math.abs(ry - center.y) <= CHOKEPOINT_CHECK_RADIUS &&
+        isPassable(rx, ry) &&
+        !cut.has(`${rx},${ry}`);
+    const size = CHOKEPOINT_CHECK_RADIUS * 2 + 1;
+    const localIndex = (rx: number, ry: number) =>
+        (rx - center.x + CHOKEPOINT_CHECK_RADIUS) * size + (ry - center.y + CHOKEPOINT_CHECK_RADIUS);
+    const visited = new Uint8Array(size * size);
+    let sides = 0;
+    for (let rx = center.x - CHOKEPOINT_CHECK_RADIUS; rx <= center.x + CHOKEPOINT_CHECK_RADIUS; ++rx) {
+        for (let ry = center.y - CHOKEPOINT_CHECK_RADIUS; ry <= center.y + CHOKEPOINT_CHECK_RADIUS; ++ry) {
+            if (
+                isOpen(rx, ry) &&
+                !visited[localIndex(rx, ry)] &&
+                floodFill(rx, ry, isOpen, visited, localIndex).length >= MIN_CHOKEPOINT_SIDE_TILES
+            ) {
+                ++sides;
+            }
+        }
+    }
+    return sides >= 2;
+};
+
+/**
+ * The chokepoints and ramps of a map, as found by `analyseMapTopology`.
+ */
+export class MapTopology {
+    private regionsByTile: Map<string, MapRegion> = new Map();
+
+    constructor(private regions: MapRegion[]) {
+        regions.forEach((region) => region.tiles.forEach(({ x, y }) => this.regionsByTile.set(`${x},${y}`, region)));
+    }
+
+    getRegions(): MapRegion[] {
+        return this.regions;
+    }
+
+    getChokepoints(): MapRegion[] {
+        return this.regions.filter(({ kind }) => kind === RegionKind.Chokepoint);
+    }
+
+    /**
+     * Returns the region that a tile is part of, if any.
+     */
+    getRegionAt(rx: number, ry: number): MapRegion | null {
+        return this.regionsByTile.get(`${rx},${ry}`) ?? null;
+    }
+
+    /**
+     * Returns the regions whose centre is within a radius of a point, closest first.
+     */
+    getRegionsNear(point: Vector2, radius: number): MapRegion[] {
+        return this.regions
+            .filter(({ center }) => center.distanceTo(point) <= radius)
+            .sort((a, b) => a.center.distanceTo(point) - b.center.distanceTo(point));
+    }
+
+    /**
+     * Returns the closest region to `from` that lies roughly in the direction of `to`, between the given distances of
+     * `from`. Useful to find where to hold the line between a base and an enemy.
+     */
+    getRegionTowards(from: Vector2, to: Vector2, minDistance: number, maxDistance: number): MapRegion | null {
+        const direction = GameMath.atan2(to.y - from.y, to.x - from.x);
+        const candidates = this.getRegionsNear(from, maxDistance).filter(({ center }) => {
+            if (center.distanceTo(from) < minDistance) {
+                return false;
+            }
+            const deviation = Math.abs(GameMath.atan2(center.y - from.y, center.x - from.x) - direction);
+            return Math.min(deviation, 2 * Math.PI - deviation) <= MAX_DIRECTION_DEVIATION;
+        });
+        return candidates[0] ?? null;
+    }
+}
+
+/**
+ * Returns the point `setback` tiles from the centre of a region towards `towards`, so that units or buildings waiting
+ * there don't block the region itself.
+ */
+export const getPointBehindRegion = ({ center }: MapRegion, towards: Vector2, setback: number) => {
+    const distance = Math.max(1, center.distanceTo(towards));
+    return new Vector2(
+        Math.round(center.x + ((towards.x - center.x) * setback) / distance),
+        Math.round(center.y + ((towards.y - center.y) * setback) / distance),
+    );
+};
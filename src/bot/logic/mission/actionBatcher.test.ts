@@ -0,0 +1,65 @@
+import assert from "assert";
+import { OrderType, Vector2 } from "@chronodivide/game-api";
+import { ActionBatcher, BatchableAction } from "./actionBatcher.js";
+import { FakeActionsApi } from "../../../test/fakeActionsApi.js";
+
+describe("ActionBatcher", () => {
+    let actionsApi: FakeActionsApi;
+    let batcher: ActionBatcher;
+
+    beforeEach(() => {
+        actionsApi = new FakeActionsApi();
+        batcher = new ActionBatcher();
+    });
+
+    it("sends orders to the same point as a single action", () => {
+        batcher.push(BatchableAction.toPoint(1, OrderType.Move, new Vector2(10, 20)));
+        batcher.push(BatchableAction.toPoint(2, OrderType.Move, new Vector2(10, 20)));
+        batcher.push(BatchableAction.toPoint(3, OrderType.Move, new Vector2(5, 5)));
+        batcher.resolve(actionsApi.asActionsApi());
+
+        assert.deepStrictEqual(actionsApi.callsTo("orderUnits"), [
+            [[1, 2], OrderType.Move, 10, 20],
+            [[3], OrderType.Move, 5, 5],
+        ]);
+    });
+
+    it("groups orders on the same target", () => {
+        batcher.push(BatchableAction.toTargetId(1, OrderType.Attack, 100));
+        batcher.push(BatchableAction.toTargetId(2, OrderType.Attack, 100));
+        batcher.push(BatchableAction.toTargetId(3, OrderType.Attack, 200));
+        batcher.resolve(actionsApi.asActionsApi());
+
+        assert.deepStrictEqual(actionsApi.callsTo("orderUnits"), [
+            [[1, 2], OrderType.Attack, 100],
+            [[3], OrderType.Attack, 200],
+        ]);
+    });
+
+    it("groups orders without a target", () => {
+        batcher.push(BatchableAction.noTarget(1, OrderType.Stop));
+        batcher.push(BatchableAction.noTarget(2, OrderType.Stop));
+        batcher.resolve(actionsApi.asActionsApi());
+
+        assert.deepStrictEqual(actionsApi.callsTo("orderUnits"), [[[1, 2], OrderType.Stop]]);
+    });
+
+    it("keeps different order types apart", () => {
+        batcher.push(BatchableAction.toPoint(1, OrderType.Move, new Vector2(10, 20)));
+        batcher.push(BatchableAction.toPoint(2, OrderType.AttackMove, new Vector2(10, 20)));
+        batcher.resolve(actionsApi.asActionsApi());
+
+        const orders = actionsApi.callsTo("orderUnits");
+        assert.strictEqual(orders.length, 2);
+        assert.deepStrictEqual(orders, [
+            [[1], OrderType.Move, 10, 20],
+            [[2], OrderType.AttackMove, 10, 20],
+        ]);
+    });
+
+    it("sends nothing when there are no actions", () => {
+        batcher.resolve(actionsApi.asActionsApi());
+
+        assert.deepStrictEqual(actionsApi.calls, []);
+    });
+});
@@ -0,0 +1,227 @@
+import assert from "assert";
+import { ActionsApi, GameApi, ObjectType, PlayerData, Vector2 } from "@chronodivide/game-api";
+import { MissionController } from "./missionController.js";
+import {
+    Mission,
+    MissionAction,
+    disbandMission,
+    grabCombatants,
+    noop,
+    releaseUnits,
+    requestSpecificUnits,
+    requestUnits,
+} from "./mission.js";
+import { MatchAwareness } from "../awareness.js";
+import { ActionBatcher } from "./actionBatcher.js";
+import { FakeGameApi } from "../../../test/fakeGameApi.js";
+import { FakeActionsApi } from "../../../test/fakeActionsApi.js";
+import { FakeProductionApi } from "../../../test/fakeProductionApi.js";
+
+/**
+ * A mission that does whatever the test tells it to.
+ */
+class ScriptedMission extends Mission<string> {
+    public nextAction: MissionAction = noop();
+    public finishedWith: string | undefined = undefined;
+
+    constructor(
+        name: string,
+        private priority: number,
+        private unitsLocked = false,
+    ) {
+        super(name, () => {});
+        this.then((unitIds, reason) => (this.finishedWith = reason));
+    }
+
+    _onAiUpdate(
+        gameApi: GameApi,
+        actionsApi: ActionsApi,
+        playerData: PlayerData,
+        matchAwareness: MatchAwareness,
+        actionBatcher: ActionBatcher,
+    ): MissionAction {
+        const action = this.nextAction;
+        this.nextAction = noop();
+        return action;
+    }
+
+    getGlobalDebugText() {
+        return undefined;
+    }
+
+    isUnitsLocked() {
+        return this.unitsLocked;
+    }
+
+    getPriority() {
+        return this.priority;
+    }
+}
+
+describe("MissionController", () => {
+    const ME = "Me";
+
+    let game: FakeGameApi;
+    let actionsApi: FakeActionsApi;
+    let missionController: MissionController;
+
+    beforeEach(() => {
+        game = new FakeGameApi({ width: 50, height: 50 }).addPlayer(ME, { startLocation: new Vector2(10, 10) });
+        actionsApi = new FakeActionsApi();
+        missionController = new MissionController([], () => {});
+    });
+
+    const update = () =>
+        missionController.onAiUpdate(
+            game.asGameApi(),
+            new FakeProductionApi().asProductionApi(),
+            actionsApi.asActionsApi(),
+            game.getPlayerData(ME),
+            {} as MatchAwareness,
+        );
+
+    it("rejects missions with duplicate names", () => {
+        assert.ok(missionController.addMission(new ScriptedMission("attack", 10)));
+        assert.strictEqual(missionController.addMission(new ScriptedMission("attack", 10)), null);
+    });
+
+    it("assigns free units of a requested type", () => {
+        const tank = game.addObject({ name: "MTNK", owner: ME, rx: 10, ry: 10 });
+        game.addObject({ name: "E1", owner: ME, rx: 10, ry: 10, type: ObjectType.Infantry });
+        const mission = new ScriptedMission("attack", 10);
+        missionController.addMission(mission);
+
+        mission.nextAction = requestUnits(["MTNK"], 10);
+        update();
+
+        assert.deepStrictEqual(mission.getUnitIds(), [tank]);
+        assert.deepStrictEqual(actionsApi.callsTo("setUnitDebugText"), [[tank, `attack_${tank}`]]);
+    });
+
+    it("remembers unit types that couldn't be supplied, so they can be built", () => {
+        const mission = new ScriptedMission("attack", 10);
+        missionController.addMission(mission);
+
+        mission.nextAction = requestUnits(["MTNK"], 10);
+        update();
+        assert.strictEqual(missionController.getRequestedUnitTypes().get("MTNK"), 10);
+
+        // The request decays if it isn't repeated.
+        update();
+        assert.strictEqual(missionController.getRequestedUnitTypes().get("MTNK"), 10 * 0.75 - 1);
+    });
+
+    it("assigns specific units by ID", () => {
+        const tanks = [0, 1, 2].map((i) => game.addObject({ name: "MTNK", owner: ME, rx: 10 + i, ry: 10 }));
+        const mission = new ScriptedMission("escort", 10);
+        missionController.addMission(mission);
+
+        mission.nextAction = requestSpecificUnits([tanks[1], tanks[2]], 10);
+        update();
+
+        assert.deepStrictEqual(mission.getUnitIds(), [tanks[1], tanks[2]]);
+    });
+
+    it("lets missions grab nearby combatants", () => {
+        const nearby = game.addObject({ name: "MTNK", owner: ME, rx: 12, ry: 12 });
+        game.addObject({ name: "MTNK", owner: ME, rx: 40, ry: 40 });
+        game.addObject({ name: "GAPOWR", owner: ME, rx: 11, ry: 11, type: ObjectType.Building });
+        game.addObject({ name: "MTNK", owner: "Enemy", rx: 11, ry: 10 });
+        const mission = new ScriptedMission("defence", 10);
+        missionController.addMission(mission);
+
+        mission.nextAction = grabCombatants(new Vector2(10, 10), 5);
+        update();
+
+        assert.deepStrictEqual(mission.getUnitIds(), [nearby]);
+    });
+
+    it("lets higher priority missions take units from unlocked missions only", () => {
+        const tank = game.addObject({ name: "MTNK", owner: ME, rx: 10, ry: 10 });
+        const scout = new ScriptedMission("scout", 5);
+        const attack = new ScriptedMission("attack", 10);
+        missionController.addMission(scout);
+        missionController.addMission(attack);
+
+        scout.nextAction = requestUnits(["MTNK"], 5);
+        update();
+        assert.deepStrictEqual(scout.getUnitIds(), [tank]);
+
+        attack.nextAction = requestUnits(["MTNK"], 10);
+        update();
+        assert.deepStrictEqual(scout.getUnitIds(), []);
+        assert.deepStrictEqual(attack.getUnitIds(), [tank]);
+    });
+
+    it("doesn't take units from locked missions", () => {
+        const tank = game.addObject({ name: "MTNK", owner: ME, rx: 10, ry: 10 });
+        const locked = new ScriptedMission("locked", 5, true);
+        const attack = new ScriptedMission("attack", 10);
+        missionController.addMission(locked);
+        missionController.addMission(attack);
+
+        locked.nextAction = requestUnits(["MTNK"], 5);
+        update();
+        attack.nextAction = requestUnits(["MTNK"], 10);
+        update();
+
+        assert.deepStrictEqual(locked.getUnitIds(), [tank]);
+        assert.deepStrictEqual(attack.getUnitIds(), []);
+    });
+
+    it("frees released units", () => {
+        const tank = game.addObject({ name: "MTNK", owner: ME, rx: 10, ry: 10 });
+        const mission = new ScriptedMission("attack", 10);
+        missionController.addMission(mission);
+        mission.nextAction = requestUnits(["MTNK"], 10);
+        update();
+
+        mission.nextAction = releaseUnits([tank]);
+        update();
+
+        assert.deepStrictEqual(mission.getUnitIds(), []);
+        assert.deepStrictEqual(actionsApi.callsTo("setUnitDebugText").pop(), [tank, undefined]);
+    });
+
+    it("removes disbanded missions and records why", () => {
+        game.addObject({ name: "MTNK", owner: ME, rx: 10, ry: 10 });
+        const mission = new ScriptedMission("attack", 10);
+        missionController.addMission(mission);
+        mission.nextAction = requestUnits(["MTNK"], 10);
+        update();
+
+        mission.nextAction = disbandMission("Defeated");
+        update();
+
+        assert.deepStrictEqual(missionController.getMissions(), []);
+        assert.strictEqual(mission.finishedWith, "Defeated");
+        assert.deepStrictEqual(missionController.getMissionStats(), {
+            started: { ScriptedMission: 1 },
+            disbanded: { ScriptedMission: { Defeated: 1 } },
+        });
+    });
+
+    it("disbands missions on request", () => {
+        const mission = new ScriptedMission("attack", 10);
+        missionController.addMission(mission);
+
+        missionController.disbandMission("attack");
+        update();
+
+        assert.deepStrictEqual(missionController.getMissions(), []);
+        assert.strictEqual(mission.finishedWith, null);
+    });
+
+    it("drops units that no longer exist", () => {
+        const tank = game.addObject({ name: "MTNK", owner: ME, rx: 10, ry: 10 });
+        const mission = new ScriptedMission("attack", 10);
+        missionController.addMission(mission);
+        mission.nextAction = requestUnits(["MTNK"], 10);
+        update();
+
+        game.removeObject(tank);
+        update();
+
+        assert.deepStrictEqual(mission.getUnitIds(), []);
+    });
+});
@@ -31,11 +31,37 @@ import { MissionFactory } from "./missionFactories.js";
 import { ActionBatcher } from "./actionBatcher.js";
 import { DebugLogger, countBy, isSelectableCombatant } from "../common/utils.js";
 import { Squad } from "./missions/squads/squad.js";
+import { TickProfiler } from "../common/profiler.js";
 
 // `missingUnitTypes` priority decays by this much every update loop.
 const MISSING_UNIT_TYPE_REQUEST_DECAY_MULT_RATE = 0.75;
 const MISSING_UNIT_TYPE_REQUEST_DECAY_FLAT_RATE = 1;
 
+/**
+ * Counts of missions over the course of the match, keyed by mission class (e.g. `AttackMission`).
+ */
+export type MissionStats = {
+    started: { [missionType: string]: number };
+    // Mission class to disband reason to count.
+    disbanded: { [missionType: string]: { [reason: string]: number } };
+};
+
+const getMissionType = (mission: Mission<any>) => mission.constructor.name;
+
+const describeDisbandReason = (reason: any): string => {
+    if (reason === undefined) {
+        return "none";
+    }
+    if (reason === null) {
+        // Disbanded through `disbandMission()` rather than by the mission itself.
+        return "forced";
+    }
+    if (typeof reason === "object") {
+        return reason.constructor?.name ?? "unknown";
+    }
+    return String(reason);
+};
+
 export class MissionController {
     private missions: Mission<any>[] = [];
 
@@ -50,9 +76,12 @@ export class MissionController {
     // Tracks missions to be externally disbanded the next time the mission update loop occurs.
     private forceDisbandedMissions: string[] = [];
 
+    private missionStats: MissionStats = { started: {}, disbanded: {} };
+
     constructor(
         private missionFactories: MissionFactory[],
         private logger: DebugLogger,
+        private profiler: TickProfiler = new TickProfiler(false, 0),
     ) {}
 
     private updateUnitIds(gameApi: GameApi) {
@@ -92,7 +121,9 @@ export class MissionController {
         // Poll missions for requested actions.
         const missionActions: MissionWithAction<any>[] = this.missions.map((mission) => ({
             mission,
-            action: mission.onAiUpdate(gameApi, actionsApi, playerData, matchAwareness, actionBatcher),
+            action: this.profiler.measure(`mission:${getMissionType(mission)}`, () =>
+                mission.onAiUpdate(gameApi, actionsApi, playerData, matchAwareness, actionBatcher),
+            ),
         }));
 
         // Handle disbands and merges.
@@ -307,17 +338,35 @@ export class MissionController {
                 const reason = disbandedMissions.get(disbandedMission.getUniqueName());
                 this.logger(`mission disbanded: ${disbandedMission.getUniqueName()}, reason: ${reason}`);
                 disbandedMissionsArray.push({ mission: disbandedMission, reason });
+                this.recordDisband(disbandedMission, reason);
                 disbandedMission.onFinish(disbandedMissions.get(disbandedMission.getUniqueName()));
             });
         this.missions = this.missions.filter((missions) => !disbandedMissions.has(missions.getUniqueName()));
 
         // Create dynamic missions.
-        this.missionFactories.forEach((missionFactory) => {
-            missionFactory.maybeCreateMissions(gameApi, productionApi, playerData, matchAwareness, this, this.logger);
-            disbandedMissionsArray.forEach(({ reason, mission }) => {
-                missionFactory.onMissionFailed(gameApi, playerData, matchAwareness, mission, reason, this, this.logger);
-            });
-        });
+        this.missionFactories.forEach((missionFactory) =>
+            this.profiler.measure(`factory:${missionFactory.getName()}`, () => {
+                missionFactory.maybeCreateMissions(
+                    gameApi,
+                    productionApi,
+                    playerData,
+                    matchAwareness,
+                    this,
+                    this.logger,
+                );
+                disbandedMissionsArray.forEach(({ reason, mission }) => {
+                    missionFactory.onMissionFailed(
+                        gameApi,
+                        playerData,
+                        matchAwareness,
+                        mission,
+                        reason,
+                        this,
+                        this.logger,
+                    );
+                });
+            }),
+        );
     }
 
     private updateRequestedUnitTypes(
@@ -378,9 +427,22 @@ export class MissionController {
         }
         this.logger(`Added mission: ${mission.getUniqueName()}`);
         this.missions.push(mission);
+        const missionType = getMissionType(mission);
+        this.missionStats.started[missionType] = (this.missionStats.started[missionType] ?? 0) + 1;
         return mission;
     }
 
+    private recordDisband(mission: Mission<any>, reason: any) {
+        const missionType = getMissionType(mission);
+        const reasons = (this.missionStats.disbanded[missionType] = this.missionStats.disbanded[missionType] ?? {});
+        const reasonText = describeDisbandReason(reason);
+        reasons[reasonText] = (reasons[reasonText] ?? 0) + 1;
+    }
+
+    public getMissionStats(): MissionStats {
+        return this.missionStats;
+    }
+
     /**
      * Disband the provided mission on the next possible opportunity.
      */
@@ -8,6 +8,8 @@ import { MissionController } from "./missionController.js";
 import { DefenceMissionFactory } from "./missions/defenceMission.js";
 import { DebugLogger } from "../common/utils.js";
 import { EngineerMissionFactory } from "./missions/engineerMission.js";
+import { BotPersonality } from "../common/personality.js";
+import { RelocationMissionFactory } from "./missions/relocationMission.js";
 
 export interface MissionFactory {
     getName(): string;
@@ -44,9 +46,10 @@ export interface MissionFactory {
     ): void;
 }
 
-export const createBaseMissionFactories = () => [
-    new ExpansionMissionFactory(),
+export const createBaseMissionFactories = (personality: BotPersonality) => [
+    new ExpansionMissionFactory(personality),
     new ScoutingMissionFactory(),
-    new DefenceMissionFactory(),
+    new DefenceMissionFactory(personality),
     new EngineerMissionFactory(),
+    new RelocationMissionFactory(),
 ];
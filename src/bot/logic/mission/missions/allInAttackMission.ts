@@ -0,0 +1,105 @@
+import { ActionsApi, GameApi, PlayerData, Vector2 } from "@chronodivide/game-api";
+import { MatchAwareness } from "../../awareness.js";
+import { DebugLogger, isOwnedByNeutral } from "../../common/utils.js";
+import { ActionBatcher } from "../actionBatcher.js";
+import { Mission, MissionAction, disbandMission, grabCombatants, noop } from "../mission.js";
+import { AttackFailReason, generateTarget, getUnitReachability } from "./attackMission.js";
+import { CombatSquad } from "./squads/combatSquad.js";
+
+// How long to spend pulling in combatants before setting off.
+const GATHER_TICKS = 300;
+
+const ATTACK_RADIUS = 10;
+
+const NO_TARGET_RETARGET_TICKS = 300;
+
+const ALL_IN_PRIORITY = 90;
+
+/**
+ * A last-resort attack that takes every free combatant and throws them at the enemy, used to break stalemates.
+ * Unlike `AttackMission`, it doesn't wait for a particular composition.
+ */
+export class AllInAttackMission extends Mission<AttackFailReason> {
+    private squad: CombatSquad;
+    private createdAt: number | null = null;
+    private lastTargetSeenAt = 0;
+
+    constructor(
+        uniqueName: string,
+        rallyArea: Vector2,
+        private attackArea: Vector2,
+        logger: DebugLogger,
+    ) {
+        super(uniqueName, logger);
+        this.squad = new CombatSquad(rallyArea, attackArea, ATTACK_RADIUS);
+    }
+
+    _onAiUpdate(
+        gameApi: GameApi,
+        actionsApi: ActionsApi,
+        playerData: PlayerData,
+        matchAwareness: MatchAwareness,
+        actionBatcher: ActionBatcher,
+    ): MissionAction {
+        if (this.createdAt === null) {
+            this.createdAt = gameApi.getCurrentTick();
+            this.lastTargetSeenAt = this.createdAt;
+        }
+        if (gameApi.getCurrentTick() < this.createdAt + GATHER_TICKS) {
+            const { width, height } = gameApi.mapApi.getRealMapSize();
+            return grabCombatants(playerData.startLocation, Math.max(width, height));
+        }
+        if (this.getUnitIds().length === 0) {
+            return disbandMission();
+        }
+
+        const update = this.squad.onAiUpdate(
+            gameApi,
+            actionsApi,
+            actionBatcher,
+            playerData,
+            this,
+            matchAwareness,
+            this.logger,
+        );
+        if (update.type !== "noop") {
+            return update;
+        }
+
+        const foundTargets = matchAwareness
+            .getHostilesNearPoint2d(this.attackArea, ATTACK_RADIUS)
+            .filter(({ unitId }) => !isOwnedByNeutral(gameApi.getGameObjectData(unitId)));
+        if (foundTargets.length > 0) {
+            this.lastTargetSeenAt = gameApi.getCurrentTick();
+        } else if (gameApi.getCurrentTick() > this.lastTargetSeenAt + NO_TARGET_RETARGET_TICKS) {
+            const newTarget = generateTarget(
+                gameApi,
+                playerData,
+                matchAwareness,
+                true,
+                getUnitReachability(gameApi, matchAwareness, this.getUnitIds()),
+            );
+            if (!newTarget) {
+                return disbandMission(AttackFailReason.NoTargets);
+            }
+            this.logger(`All-in attack ${this.getUniqueName()} moving on to ${newTarget.x},${newTarget.y}`);
+            this.attackArea = newTarget;
+            this.squad.setAttackArea(newTarget);
+            this.lastTargetSeenAt = gameApi.getCurrentTick();
+        }
+        return noop();
+    }
+
+    public getGlobalDebugText(): string | undefined {
+        return `all-in: ${this.squad.getGlobalDebugText()}`;
+    }
+
+    // Other missions can't take units back from an all-in.
+    public isUnitsLocked(): boolean {
+        return true;
+    }
+
+    public getPriority() {
+        return ALL_IN_PRIORITY;
+    }
+}
@@ -5,6 +5,7 @@ import {
     PlayerData,
     ProductionApi,
     SideType,
+    TechnoRules,
     UnitData,
     Vector2,
 } from "@chronodivide/game-api";
@@ -19,11 +20,19 @@ import { ActionBatcher } from "../actionBatcher.js";
 import { getSovietComposition } from "../../composition/sovietCompositions.js";
 import { getAlliedCompositions } from "../../composition/alliedCompositions.js";
 import { UnitComposition } from "../../composition/common.js";
+import { getNavalComposition } from "../../composition/navalCompositions.js";
+import { MapConnectivity, ReachabilityZone, getReachabilityZone } from "../../map/connectivity.js";
 import { manageMoveMicro } from "./squads/common.js";
+import { BotPersonality, DEFAULT_PERSONALITY } from "../../common/personality.js";
+import { AttackIntentState } from "../../team/teamChannel.js";
+import { RememberedObject } from "../../threat/enemyMemory.js";
+import { getCachedTechnoRulesByName } from "../../common/rulesCache.js";
+import { planRoute } from "../../map/routePlanner.js";
+import { calculateFirepowerByTarget } from "../../threat/threatCalculator.js";
 
 export enum AttackFailReason {
-    NoTargets = 0,
-    DefenceTooStrong = 1,
+    NoTargets = "NoTargets",
+    DefenceTooStrong = "DefenceTooStrong",
 }
 
 enum AttackMissionState {
@@ -35,6 +44,23 @@ enum AttackMissionState {
 const NO_TARGET_RETARGET_TICKS = 450;
 const NO_TARGET_IDLE_TIMEOUT_TICKS = 900;
 
+// Allies' attack intents that haven't been announced for this long are ignored, e.g. if the ally has been defeated.
+const ALLY_ATTACK_INTENT_MAX_AGE_TICKS = 300;
+
+// Longest time an attack that is ready waits for allies to get their attacks ready too.
+const ALLY_ATTACK_MAX_WAIT_TICKS = 900;
+
+// Enemies our allies have seen more recently than this can be attacked.
+const ALLY_SIGHTING_MAX_AGE_TICKS = 900;
+
+// How often to plan the route to the target again, as we learn where the enemy defences and armies are.
+const ROUTE_REPLAN_INTERVAL_TICKS = 150;
+
+// How far out of the way attacks go to avoid enemy firepower on the way to their target, and how far they go when
+// their team is meant to avoid threats.
+const ROUTE_THREAT_WEIGHT = 1;
+const AVOID_THREATS_ROUTE_THREAT_WEIGHT = 5;
+
 function calculateTargetComposition(
     gameApi: GameApi,
     playerData: PlayerData,
@@ -50,7 +76,6 @@ function calculateTargetComposition(
 }
 
 const ATTACK_MISSION_PRIORITY_RAMP = 1.01;
-const ATTACK_MISSION_MAX_PRIORITY = 50;
 
 /**
  * A mission that tries to attack a certain area.
@@ -63,6 +88,12 @@ export class AttackMission extends Mission<AttackFailReason> {
 
     private state: AttackMissionState = AttackMissionState.Preparing;
 
+    // Tick at which we got all the units we need, while we wait for our allies.
+    private readyAt: number | null = null;
+
+    private routeTarget: Vector2;
+    private routePlannedAt: number | null = null;
+
     constructor(
         uniqueName: string,
         private priority: number,
@@ -72,9 +103,12 @@ export class AttackMission extends Mission<AttackFailReason> {
         logger: DebugLogger,
         private composition: UnitComposition,
         private dissolveUnfulfilledAt: number | null = null,
+        private maxPriority: number = DEFAULT_PERSONALITY.attackMissionMaxPriority,
+        private avoidThreats: boolean = false,
     ) {
         super(uniqueName, logger);
         this.squad = new CombatSquad(rallyArea, attackArea, radius);
+        this.routeTarget = attackArea;
     }
 
     _onAiUpdate(
@@ -112,18 +146,63 @@ export class AttackMission extends Mission<AttackFailReason> {
         }
 
         if (missingUnits.length > 0) {
-            this.priority = Math.min(this.priority * ATTACK_MISSION_PRIORITY_RAMP, ATTACK_MISSION_MAX_PRIORITY);
+            this.readyAt = null;
+            this.announceIntent(gameApi, playerData, matchAwareness, AttackIntentState.Preparing);
+            this.priority = Math.min(this.priority * ATTACK_MISSION_PRIORITY_RAMP, this.maxPriority);
             return requestUnits(
                 missingUnits.map(([unitName]) => unitName),
                 this.priority,
             );
+        } else if (this.shouldWaitForAllies(gameApi, playerData, matchAwareness)) {
+            this.announceIntent(gameApi, playerData, matchAwareness, AttackIntentState.Ready);
+            return noop();
         } else {
+            this.announceIntent(gameApi, playerData, matchAwareness, AttackIntentState.Launched);
             this.priority = ATTACK_MISSION_INITIAL_PRIORITY;
             this.state = AttackMissionState.Attacking;
             return noop();
         }
     }
 
+    // Holds a ready attack back while allies are still preparing theirs, so that the attacks hit together.
+    private shouldWaitForAllies(gameApi: GameApi, playerData: PlayerData, matchAwareness: MatchAwareness) {
+        const teamChannel = matchAwareness.getTeamChannel();
+        if (!teamChannel) {
+            return false;
+        }
+        const currentTick = gameApi.getCurrentTick();
+        const alliesPreparing = teamChannel
+            .getAllyAttackIntents(playerData.name, currentTick - ALLY_ATTACK_INTENT_MAX_AGE_TICKS)
+            .some(({ state }) => state === AttackIntentState.Preparing);
+        if (!alliesPreparing) {
+            return false;
+        }
+        if (this.readyAt === null) {
+            this.logger(`Attack is ready, waiting for allies to get ready too.`);
+            this.readyAt = currentTick;
+        }
+        if (currentTick > this.readyAt + ALLY_ATTACK_MAX_WAIT_TICKS) {
+            this.logger(`Allies took too long to get ready, attacking without them.`);
+            return false;
+        }
+        return true;
+    }
+
+    private announceIntent(
+        gameApi: GameApi,
+        playerData: PlayerData,
+        matchAwareness: MatchAwareness,
+        state: AttackIntentState,
+    ) {
+        matchAwareness.getTeamChannel()?.announceAttack({
+            member: playerData.name,
+            missionName: this.getUniqueName(),
+            target: this.attackArea,
+            state,
+            tick: gameApi.getCurrentTick(),
+        });
+    }
+
     private handleAttackingState(
         gameApi: GameApi,
         actionsApi: ActionsApi,
@@ -136,6 +215,14 @@ export class AttackMission extends Mission<AttackFailReason> {
             this.state = AttackMissionState.Retreating;
             return noop();
         }
+        this.announceIntent(gameApi, playerData, matchAwareness, AttackIntentState.Launched);
+
+        if (
+            this.routePlannedAt === null ||
+            gameApi.getCurrentTick() > this.routePlannedAt + ROUTE_REPLAN_INTERVAL_TICKS
+        ) {
+            this.planRoute(gameApi, matchAwareness);
+        }
 
         const foundTargets = matchAwareness
             .getHostilesNearPoint2d(this.attackArea, this.radius)
@@ -165,9 +252,17 @@ export class AttackMission extends Mission<AttackFailReason> {
             !this.hasPickedNewTarget &&
             gameApi.getCurrentTick() > this.lastTargetSeenAt + NO_TARGET_RETARGET_TICKS
         ) {
-            const newTarget = generateTarget(gameApi, playerData, matchAwareness);
+            const newTarget = generateTarget(
+                gameApi,
+                playerData,
+                matchAwareness,
+                false,
+                getUnitReachability(gameApi, matchAwareness, this.getUnitIds()),
+            );
             if (newTarget) {
                 this.squad.setAttackArea(newTarget);
+                this.routeTarget = newTarget;
+                this.planRoute(gameApi, matchAwareness);
                 this.hasPickedNewTarget = true;
             }
         }
@@ -175,6 +270,32 @@ export class AttackMission extends Mission<AttackFailReason> {
         return noop();
     }
 
+    private planRoute(gameApi: GameApi, matchAwareness: MatchAwareness) {
+        const isFirstRoute = this.routePlannedAt === null;
+        this.routePlannedAt = gameApi.getCurrentTick();
+        const centerOfMass = this.getCenterOfMass();
+        if (!centerOfMass) {
+            return;
+        }
+        const route = planAttackRoute(
+            gameApi,
+            matchAwareness,
+            this.getUnitIds(),
+            centerOfMass,
+            this.routeTarget,
+            this.avoidThreats,
+        );
+        if (isFirstRoute && route && route.length > 1) {
+            this.logger(
+                `Attacking ${this.routeTarget.x},${this.routeTarget.y} via ${route
+                    .slice(0, -1)
+                    .map(({ x, y }) => `${x},${y}`)
+                    .join(" ")}`,
+            );
+        }
+        this.squad.setRoute(route ?? []);
+    }
+
     private handleRetreatingState(
         gameApi: GameApi,
         actionsApi: ActionsApi,
@@ -221,24 +342,189 @@ const getTargetWeight: (unitData: UnitData, tryFocusHarvester: boolean) => numbe
     }
 };
 
+const getRememberedTargetWeight = (gameApi: GameApi, object: RememberedObject, tryFocusHarvester: boolean) => {
+    if (tryFocusHarvester && getCachedTechnoRulesByName(gameApi, object.name)?.harvester) {
+        return 100000;
+    } else if (object.type === ObjectType.Building) {
+        return object.maxHitPoints * 10;
+    } else {
+        return object.maxHitPoints;
+    }
+};
+
+// Targets where the enemy is much stronger than our army are less attractive.
+const getDangerFactor = (matchAwareness: MatchAwareness, x: number, y: number) => {
+    const ourStrength = matchAwareness.getThreatCache()?.totalAvailableAntiGroundFirepower ?? 0;
+    const danger = matchAwareness.getSectorCache().getDangerForWorldPosition(x, y);
+    return 1 / (1 + danger / Math.max(1, ourStrength));
+};
+
+/**
+ * Returns a test for whether any of the given units could get to a point, by the terrain alone.
+ */
+export function getUnitReachability(
+    gameApi: GameApi,
+    matchAwareness: MatchAwareness,
+    unitIds: number[],
+): (point: Vector2) => boolean {
+    const reachabilityMap = matchAwareness.getReachabilityMap();
+    if (!reachabilityMap) {
+        return () => true;
+    }
+    const starts = unitIds
+        .map((unitId) => gameApi.getUnitData(unitId))
+        .filter((unit): unit is UnitData => !!unit)
+        .map((unit) => ({ zone: getReachabilityZone(unit.rules), position: new Vector2(unit.tile.rx, unit.tile.ry) }));
+    return (point) => starts.some(({ zone, position }) => reachabilityMap.canReach(zone, position, point));
+}
+
+/**
+ * Returns a test for whether the army we would build could get to a point: over land from our base, or over water
+ * from the water next to it.
+ */
+export function getBaseReachability(
+    playerData: PlayerData,
+    matchAwareness: MatchAwareness,
+): (point: Vector2) => boolean {
+    const reachabilityMap = matchAwareness.getReachabilityMap();
+    if (!reachabilityMap) {
+        return () => true;
+    }
+    const navalWater = matchAwareness.getMapConnectivity()?.getClosestNavalWater(playerData.startLocation);
+    return (point) =>
+        reachabilityMap.canReach(ReachabilityZone.Ground, playerData.startLocation, point) ||
+        (!!navalWater && reachabilityMap.canReach(ReachabilityZone.Water, navalWater, point));
+}
+
+/**
+ * Returns a test for whether units of the types in a composition could get to a point from our base, by the terrain
+ * alone: over land from the base, or over water from the water next to it. Useful before the units are built.
+ */
+export function getCompositionReachability(
+    gameApi: GameApi,
+    playerData: PlayerData,
+    matchAwareness: MatchAwareness,
+    composition: UnitComposition,
+): (point: Vector2) => boolean {
+    const reachabilityMap = matchAwareness.getReachabilityMap();
+    if (!reachabilityMap) {
+        return () => true;
+    }
+    const zones = new Set(
+        Object.keys(composition)
+            .map((name) => getCachedTechnoRulesByName(gameApi, name))
+            .filter((rules): rules is TechnoRules => !!rules)
+            .map((rules) => getReachabilityZone(rules)),
+    );
+    const navalWater = matchAwareness.getMapConnectivity()?.getClosestNavalWater(playerData.startLocation) ?? null;
+    return (point) =>
+        [...zones].some((zone) => {
+            const start = zone === ReachabilityZone.Water ? navalWater : playerData.startLocation;
+            return !!start && reachabilityMap.canReach(zone, start, point);
+        });
+}
+
+/**
+ * Plans the route for units to take to attack a point, going further out of the way of the enemy defences and armies
+ * the stronger they are compared to the units.
+ *
+ * @param avoidThreats Whether to go well out of the way to avoid enemy firepower, rather than just the worst of it.
+ * @returns The waypoints to follow, or null if there is no route.
+ */
+export function planAttackRoute(
+    gameApi: GameApi,
+    matchAwareness: MatchAwareness,
+    unitIds: number[],
+    from: Vector2,
+    to: Vector2,
+    avoidThreats: boolean = false,
+): Vector2[] | null {
+    const units = unitIds.map((unitId) => gameApi.getUnitData(unitId)).filter((unit): unit is UnitData => !!unit);
+    const strength = units.reduce(
+        (total, { rules, hitPoints, maxHitPoints }) =>
+            total + calculateFirepowerByTarget(gameApi, rules, hitPoints, maxHitPoints).antiGround,
+        0,
+    );
+    const zones = new Set(units.map(({ rules }) => getReachabilityZone(rules)));
+    const reachabilityMap = matchAwareness.getReachabilityMap();
+    return planRoute(matchAwareness.getSectorCache(), from, to, {
+        threatWeight: avoidThreats ? AVOID_THREATS_ROUTE_THREAT_WEIGHT : ROUTE_THREAT_WEIGHT,
+        strength,
+        // Only aircraft have to fear anti-air.
+        againstAir: units.length > 0 && zones.size === 1 && zones.has(null),
+        canEnterSector: reachabilityMap
+            ? (sector) => [...zones].some((zone) => reachabilityMap.canReachSector(zone, from, sector))
+            : undefined,
+    });
+}
+
+/**
+ * Picks something to attack, preferring what we can see, then what we remember, then what our allies have seen.
+ *
+ * @param isReachable Only targets passing this test are considered, by default those our army could get to.
+ */
 export function generateTarget(
     gameApi: GameApi,
     playerData: PlayerData,
     matchAwareness: MatchAwareness,
     includeBaseLocations: boolean = false,
+    isReachable: (point: Vector2) => boolean = getBaseReachability(playerData, matchAwareness),
 ): Vector2 | null {
+    const targetPlayer = matchAwareness.getTargetPlayer()?.name;
+    // Only consider the player we are focusing on, unless we know of nothing of theirs.
+    const preferTargetPlayer = <T extends { owner: string }>(candidates: T[]) => {
+        const targetPlayerCandidates = candidates.filter(({ owner }) => owner === targetPlayer);
+        return targetPlayerCandidates.length > 0 ? targetPlayerCandidates : candidates;
+    };
     // Randomly decide between harvester and base.
     try {
         const tryFocusHarvester = gameApi.generateRandomInt(0, 1) === 0;
         const enemyUnits = gameApi
             .getVisibleUnits(playerData.name, "enemy")
             .map((unitId) => gameApi.getUnitData(unitId))
-            .filter((u) => !!u && u.hitPoints > 0 && gameApi.getPlayerData(u.owner).isCombatant) as UnitData[];
-
-        const maxUnit = maxBy(enemyUnits, (u) => getTargetWeight(u, tryFocusHarvester));
+            .filter(
+                (u) =>
+                    !!u &&
+                    u.hitPoints > 0 &&
+                    gameApi.getPlayerData(u.owner).isCombatant &&
+                    isReachable(new Vector2(u.tile.rx, u.tile.ry)),
+            ) as UnitData[];
+
+        const maxUnit = maxBy(
+            preferTargetPlayer(enemyUnits),
+            (u) => getTargetWeight(u, tryFocusHarvester) * getDangerFactor(matchAwareness, u.tile.rx, u.tile.ry),
+        );
         if (maxUnit) {
             return new Vector2(maxUnit.tile.rx, maxUnit.tile.ry);
         }
+        // Then what we remember seeing, the less sure we are that it's still there the less we want to go there.
+        const rememberedObjects = matchAwareness
+            .getEnemyMemory()
+            .getOutOfSight(gameApi.getCurrentTick())
+            .filter(({ owner, position }) => gameApi.getPlayerData(owner).isCombatant && isReachable(position));
+        const maxRemembered = maxBy(
+            preferTargetPlayer(rememberedObjects),
+            (object) =>
+                getRememberedTargetWeight(gameApi, object, tryFocusHarvester) *
+                object.confidence *
+                getDangerFactor(matchAwareness, object.position.x, object.position.y),
+        );
+        if (maxRemembered) {
+            return maxRemembered.position;
+        }
+        // Fall back to what our allies have seen recently, preferring buildings.
+        const allySightings =
+            matchAwareness
+                .getTeamChannel()
+                ?.getSightings(gameApi.getCurrentTick() - ALLY_SIGHTING_MAX_AGE_TICKS)
+                .filter(({ owner, position }) => gameApi.getPlayerData(owner).isCombatant && isReachable(position)) ??
+            [];
+        const maxSighting = maxBy(preferTargetPlayer(allySightings), ({ type }) =>
+            type === ObjectType.Building ? 10 : 1,
+        );
+        if (maxSighting) {
+            return maxSighting.position;
+        }
         if (includeBaseLocations) {
             const mapApi = gameApi.mapApi;
             const enemyPlayers = gameApi
@@ -251,8 +537,12 @@ export function generateTarget(
                 if (!tile) {
                     return false;
                 }
-                return !mapApi.isVisibleTile(tile, playerData.name);
+                return !mapApi.isVisibleTile(tile, playerData.name) && isReachable(otherPlayer.startLocation);
             });
+            const targetPlayerLocation = unexploredEnemyLocations.find(({ name }) => name === targetPlayer);
+            if (targetPlayerLocation) {
+                return targetPlayerLocation.startLocation;
+            }
             if (unexploredEnemyLocations.length > 0) {
                 const idx = gameApi.generateRandomInt(0, unexploredEnemyLocations.length - 1);
                 return unexploredEnemyLocations[idx].startLocation;
@@ -265,16 +555,120 @@ export function generateTarget(
     return null;
 }
 
+/**
+ * Returns the target of an attack that one of our allies is preparing, so we can join it, or null if there is none.
+ *
+ * @param isReachable Only targets passing this test are considered, by default those our army could get to.
+ */
+export function getAllyAttackTarget(
+    gameApi: GameApi,
+    playerData: PlayerData,
+    matchAwareness: MatchAwareness,
+    isReachable: (point: Vector2) => boolean = getBaseReachability(playerData, matchAwareness),
+): Vector2 | null {
+    const intent = matchAwareness
+        .getTeamChannel()
+        ?.getAllyAttackIntents(playerData.name, gameApi.getCurrentTick() - ALLY_ATTACK_INTENT_MAX_AGE_TICKS)
+        .find(({ state, target }) => state !== AttackIntentState.Launched && isReachable(target));
+    return intent?.target ?? null;
+}
+
 // Number of ticks between attacking visible targets.
 const VISIBLE_TARGET_ATTACK_COOLDOWN_TICKS = 120;
 
 // Number of ticks between attacking "bases" (enemy starting locations).
 const BASE_ATTACK_COOLDOWN_TICKS = 1800;
 
-const ATTACK_MISSION_INITIAL_PRIORITY = 1;
+export const ATTACK_MISSION_INITIAL_PRIORITY = 1;
+
+/**
+ * Works out what to attack a point with and where to gather for it: the land composition at the usual rally point if
+ * the point can be reached by land, or ships on the water by our base if it can only be reached by sea.
+ *
+ * @returns null if we can't attack the point, e.g. because it can't be reached or we have no naval yard to build ships.
+ */
+export function getAttackForces(
+    gameApi: GameApi,
+    playerData: PlayerData,
+    matchAwareness: MatchAwareness,
+    attackArea: Vector2,
+    getLandComposition: () => UnitComposition,
+    logger: DebugLogger,
+): { composition: UnitComposition; rallyPoint: Vector2 } | null {
+    const mapConnectivity = matchAwareness.getMapConnectivity();
+    const connectivity = mapConnectivity?.getConnectivity(playerData.startLocation, attackArea) ?? MapConnectivity.Land;
+    if (connectivity === MapConnectivity.None) {
+        logger(`Not attacking ${attackArea.x},${attackArea.y}, as it can't be reached by land or by sea.`);
+        return null;
+    }
+    if (connectivity !== MapConnectivity.Naval) {
+        return { composition: getLandComposition(), rallyPoint: matchAwareness.getMainRallyPoint() };
+    }
+    const composition = getNavalComposition(gameApi, playerData, matchAwareness);
+    const navalRallyPoint = mapConnectivity?.getClosestNavalWater(playerData.startLocation);
+    if (Object.keys(composition).length === 0 || !navalRallyPoint) {
+        return null;
+    }
+    // Ships gather on the water by our base rather than at the usual rally point.
+    return { composition, rallyPoint: navalRallyPoint };
+}
+
+/**
+ * Starts an attack on an area with the usual composition for our side. The units retreat to the rally point when the
+ * attack ends.
+ *
+ * @returns The mission if it was accepted, or null if it was not.
+ */
+export function startAttackMission(
+    squadName: string,
+    priority: number,
+    attackArea: Vector2,
+    attackRadius: number,
+    gameApi: GameApi,
+    playerData: PlayerData,
+    matchAwareness: MatchAwareness,
+    missionController: MissionController,
+    logger: DebugLogger,
+    maxPriority?: number,
+): Mission<any> | null {
+    const forces = getAttackForces(
+        gameApi,
+        playerData,
+        matchAwareness,
+        attackArea,
+        () => calculateTargetComposition(gameApi, playerData, matchAwareness),
+        logger,
+    );
+    if (!forces) {
+        return null;
+    }
+    const { composition, rallyPoint } = forces;
+
+    return missionController.addMission(
+        new AttackMission(
+            squadName,
+            priority,
+            rallyPoint,
+            attackArea,
+            attackRadius,
+            logger,
+            composition,
+            null,
+            maxPriority,
+        ).then((unitIds, reason) => {
+            matchAwareness.getTeamChannel()?.withdrawAttack(playerData.name, squadName);
+            missionController.addMission(
+                new RetreatMission("retreat-from-" + squadName + gameApi.getCurrentTick(), rallyPoint, unitIds, logger),
+            );
+        }),
+    );
+}
 
 export class DynamicAttackMissionFactory implements MissionFactory {
-    constructor(private lastAttackAt: number = -VISIBLE_TARGET_ATTACK_COOLDOWN_TICKS) {}
+    constructor(
+        private personality: BotPersonality = DEFAULT_PERSONALITY,
+        private lastAttackAt: number = -VISIBLE_TARGET_ATTACK_COOLDOWN_TICKS,
+    ) {}
 
     getName(): string {
         return "DynamicAttackMissionFactory";
@@ -291,6 +685,9 @@ export class DynamicAttackMissionFactory implements MissionFactory {
         if (gameApi.getCurrentTick() < this.lastAttackAt + VISIBLE_TARGET_ATTACK_COOLDOWN_TICKS) {
             return;
         }
+        if (matchAwareness.isHolding(gameApi)) {
+            return;
+        }
 
         // can only have one attack 'preparing' at once.
         if (
@@ -308,35 +705,25 @@ export class DynamicAttackMissionFactory implements MissionFactory {
 
         const includeEnemyBases = gameApi.getCurrentTick() > this.lastAttackAt + BASE_ATTACK_COOLDOWN_TICKS;
 
-        const attackArea = generateTarget(gameApi, playerData, matchAwareness, includeEnemyBases);
+        const attackArea =
+            getAllyAttackTarget(gameApi, playerData, matchAwareness) ??
+            generateTarget(gameApi, playerData, matchAwareness, includeEnemyBases);
 
         if (!attackArea) {
             return;
         }
 
-        const squadName = "attack_" + gameApi.getCurrentTick();
-
-        const composition: UnitComposition = calculateTargetComposition(gameApi, playerData, matchAwareness);
-
-        const tryAttack = missionController.addMission(
-            new AttackMission(
-                squadName,
-                ATTACK_MISSION_INITIAL_PRIORITY,
-                matchAwareness.getMainRallyPoint(),
-                attackArea,
-                attackRadius,
-                logger,
-                composition,
-            ).then((unitIds, reason) => {
-                missionController.addMission(
-                    new RetreatMission(
-                        "retreat-from-" + squadName + gameApi.getCurrentTick(),
-                        matchAwareness.getMainRallyPoint(),
-                        unitIds,
-                        logger,
-                    ),
-                );
-            }),
+        const tryAttack = startAttackMission(
+            "attack_" + gameApi.getCurrentTick(),
+            ATTACK_MISSION_INITIAL_PRIORITY,
+            attackArea,
+            attackRadius,
+            gameApi,
+            playerData,
+            matchAwareness,
+            missionController,
+            logger,
+            this.personality.attackMissionMaxPriority,
         );
         if (tryAttack) {
             this.lastAttackAt = gameApi.getCurrentTick();
@@ -6,6 +6,7 @@ import { MissionFactory } from "../missionFactories.js";
 import { CombatSquad } from "./squads/combatSquad.js";
 import { DebugLogger, isOwnedByNeutral } from "../../common/utils.js";
 import { ActionBatcher } from "../actionBatcher.js";
+import { BotPersonality, DEFAULT_PERSONALITY } from "../../common/personality.js";
 
 export const MAX_PRIORITY = 100;
 export const PRIORITY_INCREASE_PER_TICK_RATIO = 1.025;
@@ -72,7 +73,7 @@ export class DefenceMission extends Mission<CombatSquad> {
             );
             this.squad.setAttackArea(new Vector2(foundTargets[0].tile.rx, foundTargets[0].tile.ry));
             this.priority = MAX_PRIORITY; // Math.min(MAX_PRIORITY, this.priority * PRIORITY_INCREASE_PER_TICK_RATIO);
-            return grabCombatants(playerData.startLocation, this.priority);
+            return grabCombatants(matchAwareness.getMainBaseLocation(), this.priority);
         }
         //return requestUnits(["E1", "E2", "FV", "HTK", "MTNK", "HTNK"], this.priority);
     }
@@ -88,15 +89,14 @@ export class DefenceMission extends Mission<CombatSquad> {
 
 const DEFENCE_CHECK_TICKS = 30;
 
-// Starting radius around the player's base to trigger defense.
-const DEFENCE_STARTING_RADIUS = 10;
-// Every game tick, we increase the defendable area by this amount.
+// Every game tick, we increase the defendable area around the player's base by this amount. The starting radius comes
+// from the personality.
 const DEFENCE_RADIUS_INCREASE_PER_GAME_TICK = 0.001;
 
 export class DefenceMissionFactory implements MissionFactory {
     private lastDefenceCheckAt = 0;
 
-    constructor() {}
+    constructor(private personality: BotPersonality = DEFAULT_PERSONALITY) {}
 
     getName(): string {
         return "DefenceMissionFactory";
@@ -116,9 +116,9 @@ export class DefenceMissionFactory implements MissionFactory {
         this.lastDefenceCheckAt = gameApi.getCurrentTick();
 
         const defendableRadius =
-            DEFENCE_STARTING_RADIUS + DEFENCE_RADIUS_INCREASE_PER_GAME_TICK * gameApi.getCurrentTick();
+            this.personality.defenceStartingRadius + DEFENCE_RADIUS_INCREASE_PER_GAME_TICK * gameApi.getCurrentTick();
         const enemiesNearSpawn = matchAwareness
-            .getHostilesNearPoint2d(playerData.startLocation, defendableRadius)
+            .getHostilesNearPoint2d(matchAwareness.getMainBaseLocation(), defendableRadius)
             .map((unit) => gameApi.getUnitData(unit.unitId))
             .filter((unit) => !isOwnedByNeutral(unit)) as UnitData[];
 
@@ -133,7 +133,7 @@ export class DefenceMissionFactory implements MissionFactory {
                     "globalDefence",
                     10,
                     matchAwareness.getMainRallyPoint(),
-                    playerData.startLocation,
+                    matchAwareness.getMainBaseLocation(),
                     defendableRadius * 1.2,
                     logger,
                 ),
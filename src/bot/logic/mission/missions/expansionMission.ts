@@ -1,13 +1,108 @@
-import { ActionsApi, GameApi, OrderType, PlayerData, ProductionApi } from "@chronodivide/game-api";
-import { Mission, MissionAction, disbandMission, noop, requestSpecificUnits, requestUnits } from "../mission.js";
+import { ActionsApi, GameApi, OrderType, PlayerData, ProductionApi, UnitData, Vector2 } from "@chronodivide/game-api";
+import {
+    Mission,
+    MissionAction,
+    disbandMission,
+    grabCombatants,
+    noop,
+    requestSpecificUnits,
+    requestUnits,
+} from "../mission.js";
 import { MissionFactory } from "../missionFactories.js";
 import { MatchAwareness } from "../../awareness.js";
 import { MissionController } from "../missionController.js";
 import { DebugLogger } from "../../common/utils.js";
 import { ActionBatcher } from "../actionBatcher.js";
+import { EXPANSION_MIN_FIELD_DISTANCE, ExpansionSite, findExpansionSites } from "../../map/expansionPlanner.js";
+import { ReachabilityZone } from "../../map/connectivity.js";
+import { BotPersonality, DEFAULT_PERSONALITY } from "../../common/personality.js";
+import { manageMoveMicro } from "./squads/common.js";
 
 const DEPLOY_COOLDOWN_TICKS = 30;
 
+// How close the MCV has to get to the expansion site before deploying.
+const EXPANSION_DEPLOY_DISTANCE = 5;
+
+// If the MCV takes longer than this to reach the expansion site, it deploys wherever it is.
+const EXPANSION_MOVE_TIMEOUT_TICKS = 1800;
+
+const MOVE_COOLDOWN_TICKS = 60;
+
+// If we don't get an MCV within this time (e.g. because we can't build one), we give up on expanding.
+const MCV_BUILD_TIMEOUT_TICKS = 2700;
+
+// Combat units this close to the MCV are taken along to escort it, until there are enough of them.
+const ESCORT_GRAB_RADIUS = 15;
+const ESCORT_SIZE = 4;
+
+// At most this many construction yards are worth having.
+const MAX_CONSTRUCTION_YARDS = 3;
+
+// We only expand on our own to a site that scores at least this, i.e. that is worth about this many credits of ore.
+const MIN_EXPANSION_SCORE = 2000;
+
+// Before `firstExpansionTicks`, we only expand once the fields around our bases have less than this left.
+const LOW_ORE_VALUE = 5000;
+
+// Time between starting expansions.
+const EXPANSION_COOLDOWN_TICKS = 3600;
+
+// If we find nowhere worth expanding to, we look again after this long, as searching the map is expensive.
+const EXPANSION_SEARCH_RETRY_TICKS = 900;
+
+const EXPANSION_PRIORITY = 100;
+
+const getConstructionYards = (gameApi: GameApi, playerData: PlayerData) =>
+    gameApi
+        .getVisibleUnits(playerData.name, "self", (r) => r.constructionYard)
+        .map((unitId) => gameApi.getUnitData(unitId))
+        .filter((unit): unit is UnitData => !!unit);
+
+/**
+ * Picks where an MCV should deploy to start a new base, with the expansion planner, away from any danger. Returns null
+ * if the MCV should deploy where it is, e.g. because we have no base yet and it is safe there.
+ *
+ * @param mcv The MCV that would deploy, if we have it already. If all our bases have been overrun, it goes to the site
+ * that is best from where it is.
+ */
+export function findExpansionSite(
+    gameApi: GameApi,
+    playerData: PlayerData,
+    matchAwareness: MatchAwareness,
+    mcv: UnitData | null = null,
+): ExpansionSite | null {
+    const sectorCache = matchAwareness.getSectorCache();
+    const isSafe = ({ x, y }: Vector2) => !sectorCache.getSectorForWorldPosition(x, y)?.isDangerous();
+    const constructionYards = getConstructionYards(gameApi, playerData);
+    const mcvPosition = mcv ? new Vector2(mcv.tile.rx, mcv.tile.ry) : null;
+    let ourBases = constructionYards.map(({ tile }) => new Vector2(tile.rx, tile.ry)).filter(isSafe);
+    if (ourBases.length === 0) {
+        if (!mcvPosition || (constructionYards.length === 0 && isSafe(mcvPosition))) {
+            return null;
+        }
+        ourBases = [mcvPosition];
+    }
+    const constructionYardName = constructionYards[0]?.name ?? mcv?.rules.deploysInto;
+    if (!constructionYardName) {
+        return null;
+    }
+    const reachabilityMap = matchAwareness.getReachabilityMap();
+    const from = mcvPosition ?? matchAwareness.getMainBaseLocation();
+    const [site] = findExpansionSites(
+        gameApi,
+        playerData.name,
+        constructionYardName,
+        ourBases,
+        matchAwareness
+            .getEnemies()
+            .filter(({ defeated }) => !defeated)
+            .map(({ baseLocation }) => baseLocation),
+        matchAwareness.getOreFields().getMineableFields(),
+        (point) => (reachabilityMap?.canReach(ReachabilityZone.Ground, from, point) ?? true) && isSafe(point),
+    );
+    return site ?? null;
+}
+
 /**
  * A mission that tries to create an MCV (if it doesn't exist) and deploy it somewhere it can be deployed.
  */
@@ -17,6 +112,12 @@ export class ExpansionMission extends Mission {
         gameTick: number;
     } | null = null;
 
+    // Undefined until we have decided, null if we deploy where we are.
+    private expansionSite: Vector2 | null | undefined = undefined;
+    private startedMovingAt = 0;
+    private lastMoveOrderAt: number | null = null;
+    private createdAt: number | null = null;
+
     constructor(
         uniqueName: string,
         private priority: number,
@@ -35,18 +136,61 @@ export class ExpansionMission extends Mission {
     ): MissionAction {
         const mcvTypes = ["AMCV", "SMCV"];
         const mcvs = this.getUnitsOfTypes(gameApi, ...mcvTypes);
+        const currentTick = gameApi.getCurrentTick();
+        this.createdAt = this.createdAt ?? currentTick;
         if (mcvs.length === 0) {
             // Perhaps we deployed already (or the unit was destroyed), end the mission.
             if (this.hasAttemptedDeployWith !== null) {
                 return disbandMission();
             }
+            if (currentTick > this.createdAt + MCV_BUILD_TIMEOUT_TICKS) {
+                this.logger(`Giving up on expanding, as we didn't get an MCV in time.`);
+                return disbandMission();
+            }
             // We need an mcv!
             if (this.selectedMcv) {
                 return requestSpecificUnits([this.selectedMcv], this.priority);
             } else {
                 return requestUnits(mcvTypes, this.priority);
             }
-        } else if (
+        }
+
+        const mcvPosition = new Vector2(mcvs[0].tile.rx, mcvs[0].tile.ry);
+        if (this.expansionSite === undefined) {
+            this.expansionSite = findExpansionSite(gameApi, playerData, matchAwareness, mcvs[0])?.position ?? null;
+            this.startedMovingAt = currentTick;
+            if (this.expansionSite) {
+                this.logger(`Expanding to ${this.expansionSite.x},${this.expansionSite.y}`);
+            }
+        }
+        if (
+            this.expansionSite &&
+            mcvPosition.distanceTo(this.expansionSite) > EXPANSION_DEPLOY_DISTANCE &&
+            currentTick < this.startedMovingAt + EXPANSION_MOVE_TIMEOUT_TICKS
+        ) {
+            const escorts = this.getUnitsMatchingByRule(gameApi, (r) => r.isSelectableCombatant)
+                .map((unitId) => gameApi.getUnitData(unitId))
+                .filter((unit): unit is UnitData => !!unit && !mcvTypes.includes(unit.name));
+            if (this.lastMoveOrderAt === null || currentTick > this.lastMoveOrderAt + MOVE_COOLDOWN_TICKS) {
+                actionsApi.orderUnits(
+                    mcvs.map((mcv) => mcv.id),
+                    OrderType.Move,
+                    this.expansionSite.x,
+                    this.expansionSite.y,
+                );
+                // The escorts keep up with the MCV, fighting anything on the way.
+                escorts.forEach((escort) => {
+                    const moveAction = manageMoveMicro(escort, mcvPosition);
+                    if (moveAction) {
+                        actionBatcher.push(moveAction);
+                    }
+                });
+                this.lastMoveOrderAt = currentTick;
+            }
+            return escorts.length < ESCORT_SIZE ? grabCombatants(mcvPosition, ESCORT_GRAB_RADIUS) : noop();
+        }
+
+        if (
             !this.hasAttemptedDeployWith ||
             gameApi.getCurrentTick() > this.hasAttemptedDeployWith.gameTick + DEPLOY_COOLDOWN_TICKS
         ) {
@@ -63,8 +207,16 @@ export class ExpansionMission extends Mission {
         return noop();
     }
 
+    /**
+     * Whether this mission has asked for any MCV and not got one yet, so that a new MCV is probably meant for it.
+     */
+    public isWaitingForMcv(): boolean {
+        return this.selectedMcv === null && this.hasAttemptedDeployWith === null && this.getUnitIds().length === 0;
+    }
+
     public getGlobalDebugText(): string | undefined {
-        return `Expand with MCV ${this.selectedMcv}`;
+        const site = this.expansionSite ? ` to ${this.expansionSite.x},${this.expansionSite.y}` : "";
+        return `Expand with MCV ${this.selectedMcv}${site}`;
     }
 
     public getPriority() {
@@ -72,7 +224,15 @@ export class ExpansionMission extends Mission {
     }
 }
 
+/**
+ * Deploys any loose MCV, and builds a new one to expand with once the bases we have can't keep our harvesters busy for
+ * long, or once it's been long enough that expanding is worth the risk.
+ */
 export class ExpansionMissionFactory implements MissionFactory {
+    private nextSearchAt = 0;
+
+    constructor(private personality: BotPersonality = DEFAULT_PERSONALITY) {}
+
     getName(): string {
         return "ExpansionMissionFactory";
     }
@@ -85,13 +245,70 @@ export class ExpansionMissionFactory implements MissionFactory {
         missionController: MissionController,
         logger: DebugLogger,
     ): void {
-        // At this point, only expand if we have a loose MCV.
-        const mcvs = gameApi.getVisibleUnits(playerData.name, "self", (r) =>
-            gameApi.getGeneralRules().baseUnit.includes(r.name),
+        const expansionMissions = missionController
+            .getMissions()
+            .filter((mission): mission is ExpansionMission => mission instanceof ExpansionMission);
+
+        // Deploy any loose MCV, unless it's the one that an expansion asked for and is about to take.
+        if (!expansionMissions.some((mission) => mission.isWaitingForMcv())) {
+            const expandingUnitIds = new Set(expansionMissions.flatMap((mission) => mission.getUnitIds()));
+            const mcvs = gameApi
+                .getVisibleUnits(playerData.name, "self", (r) => gameApi.getGeneralRules().baseUnit.includes(r.name))
+                .filter((mcv) => !expandingUnitIds.has(mcv));
+            mcvs.forEach((mcv) => {
+                missionController.addMission(
+                    new ExpansionMission("expand-with-" + mcv, EXPANSION_PRIORITY, mcv, logger),
+                );
+            });
+        }
+
+        const currentTick = gameApi.getCurrentTick();
+        if (
+            currentTick < this.nextSearchAt ||
+            expansionMissions.length > 0 ||
+            !this.shouldExpand(gameApi, productionApi, playerData, matchAwareness)
+        ) {
+            return;
+        }
+        const site = findExpansionSite(gameApi, playerData, matchAwareness);
+        if (!site || site.score < MIN_EXPANSION_SCORE) {
+            this.nextSearchAt = currentTick + EXPANSION_SEARCH_RETRY_TICKS;
+            return;
+        }
+        const mission = missionController.addMission(
+            new ExpansionMission("expand-" + currentTick, EXPANSION_PRIORITY, null, logger),
         );
-        mcvs.forEach((mcv) => {
-            missionController.addMission(new ExpansionMission("expand-with-" + mcv, 100, mcv, logger));
-        });
+        if (mission) {
+            logger(`Building an MCV to expand to ${site.position.x},${site.position.y}.`);
+            this.nextSearchAt = currentTick + EXPANSION_COOLDOWN_TICKS;
+        }
+    }
+
+    private shouldExpand(
+        gameApi: GameApi,
+        productionApi: ProductionApi,
+        playerData: PlayerData,
+        matchAwareness: MatchAwareness,
+    ) {
+        const constructionYards = getConstructionYards(gameApi, playerData);
+        if (constructionYards.length === 0 || constructionYards.length >= MAX_CONSTRUCTION_YARDS) {
+            return false;
+        }
+        const baseUnits = gameApi.getGeneralRules().baseUnit;
+        if (!productionApi.getAvailableObjects().some(({ name }) => baseUnits.includes(name))) {
+            return false;
+        }
+        if (gameApi.getCurrentTick() >= this.personality.firstExpansionTicks) {
+            return true;
+        }
+        const oreNearBases = matchAwareness
+            .getOreFields()
+            .getMineableFields()
+            .filter(
+                ({ baseDistances }) => (baseDistances.get(playerData.name) ?? Infinity) <= EXPANSION_MIN_FIELD_DISTANCE,
+            )
+            .reduce((total, { value }) => total + value, 0);
+        return oreNearBases < LOW_ORE_VALUE;
     }
 
     onMissionFailed(
@@ -0,0 +1,62 @@
+import assert from "assert";
+import { ObjectType, Vector2 } from "@chronodivide/game-api";
+import { isBaseOverrun } from "./relocationMission.js";
+import { SECTOR_SIZE, SectorCache } from "../../map/sector.js";
+import { FakeGameApi } from "../../../../test/fakeGameApi.js";
+
+describe("isBaseOverrun", () => {
+    const ME = "Me";
+    const MAP_SIZE = { width: SECTOR_SIZE * 6, height: SECTOR_SIZE * 6 };
+    // In the middle of the sector at (2, 2).
+    const BASE = new Vector2(20, 20);
+
+    let game: FakeGameApi;
+    let sectorCache: SectorCache;
+
+    const constructionYard = (hitPoints: number) => {
+        const id = game.addObject({
+            name: "GACNST",
+            owner: ME,
+            type: ObjectType.Building,
+            rx: BASE.x,
+            ry: BASE.y,
+            hitPoints,
+            maxHitPoints: 1000,
+        });
+        return game.asGameApi().getGameObjectData(id)!;
+    };
+    const setInfluence = (enemyPosition: Vector2, enemyAntiGround: number, ourAntiGround: number) =>
+        sectorCache.updateInfluence(
+            1,
+            [
+                { position: enemyPosition, friendly: false, antiGround: enemyAntiGround, antiAir: 0 },
+                { position: BASE, friendly: true, antiGround: ourAntiGround, antiAir: 0 },
+            ],
+            36,
+        );
+
+    beforeEach(() => {
+        game = new FakeGameApi(MAP_SIZE).addPlayer(ME, { startLocation: BASE });
+        sectorCache = new SectorCache(game.mapApi.asMapApi(), MAP_SIZE);
+    });
+
+    it("is overrun when badly damaged and outgunned", () => {
+        setInfluence(new Vector2(12, 20), 500, 100);
+
+        assert.strictEqual(isBaseOverrun(sectorCache, constructionYard(300)), true);
+    });
+
+    it("holds while it has hit points to spare or enough defenders", () => {
+        setInfluence(new Vector2(12, 20), 500, 100);
+        assert.strictEqual(isBaseOverrun(sectorCache, constructionYard(800)), false);
+
+        setInfluence(new Vector2(12, 20), 500, 300);
+        assert.strictEqual(isBaseOverrun(sectorCache, constructionYard(300)), false);
+    });
+
+    it("ignores enemies further away than the sectors next to it", () => {
+        setInfluence(new Vector2(4, 20), 500, 0);
+
+        assert.strictEqual(isBaseOverrun(sectorCache, constructionYard(300)), false);
+    });
+});
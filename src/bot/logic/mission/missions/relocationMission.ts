@@ -0,0 +1,188 @@
+import {
+    ActionsApi,
+    GameApi,
+    GameObjectData,
+    OrderType,
+    PlayerData,
+    ProductionApi,
+    UnitData,
+} from "@chronodivide/game-api";
+import { Mission, MissionAction, disbandMission, noop, requestSpecificUnits } from "../mission.js";
+import { MissionFactory } from "../missionFactories.js";
+import { MatchAwareness } from "../../awareness.js";
+import { MissionController } from "../missionController.js";
+import { DebugLogger, maxBy } from "../../common/utils.js";
+import { ActionBatcher } from "../actionBatcher.js";
+import { SectorCache } from "../../map/sector.js";
+
+// A construction yard is overrun once it is down to this share of its hit points...
+const OVERRUN_HIT_POINTS_RATIO = 0.5;
+
+// ... and the enemy firepower around it is this many times ours.
+const OVERRUN_DANGER_RATIO = 2;
+
+const REPACK_COOLDOWN_TICKS = 30;
+
+// If the construction yard hasn't packed up after this long (e.g. because MCVs can't repack in this game), we give up.
+const REPACK_TIMEOUT_TICKS = 150;
+
+const RELOCATION_CHECK_INTERVAL_TICKS = 30;
+
+// Time between attempts to relocate.
+const RELOCATION_COOLDOWN_TICKS = 1800;
+
+const RELOCATION_PRIORITY = 100;
+
+/**
+ * Whether the enemy is about to destroy a construction yard: it is badly damaged, and the enemy firepower in and
+ * around its sector far outweighs ours.
+ */
+export function isBaseOverrun(sectorCache: SectorCache, constructionYard: GameObjectData): boolean {
+    const { hitPoints = 0, maxHitPoints = 0 } = constructionYard;
+    if (maxHitPoints === 0 || hitPoints / maxHitPoints > OVERRUN_HIT_POINTS_RATIO) {
+        return false;
+    }
+    const coordinates = sectorCache.getSectorCoordinatesForWorldPosition(
+        constructionYard.tile.rx,
+        constructionYard.tile.ry,
+    );
+    if (!coordinates) {
+        return false;
+    }
+    const { sectorX, sectorY } = coordinates;
+    let danger = 0;
+    let ourStrength = 0;
+    for (let dx = -1; dx <= 1; ++dx) {
+        for (let dy = -1; dy <= 1; ++dy) {
+            const sector = sectorCache.getSector(sectorX + dx, sectorY + dy);
+            danger += sector?.getDanger() ?? 0;
+            ourStrength += sector?.influence.ourStrength ?? 0;
+        }
+    }
+    return danger > 0 && danger >= ourStrength * OVERRUN_DANGER_RATIO;
+}
+
+/**
+ * A mission that packs a construction yard back up into an MCV, so that it can get away and start a new base.
+ */
+export class RelocationMission extends Mission {
+    private createdAt: number | null = null;
+    private lastRepackOrderAt: number | null = null;
+
+    constructor(
+        uniqueName: string,
+        private priority: number,
+        private constructionYardId: number,
+        logger: DebugLogger,
+    ) {
+        super(uniqueName, logger);
+    }
+
+    public _onAiUpdate(
+        gameApi: GameApi,
+        actionsApi: ActionsApi,
+        playerData: PlayerData,
+        matchAwareness: MatchAwareness,
+        actionBatcher: ActionBatcher,
+    ): MissionAction {
+        const currentTick = gameApi.getCurrentTick();
+        this.createdAt = this.createdAt ?? currentTick;
+        if (!gameApi.getGameObjectData(this.constructionYardId)) {
+            // Either it packed up, and the expansion missions will take the MCV somewhere safe, or it was destroyed.
+            return disbandMission();
+        }
+        if (currentTick > this.createdAt + REPACK_TIMEOUT_TICKS) {
+            this.logger(`Giving up on relocating, as the construction yard didn't pack up.`);
+            return disbandMission();
+        }
+        if (!this.getUnitIds().includes(this.constructionYardId)) {
+            return requestSpecificUnits([this.constructionYardId], this.priority);
+        }
+        if (this.lastRepackOrderAt === null || currentTick > this.lastRepackOrderAt + REPACK_COOLDOWN_TICKS) {
+            actionsApi.orderUnits([this.constructionYardId], OrderType.DeploySelected);
+            this.lastRepackOrderAt = currentTick;
+        }
+        return noop();
+    }
+
+    public getGlobalDebugText(): string | undefined {
+        return `Relocate construction yard ${this.constructionYardId}`;
+    }
+
+    public getPriority() {
+        return this.priority;
+    }
+}
+
+/**
+ * Once every construction yard we have is overrun, packs one up so that it can move to a safe expansion site and
+ * rebuild there. If we still have an MCV, the expansion missions take it somewhere safe instead.
+ */
+export class RelocationMissionFactory implements MissionFactory {
+    private lastCheckAt = 0;
+    private lastRelocationAt = -RELOCATION_COOLDOWN_TICKS;
+
+    getName(): string {
+        return "RelocationMissionFactory";
+    }
+
+    maybeCreateMissions(
+        gameApi: GameApi,
+        productionApi: ProductionApi,
+        playerData: PlayerData,
+        matchAwareness: MatchAwareness,
+        missionController: MissionController,
+        logger: DebugLogger,
+    ): void {
+        const currentTick = gameApi.getCurrentTick();
+        if (
+            currentTick < this.lastCheckAt + RELOCATION_CHECK_INTERVAL_TICKS ||
+            currentTick < this.lastRelocationAt + RELOCATION_COOLDOWN_TICKS
+        ) {
+            return;
+        }
+        this.lastCheckAt = currentTick;
+
+        const constructionYards = gameApi
+            .getVisibleUnits(playerData.name, "self", (r) => r.constructionYard)
+            .map((unitId) => gameApi.getUnitData(unitId))
+            .filter((unit): unit is UnitData => !!unit);
+        const sectorCache = matchAwareness.getSectorCache();
+        if (
+            constructionYards.length === 0 ||
+            !constructionYards.every((constructionYard) => isBaseOverrun(sectorCache, constructionYard))
+        ) {
+            return;
+        }
+        const baseUnits = gameApi.getGeneralRules().baseUnit;
+        if (gameApi.getVisibleUnits(playerData.name, "self", (r) => baseUnits.includes(r.name)).length > 0) {
+            return;
+        }
+        const constructionYard = maxBy(
+            constructionYards.filter(({ rules }) => !!rules.undeploysInto),
+            ({ hitPoints }) => hitPoints,
+        );
+        if (!constructionYard) {
+            return;
+        }
+        const mission = missionController.addMission(
+            new RelocationMission("relocate-" + constructionYard.id, RELOCATION_PRIORITY, constructionYard.id, logger),
+        );
+        if (mission) {
+            logger(
+                `Our base at ${constructionYard.tile.rx},${constructionYard.tile.ry} is overrun, packing up to move ` +
+                    `somewhere safe.`,
+            );
+            this.lastRelocationAt = currentTick;
+        }
+    }
+
+    onMissionFailed(
+        gameApi: GameApi,
+        playerData: PlayerData,
+        matchAwareness: MatchAwareness,
+        failedMission: Mission<any>,
+        failureReason: undefined,
+        missionController: MissionController,
+    ): void {}
+}
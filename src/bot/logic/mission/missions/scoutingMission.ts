@@ -1,4 +1,4 @@
-import { ActionsApi, GameApi, OrderType, PlayerData, ProductionApi, Vector2 } from "@chronodivide/game-api";
+import { ActionsApi, GameApi, OrderType, PlayerData, ProductionApi, UnitData, Vector2 } from "@chronodivide/game-api";
 import { MissionFactory } from "../missionFactories.js";
 import { MatchAwareness } from "../../awareness.js";
 import { Mission, MissionAction, disbandMission, noop, requestUnits } from "../mission.js";
@@ -8,6 +8,7 @@ import { DebugLogger } from "../../common/utils.js";
 import { ActionBatcher } from "../actionBatcher.js";
 import { getDistanceBetweenTileAndPoint } from "../../map/map.js";
 import { PrioritisedScoutTarget } from "../../common/scout.js";
+import { getReachabilityZone } from "../../map/connectivity.js";
 
 const SCOUT_MOVE_COOLDOWN_TICKS = 30;
 
@@ -109,7 +110,7 @@ export class ScoutingMission extends Mission {
                 this.setScoutTarget(null, gameApi.getCurrentTick());
             }
         } else {
-            const nextScoutTarget = matchAwareness.getScoutingManager().getNewScoutTarget();
+            const nextScoutTarget = this.getUnclaimedScoutTarget(gameApi, playerData, matchAwareness, scouts);
             if (!nextScoutTarget) {
                 this.logger(`No more scouting targets available, disbanding.`);
                 return disbandMission();
@@ -119,6 +120,52 @@ export class ScoutingMission extends Mission {
         return noop();
     }
 
+    // Skips targets that one of our allies is already scouting, ones where the scout would likely die, and ones that our
+    // scouts have no way of getting to. Targets skipped because of an ally or danger are put back, as the ally's claim
+    // runs out and the danger may pass.
+    private getUnclaimedScoutTarget(
+        gameApi: GameApi,
+        playerData: PlayerData,
+        matchAwareness: MatchAwareness,
+        scouts: UnitData[],
+    ) {
+        const teamChannel = matchAwareness.getTeamChannel();
+        const reachabilityMap = matchAwareness.getReachabilityMap();
+        const canReach = (target: PrioritisedScoutTarget, point: Vector2) =>
+            !reachabilityMap ||
+            scouts.some((scout) => {
+                const zone = getReachabilityZone(scout.rules);
+                const position = new Vector2(scout.tile.rx, scout.tile.ry);
+                return target.targetSector
+                    ? reachabilityMap.canReachSector(zone, position, target.targetSector)
+                    : reachabilityMap.canReach(zone, position, point);
+            });
+        const scoutingManager = matchAwareness.getScoutingManager();
+        const skippedTargets: PrioritisedScoutTarget[] = [];
+        let target = scoutingManager.getNewScoutTarget();
+        while (target) {
+            const point = target.asVector2();
+            if (!point) {
+                break;
+            }
+            const sector = matchAwareness.getSectorCache().getSectorForWorldPosition(point.x, point.y);
+            if (!canReach(target, point)) {
+                this.logger(`Scout target ${point.x},${point.y} can't be reached by our scouts, skipping`);
+            } else if (!target.isPermanent && sector?.isDangerous()) {
+                this.logger(`Scout target ${point.x},${point.y} is too dangerous, skipping`);
+                skippedTargets.push(target);
+            } else if (teamChannel && !teamChannel.claimScoutTarget(playerData.name, point, gameApi.getCurrentTick())) {
+                this.logger(`Scout target ${point.x},${point.y} is being scouted by an ally, skipping`);
+                skippedTargets.push(target);
+            } else {
+                break;
+            }
+            target = scoutingManager.getNewScoutTarget();
+        }
+        skippedTargets.forEach((skippedTarget) => scoutingManager.returnScoutTarget(skippedTarget));
+        return target;
+    }
+
     setScoutTarget(target: PrioritisedScoutTarget | null, currentTick: number) {
         this.attemptsOnCurrentTarget = 0;
         this.scoutTargetRefreshedAt = currentTick;
@@ -13,6 +13,7 @@ import { getAttackWeight, manageAttackMicro, manageMoveMicro } from "./common.js
 import { DebugLogger, isOwnedByNeutral, maxBy, minBy } from "../../../common/utils.js";
 import { ActionBatcher, BatchableAction } from "../../actionBatcher.js";
 import { Squad } from "./squad.js";
+import { getPointBehindRegion } from "../../../map/topology.js";
 import { Mission, MissionAction, grabCombatants, noop } from "../../mission.js";
 
 const TARGET_UPDATE_INTERVAL_TICKS = 10;
@@ -28,6 +29,15 @@ const GATHER_RATIO = 10;
 
 const ATTACK_SCAN_AREA = 15;
 
+// Squads gather at a chokepoint this close to their centre of mass rather than out in the open.
+const GATHER_CHOKEPOINT_RADIUS = 10;
+
+// ... and this far back from it towards our base, so that they don't block it while they wait.
+const GATHER_CHOKEPOINT_SETBACK = 3;
+
+// Squads move on to the next waypoint of their route once their centre of mass is this close to the current one.
+const WAYPOINT_REACHED_RADIUS = 8;
+
 enum SquadState {
     Gathering,
     Attacking,
@@ -41,6 +51,9 @@ export class CombatSquad implements Squad {
 
     private lastOrderGiven: { [unitId: number]: BatchableAction } = {};
 
+    // Points to move through on the way to the target area, if the squad has been given a route.
+    private waypoints: Vector2[] = [];
+
     /**
      *
      * @param rallyArea the initial location to grab combatants
@@ -59,6 +72,31 @@ export class CombatSquad implements Squad {
 
     public setAttackArea(targetArea: Vector2) {
         this.targetArea = targetArea;
+        this.waypoints = [];
+    }
+
+    /**
+     * Sets the route to follow to the target area when there's nothing to fight on the way. The last waypoint should
+     * be the target area itself.
+     */
+    public setRoute(waypoints: Vector2[]) {
+        this.waypoints = waypoints;
+    }
+
+    public getRoute(): Vector2[] {
+        return this.waypoints;
+    }
+
+    // Where to move to next: the first waypoint the squad hasn't reached yet, or the target area.
+    private getNextWaypoint(centerOfMass: Vector2 | null) {
+        while (
+            this.waypoints.length > 1 &&
+            centerOfMass &&
+            centerOfMass.distanceTo(this.waypoints[0]) <= WAYPOINT_REACHED_RADIUS
+        ) {
+            this.waypoints.shift();
+        }
+        return this.waypoints[0] ?? this.targetArea;
     }
 
     public onAiUpdate(
@@ -100,8 +138,17 @@ export class CombatSquad implements Squad {
                     gameApi.mapApi.getTile(centerOfMass.x, centerOfMass.y) !== undefined &&
                     maxDistance > requiredGatherRadius
                 ) {
+                    const [chokepoint] =
+                        matchAwareness.getMapTopology()?.getRegionsNear(centerOfMass, GATHER_CHOKEPOINT_RADIUS) ?? [];
+                    const gatherPoint = chokepoint
+                        ? getPointBehindRegion(
+                              chokepoint,
+                              matchAwareness.getMainBaseLocation(),
+                              GATHER_CHOKEPOINT_SETBACK,
+                          )
+                        : centerOfMass;
                     units.forEach((unit) => {
-                        const moveAction = manageMoveMicro(unit, centerOfMass);
+                        const moveAction = manageMoveMicro(unit, gatherPoint);
                         if (moveAction) {
                             this.submitActionIfNew(actionBatcher, moveAction);
                         }
@@ -111,7 +158,7 @@ export class CombatSquad implements Squad {
                     this.state = SquadState.Attacking;
                 }
             } else {
-                const targetPoint = this.targetArea || playerData.startLocation;
+                const targetPoint = this.getNextWaypoint(centerOfMass) || playerData.startLocation;
                 const requiredGatherRadius = GameMath.sqrt(groundUnitIds.length) * GATHER_RATIO + MAX_GATHER_RADIUS;
                 if (
                     centerOfMass &&
@@ -0,0 +1,375 @@
+import assert from "assert";
+import { LandType, ObjectType, QueueType, SideType, Vector2 } from "@chronodivide/game-api";
+import { AiTriggerCacheState, TriggeredAttackMissionFactory, evaluateTriggerCondition } from "./triggerManager.js";
+import { AiTriggerSideType, AiTriggerType, ComparatorOperator, ConditionType } from "./aiTriggerTypes.js";
+import { BotDifficulty } from "../../../../bot.js";
+import { MissionController } from "../../missionController.js";
+import { MatchAwareness } from "../../../awareness.js";
+import { EnemyMemory } from "../../../threat/enemyMemory.js";
+import { MapConnectivityAnalysis, ReachabilityMap } from "../../../map/connectivity.js";
+import { AttackIntentState, InProcessTeamChannel } from "../../../team/teamChannel.js";
+import { FakeGameApi } from "../../../../../test/fakeGameApi.js";
+import { FakeIniFile } from "../../../../../test/fakeIni.js";
+import { FakeProductionApi } from "../../../../../test/fakeProductionApi.js";
+
+// Comparators are a 32 byte hex string, starting with the argument and the operator as little-endian 32-bit numbers.
+const toComparator = (argument: number, operator: ComparatorOperator) => {
+    const toLittleEndianHex = (value: number) => value.toString(16).padStart(8, "0").match(/../g)!.reverse().join("");
+    return (toLittleEndianHex(argument) + toLittleEndianHex(operator)).padEnd(64, "0");
+};
+
+type TriggerSpec = {
+    name: string;
+    teamType?: string;
+    condition?: ConditionType;
+    comparisonObject?: string;
+    argument?: number;
+    operator?: ComparatorOperator;
+    side?: AiTriggerSideType;
+    // Enabled in easy, medium and hard.
+    difficulties?: [boolean, boolean, boolean];
+};
+
+const toTriggerLine = ({
+    name,
+    teamType = "TEAM",
+    condition = ConditionType.AlwaysTrue,
+    comparisonObject = "<none>",
+    argument = 0,
+    operator = ComparatorOperator.LessThan,
+    side = AiTriggerSideType.All,
+    difficulties = [true, true, true],
+}: TriggerSpec) =>
+    [
+        name,
+        teamType,
+        "<all>",
+        1,
+        condition,
+        comparisonObject,
+        toComparator(argument, operator),
+        "50.000000",
+        "30.000000",
+        "50.000000",
+        1,
+        0,
+        side,
+        0,
+        "<none>",
+        ...difficulties.map((enabled) => (enabled ? 1 : 0)),
+    ].join(",");
+
+describe("ai.ini triggers", () => {
+    describe("AiTriggerType", () => {
+        it("parses a trigger line", () => {
+            const trigger = new AiTriggerType(
+                "0100003D-G",
+                toTriggerLine({
+                    name: "Tank Rush",
+                    condition: ConditionType.EnemyHouseOwns,
+                    comparisonObject: "HTNK",
+                    argument: 258,
+                    operator: ComparatorOperator.GreaterThanOrEqual,
+                    side: AiTriggerSideType.Soviet,
+                    difficulties: [false, true, true],
+                }),
+            );
+
+            assert.strictEqual(trigger.name, "Tank Rush");
+            assert.strictEqual(trigger.conditionType, ConditionType.EnemyHouseOwns);
+            assert.strictEqual(trigger.comparisonObject, "HTNK");
+            assert.strictEqual(trigger.comparatorArgument, 258);
+            assert.strictEqual(trigger.comparatorOperator, ComparatorOperator.GreaterThanOrEqual);
+            assert.strictEqual(trigger.side, AiTriggerSideType.Soviet);
+            assert.deepStrictEqual(
+                [trigger.enabledInEasy, trigger.enabledInMedium, trigger.enabledInHard],
+                [false, true, true],
+            );
+            assert.strictEqual(trigger.toString(), "Enemy House Owns HTNK >= 258: Tank Rush");
+        });
+    });
+
+    describe("evaluateTriggerCondition", () => {
+        const state: AiTriggerCacheState = {
+            enemyUnitCount: { HTNK: 3 },
+            ownUnitCount: { MTNK: 1 },
+            enemyCredits: 5000,
+        };
+        const condition = (
+            conditionType: ConditionType,
+            comparisonObject: string,
+            comparatorOperator: ComparatorOperator,
+            comparatorArgument: number,
+        ) => ({ conditionType, comparisonObject, comparatorOperator, comparatorArgument });
+
+        it("compares the number of enemy units", () => {
+            const enemyOwns = (operator: ComparatorOperator, argument: number) =>
+                evaluateTriggerCondition(condition(ConditionType.EnemyHouseOwns, "HTNK", operator, argument), state);
+
+            assert.strictEqual(enemyOwns(ComparatorOperator.LessThan, 3), false);
+            assert.strictEqual(enemyOwns(ComparatorOperator.LessThanOrEqual, 3), true);
+            assert.strictEqual(enemyOwns(ComparatorOperator.Equal, 3), true);
+            assert.strictEqual(enemyOwns(ComparatorOperator.GreaterThanOrEqual, 4), false);
+            assert.strictEqual(enemyOwns(ComparatorOperator.GreaterThan, 2), true);
+            assert.strictEqual(enemyOwns(ComparatorOperator.NotEqual, 3), false);
+            assert.strictEqual(enemyOwns(ComparatorOperator.NotEqual, 4), true);
+        });
+
+        it("treats unseen unit types as none", () => {
+            assert.strictEqual(
+                evaluateTriggerCondition(
+                    condition(ConditionType.EnemyHouseOwns, "APOC", ComparatorOperator.Equal, 0),
+                    state,
+                ),
+                true,
+            );
+        });
+
+        it("compares our own units and the enemy's credits", () => {
+            assert.strictEqual(
+                evaluateTriggerCondition(
+                    condition(ConditionType.OwningHouseOwns, "MTNK", ComparatorOperator.GreaterThanOrEqual, 1),
+                    state,
+                ),
+                true,
+            );
+            assert.strictEqual(
+                evaluateTriggerCondition(
+                    condition(ConditionType.EnemyHouseHasCredits, "<none>", ComparatorOperator.GreaterThan, 5000),
+                    state,
+                ),
+                false,
+            );
+        });
+
+        it("never fires conditions that aren't implemented", () => {
+            assert.strictEqual(
+                evaluateTriggerCondition(
+                    condition(ConditionType.EnemyHouseInRedPower, "<none>", ComparatorOperator.LessThan, 0),
+                    state,
+                ),
+                false,
+            );
+            assert.strictEqual(
+                evaluateTriggerCondition(
+                    condition(ConditionType.AlwaysTrue, "<none>", ComparatorOperator.Equal, 0),
+                    state,
+                ),
+                true,
+            );
+        });
+    });
+
+    describe("TriggeredAttackMissionFactory", () => {
+        const ME = "Me";
+        const ENEMY = "Enemy";
+        let mapConnectivity: MapConnectivityAnalysis | null;
+        let reachabilityMap: ReachabilityMap | null;
+        let teamChannel: InProcessTeamChannel | null;
+        const matchAwareness = {
+            getMainRallyPoint: () => new Vector2(10, 10),
+            getTeamChannel: () => teamChannel,
+            getTargetPlayer: () => null,
+            getEnemyMemory: () => new EnemyMemory(),
+            getThreatCache: () => null,
+            getSectorCache: () => ({ getDangerForWorldPosition: () => 0 }),
+            getReachabilityMap: () => reachabilityMap,
+            getMapConnectivity: () => mapConnectivity,
+            getEnemyTechs: () => [],
+        } as unknown as MatchAwareness;
+
+        let game: FakeGameApi;
+        let productionApi: FakeProductionApi;
+        let missionController: MissionController;
+
+        const setUpTriggers = (...triggers: TriggerSpec[]) => {
+            game.aiIni = FakeIniFile.fromString(
+                [
+                    "[AITriggerTypes]",
+                    ...triggers.map((trigger, i) => `TRIGGER${i}=${toTriggerLine(trigger)}`),
+                    "[TeamTypes]",
+                    "0=TEAM",
+                    "[TEAM]",
+                    "Name=Rhino Team",
+                    "Priority=5",
+                    "Max=1",
+                    "Script=SCRIPT",
+                    "TaskForce=TASKFORCE",
+                    "[TaskForces]",
+                    "0=TASKFORCE",
+                    "[TASKFORCE]",
+                    "Name=Rhinos",
+                    "0=4,HTNK",
+                    "[ScriptTypes]",
+                    "0=SCRIPT",
+                    "[SCRIPT]",
+                    "Name=Attack",
+                    "0=0,2",
+                ].join("\n"),
+            );
+        };
+
+        const runTeamCheck = (difficulty = BotDifficulty.Hard) => {
+            const factory = new TriggeredAttackMissionFactory(game.asGameApi(), game.getPlayerData(ME), difficulty);
+            factory.runTeamCheck(
+                game.asGameApi(),
+                productionApi.asProductionApi(),
+                matchAwareness,
+                game.getPlayerData(ME),
+                missionController,
+                () => {},
+            );
+            return factory;
+        };
+
+        // Splits the map down the middle between us and the enemy.
+        const splitMap = (landType: LandType) => {
+            for (let rx = 25; rx < 29; ++rx) {
+                for (let ry = 0; ry < 50; ++ry) {
+                    game.mapApi.setLandType(rx, ry, landType);
+                }
+            }
+            mapConnectivity = MapConnectivityAnalysis.analyse(game.mapApi.asMapApi(), { width: 50, height: 50 });
+            reachabilityMap = ReachabilityMap.analyse(game.mapApi.asMapApi(), { width: 50, height: 50 });
+        };
+
+        const missionNames = () => missionController.getMissions().map((mission) => mission.getUniqueName());
+
+        beforeEach(() => {
+            game = new FakeGameApi({ width: 50, height: 50 })
+                .addPlayer(ME, {
+                    startLocation: new Vector2(10, 10),
+                    country: { name: "Russians", side: SideType.Nod },
+                })
+                .addPlayer(ENEMY, { startLocation: new Vector2(40, 40) });
+            game.rulesIni = FakeIniFile.fromString(
+                "[General]\nTeamDelays=600,900,1200\nDissolveUnfilledTeamDelay=5000",
+            );
+            productionApi = new FakeProductionApi().setAvailable(
+                QueueType.Vehicles,
+                game.defineRules("HTNK", ObjectType.Vehicle),
+            );
+            missionController = new MissionController([], () => {});
+            mapConnectivity = null;
+            reachabilityMap = null;
+            teamChannel = null;
+        });
+
+        it("starts an attack on the enemy base when a trigger fires", () => {
+            setUpTriggers({ name: "Tank Rush" });
+            runTeamCheck();
+
+            assert.deepStrictEqual(missionNames(), ["aiTriggerMission_Tank Rush_0"]);
+        });
+
+        it("only uses triggers for our side and difficulty", () => {
+            setUpTriggers(
+                { name: "Allied Rush", side: AiTriggerSideType.Allied },
+                { name: "Easy Rush", difficulties: [true, false, false] },
+            );
+            runTeamCheck();
+            assert.deepStrictEqual(missionNames(), []);
+
+            runTeamCheck(BotDifficulty.Easy);
+            assert.deepStrictEqual(missionNames(), ["aiTriggerMission_Easy Rush_0"]);
+        });
+
+        it("needs the trigger condition to hold", () => {
+            setUpTriggers({
+                name: "Counter Rush",
+                condition: ConditionType.EnemyHouseOwns,
+                comparisonObject: "HTNK",
+                argument: 1,
+                operator: ComparatorOperator.GreaterThanOrEqual,
+            });
+            runTeamCheck();
+            assert.deepStrictEqual(missionNames(), []);
+
+            // Enemy units only count once we can see them.
+            game.addObject({ name: "HTNK", owner: ENEMY, rx: 30, ry: 30 });
+            runTeamCheck();
+            assert.deepStrictEqual(missionNames(), []);
+
+            game.mapApi.reveal(ME, { x: 30, y: 30, width: 1, height: 1 });
+            runTeamCheck();
+            assert.deepStrictEqual(missionNames(), ["aiTriggerMission_Counter Rush_0"]);
+        });
+
+        it("needs every unit in the task force to be available", () => {
+            setUpTriggers({ name: "Tank Rush" });
+            productionApi = new FakeProductionApi();
+            runTeamCheck();
+
+            assert.deepStrictEqual(missionNames(), []);
+        });
+
+        it("sends ships instead of the task force when the enemy can only be reached by sea", () => {
+            setUpTriggers({ name: "Tank Rush" });
+            splitMap(LandType.Water);
+            // Ships can only attack what's near the shore.
+            game.addObject({ name: "HTNK", owner: ENEMY, rx: 30, ry: 40 });
+            game.mapApi.reveal(ME, { x: 30, y: 40, width: 1, height: 1 });
+            runTeamCheck();
+            // We can't build ships without a naval yard.
+            assert.deepStrictEqual(missionNames(), []);
+
+            game.defineRules("NAYARD", ObjectType.Building);
+            game.addObject({ name: "NAYARD", owner: ME, rx: 20, ry: 10 });
+            runTeamCheck();
+            assert.deepStrictEqual(missionNames(), ["aiTriggerMission_Tank Rush_0"]);
+        });
+
+        it("sends the task force somewhere it can get to rather than where only ships could go", () => {
+            setUpTriggers({ name: "Tank Rush" });
+            game.addPlayer("Other", { startLocation: new Vector2(10, 40) });
+            splitMap(LandType.Water);
+            // Without a naval yard, we could only attack this tank if the task force could get to it.
+            game.addObject({ name: "HTNK", owner: ENEMY, rx: 30, ry: 40 });
+            game.mapApi.reveal(ME, { x: 30, y: 40, width: 1, height: 1 });
+            runTeamCheck();
+
+            assert.deepStrictEqual(missionNames(), ["aiTriggerMission_Tank Rush_0"]);
+        });
+
+        it("only joins ally attacks that the task force can get to", () => {
+            setUpTriggers({ name: "Tank Rush" });
+            game.addPlayer("Other", { startLocation: new Vector2(10, 40) });
+            splitMap(LandType.Water);
+            teamChannel = new InProcessTeamChannel();
+            teamChannel.announceAttack({
+                member: "Ally",
+                missionName: "attack",
+                target: new Vector2(30, 40),
+                state: AttackIntentState.Preparing,
+                tick: 0,
+            });
+            runTeamCheck();
+
+            assert.deepStrictEqual(missionNames(), ["aiTriggerMission_Tank Rush_0"]);
+        });
+
+        it("doesn't attack enemies that can't be reached by land or by sea", () => {
+            setUpTriggers({ name: "Tank Rush" });
+            splitMap(LandType.Rock);
+            runTeamCheck();
+
+            assert.deepStrictEqual(missionNames(), []);
+        });
+
+        it("respects the maximum number of teams", () => {
+            setUpTriggers({ name: "Tank Rush" });
+            const factory = runTeamCheck();
+
+            game.currentTick = 1000;
+            factory.runTeamCheck(
+                game.asGameApi(),
+                productionApi.asProductionApi(),
+                matchAwareness,
+                game.getPlayerData(ME),
+                missionController,
+                () => {},
+            );
+            assert.strictEqual(missionNames().length, 1);
+        });
+    });
+});
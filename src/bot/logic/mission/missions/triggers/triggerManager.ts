@@ -13,14 +13,21 @@ import { DebugLogger, countBy, setDifference } from "../../../common/utils.js";
 import { MissionController } from "../../missionController.js";
 import { AiTeamType, loadTeamTypes } from "./aiTeamTypes.js";
 import { AiTaskForce, loadTaskForces } from "./aiTaskForces.js";
-import { AttackMission, generateTarget } from "../attackMission.js";
+import {
+    AttackMission,
+    generateTarget,
+    getAllyAttackTarget,
+    getAttackForces,
+    getCompositionReachability,
+} from "../attackMission.js";
 import { MatchAwareness } from "../../../awareness.js";
 import { match } from "assert";
 import { MissionFactory } from "../../missionFactories.js";
 import { Mission } from "../../mission.js";
+import { BotPersonality, DEFAULT_PERSONALITY } from "../../../common/personality.js";
 import { AiScriptType, loadScriptTypes } from "./scriptTypes.js";
 
-type AiTriggerCacheState = {
+export type AiTriggerCacheState = {
     enemyUnitCount: { [name: string]: number };
     ownUnitCount: { [name: string]: number };
     enemyCredits: number;
@@ -48,7 +55,7 @@ const testOperator = (value: number, operator: ComparatorOperator, operand: numb
         case ComparatorOperator.LessThanOrEqual:
             return value <= operand;
         case ComparatorOperator.NotEqual:
-            return value > operand;
+            return value !== operand;
     }
 };
 
@@ -95,6 +102,21 @@ const conditionEvaluators: Map<ConditionType, ConditionEvaluator> = new Map([
     [ConditionType.NeutralHouseOwns, EVALUATOR_NOT_IMPLEMENTED],
 ]);
 
+/**
+ * Whether the condition of a trigger holds, given the state of the game.
+ */
+export const evaluateTriggerCondition = (
+    trigger: Pick<AiTriggerType, "conditionType" | "comparisonObject" | "comparatorArgument" | "comparatorOperator">,
+    triggerCacheState: AiTriggerCacheState,
+) => {
+    const conditionEvaluator = conditionEvaluators.get(trigger.conditionType);
+    if (!conditionEvaluator) {
+        throw new Error(`Missing condition evaluator ${trigger.conditionType} for ${trigger}`);
+    }
+    const { comparisonObject, comparatorArgument, comparatorOperator } = trigger;
+    return conditionEvaluator(triggerCacheState, comparisonObject, comparatorArgument, comparatorOperator);
+};
+
 type ResolvedTeamType = Omit<AiTeamType, "taskForce" | "script"> & {
     taskForce: AiTaskForce;
     script: AiScriptType;
@@ -121,7 +143,12 @@ export class TriggeredAttackMissionFactory implements MissionFactory {
     // TODO: this should come from the ini
     private teamLimit = 10;
 
-    constructor(gameApi: GameApi, playerData: PlayerData, difficulty: BotDifficulty) {
+    constructor(
+        gameApi: GameApi,
+        playerData: PlayerData,
+        difficulty: BotDifficulty,
+        private personality: BotPersonality = DEFAULT_PERSONALITY,
+    ) {
         const { teamDelays, triggerTypes, dissolveUnfilledTeamDelay } = this.loadIni(
             gameApi.getRulesIni(),
             gameApi.getAiIni(),
@@ -156,6 +183,9 @@ export class TriggeredAttackMissionFactory implements MissionFactory {
         missionController: MissionController,
         logger: DebugLogger,
     ): void {
+        if (matchAwareness.isHolding(gameApi)) {
+            return;
+        }
         if (gameApi.getCurrentTick() > this.lastTeamCheckAt + this.teamDelay) {
             this.runTeamCheck(gameApi, productionApi, matchAwareness, playerData, missionController, logger);
             this.lastTeamCheckAt = gameApi.getCurrentTick();
@@ -304,12 +334,7 @@ export class TriggeredAttackMissionFactory implements MissionFactory {
                 }
             }
 
-            const conditionEvaluator = conditionEvaluators.get(trigger.conditionType);
-            if (!conditionEvaluator) {
-                throw new Error(`Missing condition evaluator ${trigger.conditionType} for ${trigger}`);
-            }
-            const { comparisonObject, comparatorArgument, comparatorOperator } = trigger;
-            return conditionEvaluator(triggerCacheState, comparisonObject, comparatorArgument, comparatorOperator);
+            return evaluateTriggerCondition(trigger, triggerCacheState);
         });
         const newTriggerSet = new Set(firingTriggers.map(({ name }) => name));
 
@@ -334,19 +359,32 @@ export class TriggeredAttackMissionFactory implements MissionFactory {
         }
         logger(`Chose mission: ${chosenMission.name}`);
         // TODO: implement attack target from script.
-        const attackTarget = generateTarget(game, myPlayer, matchAwareness, true);
+        const taskForceUnits = chosenMission.teamType.taskForce.units;
+        const canTaskForceReach = getCompositionReachability(game, myPlayer, matchAwareness, taskForceUnits);
+        // Failing anywhere the task force can get to, we look for somewhere to send ships to.
+        const attackTarget =
+            getAllyAttackTarget(game, myPlayer, matchAwareness, canTaskForceReach) ??
+            generateTarget(game, myPlayer, matchAwareness, true, canTaskForceReach) ??
+            generateTarget(game, myPlayer, matchAwareness, true);
         if (!attackTarget) {
             return;
         }
+        // If the target can only be reached by sea, we send ships instead of the task force.
+        const forces = getAttackForces(game, myPlayer, matchAwareness, attackTarget, () => taskForceUnits, logger);
+        if (!forces || (forces.composition === taskForceUnits && !canTaskForceReach(attackTarget))) {
+            return;
+        }
         const mission = new AttackMission(
             `aiTriggerMission_${chosenMission.name}_${game.getCurrentTick()}`,
             chosenMission.teamType.priority,
-            matchAwareness.getMainRallyPoint(),
+            forces.rallyPoint,
             attackTarget,
             30,
             logger,
-            chosenMission.teamType.taskForce.units,
+            forces.composition,
             game.getCurrentTick() + this.dissolveUnfilledTeamDelay,
+            this.personality.attackMissionMaxPriority,
+            chosenMission.teamType.avoidThreats,
         );
         const newMission = missionController.addMission(mission);
 
@@ -358,6 +396,7 @@ export class TriggeredAttackMissionFactory implements MissionFactory {
                 } = ${newCount}`,
             );
             newMission.then(() => {
+                matchAwareness.getTeamChannel()?.withdrawAttack(myPlayer.name, mission.getUniqueName());
                 const newCount = this.decrementTeamCount(chosenMission.teamType.name);
                 logger(
                     `Mission ${mission.getUniqueName()} has ended, total count of team ${
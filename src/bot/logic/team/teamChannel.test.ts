@@ -0,0 +1,183 @@
+import assert from "assert";
+import { ObjectType, Vector2 } from "@chronodivide/game-api";
+import { AttackIntentState, InProcessTeamChannel, combineTeamThreat } from "./teamChannel.js";
+import { MatchAwarenessImpl } from "../awareness.js";
+import { DEFAULT_PERSONALITY } from "../common/personality.js";
+import { SECTOR_SIZE, SectorCache } from "../map/sector.js";
+import { ActionBatcher } from "../mission/actionBatcher.js";
+import { AttackMission, generateTarget } from "../mission/missions/attackMission.js";
+import { GlobalThreat } from "../threat/threat.js";
+import { FakeActionsApi } from "../../../test/fakeActionsApi.js";
+import { FakeGameApi } from "../../../test/fakeGameApi.js";
+
+describe("InProcessTeamChannel", () => {
+    it("keeps allies' scouts away from a claimed point for a while", () => {
+        const channel = new InProcessTeamChannel();
+        const point = new Vector2(10, 10);
+
+        assert.strictEqual(channel.claimScoutTarget("A", point, 0), true);
+        assert.strictEqual(channel.claimScoutTarget("A", point, 10), true);
+        assert.strictEqual(channel.claimScoutTarget("B", point, 20), false);
+        assert.strictEqual(channel.claimScoutTarget("B", point, 10000), true);
+    });
+
+    it("drops sightings that are old or of destroyed objects", () => {
+        const channel = new InProcessTeamChannel();
+        const sighting = (unitId: number, tick: number) => ({
+            unitId,
+            name: "HTNK",
+            owner: "Enemy",
+            type: ObjectType.Vehicle,
+            position: new Vector2(1, 1),
+            tick,
+        });
+        channel.reportSightings([sighting(1, 0), sighting(2, 0)]);
+        channel.reportSightings([sighting(2, 100), sighting(3, 100)]);
+        channel.forgetSighting(3);
+
+        assert.deepStrictEqual(
+            channel.getSightings(50).map(({ unitId }) => unitId),
+            [2],
+        );
+        channel.reportSightings([sighting(4, 10000)]);
+        assert.deepStrictEqual(
+            channel.getSightings(0).map(({ unitId }) => unitId),
+            [4],
+        );
+    });
+
+    it("only returns the intents and threats of other members", () => {
+        const channel = new InProcessTeamChannel();
+        const intent = {
+            missionName: "attack",
+            target: new Vector2(1, 1),
+            state: AttackIntentState.Preparing,
+            tick: 0,
+        };
+        channel.announceAttack({ ...intent, member: "A" });
+        channel.announceAttack({ ...intent, member: "B" });
+        channel.reportThreat("A", new GlobalThreat(1, 0, 0, 0, 0, 0, 0, 0, 0), 0);
+
+        assert.deepStrictEqual(
+            channel.getAllyAttackIntents("A", 0).map(({ member }) => member),
+            ["B"],
+        );
+        assert.deepStrictEqual(channel.getAllyThreats("A", 0), []);
+        assert.strictEqual(channel.getAllyThreats("B", 0).length, 1);
+
+        channel.withdrawAttack("B", "attack");
+        assert.deepStrictEqual(channel.getAllyAttackIntents("A", 0), []);
+    });
+});
+
+describe("combineTeamThreat", () => {
+    it("takes the largest enemy threat and adds up the team's power", () => {
+        const combined = combineTeamThreat(new GlobalThreat(0.5, 10, 1, 2, 3, 4, 5, 6, 7), [
+            new GlobalThreat(0.8, 20, 0, 0, 1, 4, 5, 6, 7),
+        ]);
+
+        assert.deepStrictEqual(combined, new GlobalThreat(0.8, 20, 1, 2, 3, 8, 10, 12, 14));
+    });
+});
+
+describe("Allied bots sharing a team channel", () => {
+    const ME = "Me";
+    const ALLY = "Ally";
+    const ENEMY = "Enemy";
+    const MAP_SIZE = { width: SECTOR_SIZE * 4, height: SECTOR_SIZE * 4 };
+    const MY_START = new Vector2(4, 4);
+
+    let game: FakeGameApi;
+    let channel: InProcessTeamChannel;
+    let matchAwareness: MatchAwarenessImpl;
+
+    beforeEach(() => {
+        game = new FakeGameApi(MAP_SIZE)
+            .addPlayer(ME, { startLocation: MY_START })
+            .addPlayer(ALLY, { startLocation: new Vector2(4, 50) })
+            .addPlayer(ENEMY, { startLocation: new Vector2(50, 50) })
+            .setAllied(ME, ALLY);
+        channel = new InProcessTeamChannel();
+        matchAwareness = new MatchAwarenessImpl(
+            null,
+            new SectorCache(game.mapApi.asMapApi(), MAP_SIZE),
+            MY_START,
+            () => {},
+            0,
+            DEFAULT_PERSONALITY,
+            channel,
+        );
+    });
+
+    it("shares the enemies it sees", () => {
+        game.mapApi.reveal(ME, { x: 0, y: 0, width: 10, height: 10 });
+        const tank = game.addObject({ name: "HTNK", owner: ENEMY, rx: 6, ry: 6 });
+        game.currentTick = 1;
+        matchAwareness.onAiUpdate(game.asGameApi(), game.getPlayerData(ME));
+
+        assert.deepStrictEqual(
+            channel.getSightings(0).map(({ unitId, owner, position }) => ({ unitId, owner, position })),
+            [{ unitId: tank, owner: ENEMY, position: new Vector2(6, 6) }],
+        );
+    });
+
+    it("attacks what its allies have seen when it sees nothing itself", () => {
+        channel.reportSightings([
+            {
+                unitId: 1,
+                name: "GACNST",
+                owner: ENEMY,
+                type: ObjectType.Building,
+                position: new Vector2(40, 40),
+                tick: 0,
+            },
+        ]);
+
+        assert.deepStrictEqual(
+            generateTarget(game.asGameApi(), game.getPlayerData(ME), matchAwareness),
+            new Vector2(40, 40),
+        );
+    });
+
+    it("holds a ready attack back until allies are ready, for a limited time", () => {
+        const mission = new AttackMission("attack", 1, MY_START, new Vector2(40, 40), 10, () => {}, {});
+        const update = (tick: number) => {
+            game.currentTick = tick;
+            channel.announceAttack({
+                member: ALLY,
+                missionName: "attack",
+                target: new Vector2(40, 40),
+                state: AttackIntentState.Preparing,
+                tick,
+            });
+            mission.onAiUpdate(
+                game.asGameApi(),
+                new FakeActionsApi().asActionsApi(),
+                game.getPlayerData(ME),
+                matchAwareness,
+                new ActionBatcher(),
+            );
+        };
+
+        update(0);
+        assert.strictEqual(mission.isUnitsLocked(), false);
+        assert.strictEqual(channel.getAllyAttackIntents(ALLY, 0)[0].state, AttackIntentState.Ready);
+
+        update(2000);
+        assert.strictEqual(mission.isUnitsLocked(), true);
+        assert.strictEqual(channel.getAllyAttackIntents(ALLY, 0)[0].state, AttackIntentState.Launched);
+    });
+
+    it("launches a ready attack straight away when no ally is preparing one", () => {
+        const mission = new AttackMission("attack", 1, MY_START, new Vector2(40, 40), 10, () => {}, {});
+        mission.onAiUpdate(
+            game.asGameApi(),
+            new FakeActionsApi().asActionsApi(),
+            game.getPlayerData(ME),
+            matchAwareness,
+            new ActionBatcher(),
+        );
+
+        assert.strictEqual(mission.isUnitsLocked(), true);
+    });
+});
@@ -0,0 +1,183 @@
+import { ObjectType, Vector2 } from "@chronodivide/game-api";
+import { GlobalThreat } from "../threat/threat.js";
+
+/**
+ * An enemy object that a member of the team has seen.
+ */
+export type EnemySighting = {
+    unitId: number;
+    name: string;
+    owner: string;
+    type: ObjectType;
+    position: Vector2;
+    // Tick at which the object was last seen.
+    tick: number;
+};
+
+export type ThreatEstimate = {
+    member: string;
+    threat: GlobalThreat;
+    tick: number;
+};
+
+export enum AttackIntentState {
+    // Gathering units.
+    Preparing = "preparing",
+    // Has all its units, and is waiting for the rest of the team.
+    Ready = "ready",
+    Launched = "launched",
+}
+
+/**
+ * An attack that a member of the team is preparing or carrying out.
+ */
+export type AttackIntent = {
+    member: string;
+    // Name of the mission carrying out the attack, a member can have several attacks at once.
+    missionName: string;
+    target: Vector2;
+    state: AttackIntentState;
+    // Tick at which the intent was last announced. Missions announce their intent every update.
+    tick: number;
+};
+
+/**
+ * A way for allied bots to share what they know and what they are doing. Members are identified by player name.
+ */
+export interface TeamChannel {
+    /**
+     * Records the enemies a member can currently see.
+     */
+    reportSightings(sightings: EnemySighting[]): void;
+
+    /**
+     * Forgets a sighting, e.g. because the object was destroyed.
+     */
+    forgetSighting(unitId: number): void;
+
+    /**
+     * Returns the last sighting of every enemy object seen by any member since the given tick.
+     */
+    getSightings(sinceTick: number): EnemySighting[];
+
+    /**
+     * Claims a point to scout for a while, so allies don't send their scouts to the same place.
+     *
+     * @returns false if another member already claimed the point recently.
+     */
+    claimScoutTarget(member: string, point: Vector2, currentTick: number): boolean;
+
+    reportThreat(member: string, threat: GlobalThreat, tick: number): void;
+
+    /**
+     * Returns the latest threat estimate of every other member, if it was made since the given tick.
+     */
+    getAllyThreats(member: string, sinceTick: number): ThreatEstimate[];
+
+    /**
+     * Creates or updates an attack intent.
+     */
+    announceAttack(intent: AttackIntent): void;
+
+    withdrawAttack(member: string, missionName: string): void;
+
+    /**
+     * Returns the attack intents of the other members that were announced since the given tick.
+     */
+    getAllyAttackIntents(member: string, sinceTick: number): AttackIntent[];
+}
+
+// How long a scouting claim keeps allies away from a point.
+const SCOUT_CLAIM_DURATION_TICKS = 900;
+
+// Sightings older than this are dropped.
+const MAX_SIGHTING_AGE_TICKS = 3600;
+
+const scoutClaimKey = (point: Vector2) => `${point.x},${point.y}`;
+
+/**
+ * A team channel for bots that run in the same process, such as in offline matches. All members share one instance.
+ */
+export class InProcessTeamChannel implements TeamChannel {
+    private sightings: Map<number, EnemySighting> = new Map();
+    private scoutClaims: Map<string, { member: string; tick: number }> = new Map();
+    private threats: Map<string, ThreatEstimate> = new Map();
+    private attackIntents: Map<string, AttackIntent> = new Map();
+
+    reportSightings(sightings: EnemySighting[]): void {
+        if (sightings.length === 0) {
+            return;
+        }
+        sightings.forEach((sighting) => this.sightings.set(sighting.unitId, sighting));
+        const latestTick = Math.max(...sightings.map(({ tick }) => tick));
+        this.sightings.forEach((sighting, unitId) => {
+            if (sighting.tick < latestTick - MAX_SIGHTING_AGE_TICKS) {
+                this.sightings.delete(unitId);
+            }
+        });
+    }
+
+    forgetSighting(unitId: number): void {
+        this.sightings.delete(unitId);
+    }
+
+    getSightings(sinceTick: number): EnemySighting[] {
+        return [...this.sightings.values()].filter(({ tick }) => tick >= sinceTick);
+    }
+
+    claimScoutTarget(member: string, point: Vector2, currentTick: number): boolean {
+        const key = scoutClaimKey(point);
+        const claim = this.scoutClaims.get(key);
+        if (claim && claim.member !== member && currentTick < claim.tick + SCOUT_CLAIM_DURATION_TICKS) {
+            return false;
+        }
+        this.scoutClaims.set(key, { member, tick: currentTick });
+        return true;
+    }
+
+    reportThreat(member: string, threat: GlobalThreat, tick: number): void {
+        this.threats.set(member, { member, threat, tick });
+    }
+
+    getAllyThreats(member: string, sinceTick: number): ThreatEstimate[] {
+        return [...this.threats.values()].filter(
+            (estimate) => estimate.member !== member && estimate.tick >= sinceTick,
+        );
+    }
+
+    announceAttack(intent: AttackIntent): void {
+        this.attackIntents.set(`${intent.member}/${intent.missionName}`, intent);
+    }
+
+    withdrawAttack(member: string, missionName: string): void {
+        this.attackIntents.delete(`${member}/${missionName}`);
+    }
+
+    getAllyAttackIntents(member: string, sinceTick: number): AttackIntent[] {
+        return [...this.attackIntents.values()].filter(
+            (intent) => intent.member !== member && intent.tick >= sinceTick,
+        );
+    }
+}
+
+/**
+ * Combines our threat estimate with those of our allies. Every member sees roughly the same enemies, so the enemy
+ * threat is the largest estimate, whereas the power of the team is the sum of its members.
+ */
+export function combineTeamThreat(own: GlobalThreat, allies: GlobalThreat[]): GlobalThreat {
+    const threats = [own, ...allies];
+    const max = (field: (threat: GlobalThreat) => number) => Math.max(...threats.map(field));
+    const sum = (field: (threat: GlobalThreat) => number) =>
+        threats.reduce((total, threat) => total + field(threat), 0);
+    return new GlobalThreat(
+        max((t) => t.certainty),
+        max((t) => t.totalOffensiveLandThreat),
+        max((t) => t.totalOffensiveAirThreat),
+        max((t) => t.totalOffensiveAntiAirThreat),
+        max((t) => t.totalDefensiveThreat),
+        sum((t) => t.totalDefensivePower),
+        sum((t) => t.totalAvailableAntiGroundFirepower),
+        sum((t) => t.totalAvailableAntiAirFirepower),
+        sum((t) => t.totalAvailableAirPower),
+    );
+}
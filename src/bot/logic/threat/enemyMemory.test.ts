@@ -0,0 +1,111 @@
+import assert from "assert";
+import { GameObjectData, ObjectType, Vector2 } from "@chronodivide/game-api";
+import { EnemyMemory } from "./enemyMemory.js";
+import { FakeGameApi } from "../../../test/fakeGameApi.js";
+
+describe("EnemyMemory", () => {
+    const ME = "Me";
+    const ENEMY = "Enemy";
+
+    let game: FakeGameApi;
+    let memory: EnemyMemory;
+
+    const update = () =>
+        memory.update(
+            game.asGameApi(),
+            game.getPlayerData(ME),
+            game
+                .asGameApi()
+                .getVisibleUnits(ME, "enemy")
+                .map((id) => game.getGameObjectData(id) as GameObjectData),
+        );
+
+    beforeEach(() => {
+        game = new FakeGameApi({ width: 100, height: 100 })
+            .addPlayer(ME, { startLocation: new Vector2(10, 10) })
+            .addPlayer(ENEMY, { startLocation: new Vector2(80, 80) });
+        game.mapApi.reveal(ME);
+        memory = new EnemyMemory();
+    });
+
+    it("remembers where it last saw an object once it goes out of sight", () => {
+        const tank = game.addObject({ name: "HTNK", owner: ENEMY, rx: 50, ry: 50 });
+        update();
+        assert.deepStrictEqual(memory.getOutOfSight(game.currentTick), []);
+
+        game.mapApi.hide(ME);
+        game.currentTick += 100;
+        update();
+
+        const [remembered] = memory.getOutOfSight(game.currentTick);
+        assert.strictEqual(remembered.unitId, tank);
+        assert.strictEqual(remembered.name, "HTNK");
+        assert.strictEqual(remembered.owner, ENEMY);
+        assert.deepStrictEqual(remembered.position, new Vector2(50, 50));
+        assert.strictEqual(remembered.lastSeenAt, 0);
+    });
+
+    it("becomes less sure of units than of buildings over time, then forgets them", () => {
+        const tank = game.addObject({ name: "HTNK", owner: ENEMY, rx: 50, ry: 50 });
+        const barracks = game.addObject({ name: "NAHAND", owner: ENEMY, rx: 60, ry: 60, type: ObjectType.Building });
+        update();
+
+        game.mapApi.hide(ME);
+        game.currentTick = 900;
+        update();
+        const confidenceOf = (id: number) => memory.getRemembered().find(({ unitId }) => unitId === id)?.confidence;
+        assert.strictEqual(confidenceOf(tank), 0.5);
+        assert.ok(confidenceOf(barracks)! > 0.9);
+
+        game.currentTick = 9000;
+        update();
+        assert.strictEqual(confidenceOf(tank), undefined);
+        assert.strictEqual(confidenceOf(barracks), 0.5);
+    });
+
+    it("forgets objects whose tile is seen again without them", () => {
+        const tank = game.addObject({ name: "HTNK", owner: ENEMY, rx: 50, ry: 50 });
+        update();
+        game.mapApi.hide(ME);
+        game.removeObject(tank);
+        game.currentTick += 100;
+        update();
+        assert.strictEqual(memory.getRemembered().length, 1);
+
+        game.mapApi.reveal(ME, { x: 45, y: 45, width: 10, height: 10 });
+        game.currentTick += 100;
+        update();
+        assert.deepStrictEqual(memory.getRemembered(), []);
+    });
+
+    it("keeps objects that are back in sight but not noticed yet", () => {
+        const tank = game.addObject({ name: "HTNK", owner: ENEMY, rx: 50, ry: 50 });
+        update();
+        game.mapApi.hide(ME);
+        game.currentTick += 100;
+        update();
+
+        // Back in sight, but still within the reaction delay.
+        game.mapApi.reveal(ME);
+        game.currentTick += 100;
+        memory.update(game.asGameApi(), game.getPlayerData(ME), [], new Set([tank]));
+
+        const [remembered] = memory.getRemembered();
+        assert.strictEqual(remembered.unitId, tank);
+        assert.strictEqual(remembered.lastSeenAt, 0);
+        assert.ok(remembered.confidence < 1);
+    });
+
+    it("forgets destroyed objects and finds the ones near a point", () => {
+        const tank = game.addObject({ name: "HTNK", owner: ENEMY, rx: 50, ry: 50 });
+        game.addObject({ name: "HTNK", owner: ENEMY, rx: 20, ry: 20 });
+        update();
+
+        assert.deepStrictEqual(
+            memory.getRememberedNearPoint(new Vector2(10, 10), 20).map(({ position }) => position),
+            [new Vector2(20, 20)],
+        );
+        memory.forget(tank);
+        assert.strictEqual(memory.getRemembered().length, 1);
+    });
+});
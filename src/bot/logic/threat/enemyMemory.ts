@@ -0,0 +1,102 @@
+import { GameApi, GameObjectData, ObjectType, PlayerData, Vector2 } from "@chronodivide/game-api";
+
+/**
+ * The last thing we saw of an enemy object.
+ */
+export type RememberedObject = {
+    unitId: number;
+    name: string;
+    owner: string;
+    type: ObjectType;
+    position: Vector2;
+    hitPoints: number;
+    maxHitPoints: number;
+    // Tick at which the object was last seen.
+    lastSeenAt: number;
+    // How sure we are that the object is still there, from 1 (in sight) down to 0.
+    confidence: number;
+};
+
+// Time after which we are only half sure that an object is still where we last saw it. Buildings don't move.
+const UNIT_CONFIDENCE_HALF_LIFE_TICKS = 900;
+const BUILDING_CONFIDENCE_HALF_LIFE_TICKS = 9000;
+
+// Objects we are less sure about than this are forgotten.
+const MIN_CONFIDENCE = 0.05;
+
+/**
+ * Remembers the enemy units and buildings that we have seen, so that we don't forget about them as soon as they go
+ * under the shroud.
+ */
+export class EnemyMemory {
+    private objects: Map<number, RememberedObject> = new Map();
+
+    /**
+     * Records the enemy objects we have noticed, and forgets the ones whose last known tile is in sight without them.
+     *
+     * @param visibleEnemyIds Every enemy object in sight, including the ones we haven't noticed yet because of the
+     * reaction delay. Those aren't recorded, but aren't forgotten either.
+     */
+    update(
+        game: GameApi,
+        playerData: PlayerData,
+        noticedEnemies: GameObjectData[],
+        visibleEnemyIds: Set<number> = new Set(noticedEnemies.map(({ id }) => id)),
+    ) {
+        const currentTick = game.getCurrentTick();
+        noticedEnemies
+            .filter((unit) => !!unit.owner)
+            .forEach((unit) =>
+                this.objects.set(unit.id, {
+                    unitId: unit.id,
+                    name: unit.name,
+                    owner: unit.owner!,
+                    type: unit.type,
+                    position: new Vector2(unit.tile.rx, unit.tile.ry),
+                    hitPoints: unit.hitPoints ?? 0,
+                    maxHitPoints: unit.maxHitPoints ?? 0,
+                    lastSeenAt: currentTick,
+                    confidence: 1,
+                }),
+            );
+
+        this.objects.forEach((object, unitId) => {
+            if (object.lastSeenAt === currentTick) {
+                return;
+            }
+            const halfLife =
+                object.type === ObjectType.Building
+                    ? BUILDING_CONFIDENCE_HALF_LIFE_TICKS
+                    : UNIT_CONFIDENCE_HALF_LIFE_TICKS;
+            object.confidence = Math.pow(0.5, (currentTick - object.lastSeenAt) / halfLife);
+            const tile = game.mapApi.getTile(object.position.x, object.position.y);
+            const reobservedEmpty =
+                !!tile && game.mapApi.isVisibleTile(tile, playerData.name) && !visibleEnemyIds.has(unitId);
+            if (reobservedEmpty || object.confidence < MIN_CONFIDENCE) {
+                this.objects.delete(unitId);
+            }
+        });
+    }
+
+    forget(unitId: number) {
+        this.objects.delete(unitId);
+    }
+
+    /**
+     * Returns every enemy object we remember, including the ones in sight.
+     */
+    getRemembered(): RememberedObject[] {
+        return [...this.objects.values()];
+    }
+
+    /**
+     * Returns the enemy objects we remember that are out of sight.
+     */
+    getOutOfSight(currentTick: number): RememberedObject[] {
+        return this.getRemembered().filter(({ lastSeenAt }) => lastSeenAt < currentTick);
+    }
+
+    getRememberedNearPoint(point: Vector2, radius: number): RememberedObject[] {
+        return this.getRemembered().filter(({ position }) => position.distanceTo(point) <= radius);
+    }
+}
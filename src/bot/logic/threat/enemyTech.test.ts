@@ -0,0 +1,95 @@
+import assert from "assert";
+import { FactoryType, ObjectType, PrereqCategory, SideType, Vector2 } from "@chronodivide/game-api";
+import { EnemyPlan, inferEnemyTech } from "./enemyTech.js";
+import { RememberedObject } from "./enemyMemory.js";
+import { Countries } from "../common/utils.js";
+import { FakeGameApi } from "../../../test/fakeGameApi.js";
+
+describe("inferEnemyTech", () => {
+    const ENEMY = "Enemy";
+    const OTHER = "Other";
+
+    let game: FakeGameApi;
+
+    const building = (name: string, owner = ENEMY, type = ObjectType.Building): RememberedObject => ({
+        unitId: 0,
+        name,
+        owner,
+        type,
+        position: new Vector2(0, 0),
+        hitPoints: 1000,
+        maxHitPoints: 1000,
+        lastSeenAt: 0,
+        confidence: 1,
+    });
+
+    beforeEach(() => {
+        game = new FakeGameApi({ width: 50, height: 50 })
+            .addPlayer(ENEMY, {
+                startLocation: new Vector2(40, 40),
+                country: { name: Countries.RUSSIA, side: SideType.Nod },
+            })
+            .addPlayer(OTHER, { startLocation: new Vector2(10, 10) });
+        // Names are unique to this test, as rules are cached by name.
+        game.defineRules("TECH_WEAP", ObjectType.Building, { factory: FactoryType.UnitType, techLevel: 2 });
+        game.defineRules("TECH_RADR", ObjectType.Building, { techLevel: 3 });
+        game.defineRules("TECH_AIRC", ObjectType.Building, { factory: FactoryType.AircraftType, techLevel: 3 });
+        game.defineRules("TECH_YARD", ObjectType.Building, { factory: FactoryType.NavalUnitType, techLevel: 2 });
+        game.defineRules("TECH_LAB", ObjectType.Building, { techLevel: 6 });
+        game.defineRules("TECH_NUKE", ObjectType.Building, { superWeapon: "NukeSpecial", techLevel: 10 });
+        game.generalRules.prereqCategories = new Map([
+            [PrereqCategory.Radar, ["TECH_RADR", "TECH_AIRC"]],
+            [PrereqCategory.Tech, ["TECH_LAB"]],
+        ]);
+    });
+
+    it("knows nothing of an opponent whose buildings we haven't seen", () => {
+        const tech = inferEnemyTech(game.asGameApi(), ENEMY, [building("TECH_AIRC", OTHER)]);
+        assert.strictEqual(tech.likelyPlan, EnemyPlan.Unknown);
+        assert.strictEqual(tech.techLevel, 0);
+        assert.strictEqual(tech.expectAirUnits, false);
+    });
+
+    it("counts war factories and expects a ground army", () => {
+        const tech = inferEnemyTech(game.asGameApi(), ENEMY, [building("TECH_WEAP"), building("TECH_WEAP")]);
+        assert.strictEqual(tech.warFactories, 2);
+        assert.strictEqual(tech.likelyPlan, EnemyPlan.Ground);
+    });
+
+    it("expects air units as soon as an airforce command is spotted", () => {
+        const tech = inferEnemyTech(game.asGameApi(), ENEMY, [building("TECH_AIRC")]);
+        assert.strictEqual(tech.hasAirforce, true);
+        assert.strictEqual(tech.hasRadar, true);
+        assert.strictEqual(tech.expectAirUnits, true);
+        assert.strictEqual(tech.likelyPlan, EnemyPlan.Air);
+    });
+
+    it("expects Kirovs once a Soviet opponent has a battle lab and a war factory", () => {
+        const expectsAir = (owner: string, ...buildings: string[]) =>
+            inferEnemyTech(
+                game.asGameApi(),
+                owner,
+                buildings.map((name) => building(name, owner)),
+            ).expectAirUnits;
+        assert.strictEqual(expectsAir(ENEMY, "TECH_RADR", "TECH_WEAP"), false);
+        assert.strictEqual(expectsAir(ENEMY, "TECH_LAB", "TECH_WEAP"), true);
+        assert.strictEqual(expectsAir(OTHER, "TECH_LAB", "TECH_WEAP"), false);
+    });
+
+    it("expects air units once their aircraft have been seen", () => {
+        const tech = inferEnemyTech(game.asGameApi(), ENEMY, [building("ZEP", ENEMY, ObjectType.Aircraft)]);
+        assert.strictEqual(tech.expectAirUnits, true);
+    });
+
+    it("recognises naval yards, battle labs and superweapons", () => {
+        const naval = inferEnemyTech(game.asGameApi(), ENEMY, [building("TECH_WEAP"), building("TECH_YARD")]);
+        assert.strictEqual(naval.hasNavalYard, true);
+        assert.strictEqual(naval.likelyPlan, EnemyPlan.Naval);
+
+        const tech = inferEnemyTech(game.asGameApi(), ENEMY, [building("TECH_LAB"), building("TECH_NUKE")]);
+        assert.strictEqual(tech.hasBattleLab, true);
+        assert.deepStrictEqual(tech.superweapons, ["TECH_NUKE"]);
+        assert.strictEqual(tech.techLevel, 10);
+        assert.strictEqual(tech.likelyPlan, EnemyPlan.Superweapon);
+    });
+});
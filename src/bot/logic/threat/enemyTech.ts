@@ -0,0 +1,80 @@
+import { FactoryType, GameApi, ObjectType, PrereqCategory, SideType } from "@chronodivide/game-api";
+import { getCachedTechnoRulesByName } from "../common/rulesCache.js";
+import { RememberedObject } from "./enemyMemory.js";
+
+/**
+ * What an opponent is most likely to be working towards, judging from their buildings.
+ */
+export enum EnemyPlan {
+    Unknown = "unknown",
+    Ground = "ground",
+    Air = "air",
+    Naval = "naval",
+    Superweapon = "superweapon",
+}
+
+/**
+ * What we know of an opponent's tech, from the buildings of theirs that we have seen.
+ */
+export type EnemyTech = {
+    name: string;
+    warFactories: number;
+    hasRadar: boolean;
+    // Whether they have a building that produces aircraft, such as an Airforce Command.
+    hasAirforce: boolean;
+    hasBattleLab: boolean;
+    hasNavalYard: boolean;
+    // Names of the superweapons we have seen.
+    superweapons: string[];
+    // Highest tech level of the buildings we have seen.
+    techLevel: number;
+    // Whether we have seen their aircraft, or they have what it takes to build them.
+    expectAirUnits: boolean;
+    likelyPlan: EnemyPlan;
+};
+
+const inferPlan = (tech: Omit<EnemyTech, "likelyPlan">) => {
+    if (tech.superweapons.length > 0) {
+        return EnemyPlan.Superweapon;
+    } else if (tech.expectAirUnits) {
+        return EnemyPlan.Air;
+    } else if (tech.hasNavalYard) {
+        return EnemyPlan.Naval;
+    } else if (tech.warFactories > 0) {
+        return EnemyPlan.Ground;
+    }
+    return EnemyPlan.Unknown;
+};
+
+/**
+ * Infers the tech of an opponent from the buildings of theirs that we remember, whether or not they are in sight.
+ */
+export function inferEnemyTech(game: GameApi, playerName: string, remembered: RememberedObject[]): EnemyTech {
+    const prereqCategories = game.getGeneralRules().prereqCategories;
+    const isInCategory = (name: string, category: PrereqCategory) =>
+        prereqCategories?.get(category)?.includes(name) ?? false;
+
+    const buildings = remembered
+        .filter(({ owner, type }) => owner === playerName && type === ObjectType.Building)
+        .map(({ name }) => ({ name, rules: getCachedTechnoRulesByName(game, name) }));
+    const warFactories = buildings.filter(({ rules }) => rules?.factory === FactoryType.UnitType).length;
+    const hasRadar = buildings.some(({ name }) => isInCategory(name, PrereqCategory.Radar));
+    const hasAirforce = buildings.some(({ rules }) => rules?.factory === FactoryType.AircraftType);
+    const hasBattleLab = buildings.some(({ name }) => isInCategory(name, PrereqCategory.Tech));
+    const hasSeenAircraft = remembered.some(({ owner, type }) => owner === playerName && type === ObjectType.Aircraft);
+    // Soviet Kirovs come out of the war factory once there is a battle lab.
+    const canBuildKirovs =
+        game.getPlayerData(playerName).country?.side === SideType.Nod && hasBattleLab && warFactories > 0;
+    const tech = {
+        name: playerName,
+        warFactories,
+        hasRadar,
+        hasAirforce,
+        hasBattleLab,
+        hasNavalYard: buildings.some(({ rules }) => rules?.factory === FactoryType.NavalUnitType),
+        superweapons: buildings.filter(({ rules }) => !!rules?.superWeapon).map(({ name }) => name),
+        techLevel: Math.max(0, ...buildings.map(({ rules }) => rules?.techLevel ?? 0)),
+        expectAirUnits: hasSeenAircraft || hasAirforce || canBuildKirovs,
+    };
+    return { ...tech, likelyPlan: inferPlan(tech) };
+}
@@ -0,0 +1,108 @@
+import assert from "assert";
+import { GameObjectData, ObjectType, Vector2 } from "@chronodivide/game-api";
+import { EnemyModel, EnemyTracker, selectTargetPlayer } from "./enemyTracker.js";
+import { FakeGameApi } from "../../../test/fakeGameApi.js";
+
+const enemy = (name: string, model: Partial<EnemyModel> = {}): EnemyModel => ({
+    name,
+    baseLocation: new Vector2(0, 0),
+    distance: 100,
+    strength: 1000,
+    aggression: 0,
+    defeated: false,
+    ...model,
+});
+
+describe("selectTargetPlayer", () => {
+    it("prefers the closest and weakest enemy", () => {
+        assert.strictEqual(selectTargetPlayer([enemy("Far"), enemy("Near", { distance: 50 })], null), "Near");
+        assert.strictEqual(selectTargetPlayer([enemy("Strong"), enemy("Weak", { strength: 200 })], null), "Weak");
+    });
+
+    it("goes after whoever is attacking us", () => {
+        assert.strictEqual(
+            selectTargetPlayer([enemy("Near", { distance: 50 }), enemy("Attacker", { aggression: 500 })], null),
+            "Attacker",
+        );
+    });
+
+    it("sticks with the current target unless another is clearly better", () => {
+        const enemies = [enemy("Current"), enemy("Slightly nearer", { distance: 90 })];
+        assert.strictEqual(selectTargetPlayer(enemies, "Current"), "Current");
+        assert.strictEqual(selectTargetPlayer(enemies, null), "Slightly nearer");
+    });
+
+    it("ignores defeated enemies", () => {
+        assert.strictEqual(
+            selectTargetPlayer([enemy("Far"), enemy("Near", { distance: 50, defeated: true })], null),
+            "Far",
+        );
+        assert.strictEqual(selectTargetPlayer([enemy("Gone", { defeated: true })], null), null);
+    });
+});
+
+describe("EnemyTracker", () => {
+    const ME = "Me";
+    const ALLY = "Ally";
+    const NEAR = "Near";
+    const FAR = "Far";
+
+    let game: FakeGameApi;
+    let tracker: EnemyTracker;
+
+    const update = () =>
+        tracker.update(
+            game.asGameApi(),
+            game.getPlayerData(ME),
+            game
+                .asGameApi()
+                .getVisibleUnits(ME, "enemy")
+                .map((id) => game.getGameObjectData(id) as GameObjectData),
+        );
+
+    beforeEach(() => {
+        game = new FakeGameApi({ width: 200, height: 200 })
+            .addPlayer(ME, { startLocation: new Vector2(10, 10) })
+            .addPlayer(ALLY, { startLocation: new Vector2(10, 20) })
+            .addPlayer(NEAR, { startLocation: new Vector2(50, 50) })
+            .addPlayer(FAR, { startLocation: new Vector2(150, 150) })
+            .setAllied(ME, ALLY);
+        game.mapApi.reveal(ME, { x: 0, y: 0, width: 200, height: 200 });
+        tracker = new EnemyTracker();
+        tracker.onGameStart(game.asGameApi(), game.getPlayerData(ME));
+    });
+
+    it("models every opponent and targets the nearest one at first", () => {
+        assert.deepStrictEqual(
+            tracker.getEnemies().map(({ name }) => name),
+            [NEAR, FAR],
+        );
+        assert.strictEqual(tracker.getTargetPlayer()?.name, NEAR);
+    });
+
+    it("switches to the enemy that destroys our things", () => {
+        tracker.onObjectDestroyed(1, FAR, 2000);
+
+        assert.strictEqual(update(), true);
+        assert.strictEqual(tracker.getTargetPlayer()?.name, FAR);
+        assert.strictEqual(tracker.getEnemy(FAR)?.aggression, 2000);
+    });
+
+    it("counts the strength and base location of what it has seen", () => {
+        // The name is unique to this test, as rules are cached by name.
+        const tank = game.addObject({ name: "TRACKER_TANK", owner: NEAR, rx: 60, ry: 60, rules: { cost: 900 } });
+        game.addObject({ name: "NACNST", owner: NEAR, rx: 45, ry: 45, type: ObjectType.Building });
+        update();
+
+        assert.strictEqual(tracker.getEnemy(NEAR)?.strength, 900);
+        assert.deepStrictEqual(tracker.getEnemy(NEAR)?.baseLocation, new Vector2(45, 45));
+
+        // Units out of sight still count, until they are destroyed.
+        game.removeObject(tank);
+        update();
+        assert.strictEqual(tracker.getEnemy(NEAR)?.strength, 900);
+        tracker.onObjectDestroyed(tank, ME, null);
+        update();
+        assert.strictEqual(tracker.getEnemy(NEAR)?.strength, 0);
+    });
+});
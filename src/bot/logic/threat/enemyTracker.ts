@@ -0,0 +1,168 @@
+import { GameApi, GameObjectData, ObjectType, PlayerData, Vector2 } from "@chronodivide/game-api";
+import { getCachedTechnoRules } from "../common/rulesCache.js";
+import { isSelectableCombatant, maxBy } from "../common/utils.js";
+
+/**
+ * What we know about one of our opponents.
+ */
+export type EnemyModel = {
+    name: string;
+    // Where we think their base is: the building of theirs closest to their start location, or the start location
+    // itself until we have seen one.
+    baseLocation: Vector2;
+    // Distance from our start location to their base.
+    distance: number;
+    // Total cost of the combat units of theirs that we have seen and that haven't been destroyed since.
+    strength: number;
+    // How much they have been attacking us: the cost of what they destroyed of ours and of their combat units near our
+    // base, decaying over time.
+    aggression: number;
+    defeated: boolean;
+};
+
+// Enemy combat units within this distance of our start location count towards their aggression.
+const BASE_RADIUS = 25;
+
+// Aggression is multiplied by this on every update, so that old attacks are forgotten.
+const AGGRESSION_DECAY = 0.8;
+
+// Weights of the target-player policy, applied to values normalised between all enemies.
+const AGGRESSION_WEIGHT = 1.5;
+const DISTANCE_WEIGHT = 1.0;
+const STRENGTH_WEIGHT = 0.75;
+
+// Another enemy has to score this much better than the current target to become the new target.
+const TARGET_SWITCH_MARGIN = 0.25;
+
+const scoreEnemies = (enemies: EnemyModel[]) => {
+    const normalise = (value: number, max: number) => (max > 0 ? value / max : 0);
+    const maxDistance = Math.max(...enemies.map(({ distance }) => distance));
+    const maxStrength = Math.max(...enemies.map(({ strength }) => strength));
+    const maxAggression = Math.max(...enemies.map(({ aggression }) => aggression));
+    return new Map(
+        enemies.map((enemy) => [
+            enemy.name,
+            AGGRESSION_WEIGHT * normalise(enemy.aggression, maxAggression) -
+                DISTANCE_WEIGHT * normalise(enemy.distance, maxDistance) -
+                STRENGTH_WEIGHT * normalise(enemy.strength, maxStrength),
+        ]),
+    );
+};
+
+/**
+ * Picks the opponent to focus on: whoever is attacking us, otherwise the closest and weakest. The current target is
+ * kept unless another enemy is clearly a better choice, so that the bot doesn't keep changing its mind.
+ */
+export function selectTargetPlayer(enemies: EnemyModel[], currentTarget: string | null): string | null {
+    const candidates = enemies.filter(({ defeated }) => !defeated);
+    if (candidates.length === 0) {
+        return null;
+    }
+    const scores = scoreEnemies(candidates);
+    const best = maxBy(candidates, ({ name }) => scores.get(name)!)!;
+    const currentScore = currentTarget !== null ? scores.get(currentTarget) : undefined;
+    if (currentScore !== undefined && scores.get(best.name)! < currentScore + TARGET_SWITCH_MARGIN) {
+        return currentTarget;
+    }
+    return best.name;
+}
+
+type KnownObject = { owner: string; position: Vector2; type: ObjectType; cost: number };
+
+/**
+ * Keeps a model of every opponent up to date and decides which of them to target.
+ */
+export class EnemyTracker {
+    private enemies: Map<string, EnemyModel> = new Map();
+    private startLocations: Map<string, Vector2> = new Map();
+    // Enemy buildings and combat units we have seen that haven't been destroyed, by ID.
+    private knownObjects: Map<number, KnownObject> = new Map();
+    // Cost of what each enemy destroyed of ours since the last update.
+    private recentDamage: Map<string, number> = new Map();
+    private targetPlayer: string | null = null;
+
+    onGameStart(game: GameApi, playerData: PlayerData) {
+        game.getPlayers()
+            .filter((name) => name !== playerData.name && !game.areAlliedPlayers(playerData.name, name))
+            .map((name) => game.getPlayerData(name))
+            .filter(({ isCombatant }) => isCombatant)
+            .forEach(({ name, startLocation }) => {
+                this.startLocations.set(name, startLocation);
+                this.enemies.set(name, {
+                    name,
+                    baseLocation: startLocation,
+                    distance: startLocation.distanceTo(playerData.startLocation),
+                    strength: 0,
+                    aggression: 0,
+                    defeated: false,
+                });
+            });
+        this.targetPlayer = selectTargetPlayer(this.getEnemies(), null);
+    }
+
+    /**
+     * Records that an object was destroyed. `lostCost` is the cost of the object if it was ours.
+     */
+    onObjectDestroyed(unitId: number, attacker: string | undefined, lostCost: number | null) {
+        this.knownObjects.delete(unitId);
+        if (lostCost !== null && attacker && this.enemies.has(attacker)) {
+            this.recentDamage.set(attacker, (this.recentDamage.get(attacker) ?? 0) + lostCost);
+        }
+    }
+
+    /**
+     * Updates the models from the hostile objects that are currently in sight.
+     *
+     * @returns true if the target player changed.
+     */
+    update(game: GameApi, playerData: PlayerData, hostileUnits: GameObjectData[]): boolean {
+        const nearBase = new Map<string, number>();
+        hostileUnits
+            .filter((unit) => !!unit.owner && this.enemies.has(unit.owner))
+            .filter((unit) => unit.type === ObjectType.Building || isSelectableCombatant(unit))
+            .forEach((unit) => {
+                const position = new Vector2(unit.tile.rx, unit.tile.ry);
+                const cost = getCachedTechnoRules(game, unit.id)?.cost ?? 0;
+                this.knownObjects.set(unit.id, { owner: unit.owner!, position, type: unit.type, cost });
+                if (unit.type !== ObjectType.Building && position.distanceTo(playerData.startLocation) <= BASE_RADIUS) {
+                    nearBase.set(unit.owner!, (nearBase.get(unit.owner!) ?? 0) + cost);
+                }
+            });
+
+        const knownObjects = [...this.knownObjects.values()];
+        this.enemies.forEach((enemy, name) => {
+            const startLocation = this.startLocations.get(name)!;
+            const objects = knownObjects.filter(({ owner }) => owner === name);
+            const buildings = objects.filter(({ type }) => type === ObjectType.Building);
+            enemy.baseLocation =
+                maxBy(buildings, ({ position }) => -position.distanceTo(startLocation))?.position ?? startLocation;
+            enemy.distance = enemy.baseLocation.distanceTo(playerData.startLocation);
+            enemy.strength = objects
+                .filter(({ type }) => type !== ObjectType.Building)
+                .reduce((total, { cost }) => total + cost, 0);
+            enemy.aggression =
+                enemy.aggression * AGGRESSION_DECAY + (nearBase.get(name) ?? 0) + (this.recentDamage.get(name) ?? 0);
+            enemy.defeated = !game.getPlayerData(name).isCombatant;
+        });
+        this.recentDamage.clear();
+
+        const previousTarget = this.targetPlayer;
+        this.targetPlayer = selectTargetPlayer(this.getEnemies(), previousTarget);
+        return this.targetPlayer !== previousTarget;
+    }
+
+    getEnemies(): EnemyModel[] {
+        return [...this.enemies.values()];
+    }
+
+    getEnemy(name: string): EnemyModel | null {
+        return this.enemies.get(name) ?? null;
+    }
+
+    /**
+     * Returns the enemy we are focusing on, or null if every enemy has been defeated.
+     */
+    getTargetPlayer(): EnemyModel | null {
+        return this.targetPlayer !== null ? this.getEnemy(this.targetPlayer) : null;
+    }
+}
@@ -6,13 +6,24 @@ import {
     ObjectType,
     PlayerData,
     ProjectileRules,
+    TechnoRules,
     UnitData,
     WeaponRules,
 } from "@chronodivide/game-api";
 import { GlobalThreat } from "./threat.js";
-import { getCachedTechnoRules } from "../common/rulesCache.js";
+import { getCachedTechnoRules, getCachedTechnoRulesByName } from "../common/rulesCache.js";
+import { EnemyMemory, RememberedObject } from "./enemyMemory.js";
 
-export function calculateGlobalThreat(game: GameApi, playerData: PlayerData, visibleAreaPercent: number): GlobalThreat {
+/**
+ * Estimates the firepower of both sides. Enemies we remember but can no longer see count for as much as we are sure
+ * they are still there.
+ */
+export function calculateGlobalThreat(
+    game: GameApi,
+    playerData: PlayerData,
+    visibleAreaPercent: number,
+    enemyMemory: EnemyMemory | null = null,
+): GlobalThreat {
     let groundUnits = game.getVisibleUnits(
         playerData.name,
         "enemy",
@@ -41,10 +52,30 @@ export function calculateGlobalThreat(game: GameApi, playerData: PlayerData, vis
         (r) => r.movementZone == MovementZone.Fly && r.isSelectableCombatant,
     );
 
-    let observedGroundThreat = calculateFirepowerForUnits(game, groundUnits);
-    let observedAirThreat = calculateFirepowerForUnits(game, airUnits);
-    let observedAntiAirThreat = calculateFirepowerForUnits(game, antiAirPower);
-    let observedGroundDefence = calculateFirepowerForUnits(game, groundDefence);
+    const remembered = (enemyMemory?.getOutOfSight(game.getCurrentTick()) ?? [])
+        .map((object) => ({ object, rules: getCachedTechnoRulesByName(game, object.name) }))
+        .filter((entry): entry is { object: RememberedObject; rules: TechnoRules } => entry.rules !== null);
+    const rememberedFirepower = (filter: (rules: TechnoRules) => boolean) =>
+        remembered
+            .filter(({ rules }) => filter(rules))
+            .reduce(
+                (total, { object, rules }) =>
+                    total +
+                    object.confidence * calculateFirepowerForRules(game, rules, object.hitPoints, object.maxHitPoints),
+                0,
+            );
+
+    let observedGroundThreat =
+        calculateFirepowerForUnits(game, groundUnits) +
+        rememberedFirepower((r) => r.type == ObjectType.Vehicle || r.type == ObjectType.Infantry);
+    let observedAirThreat =
+        calculateFirepowerForUnits(game, airUnits) + rememberedFirepower((r) => r.movementZone == MovementZone.Fly);
+    let observedAntiAirThreat =
+        calculateFirepowerForUnits(game, antiAirPower) +
+        rememberedFirepower((r) => r.type != ObjectType.Building && isAntiAirRules(game, r));
+    let observedGroundDefence =
+        calculateFirepowerForUnits(game, groundDefence) +
+        rememberedFirepower((r) => r.type == ObjectType.Building && isAntiGroundRules(game, r));
 
     let ourAntiGroundPower = calculateFirepowerForUnits(game, ourAntiGroundUnits);
     let ourAntiAirPower = calculateFirepowerForUnits(game, ourAntiAirUnits);
@@ -64,17 +95,45 @@ export function calculateGlobalThreat(game: GameApi, playerData: PlayerData, vis
     );
 }
 
+/**
+ * Estimates how much an object can hurt ground and air targets, given its health.
+ */
+export function calculateFirepowerByTarget(
+    gameApi: GameApi,
+    rules: TechnoRules,
+    currentHp: number,
+    maxHp: number,
+): { antiGround: number; antiAir: number } {
+    const firepower = calculateFirepowerForRules(gameApi, rules, currentHp, maxHp);
+    return {
+        antiGround: isAntiGroundRules(gameApi, rules) ? firepower : 0,
+        antiAir: isAntiAirRules(gameApi, rules) ? firepower : 0,
+    };
+}
+
+/**
+ * Returns the range of the primary weapon of an object, or 0 if it has none.
+ */
+export function getWeaponRange(gameApi: GameApi, rules: TechnoRules): number {
+    return rules.primary ? gameApi.rulesApi.getWeapon(rules.primary).range : 0;
+}
+
 // For the purposes of determining if units can target air/ground, we look purely at the technorules and only the base weapon (not elite)
 // This excludes some special cases such as IFVs changing turrets, but we have to deal with it for now.
 function isAntiGround(gameApi: GameApi, unitId: number): boolean {
-    return testProjectile(gameApi, unitId, (p) => p.isAntiGround);
+    return isAntiGroundRules(gameApi, getCachedTechnoRules(gameApi, unitId));
 }
 function isAntiAir(gameApi: GameApi, unitId: number): boolean {
-    return testProjectile(gameApi, unitId, (p) => p.isAntiAir);
+    return isAntiAirRules(gameApi, getCachedTechnoRules(gameApi, unitId));
+}
+function isAntiGroundRules(gameApi: GameApi, rules: TechnoRules | null): boolean {
+    return testProjectile(gameApi, rules, (p) => p.isAntiGround);
+}
+function isAntiAirRules(gameApi: GameApi, rules: TechnoRules | null): boolean {
+    return testProjectile(gameApi, rules, (p) => p.isAntiAir);
 }
 
-function testProjectile(gameApi: GameApi, unitId: number, test: (p: ProjectileRules) => boolean) {
-    const rules = getCachedTechnoRules(gameApi, unitId);
+function testProjectile(gameApi: GameApi, rules: TechnoRules | null, test: (p: ProjectileRules) => boolean) {
     if (!rules || !(rules.primary || rules.secondary)) {
         return false;
     }
@@ -104,8 +163,15 @@ function calculateFirepowerForUnit(gameApi: GameApi, gameObjectData: GameObjectD
     if (!rules) {
         return 0;
     }
-    const currentHp = gameObjectData?.hitPoints || 0;
-    const maxHp = gameObjectData?.maxHitPoints || 0;
+    return calculateFirepowerForRules(
+        gameApi,
+        rules,
+        gameObjectData?.hitPoints || 0,
+        gameObjectData?.maxHitPoints || 0,
+    );
+}
+
+function calculateFirepowerForRules(gameApi: GameApi, rules: TechnoRules, currentHp: number, maxHp: number): number {
     let threat = 0;
     const hpRatio = currentHp / Math.max(1, maxHp);
 
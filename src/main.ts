@@ -1,11 +1,8 @@
 import "dotenv/config";
-import { Agent, Bot, CreateBaseOpts, CreateOfflineOpts, CreateOnlineOpts, cdapi } from "@chronodivide/game-api";
-import { BotDifficulty, SupalosaBot } from "./bot/bot.js";
-import { DummyBot } from "./dummyBot/dummyBot.js";
-import { Countries } from "./bot/logic/common/utils.js";
-
-// The game will automatically end after this time. This is to handle stalemates.
-const MAX_GAME_LENGTH_SECONDS: number | null = 7200; // 7200 = two hours
+import { cdapi } from "@chronodivide/game-api";
+import { CLI_USAGE, CliError, parseCommandLine } from "./runner/cli.js";
+import { runMatch } from "./runner/match.js";
+import { MatchConfigError, validateMap } from "./runner/matchConfig.js";
 
 async function main() {
     /*
@@ -35,103 +32,36 @@ async function main() {
     heckcorners_b_golden.map,hecklvl.map,heckrvr.map,hecktvt.map,isleland.map,jungleofvietnam.map,2_malibu_cliffs_le.map,mojosprt.map,4_montana_dmz_le.map,6_near_ore_far.map,8_near_ore_far.map,
     offensedefense.map,ore2_startfixed.map,rekoool_fast_6players.mpr,rekoool_fast_8players.mpr,riverram.map,tourofegypt.map,unrepent.map,sinkswim_yr_port.map
     */
-    const mapName = "mp19t4.map";
-    // Bot names must be unique in online mode
-    const timestamp = String(Date.now()).substr(-6);
-    const botName1 = `Joe${timestamp}`;
-    const botName2 = `Bob${timestamp}`;
-    const botName3 = `Mike${timestamp}`;
-    const botName4 = `Charlie${timestamp}`;
-    const botName5 = `Phil${timestamp}`;
-    const botName6 = `Sam${timestamp}`;
-    const botName7 = `Ben${timestamp}`;
-    const botName8 = `Jim${timestamp}`;
+    // `npm start` passes the module resolution flag after the script name, so it ends up in our arguments.
+    const args = process.argv.slice(2).filter((arg) => !arg.startsWith("--es-module-specifier-resolution"));
+    const config = parseCommandLine(args);
+    if (!config) {
+        console.log(CLI_USAGE);
+        return;
+    }
 
     await cdapi.init(process.env.MIX_DIR || "./");
+    validateMap(config, "match settings");
 
     console.log("Server URL: " + process.env.SERVER_URL!);
     console.log("Client URL: " + process.env.CLIENT_URL!);
 
-    const baseSettings: CreateBaseOpts = {
-        buildOffAlly: false,
-        cratesAppear: false,
-        credits: 10000,
-        gameMode: cdapi.getAvailableGameModes(mapName)[0],
-        gameSpeed: 6,
-        mapName,
-        mcvRepacks: true,
-        shortGame: true,
-        superWeapons: false,
-        unitCount: 0,
-    };
-
-    const onlineSettings: CreateOnlineOpts = {
-        ...baseSettings,
-        online: true,
-        serverUrl: process.env.SERVER_URL!,
-        clientUrl: process.env.CLIENT_URL!,
-        agents: [
-            new SupalosaBot(process.env.ONLINE_BOT_NAME ?? botName1, Countries.USA, BotDifficulty.Hard),
-            { name: process.env.PLAYER_NAME ?? botName2, country: Countries.FRANCE },
-        ] as [Bot, ...Agent[]],
-        botPassword: process.env.ONLINE_BOT_PASSWORD ?? "default",
-    };
-
-    const offlineSettings1v1: CreateOfflineOpts = {
-        ...baseSettings,
-        online: false,
-        agents: [
-            new SupalosaBot(botName1, Countries.GREAT_BRITAIN, BotDifficulty.Hard, []).setDebugMode(true),
-            new SupalosaBot(botName2, Countries.RUSSIA, BotDifficulty.Hard, []),
-        ],
-    };
-
-    const offlineSettings2v2: CreateOfflineOpts = {
-        ...baseSettings,
-        online: false,
-        agents: [
-            new SupalosaBot(botName1, Countries.FRANCE, BotDifficulty.Hard, [botName2]),
-            new SupalosaBot(botName2, Countries.RUSSIA, BotDifficulty.Hard, [botName1]).setDebugMode(true),
-            new SupalosaBot(botName3, Countries.RUSSIA, BotDifficulty.Hard, [botName4]),
-            new SupalosaBot(botName4, Countries.FRANCE, BotDifficulty.Hard, [botName3]),
-        ],
-    };
-
-    const team1 = [botName1, botName2, botName3, botName4];
-    const team2 = [botName5, botName6, botName7, botName8];
-    const offlineSettings4v4: CreateOfflineOpts = {
-        ...baseSettings,
-        online: false,
-        agents: [
-            new SupalosaBot(botName1, Countries.FRANCE, BotDifficulty.Hard, team1),
-            new SupalosaBot(botName2, Countries.RUSSIA, BotDifficulty.Hard, team1).setDebugMode(true),
-            new SupalosaBot(botName3, Countries.RUSSIA, BotDifficulty.Hard, team1),
-            new SupalosaBot(botName4, Countries.FRANCE, BotDifficulty.Hard, team1),
-            new SupalosaBot(botName5, Countries.FRANCE, BotDifficulty.Hard, team2),
-            new SupalosaBot(botName6, Countries.RUSSIA, BotDifficulty.Hard, team2),
-            new SupalosaBot(botName7, Countries.RUSSIA, BotDifficulty.Hard, team2),
-            new SupalosaBot(botName8, Countries.FRANCE, BotDifficulty.Hard, team2),
-        ],
-    };
-
-    const game = await cdapi.createGame(process.env.ONLINE_MATCH ? onlineSettings : offlineSettings1v1);
-
-    console.profile(`cpuprofile-${timestamp}`);
-
-    while (!game.isFinished()) {
-        if (!!MAX_GAME_LENGTH_SECONDS && game.getCurrentTick() / 15 > MAX_GAME_LENGTH_SECONDS) {
-            console.log(`Game forced to end due to timeout`);
-            break;
-        }
-        await game.update();
+    const result = await runMatch(config, !!process.stdin.isTTY);
+    console.log(`Game finished (${result.outcome}) after ${result.durationSeconds} seconds`);
+    if (result.reportPath) {
+        console.log(`Match report written to ${result.reportPath}`);
     }
-
-    game.saveReplay();
-    game.dispose();
-    console.profileEnd();
+    result.profilePaths.forEach((path) => console.log(`Profile written to ${path}`));
 }
 
 main().catch((e) => {
-    console.error(e);
+    if (e instanceof CliError) {
+        console.error(e.message);
+        console.error(CLI_USAGE);
+    } else if (e instanceof MatchConfigError) {
+        console.error(e.message);
+    } else {
+        console.error(e);
+    }
     process.exit(1);
 });
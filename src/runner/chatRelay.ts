@@ -0,0 +1,60 @@
+import { Interface, createInterface } from "readline";
+import { SupalosaBot } from "../bot/bot.js";
+
+export type RelayedChatMessage = { sender: string; text: string };
+
+/**
+ * Reads a line typed into the runner as `<sender>: <message>`, or as just `<message>` if there is a default sender.
+ * Returns null if it isn't from a known player or there is nothing to say.
+ */
+export function parseRelayedChatLine(
+    line: string,
+    playerNames: string[],
+    defaultSender: string | null,
+): RelayedChatMessage | null {
+    const separator = line.indexOf(":");
+    const namedSender =
+        separator > 0 ? playerNames.find((name) => name === line.substring(0, separator).trim()) : undefined;
+    const sender = namedSender ?? defaultSender;
+    const text = (namedSender ? line.substring(separator + 1) : line).trim();
+    if (!sender || text.length === 0) {
+        return null;
+    }
+    return { sender, text };
+}
+
+/**
+ * Passes chat typed into the runner's terminal on to the bots, as the game API doesn't pass chat messages to bots.
+ * Messages are held until `flush()`, so that the bots only see them in between game updates.
+ */
+export class ConsoleChatRelay {
+    private readline: Interface;
+    private pending: RelayedChatMessage[] = [];
+
+    constructor(
+        private bots: SupalosaBot[],
+        playerNames: string[],
+        defaultSender: string | null,
+        input: NodeJS.ReadableStream = process.stdin,
+    ) {
+        this.readline = createInterface({ input });
+        this.readline.on("line", (line) => {
+            const message = parseRelayedChatLine(line, playerNames, defaultSender);
+            if (message) {
+                this.pending.push(message);
+            } else {
+                console.log(`Chat relay: type "<player>: <message>" to send a message as that player.`);
+            }
+        });
+    }
+
+    public flush() {
+        const messages = this.pending;
+        this.pending = [];
+        messages.forEach(({ sender, text }) => this.bots.forEach((bot) => bot.onAllyChatMessage(sender, text)));
+    }
+
+    public close() {
+        this.readline.close();
+    }
+}
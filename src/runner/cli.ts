@@ -0,0 +1,296 @@
+// Command-line parsing for the match runner.
+
+import { BotDifficulty } from "../bot/bot.js";
+import { Countries } from "../bot/logic/common/utils.js";
+import { MatchConfigFile, loadMatchConfigFile, validateAgents } from "./configFile.js";
+import {
+    AgentConfig,
+    AgentOptions,
+    DEFAULT_AGENT_OPTIONS,
+    DEFAULT_BASE_SETTINGS,
+    DEFAULT_MAX_GAME_LENGTH_SECONDS,
+    MatchConfig,
+    MatchConfigError,
+    OnlineConfig,
+    parseCountry,
+    parseDifficulty,
+    parsePersonality,
+    resolveTeams,
+} from "./matchConfig.js";
+
+export const CLI_USAGE = `Usage: npm start -- [options]
+
+Match options:
+  --config <file>              Load the match from a JSON file. Other options given on the command line override it.
+  --map <name>                 Map file name (default: ${DEFAULT_BASE_SETTINGS.mapName})
+  --speed <n>                  Game speed (default: ${DEFAULT_BASE_SETTINGS.gameSpeed})
+  --credits <n>                Starting credits (default: ${DEFAULT_BASE_SETTINGS.credits})
+  --unit-count <n>             Starting units (default: ${DEFAULT_BASE_SETTINGS.unitCount})
+  --[no-]superweapons          Enable superweapons (default: ${DEFAULT_BASE_SETTINGS.superWeapons})
+  --[no-]short-game            Short game rules (default: ${DEFAULT_BASE_SETTINGS.shortGame})
+  --[no-]mcv-repacks           Allow construction yards to repack (default: ${DEFAULT_BASE_SETTINGS.mcvRepacks})
+  --[no-]crates                Crates appear (default: ${DEFAULT_BASE_SETTINGS.cratesAppear})
+  --[no-]build-off-ally        Allow building off allied structures (default: ${DEFAULT_BASE_SETTINGS.buildOffAlly})
+  --max-game-length <seconds>  End the game after this long, or "none" (default: ${DEFAULT_MAX_GAME_LENGTH_SECONDS})
+  --replay-dir <dir>           Directory to save the replay to (default: current directory)
+  --map-cache-dir <dir>        Directory to save the bots' analysis of each map to, so it's only done once per map
+                               (default: none, the map is analysed every game)
+  --stalemate-window <seconds> Bots go all in after this long without anything destroyed, and the game ends as a
+                               stalemate if that doesn't help. 0 to disable. Applies to every agent.
+                               (default: ${DEFAULT_AGENT_OPTIONS.stalemateWindowSeconds})
+  --personality <name>         Strategy of the bots: balanced, rusher, turtle, boomer or tech-rusher. Applies to every
+                               agent. (default: ${DEFAULT_AGENT_OPTIONS.personality})
+  --[no-]share-intel           Allied bots share sightings, scouting, threat estimates and attack plans, and time their
+                               attacks together. Applies to every agent. (default: ${DEFAULT_AGENT_OPTIONS.shareIntel})
+  --profile                    Time the bots' subsystems and write a JSON and CSV summary for each bot next to the
+                               replay. Applies to every agent.
+  --profile-budget <ms>        AI updates slower than this are logged as overruns in the profile
+                               (default: ${DEFAULT_AGENT_OPTIONS.profileTickBudgetMs})
+
+Agents (repeatable, at least two for offline games, replaces the agents from --config):
+  --agent <name>:<country>[:<difficulty>[:<team>[:debug]]]
+      country     Country key or name, e.g. USA, GREAT_BRITAIN, Russians
+      difficulty  Dynamic, Easy, Medium or Hard (default: Hard)
+      team        Agents with the same team number are allied. Leave empty or "-" for no team.
+      debug       Enables debug mode for this bot
+  e.g. --agent Joe:GREAT_BRITAIN:Hard:1:debug --agent Bob:RUSSIA:Hard:2
+
+Online play:
+  --online                     Host an online game (also enabled by the ONLINE_MATCH environment variable).
+                               Server details are read from the environment, see .env.template.
+  --help                       Show this message
+`;
+
+export class CliError extends Error {}
+
+type ParsedAgent = Omit<AgentConfig, "allies"> & { team: number | null };
+
+const CLI_SOURCE = "command line";
+
+const parseNumber = (flag: string, value: string): number => {
+    const parsed = Number(value);
+    if (value.trim() === "" || isNaN(parsed)) {
+        throw new CliError(`${flag} expects a number, got "${value}"`);
+    }
+    return parsed;
+};
+
+export function parseAgentSpec(spec: string): ParsedAgent {
+    const [name, country, difficulty, team, debug, ...rest] = spec.split(":");
+    if (!name || !country || rest.length > 0) {
+        throw new CliError(`Invalid agent "${spec}", expected <name>:<country>[:<difficulty>[:<team>[:debug]]]`);
+    }
+    if (debug && debug !== "debug") {
+        throw new CliError(`Invalid agent "${spec}", the last field must be "debug" if present`);
+    }
+    try {
+        return {
+            name,
+            country: parseCountry(country),
+            difficulty: difficulty ? parseDifficulty(difficulty) : BotDifficulty.Hard,
+            team: !team || team === "-" ? null : parseNumber("team", team),
+            options: { ...DEFAULT_AGENT_OPTIONS, debug: debug === "debug" },
+        };
+    } catch (err) {
+        throw new CliError(`Invalid agent "${spec}": ${(err as Error).message}`);
+    }
+}
+
+const readOnlineConfig = (env: NodeJS.ProcessEnv): OnlineConfig => ({
+    serverUrl: env.SERVER_URL!,
+    clientUrl: env.CLIENT_URL!,
+    botPassword: env.ONLINE_BOT_PASSWORD ?? "default",
+    playerName: env.PLAYER_NAME ?? `Bob${String(Date.now()).substr(-6)}`,
+    playerCountry: Countries.FRANCE,
+});
+
+const getDefaultAgents = (online: boolean, env: NodeJS.ProcessEnv): ParsedAgent[] => {
+    // Bot names must be unique in online mode
+    const timestamp = String(Date.now()).substr(-6);
+    if (online) {
+        return [
+            {
+                name: env.ONLINE_BOT_NAME ?? `Joe${timestamp}`,
+                country: Countries.USA,
+                difficulty: BotDifficulty.Hard,
+                team: null,
+                options: DEFAULT_AGENT_OPTIONS,
+            },
+        ];
+    }
+    return [
+        {
+            name: `Joe${timestamp}`,
+            country: Countries.GREAT_BRITAIN,
+            difficulty: BotDifficulty.Hard,
+            team: null,
+            options: { ...DEFAULT_AGENT_OPTIONS, debug: true },
+        },
+        {
+            name: `Bob${timestamp}`,
+            country: Countries.RUSSIA,
+            difficulty: BotDifficulty.Hard,
+            team: null,
+            options: DEFAULT_AGENT_OPTIONS,
+        },
+    ];
+};
+
+// The settings that are switched on and off with `--<flag>` and `--no-<flag>`.
+type BooleanSettingKey = {
+    [K in keyof MatchConfig["settings"]]-?: NonNullable<MatchConfig["settings"][K]> extends boolean ? K : never;
+}[keyof MatchConfig["settings"]];
+
+/**
+ * Builds a match configuration from command-line arguments (without the leading `node` and script path).
+ * Returns null if the usage text was requested instead.
+ *
+ * Values are taken from the command line first, then the `--config` file (if any), then the defaults.
+ */
+export function parseCommandLine(
+    argv: string[],
+    env: NodeJS.ProcessEnv = process.env,
+    loadConfigFile: (path: string) => MatchConfigFile = loadMatchConfigFile,
+): MatchConfig | null {
+    const settings: Partial<MatchConfig["settings"]> = {};
+    const agents: ParsedAgent[] = [];
+    let maxGameLengthSeconds: number | null | undefined = undefined;
+    let replayDir: string | undefined = undefined;
+    let mapCacheDir: string | undefined = undefined;
+    // Options from the command line that apply to every agent.
+    const agentOptions: Partial<AgentOptions> = {};
+    let configFilePath: string | undefined = undefined;
+    let online = !!env.ONLINE_MATCH;
+
+    const booleanFlags: Record<string, BooleanSettingKey> = {
+        superweapons: "superWeapons",
+        "short-game": "shortGame",
+        "mcv-repacks": "mcvRepacks",
+        crates: "cratesAppear",
+        "build-off-ally": "buildOffAlly",
+    };
+
+    for (let i = 0; i < argv.length; ++i) {
+        const arg = argv[i];
+        const nextValue = () => {
+            const value = argv[++i];
+            if (value === undefined) {
+                throw new CliError(`${arg} expects a value`);
+            }
+            return value;
+        };
+        const flag = arg.startsWith("--") ? arg.substring(2) : "";
+        if (booleanFlags.hasOwnProperty(flag)) {
+            settings[booleanFlags[flag]] = true;
+            continue;
+        }
+        if (flag.startsWith("no-") && booleanFlags.hasOwnProperty(flag.substring(3))) {
+            settings[booleanFlags[flag.substring(3)]] = false;
+            continue;
+        }
+        switch (arg) {
+            case "--help":
+            case "-h":
+                return null;
+            case "--config":
+                configFilePath = nextValue();
+                break;
+            case "--map":
+                settings.mapName = nextValue();
+                break;
+            case "--speed":
+                settings.gameSpeed = parseNumber(arg, nextValue());
+                break;
+            case "--credits":
+                settings.credits = parseNumber(arg, nextValue());
+                break;
+            case "--unit-count":
+                settings.unitCount = parseNumber(arg, nextValue());
+                break;
+            case "--max-game-length": {
+                const value = nextValue();
+                maxGameLengthSeconds = value === "none" ? null : parseNumber(arg, value);
+                break;
+            }
+            case "--replay-dir":
+                replayDir = nextValue();
+                break;
+            case "--map-cache-dir":
+                mapCacheDir = nextValue();
+                break;
+            case "--stalemate-window":
+                agentOptions.stalemateWindowSeconds = parseNumber(arg, nextValue());
+                break;
+            case "--personality":
+                try {
+                    agentOptions.personality = parsePersonality(nextValue());
+                } catch (err) {
+                    throw new CliError(`${arg}: ${(err as Error).message}`);
+                }
+                break;
+            case "--share-intel":
+                agentOptions.shareIntel = true;
+                break;
+            case "--no-share-intel":
+                agentOptions.shareIntel = false;
+                break;
+            case "--profile":
+                agentOptions.profile = true;
+                break;
+            case "--profile-budget":
+                agentOptions.profileTickBudgetMs = parseNumber(arg, nextValue());
+                break;
+            case "--agent":
+                agents.push(parseAgentSpec(nextValue()));
+                break;
+            case "--online":
+                online = true;
+                break;
+            default:
+                throw new CliError(`Unknown argument "${arg}"`);
+        }
+    }
+
+    const configFile = configFilePath ? loadConfigFile(configFilePath) : null;
+
+    let selectedAgents: AgentConfig[];
+    if (agents.length > 0) {
+        selectedAgents = resolveTeams(agents).map(({ team, ...agent }) => agent);
+        const problems: string[] = [];
+        validateAgents(selectedAgents, problems);
+        if (problems.length > 0) {
+            throw new MatchConfigError(CLI_SOURCE, problems);
+        }
+    } else if (configFile) {
+        selectedAgents = configFile.agents;
+    } else {
+        selectedAgents = resolveTeams(getDefaultAgents(online, env)).map(({ team, ...agent }) => agent);
+    }
+    if (!online && selectedAgents.length < 2) {
+        throw new CliError(`Offline matches need at least two agents`);
+    }
+    if (Object.keys(agentOptions).length > 0) {
+        selectedAgents = selectedAgents.map((agent) => ({
+            ...agent,
+            options: { ...agent.options, ...agentOptions },
+        }));
+    }
+    if (online) {
+        // Only the host bot takes part in online games, the human is configured through the environment.
+        selectedAgents = selectedAgents.slice(0, 1).map((agent) => ({ ...agent, allies: [] }));
+    }
+
+    return {
+        settings: { ...DEFAULT_BASE_SETTINGS, ...configFile?.settings, ...settings },
+        agents: selectedAgents,
+        maxGameLengthSeconds:
+            maxGameLengthSeconds !== undefined
+                ? maxGameLengthSeconds
+                : configFile?.maxGameLengthSeconds !== undefined
+                ? configFile.maxGameLengthSeconds
+                : DEFAULT_MAX_GAME_LENGTH_SECONDS,
+        replayDir: replayDir ?? configFile?.replayDir,
+        mapCacheDir: mapCacheDir ?? configFile?.mapCacheDir,
+        online: online ? readOnlineConfig(env) : null,
+    };
+}
@@ -0,0 +1,177 @@
+import assert from "assert";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { BotDifficulty } from "../bot/bot.js";
+import { Countries } from "../bot/logic/common/utils.js";
+import { PersonalityName } from "../bot/logic/common/personality.js";
+import { loadMatchConfigFile, parseMatchConfigFile } from "./configFile.js";
+import { DEFAULT_AGENT_OPTIONS, MatchConfigError } from "./matchConfig.js";
+
+const getProblems = (run: () => unknown) => {
+    try {
+        run();
+    } catch (err) {
+        assert.ok(err instanceof MatchConfigError);
+        return err.problems;
+    }
+    assert.fail("expected a MatchConfigError");
+};
+
+describe("parseMatchConfigFile", () => {
+    const parseProblems = (input: unknown) => getProblems(() => parseMatchConfigFile(input, "match.json"));
+
+    it("reads the settings and agents, filling in the defaults", () => {
+        const config = parseMatchConfigFile(
+            {
+                settings: { mapName: "mp01t4.map", credits: 5000 },
+                agents: [
+                    { name: "Red", country: "Russians", difficulty: "medium", allies: ["Orange"] },
+                    { name: "Orange", country: "CUBA", allies: ["Red"], options: { personality: "Rusher" } },
+                    { name: "Blue", country: "french" },
+                ],
+                maxGameLengthSeconds: null,
+            },
+            "match.json",
+        );
+
+        assert.deepStrictEqual(config, {
+            settings: { mapName: "mp01t4.map", credits: 5000 },
+            agents: [
+                {
+                    name: "Red",
+                    country: Countries.RUSSIA,
+                    difficulty: BotDifficulty.Medium,
+                    allies: ["Orange"],
+                    options: DEFAULT_AGENT_OPTIONS,
+                },
+                {
+                    name: "Orange",
+                    country: Countries.CUBA,
+                    difficulty: BotDifficulty.Hard,
+                    allies: ["Red"],
+                    options: { ...DEFAULT_AGENT_OPTIONS, personality: PersonalityName.Rusher },
+                },
+                {
+                    name: "Blue",
+                    country: Countries.FRANCE,
+                    difficulty: BotDifficulty.Hard,
+                    allies: [],
+                    options: DEFAULT_AGENT_OPTIONS,
+                },
+            ],
+            maxGameLengthSeconds: null,
+        });
+    });
+
+    it("rejects duplicate bot names", () => {
+        assert.deepStrictEqual(
+            parseProblems({
+                agents: [
+                    { name: "Bot", country: "USA" },
+                    { name: "Bot", country: "RUSSIA" },
+                ],
+            }),
+            ['agents: duplicate bot name "Bot"'],
+        );
+    });
+
+    it("rejects alliances that don't form consistent teams", () => {
+        assert.deepStrictEqual(
+            parseProblems({
+                agents: [
+                    { name: "A", country: "USA", allies: ["B"] },
+                    { name: "B", country: "USA", allies: ["A", "C"] },
+                    { name: "C", country: "USA", allies: ["B"] },
+                    { name: "D", country: "RUSSIA", allies: ["E"] },
+                    { name: "E", country: "RUSSIA" },
+                ],
+            }),
+            [
+                'agents.A.allies: mismatched teams, "C" is allied with "B" but not with "A"',
+                'agents.C.allies: mismatched teams, "A" is allied with "B" but not with "C"',
+                'agents.D.allies: mismatched teams, "E" does not list "D" as an ally',
+            ],
+        );
+    });
+
+    it("rejects a match where everyone is on the same team", () => {
+        assert.deepStrictEqual(
+            parseProblems({
+                agents: [
+                    { name: "A", country: "USA", allies: ["B"] },
+                    { name: "B", country: "USA", allies: ["A"] },
+                ],
+            }),
+            ["agents: all agents are allied with each other, so there is nobody to fight"],
+        );
+    });
+
+    it("rejects unknown countries and difficulties", () => {
+        const problems = parseProblems({
+            agents: [
+                { name: "A", country: "Atlantis" },
+                { name: "B", country: "USA", difficulty: "Brutal" },
+            ],
+        });
+
+        assert.strictEqual(problems.length, 2);
+        assert.match(problems[0], /^agents\[0\]\.country: Unknown country "Atlantis"/);
+        assert.match(problems[1], /^agents\[1\]\.difficulty: Unknown difficulty "Brutal"/);
+    });
+
+    it("reports every problem at once", () => {
+        const input = {
+            settings: { credits: "lots", fog: true },
+            agents: [
+                { name: "A", country: 1, options: { debug: "yes" } },
+                { name: "", country: "USA", allies: "A", colour: "red" },
+            ],
+            maxGameLengthSeconds: -1,
+            replayDir: 5,
+        };
+
+        assert.deepStrictEqual(parseProblems(input), [
+            'settings.credits: expected a number, got "lots"',
+            "settings.fog: unknown field, expected one of: mapName, gameMode, shortGame, mcvRepacks, cratesAppear, superWeapons, gameSpeed, credits, unitCount, buildOffAlly",
+            "agents[0].country: expected a string",
+            'agents[0].options.debug: expected a boolean, got "yes"',
+            "agents[1].colour: unknown field, expected one of: name, country, difficulty, allies, options",
+            "agents[1].name: expected a non-empty string",
+            "agents[1].allies: expected an array of agent names",
+            "maxGameLengthSeconds: expected a positive number or null",
+            "replayDir: expected a string",
+        ]);
+        assert.throws(
+            () => parseMatchConfigFile(input, "match.json"),
+            /^Error: Invalid match configuration \(match\.json\):\n  - settings\.credits: expected a number/,
+        );
+    });
+
+    it("needs at least two agents", () => {
+        assert.deepStrictEqual(parseProblems({ agents: [{ name: "A", country: "USA" }] }), [
+            "agents: expected an array of at least two agents",
+        ]);
+        assert.deepStrictEqual(parseProblems([]), ["expected a JSON object at the top level"]);
+    });
+});
+
+describe("loadMatchConfigFile", () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), "match-config-"));
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("reports files that can't be read or aren't JSON", () => {
+        const path = join(dir, "match.json");
+        assert.match(getProblems(() => loadMatchConfigFile(path))[0], /^could not read file: /);
+
+        writeFileSync(path, "{ agents: [");
+        assert.match(getProblems(() => loadMatchConfigFile(path))[0], /^invalid JSON: /);
+    });
+});
@@ -0,0 +1,263 @@
+// Loading and validation of JSON match configuration files.
+
+import { readFileSync } from "fs";
+import { BotDifficulty } from "../bot/bot.js";
+import {
+    AgentConfig,
+    AgentOptions,
+    DEFAULT_AGENT_OPTIONS,
+    MatchConfig,
+    MatchConfigError,
+    parseCountry,
+    parseDifficulty,
+    parsePersonality,
+} from "./matchConfig.js";
+
+/**
+ * The parts of a `MatchConfig` that can be described in a file. Anything left out falls back to the defaults (or
+ * the command-line arguments).
+ */
+export type MatchConfigFile = {
+    settings: Partial<MatchConfig["settings"]>;
+    agents: AgentConfig[];
+    maxGameLengthSeconds?: number | null;
+    replayDir?: string;
+    mapCacheDir?: string;
+};
+
+export type FieldType = "string" | "number" | "boolean";
+
+export const SETTING_TYPES: Partial<Record<keyof MatchConfig["settings"], FieldType>> = {
+    mapName: "string",
+    gameMode: "number",
+    shortGame: "boolean",
+    mcvRepacks: "boolean",
+    cratesAppear: "boolean",
+    superWeapons: "boolean",
+    gameSpeed: "number",
+    credits: "number",
+    unitCount: "number",
+    buildOffAlly: "boolean",
+};
+
+const OPTION_TYPES: Record<keyof AgentOptions, FieldType> = {
+    debug: "boolean",
+    personality: "string",
+    shareIntel: "boolean",
+    stalemateWindowSeconds: "number",
+    profile: "boolean",
+    profileTickBudgetMs: "number",
+};
+
+const TOP_LEVEL_KEYS = ["settings", "agents", "maxGameLengthSeconds", "replayDir", "mapCacheDir"];
+const AGENT_KEYS = ["name", "country", "difficulty", "allies", "options"];
+
+export const isObject = (value: unknown): value is { [key: string]: unknown } =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Copies the fields of `input` that match `types`, recording a problem for every unknown or mistyped field.
+export function parseTypedFields<T>(
+    input: unknown,
+    types: { [key: string]: FieldType | undefined },
+    path: string,
+    problems: string[],
+): Partial<T> {
+    if (input === undefined) {
+        return {};
+    }
+    if (!isObject(input)) {
+        problems.push(`${path}: expected an object`);
+        return {};
+    }
+    const result: { [key: string]: unknown } = {};
+    Object.entries(input).forEach(([key, value]) => {
+        const expectedType = types[key];
+        if (!expectedType) {
+            problems.push(`${path}.${key}: unknown field, expected one of: ${Object.keys(types).join(", ")}`);
+        } else if (typeof value !== expectedType) {
+            problems.push(`${path}.${key}: expected a ${expectedType}, got ${JSON.stringify(value)}`);
+        } else {
+            result[key] = value;
+        }
+    });
+    return result as Partial<T>;
+}
+
+export function parseAgent(input: unknown, path: string, problems: string[]): AgentConfig | null {
+    if (!isObject(input)) {
+        problems.push(`${path}: expected an object`);
+        return null;
+    }
+    Object.keys(input)
+        .filter((key) => !AGENT_KEYS.includes(key))
+        .forEach((key) => problems.push(`${path}.${key}: unknown field, expected one of: ${AGENT_KEYS.join(", ")}`));
+
+    const { name, country, difficulty, allies, options } = input;
+    let valid = true;
+    const fail = (problem: string) => {
+        problems.push(problem);
+        valid = false;
+    };
+    if (typeof name !== "string" || name.length === 0) {
+        fail(`${path}.name: expected a non-empty string`);
+    }
+
+    let parsedCountry: AgentConfig["country"] | null = null;
+    if (typeof country !== "string") {
+        fail(`${path}.country: expected a string`);
+    } else {
+        try {
+            parsedCountry = parseCountry(country);
+        } catch (err) {
+            fail(`${path}.country: ${(err as Error).message}`);
+        }
+    }
+
+    let parsedDifficulty = BotDifficulty.Hard;
+    if (difficulty !== undefined) {
+        if (typeof difficulty !== "string") {
+            fail(`${path}.difficulty: expected a string`);
+        } else {
+            try {
+                parsedDifficulty = parseDifficulty(difficulty);
+            } catch (err) {
+                fail(`${path}.difficulty: ${(err as Error).message}`);
+            }
+        }
+    }
+
+    if (allies !== undefined && (!Array.isArray(allies) || allies.some((ally) => typeof ally !== "string"))) {
+        fail(`${path}.allies: expected an array of agent names`);
+    }
+
+    const parsedOptions = parseTypedFields<AgentOptions>(options, OPTION_TYPES, `${path}.options`, problems);
+    if (parsedOptions.personality !== undefined) {
+        try {
+            parsedOptions.personality = parsePersonality(parsedOptions.personality);
+        } catch (err) {
+            fail(`${path}.options.personality: ${(err as Error).message}`);
+        }
+    }
+
+    if (!valid || !parsedCountry) {
+        return null;
+    }
+    return {
+        name: name as string,
+        country: parsedCountry,
+        difficulty: parsedDifficulty,
+        allies: (allies as string[] | undefined) ?? [],
+        options: { ...DEFAULT_AGENT_OPTIONS, ...parsedOptions },
+    };
+}
+
+/**
+ * Checks that agent names are unique and that alliances form consistent teams: every alliance must be declared by
+ * both sides, and allies of allies must also be allies.
+ */
+export function validateAgents(agents: AgentConfig[], problems: string[]) {
+    const names = agents.map(({ name }) => name);
+    const seen = new Set<string>();
+    names.forEach((name) => {
+        if (seen.has(name)) {
+            problems.push(`agents: duplicate bot name "${name}"`);
+        }
+        seen.add(name);
+    });
+
+    const byName = new Map(agents.map((agent) => [agent.name, agent]));
+    agents.forEach(({ name, allies }) => {
+        allies.forEach((ally) => {
+            const allyConfig = byName.get(ally);
+            if (ally === name) {
+                problems.push(`agents.${name}.allies: an agent cannot ally with itself`);
+            } else if (!allyConfig) {
+                problems.push(`agents.${name}.allies: unknown agent "${ally}"`);
+            } else if (!allyConfig.allies.includes(name)) {
+                problems.push(`agents.${name}.allies: mismatched teams, "${ally}" does not list "${name}" as an ally`);
+            } else {
+                allyConfig.allies
+                    .filter((otherAlly) => otherAlly !== name && !allies.includes(otherAlly))
+                    .forEach((otherAlly) =>
+                        problems.push(
+                            `agents.${name}.allies: mismatched teams, "${otherAlly}" is allied with "${ally}" but not with "${name}"`,
+                        ),
+                    );
+            }
+        });
+    });
+
+    if (agents.length > 1 && agents.every(({ name, allies }) => allies.length === agents.length - 1)) {
+        problems.push(`agents: all agents are allied with each other, so there is nobody to fight`);
+    }
+}
+
+/**
+ * Validates a parsed JSON document against the match configuration format.
+ *
+ * @param source Where the document came from, used in error messages.
+ * @throws MatchConfigError listing every problem found.
+ */
+export function parseMatchConfigFile(input: unknown, source: string): MatchConfigFile {
+    const problems: string[] = [];
+    if (!isObject(input)) {
+        throw new MatchConfigError(source, [`expected a JSON object at the top level`]);
+    }
+    Object.keys(input)
+        .filter((key) => !TOP_LEVEL_KEYS.includes(key))
+        .forEach((key) => problems.push(`${key}: unknown field, expected one of: ${TOP_LEVEL_KEYS.join(", ")}`));
+
+    const settings = parseTypedFields<MatchConfig["settings"]>(input.settings, SETTING_TYPES, "settings", problems);
+
+    let agents: AgentConfig[] = [];
+    if (!Array.isArray(input.agents) || input.agents.length < 2) {
+        problems.push(`agents: expected an array of at least two agents`);
+    } else {
+        agents = input.agents
+            .map((agent, idx) => parseAgent(agent, `agents[${idx}]`, problems))
+            .filter((agent): agent is AgentConfig => agent !== null);
+        validateAgents(agents, problems);
+    }
+
+    const { maxGameLengthSeconds, replayDir, mapCacheDir } = input;
+    if (
+        maxGameLengthSeconds !== undefined &&
+        maxGameLengthSeconds !== null &&
+        (typeof maxGameLengthSeconds !== "number" || maxGameLengthSeconds <= 0)
+    ) {
+        problems.push(`maxGameLengthSeconds: expected a positive number or null`);
+    }
+    if (replayDir !== undefined && typeof replayDir !== "string") {
+        problems.push(`replayDir: expected a string`);
+    }
+    if (mapCacheDir !== undefined && typeof mapCacheDir !== "string") {
+        problems.push(`mapCacheDir: expected a string`);
+    }
+
+    if (problems.length > 0) {
+        throw new MatchConfigError(source, problems);
+    }
+    return {
+        settings,
+        agents,
+        ...(maxGameLengthSeconds !== undefined && { maxGameLengthSeconds: maxGameLengthSeconds as number | null }),
+        ...(replayDir !== undefined && { replayDir: replayDir as string }),
+        ...(mapCacheDir !== undefined && { mapCacheDir: mapCacheDir as string }),
+    };
+}
+
+export function loadMatchConfigFile(path: string): MatchConfigFile {
+    let contents: string;
+    try {
+        contents = readFileSync(path, "utf-8");
+    } catch (err) {
+        throw new MatchConfigError(path, [`could not read file: ${(err as Error).message}`]);
+    }
+    let json: unknown;
+    try {
+        json = JSON.parse(contents);
+    } catch (err) {
+        throw new MatchConfigError(path, [`invalid JSON: ${(err as Error).message}`]);
+    }
+    return parseMatchConfigFile(json, path);
+}
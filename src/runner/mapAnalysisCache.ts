@@ -0,0 +1,31 @@
+import { mkdirSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import { MapAnalysisStore } from "../bot/logic/map/mapAnalysis.js";
+
+/**
+ * Keeps the analysis of a map in a JSON file named after the map, so that it can be shared by every bot in a match
+ * and reused by later matches on the same map.
+ */
+export class FileMapAnalysisStore implements MapAnalysisStore {
+    constructor(
+        private cacheDir: string,
+        private mapName: string,
+    ) {}
+
+    private get path() {
+        return join(this.cacheDir, `${this.mapName}.json`);
+    }
+
+    load(): string | null {
+        try {
+            return readFileSync(this.path, "utf-8");
+        } catch (err) {
+            return null;
+        }
+    }
+
+    save(data: string) {
+        mkdirSync(this.cacheDir, { recursive: true });
+        writeFileSync(this.path, data);
+    }
+}
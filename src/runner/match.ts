@@ -0,0 +1,154 @@
+import { Agent, Bot, cdapi } from "@chronodivide/game-api";
+import { writeFileSync } from "fs";
+import { BotMatchStats, SupalosaBot } from "../bot/bot.js";
+import { profileReportToCsv } from "../bot/logic/common/profiler.js";
+import { MatchConfig, createOfflineOpts, createOnlineOpts } from "./matchConfig.js";
+import { ConsoleChatRelay } from "./chatRelay.js";
+
+// Number of ticks per second at the base speed.
+const NATURAL_TICK_RATE = 15;
+
+export enum MatchOutcome {
+    // A single team is left standing.
+    Victory = "victory",
+    // The game hit the maximum game length.
+    Timeout = "timeout",
+    // Every bot gave up on anything being destroyed again.
+    Stalemate = "stalemate",
+    // The game ended without a single winning team (e.g. everyone was defeated).
+    Draw = "draw",
+}
+
+export type MatchResult = {
+    mapName: string;
+    players: { name: string; country: string; defeated: boolean }[];
+    // Names of the players on the winning team, empty unless the outcome is a victory.
+    winners: string[];
+    outcome: MatchOutcome;
+    durationTicks: number;
+    // Game time in seconds at the base game speed.
+    durationSeconds: number;
+    replayPath: string | undefined;
+    // The structured match report, written next to the replay.
+    reportPath: string | undefined;
+    // JSON and CSV timing summaries of each bot that had profiling turned on.
+    profilePaths: string[];
+};
+
+/**
+ * Everything we know about a finished match, as written to the report file.
+ */
+export type MatchReport = Omit<MatchResult, "reportPath" | "profilePaths"> & {
+    bots: BotMatchStats[];
+};
+
+// The reports share the replay's file name, so they are easy to match up.
+const getReportPath = (replayPath: string) => replayPath.replace(/\.rpl$/i, "") + ".json";
+
+const getProfilePath = (replayPath: string, botName: string, extension: string) =>
+    `${replayPath.replace(/\.rpl$/i, "")}.profile-${botName.replace(/[^\w-]/g, "_")}.${extension}`;
+
+/**
+ * Writes the timing summary of each profiled bot as both JSON (with the budget overruns) and CSV.
+ */
+function writeProfiles(bots: SupalosaBot[], replayPath: string): string[] {
+    return bots.flatMap((bot) => {
+        const profile = bot.getProfileReport();
+        if (!profile) {
+            return [];
+        }
+        const jsonPath = getProfilePath(replayPath, bot.name, "json");
+        const csvPath = getProfilePath(replayPath, bot.name, "csv");
+        writeFileSync(jsonPath, JSON.stringify(profile, null, 4));
+        writeFileSync(csvPath, profileReportToCsv(profile));
+        return [jsonPath, csvPath];
+    });
+}
+
+/**
+ * Works out which team (if any) won, using the alliances from the config.
+ */
+function determineWinners(config: MatchConfig, undefeatedPlayers: string[]): string[] {
+    if (undefeatedPlayers.length === 0) {
+        return [];
+    }
+    const [first, ...rest] = undefeatedPlayers;
+    const firstAllies = config.agents.find(({ name }) => name === first)?.allies ?? [];
+    return rest.every((name) => firstAllies.includes(name)) ? undefeatedPlayers : [];
+}
+
+/**
+ * Creates a game from the given config and plays it until it finishes or times out.
+ * Must only be called after `cdapi.init()`.
+ *
+ * @param relayChat Pass lines typed into the terminal on to the bots as chat, see `ConsoleChatRelay`. In online
+ * matches they come from the human player unless they name someone else.
+ */
+export async function runMatch(config: MatchConfig, relayChat: boolean = false): Promise<MatchResult> {
+    const { maxGameLengthSeconds, replayDir } = config;
+    const opts = config.online ? createOnlineOpts(config) : createOfflineOpts(config);
+    const agents: (Bot | Agent)[] = opts.agents;
+    const bots = agents.filter((agent): agent is SupalosaBot => agent instanceof SupalosaBot);
+    const game = await cdapi.createGame(opts);
+    const chatRelay = relayChat
+        ? new ConsoleChatRelay(
+              bots,
+              agents.map(({ name }) => name),
+              config.online?.playerName ?? null,
+          )
+        : null;
+
+    let forcedOutcome: MatchOutcome | null = null;
+    while (!game.isFinished()) {
+        if (!!maxGameLengthSeconds && game.getCurrentTick() / NATURAL_TICK_RATE > maxGameLengthSeconds) {
+            console.log(`Game forced to end due to timeout`);
+            forcedOutcome = MatchOutcome.Timeout;
+            break;
+        }
+        if (bots.length > 0 && bots.every((bot) => bot.isStalemated())) {
+            console.log(`Game forced to end due to stalemate`);
+            forcedOutcome = MatchOutcome.Stalemate;
+            break;
+        }
+        chatRelay?.flush();
+        await game.update();
+    }
+    chatRelay?.close();
+
+    const players = game.getPlayerStats().map(({ name, country, defeated }) => ({
+        name,
+        country: country.name,
+        defeated,
+    }));
+    const winners = forcedOutcome
+        ? []
+        : determineWinners(
+              config,
+              players.filter(({ defeated }) => !defeated).map(({ name }) => name),
+          );
+    const durationTicks = game.getCurrentTick();
+
+    const replayPath = game.saveReplay(replayDir);
+    game.dispose();
+
+    const report: MatchReport = {
+        mapName: config.settings.mapName,
+        players,
+        winners,
+        outcome: forcedOutcome ?? (winners.length > 0 ? MatchOutcome.Victory : MatchOutcome.Draw),
+        durationTicks,
+        durationSeconds: Math.round(durationTicks / NATURAL_TICK_RATE),
+        replayPath,
+        bots: bots.map((bot) => bot.getMatchStats()),
+    };
+    let reportPath: string | undefined = undefined;
+    let profilePaths: string[] = [];
+    if (replayPath) {
+        reportPath = getReportPath(replayPath);
+        writeFileSync(reportPath, JSON.stringify(report, null, 4));
+        profilePaths = writeProfiles(bots, replayPath);
+    }
+
+    const { bots: _, ...result } = report;
+    return { ...result, reportPath, profilePaths };
+}
@@ -0,0 +1,107 @@
+import assert from "assert";
+import { BotDifficulty } from "../bot/bot.js";
+import { Countries } from "../bot/logic/common/utils.js";
+import { PersonalityName } from "../bot/logic/common/personality.js";
+import {
+    AgentConfig,
+    DEFAULT_AGENT_OPTIONS,
+    MatchConfigError,
+    createTeamChannels,
+    parseCountry,
+    parseDifficulty,
+    parsePersonality,
+    resolveTeams,
+} from "./matchConfig.js";
+
+describe("parseCountry", () => {
+    it("accepts the enum key or the in-game name, ignoring case", () => {
+        assert.strictEqual(parseCountry("GREAT_BRITAIN"), Countries.GREAT_BRITAIN);
+        assert.strictEqual(parseCountry(" british "), Countries.GREAT_BRITAIN);
+        assert.strictEqual(parseCountry("Russians"), Countries.RUSSIA);
+    });
+
+    it("rejects unknown countries", () => {
+        assert.throws(() => parseCountry("Atlantis"), /Unknown country "Atlantis", expected one of: USA, KOREA/);
+    });
+});
+
+describe("parseDifficulty", () => {
+    it("accepts the difficulty names, ignoring case", () => {
+        assert.strictEqual(parseDifficulty("hard"), BotDifficulty.Hard);
+        assert.strictEqual(parseDifficulty("Dynamic"), BotDifficulty.Dynamic);
+    });
+
+    it("rejects unknown difficulties, including the enum values", () => {
+        assert.throws(() => parseDifficulty("Brutal"), /Unknown difficulty "Brutal"/);
+        assert.throws(() => parseDifficulty("3"), /Unknown difficulty "3"/);
+    });
+});
+
+describe("parsePersonality", () => {
+    it("accepts the personality names, ignoring case", () => {
+        assert.strictEqual(parsePersonality("Tech-Rusher"), PersonalityName.TechRusher);
+    });
+
+    it("rejects unknown personalities", () => {
+        assert.throws(() => parsePersonality("coward"), /Unknown personality "coward"/);
+    });
+});
+
+describe("resolveTeams", () => {
+    it("allies agents on the same team and leaves the others alone", () => {
+        const agents = resolveTeams([
+            { name: "A", team: 1 },
+            { name: "B", team: 1 },
+            { name: "C", team: 2 },
+            { name: "D", team: null },
+        ]);
+
+        assert.deepStrictEqual(
+            agents.map(({ name, allies }) => [name, allies]),
+            [
+                ["A", ["B"]],
+                ["B", ["A"]],
+                ["C", []],
+                ["D", []],
+            ],
+        );
+    });
+});
+
+describe("createTeamChannels", () => {
+    const agent = (name: string, allies: string[], shareIntel = true): AgentConfig => ({
+        name,
+        country: Countries.USA,
+        difficulty: BotDifficulty.Hard,
+        allies,
+        options: { ...DEFAULT_AGENT_OPTIONS, shareIntel },
+    });
+
+    it("gives each team that shares intel a channel of its own", () => {
+        const channels = createTeamChannels([
+            agent("A", ["B"]),
+            agent("B", ["A"]),
+            agent("C", ["D"]),
+            agent("D", ["C"]),
+            agent("E", []),
+            agent("F", ["G"], false),
+            agent("G", ["F"], false),
+        ]);
+
+        assert.deepStrictEqual([...channels.keys()], ["A", "B", "C", "D"]);
+        assert.strictEqual(channels.get("A"), channels.get("B"));
+        assert.strictEqual(channels.get("C"), channels.get("D"));
+        assert.notStrictEqual(channels.get("A"), channels.get("C"));
+    });
+});
+
+describe("MatchConfigError", () => {
+    it("lists every problem in its message", () => {
+        const error = new MatchConfigError("match.json", ["first problem", "second problem"]);
+
+        assert.strictEqual(
+            error.message,
+            "Invalid match configuration (match.json):\n  - first problem\n  - second problem",
+        );
+    });
+});
@@ -0,0 +1,253 @@
+import { Agent, Bot, CreateBaseOpts, CreateOfflineOpts, CreateOnlineOpts, cdapi } from "@chronodivide/game-api";
+import {
+    BotDifficulty,
+    BotMatchSettings,
+    BotOptions,
+    DEFAULT_BOT_OPTIONS,
+    DEFAULT_MATCH_SETTINGS,
+    SupalosaBot,
+} from "../bot/bot.js";
+import { Countries } from "../bot/logic/common/utils.js";
+import { PersonalityName } from "../bot/logic/common/personality.js";
+import { InProcessTeamChannel, TeamChannel } from "../bot/logic/team/teamChannel.js";
+import { MapAnalysisStore } from "../bot/logic/map/mapAnalysis.js";
+import { FileMapAnalysisStore } from "./mapAnalysisCache.js";
+
+/**
+ * Options that change how a bot behaves, as opposed to who it is.
+ */
+export type AgentOptions = BotOptions & {
+    debug: boolean;
+};
+
+export const DEFAULT_AGENT_OPTIONS: AgentOptions = {
+    ...DEFAULT_BOT_OPTIONS,
+    debug: false,
+};
+
+/**
+ * Settings for a single participant in a match.
+ */
+export type AgentConfig = {
+    name: string;
+    country: Countries;
+    difficulty: BotDifficulty;
+    // Names of the other agents this agent should ally with.
+    allies: string[];
+    options: AgentOptions;
+};
+
+export type OnlineConfig = {
+    serverUrl: string;
+    clientUrl: string;
+    botPassword: string;
+    // Name of the human player that will join the bot.
+    playerName: string;
+    playerCountry: Countries;
+};
+
+/**
+ * Everything needed to create (and run) a match, independent of where it was configured from.
+ */
+export type MatchConfig = {
+    // `gameMode` is resolved from the map once the game API has been initialised.
+    settings: Omit<CreateBaseOpts, "gameMode"> & { gameMode?: number };
+    agents: AgentConfig[];
+    // The game will automatically end after this time. This is to handle stalemates.
+    maxGameLengthSeconds: number | null;
+    replayDir: string | undefined;
+    // Directory to keep the analysis of each map in between matches, so that it's only done once per map.
+    mapCacheDir: string | undefined;
+    online: OnlineConfig | null;
+};
+
+export const DEFAULT_BASE_SETTINGS: MatchConfig["settings"] = {
+    buildOffAlly: false,
+    cratesAppear: false,
+    credits: 10000,
+    gameSpeed: 6,
+    mapName: "mp19t4.map",
+    mcvRepacks: true,
+    shortGame: true,
+    superWeapons: false,
+    unitCount: 0,
+};
+
+export const DEFAULT_MAX_GAME_LENGTH_SECONDS = 7200; // 7200 = two hours
+
+/**
+ * Thrown when a match configuration is invalid. Lists every problem found rather than just the first.
+ */
+export class MatchConfigError extends Error {
+    constructor(
+        public readonly source: string,
+        public readonly problems: string[],
+    ) {
+        super(`Invalid match configuration (${source}):\n${problems.map((problem) => `  - ${problem}`).join("\n")}`);
+    }
+}
+
+// Accepts either the enum key (e.g. `GREAT_BRITAIN`) or the in-game country name (e.g. `British`), ignoring case.
+export function parseCountry(value: string): Countries {
+    const normalised = value.trim().toLowerCase();
+    const match = Object.entries(Countries).find(
+        ([key, countryName]) => key.toLowerCase() === normalised || countryName.toLowerCase() === normalised,
+    );
+    if (!match) {
+        throw new Error(`Unknown country "${value}", expected one of: ${Object.keys(Countries).join(", ")}`);
+    }
+    return match[1];
+}
+
+export function parseDifficulty(value: string): BotDifficulty {
+    const normalised = value.trim().toLowerCase();
+    const match = Object.keys(BotDifficulty)
+        .filter((key) => isNaN(Number(key)))
+        .find((key) => key.toLowerCase() === normalised);
+    if (!match) {
+        throw new Error(`Unknown difficulty "${value}", expected one of: Dynamic, Easy, Medium, Hard`);
+    }
+    return BotDifficulty[match as keyof typeof BotDifficulty];
+}
+
+export function parsePersonality(value: string): PersonalityName {
+    const names: string[] = Object.values(PersonalityName);
+    const normalised = value.trim().toLowerCase();
+    if (!names.includes(normalised)) {
+        throw new Error(`Unknown personality "${value}", expected one of: ${names.join(", ")}`);
+    }
+    return normalised as PersonalityName;
+}
+
+/**
+ * Converts team numbers into the alliance lists used by the bots. Agents without a team play for themselves.
+ */
+export function resolveTeams<T extends { name: string; team: number | null }>(
+    agents: T[],
+): (T & { allies: string[] })[] {
+    return agents.map((agent) => ({
+        ...agent,
+        allies:
+            agent.team === null
+                ? []
+                : agents
+                      .filter((other) => other.team === agent.team && other.name !== agent.name)
+                      .map((other) => other.name),
+    }));
+}
+
+export function createAgent(
+    agentConfig: AgentConfig,
+    teamChannel: TeamChannel | null = null,
+    mapAnalysisStore: MapAnalysisStore | null = null,
+    matchSettings: BotMatchSettings = DEFAULT_MATCH_SETTINGS,
+): SupalosaBot {
+    const {
+        name,
+        country,
+        difficulty,
+        allies,
+        options: { debug, ...botOptions },
+    } = agentConfig;
+    return new SupalosaBot(
+        name,
+        country,
+        difficulty,
+        allies,
+        botOptions,
+        teamChannel,
+        mapAnalysisStore,
+        matchSettings,
+    ).setDebugMode(debug);
+}
+
+/**
+ * Gives every team of agents that share intel a channel of its own, keyed by agent name. Agents without allies or that
+ * don't share intel are left out.
+ */
+export function createTeamChannels(agents: AgentConfig[]): Map<string, TeamChannel> {
+    const channels = new Map<string, TeamChannel>();
+    agents
+        .filter(({ allies, options }) => options.shareIntel && allies.length > 0)
+        .forEach(({ name, allies }) => {
+            const allyChannel = allies.map((ally) => channels.get(ally)).find((channel) => !!channel);
+            channels.set(name, allyChannel ?? new InProcessTeamChannel());
+        });
+    return channels;
+}
+
+const getAvailableGameModes = (mapName: string): number[] => {
+    try {
+        return cdapi.getAvailableGameModes(mapName);
+    } catch (err) {
+        return [];
+    }
+};
+
+/**
+ * Checks that the configured map exists and supports the configured game mode.
+ * Must only be called after `cdapi.init()`, as the game modes are looked up from the map.
+ */
+export function validateMap(config: MatchConfig, source: string) {
+    const { mapName, gameMode } = config.settings;
+    const gameModes = getAvailableGameModes(mapName);
+    if (gameModes.length === 0) {
+        throw new MatchConfigError(source, [`settings.mapName: map "${mapName}" is not available`]);
+    }
+    if (gameMode !== undefined && !gameModes.includes(gameMode)) {
+        throw new MatchConfigError(source, [
+            `settings.gameMode: game mode ${gameMode} is not available on "${mapName}" (available: ${gameModes.join(
+                ", ",
+            )})`,
+        ]);
+    }
+}
+
+// Must only be called after `cdapi.init()`, as the game mode is looked up from the map.
+export function createBaseOpts(config: MatchConfig): CreateBaseOpts {
+    const { settings } = config;
+    const gameMode = settings.gameMode ?? getAvailableGameModes(settings.mapName)[0];
+    if (gameMode === undefined) {
+        throw new Error(`Map ${settings.mapName} has no available game modes`);
+    }
+    return { ...settings, gameMode };
+}
+
+const createMapAnalysisStore = (config: MatchConfig): MapAnalysisStore | null =>
+    config.mapCacheDir ? new FileMapAnalysisStore(config.mapCacheDir, config.settings.mapName) : null;
+
+const getBotMatchSettings = ({ settings: { buildOffAlly } }: MatchConfig): BotMatchSettings => ({ buildOffAlly });
+
+export function createOfflineOpts(config: MatchConfig): CreateOfflineOpts {
+    const teamChannels = createTeamChannels(config.agents);
+    const mapAnalysisStore = createMapAnalysisStore(config);
+    const matchSettings = getBotMatchSettings(config);
+    return {
+        ...createBaseOpts(config),
+        online: false,
+        agents: config.agents.map((agent) =>
+            createAgent(agent, teamChannels.get(agent.name), mapAnalysisStore, matchSettings),
+        ),
+    };
+}
+
+export function createOnlineOpts(config: MatchConfig): CreateOnlineOpts {
+    if (!config.online) {
+        throw new Error(`Online settings are missing`);
+    }
+    if (config.agents.length !== 1) {
+        throw new Error(`Online matches support exactly one bot, but ${config.agents.length} were configured`);
+    }
+    const { serverUrl, clientUrl, botPassword, playerName, playerCountry } = config.online;
+    return {
+        ...createBaseOpts(config),
+        online: true,
+        serverUrl,
+        clientUrl,
+        botPassword,
+        agents: [
+            createAgent(config.agents[0], null, createMapAnalysisStore(config), getBotMatchSettings(config)),
+            { name: playerName, country: playerCountry },
+        ] as [Bot, ...Agent[]],
+    };
+}
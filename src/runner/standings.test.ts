@@ -0,0 +1,103 @@
+import assert from "assert";
+import { MatchOutcome } from "./match.js";
+import { GameRecord, INITIAL_ELO, computeReport, updateElo } from "./standings.js";
+
+describe("updateElo", () => {
+    it("moves both ratings by the same amount in opposite directions", () => {
+        assert.deepStrictEqual(updateElo(INITIAL_ELO, INITIAL_ELO, 1), [1516, 1484]);
+        assert.deepStrictEqual(updateElo(INITIAL_ELO, INITIAL_ELO, 0), [1484, 1516]);
+        assert.deepStrictEqual(updateElo(INITIAL_ELO, INITIAL_ELO, 0.5), [INITIAL_ELO, INITIAL_ELO]);
+
+        [0, 0.5, 1].forEach((score) => {
+            const [a, b] = updateElo(1700, 1400, score);
+            assert.ok(Math.abs(a + b - 3100) < 1e-9);
+        });
+    });
+
+    it("rewards upsets more than expected wins", () => {
+        const [favourite] = updateElo(1700, 1400, 1);
+        const [underdog] = updateElo(1400, 1700, 1);
+
+        assert.ok(favourite - 1700 < underdog - 1400);
+        assert.ok(updateElo(1700, 1400, 0.5)[0] < 1700);
+    });
+});
+
+describe("computeReport", () => {
+    const game = (players: [string, string], winner: string | null, outcome: MatchOutcome): GameRecord => ({
+        mapName: "mp01t4.map",
+        players,
+        winner,
+        outcome,
+        durationSeconds: 600,
+        replayPath: undefined,
+    });
+
+    it("counts timeouts, stalemates and draws as half a win", () => {
+        const { standings } = computeReport(
+            ["A", "B", "C", "D"],
+            [
+                game(["A", "B"], "A", MatchOutcome.Victory),
+                game(["C", "A"], null, MatchOutcome.Timeout),
+                game(["B", "C"], null, MatchOutcome.Stalemate),
+                game(["B", "C"], null, MatchOutcome.Draw),
+            ],
+        );
+        const byName = new Map(standings.map((standing) => [standing.name, standing]));
+
+        assert.deepStrictEqual(
+            ["A", "B", "C", "D"].map((name) => {
+                const { games, wins, losses, draws, timeouts, stalemates, winRate } = byName.get(name)!;
+                return [name, games, wins, losses, draws, timeouts, stalemates, winRate];
+            }),
+            [
+                ["A", 2, 1, 0, 0, 1, 0, 0.75],
+                ["B", 3, 0, 1, 1, 0, 1, 1 / 3],
+                ["C", 3, 0, 0, 1, 1, 1, 0.5],
+                ["D", 0, 0, 0, 0, 0, 0, 0],
+            ],
+        );
+    });
+
+    it("ranks bots by Elo, keeping the total rating the same", () => {
+        const { standings } = computeReport(
+            ["A", "B", "C"],
+            [
+                game(["A", "B"], "A", MatchOutcome.Victory),
+                game(["B", "C"], "B", MatchOutcome.Victory),
+                game(["A", "C"], "A", MatchOutcome.Victory),
+            ],
+        );
+
+        assert.deepStrictEqual(
+            standings.map(({ name }) => name),
+            ["A", "B", "C"],
+        );
+        assert.ok(Math.abs(standings.reduce((total, { elo }) => total + elo, 0) - 3 * INITIAL_ELO) <= 1);
+    });
+
+    it("keeps the head-to-head record of every pair of bots from both sides", () => {
+        const { headToHead } = computeReport(
+            ["A", "B", "C"],
+            [
+                game(["A", "B"], "A", MatchOutcome.Victory),
+                game(["B", "A"], "A", MatchOutcome.Victory),
+                game(["B", "A"], "B", MatchOutcome.Victory),
+                game(["C", "A"], null, MatchOutcome.Timeout),
+            ],
+        );
+
+        assert.deepStrictEqual(headToHead, {
+            A: { B: { wins: 2, losses: 1, draws: 0 }, C: { wins: 0, losses: 0, draws: 1 } },
+            B: { A: { wins: 1, losses: 2, draws: 0 }, C: { wins: 0, losses: 0, draws: 0 } },
+            C: { A: { wins: 0, losses: 0, draws: 1 }, B: { wins: 0, losses: 0, draws: 0 } },
+        });
+    });
+
+    it("rejects games with bots that aren't in the tournament", () => {
+        assert.throws(
+            () => computeReport(["A", "B"], [game(["A", "Z"], "A", MatchOutcome.Victory)]),
+            /Game between A and Z includes an unknown bot/,
+        );
+    });
+});
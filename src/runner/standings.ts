@@ -0,0 +1,196 @@
+// Elo ratings and win-rate tables for tournaments.
+
+import { MatchOutcome } from "./match.js";
+
+export const INITIAL_ELO = 1500;
+
+// How far a single game can move a rating.
+const ELO_K_FACTOR = 32;
+
+/**
+ * The outcome of a single 1v1 tournament game.
+ */
+export type GameRecord = {
+    mapName: string;
+    // Bot names, in the order they were added to the game.
+    players: [string, string];
+    // Null for timeouts and draws.
+    winner: string | null;
+    outcome: MatchOutcome;
+    durationSeconds: number;
+    replayPath: string | undefined;
+};
+
+export type Standing = {
+    name: string;
+    elo: number;
+    games: number;
+    wins: number;
+    losses: number;
+    draws: number;
+    timeouts: number;
+    stalemates: number;
+    // Fraction of games won, where timeouts, stalemates and draws count as half a win.
+    winRate: number;
+};
+
+export type HeadToHead = { [name: string]: { [opponent: string]: { wins: number; losses: number; draws: number } } };
+
+export type TournamentReport = {
+    standings: Standing[];
+    headToHead: HeadToHead;
+    games: GameRecord[];
+};
+
+const expectedScore = (rating: number, opponentRating: number) =>
+    1 / (1 + Math.pow(10, (opponentRating - rating) / 400));
+
+/**
+ * Returns the new ratings of both players after a game.
+ *
+ * @param score The score of the first player: 1 for a win, 0.5 for a draw and 0 for a loss.
+ */
+export function updateElo(ratingA: number, ratingB: number, score: number): [number, number] {
+    const delta = ELO_K_FACTOR * (score - expectedScore(ratingA, ratingB));
+    return [ratingA + delta, ratingB - delta];
+}
+
+/**
+ * Replays the games in order to compute ratings, win rates and the head-to-head record of every bot.
+ */
+export function computeReport(botNames: string[], games: GameRecord[]): TournamentReport {
+    const standings = new Map<string, Standing>(
+        botNames.map((name) => [
+            name,
+            {
+                name,
+                elo: INITIAL_ELO,
+                games: 0,
+                wins: 0,
+                losses: 0,
+                draws: 0,
+                timeouts: 0,
+                stalemates: 0,
+                winRate: 0,
+            },
+        ]),
+    );
+    const headToHead: HeadToHead = {};
+    botNames.forEach((name) => {
+        headToHead[name] = {};
+        botNames
+            .filter((opponent) => opponent !== name)
+            .forEach((opponent) => (headToHead[name][opponent] = { wins: 0, losses: 0, draws: 0 }));
+    });
+
+    games.forEach(({ players: [nameA, nameB], winner, outcome }) => {
+        const a = standings.get(nameA);
+        const b = standings.get(nameB);
+        if (!a || !b) {
+            throw new Error(`Game between ${nameA} and ${nameB} includes an unknown bot`);
+        }
+        const scoreA = winner === nameA ? 1 : winner === nameB ? 0 : 0.5;
+        [a.elo, b.elo] = updateElo(a.elo, b.elo, scoreA);
+        [a, b].forEach((standing) => {
+            standing.games++;
+            const score = standing === a ? scoreA : 1 - scoreA;
+            if (score === 1) {
+                standing.wins++;
+            } else if (score === 0) {
+                standing.losses++;
+            } else if (outcome === MatchOutcome.Timeout) {
+                standing.timeouts++;
+            } else if (outcome === MatchOutcome.Stalemate) {
+                standing.stalemates++;
+            } else {
+                standing.draws++;
+            }
+        });
+        const recordA = headToHead[nameA][nameB];
+        const recordB = headToHead[nameB][nameA];
+        if (scoreA === 1) {
+            recordA.wins++;
+            recordB.losses++;
+        } else if (scoreA === 0) {
+            recordA.losses++;
+            recordB.wins++;
+        } else {
+            recordA.draws++;
+            recordB.draws++;
+        }
+    });
+
+    const sortedStandings = [...standings.values()]
+        .map((standing) => ({
+            ...standing,
+            elo: Math.round(standing.elo),
+            winRate:
+                standing.games > 0
+                    ? (standing.wins + (standing.draws + standing.timeouts + standing.stalemates) / 2) / standing.games
+                    : 0,
+        }))
+        .sort((a, b) => b.elo - a.elo || b.winRate - a.winRate);
+
+    return { standings: sortedStandings, headToHead, games };
+}
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const formatDuration = (seconds: number) =>
+    `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, "0")}`;
+
+const formatRow = (cells: (string | number)[]) => `| ${cells.join(" | ")} |`;
+
+export function renderMarkdownReport(report: TournamentReport): string {
+    const { standings, headToHead, games } = report;
+    const names = standings.map(({ name }) => name);
+    const lines: string[] = [];
+
+    lines.push("# Tournament results", "");
+    lines.push(
+        formatRow(["Rank", "Bot", "Elo", "Games", "Wins", "Losses", "Draws", "Timeouts", "Stalemates", "Win rate"]),
+    );
+    lines.push(formatRow(Array(10).fill("---")));
+    standings.forEach(({ name, elo, games, wins, losses, draws, timeouts, stalemates, winRate }, idx) =>
+        lines.push(
+            formatRow([idx + 1, name, elo, games, wins, losses, draws, timeouts, stalemates, formatPercent(winRate)]),
+        ),
+    );
+
+    lines.push(
+        "",
+        "## Head to head",
+        "",
+        "Wins-losses-draws (including timeouts and stalemates) of the row bot against the column bot.",
+    );
+    lines.push("", formatRow(["", ...names]), formatRow(Array(names.length + 1).fill("---")));
+    names.forEach((name) =>
+        lines.push(
+            formatRow([
+                name,
+                ...names.map((opponent) => {
+                    const record = headToHead[name][opponent];
+                    return record ? `${record.wins}-${record.losses}-${record.draws}` : "-";
+                }),
+            ]),
+        ),
+    );
+
+    lines.push("", "## Games", "");
+    lines.push(formatRow(["#", "Map", "Players", "Winner", "Outcome", "Duration"]));
+    lines.push(formatRow(Array(6).fill("---")));
+    games.forEach(({ mapName, players, winner, outcome, durationSeconds }, idx) =>
+        lines.push(
+            formatRow([
+                idx + 1,
+                mapName,
+                players.join(" vs "),
+                winner ?? "-",
+                outcome,
+                formatDuration(durationSeconds),
+            ]),
+        ),
+    );
+
+    return lines.join("\n") + "\n";
+}
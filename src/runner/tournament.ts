@@ -0,0 +1,215 @@
+// Round-robin tournaments between bot configurations.
+
+import { mkdirSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import { FieldType, SETTING_TYPES, isObject, parseAgent, parseTypedFields, validateAgents } from "./configFile.js";
+import { runMatch } from "./match.js";
+import {
+    AgentConfig,
+    DEFAULT_BASE_SETTINGS,
+    DEFAULT_MAX_GAME_LENGTH_SECONDS,
+    MatchConfig,
+    MatchConfigError,
+    validateMap,
+} from "./matchConfig.js";
+import { GameRecord, TournamentReport, computeReport, renderMarkdownReport } from "./standings.js";
+
+export type TournamentConfig = {
+    // Shared by every game. The map is taken from `maps` instead.
+    settings: Omit<MatchConfig["settings"], "mapName">;
+    bots: AgentConfig[];
+    maps: string[];
+    // Number of games each pair of bots plays on each map. Start positions alternate between games.
+    gamesPerPairing: number;
+    maxGameLengthSeconds: number | null;
+    replayDir: string | undefined;
+    mapCacheDir: string | undefined;
+    // Directory the JSON and Markdown results are written to.
+    outputDir: string;
+};
+
+export type ScheduledGame = {
+    mapName: string;
+    players: [AgentConfig, AgentConfig];
+};
+
+const DEFAULT_OUTPUT_DIR = "tournament";
+
+const RESULTS_JSON_FILE = "results.json";
+const RESULTS_MARKDOWN_FILE = "results.md";
+
+const TOP_LEVEL_KEYS = [
+    "settings",
+    "bots",
+    "maps",
+    "gamesPerPairing",
+    "maxGameLengthSeconds",
+    "replayDir",
+    "mapCacheDir",
+    "outputDir",
+];
+
+/**
+ * Validates a parsed JSON document against the tournament configuration format.
+ *
+ * @param source Where the document came from, used in error messages.
+ * @throws MatchConfigError listing every problem found.
+ */
+export function parseTournamentConfig(input: unknown, source: string): TournamentConfig {
+    const problems: string[] = [];
+    if (!isObject(input)) {
+        throw new MatchConfigError(source, [`expected a JSON object at the top level`]);
+    }
+    Object.keys(input)
+        .filter((key) => !TOP_LEVEL_KEYS.includes(key))
+        .forEach((key) => problems.push(`${key}: unknown field, expected one of: ${TOP_LEVEL_KEYS.join(", ")}`));
+
+    const { mapName, ...settingTypes } = SETTING_TYPES;
+    const settings = parseTypedFields<TournamentConfig["settings"]>(
+        input.settings,
+        settingTypes as { [key: string]: FieldType },
+        "settings",
+        problems,
+    );
+
+    let bots: AgentConfig[] = [];
+    if (!Array.isArray(input.bots) || input.bots.length < 2) {
+        problems.push(`bots: expected an array of at least two bots`);
+    } else {
+        bots = input.bots
+            .map((bot, idx) => parseAgent(bot, `bots[${idx}]`, problems))
+            .filter((bot): bot is AgentConfig => bot !== null);
+        bots.filter(({ allies }) => allies.length > 0).forEach(({ name }) =>
+            problems.push(`bots.${name}.allies: tournament games are 1v1, so bots cannot have allies`),
+        );
+        validateAgents(bots, problems);
+    }
+
+    const { maps, gamesPerPairing, maxGameLengthSeconds, replayDir, mapCacheDir, outputDir } = input;
+    if (!Array.isArray(maps) || maps.length === 0 || maps.some((map) => typeof map !== "string" || map.length === 0)) {
+        problems.push(`maps: expected a non-empty array of map names`);
+    }
+    if (gamesPerPairing !== undefined && (!Number.isInteger(gamesPerPairing) || (gamesPerPairing as number) < 1)) {
+        problems.push(`gamesPerPairing: expected a positive integer`);
+    }
+    if (
+        maxGameLengthSeconds !== undefined &&
+        maxGameLengthSeconds !== null &&
+        (typeof maxGameLengthSeconds !== "number" || maxGameLengthSeconds <= 0)
+    ) {
+        problems.push(`maxGameLengthSeconds: expected a positive number or null`);
+    }
+    if (replayDir !== undefined && typeof replayDir !== "string") {
+        problems.push(`replayDir: expected a string`);
+    }
+    if (mapCacheDir !== undefined && typeof mapCacheDir !== "string") {
+        problems.push(`mapCacheDir: expected a string`);
+    }
+    if (outputDir !== undefined && typeof outputDir !== "string") {
+        problems.push(`outputDir: expected a string`);
+    }
+
+    if (problems.length > 0) {
+        throw new MatchConfigError(source, problems);
+    }
+    const { mapName: _, ...defaultSettings } = DEFAULT_BASE_SETTINGS;
+    return {
+        settings: { ...defaultSettings, ...settings },
+        bots,
+        maps: maps as string[],
+        gamesPerPairing: (gamesPerPairing as number | undefined) ?? 1,
+        maxGameLengthSeconds:
+            maxGameLengthSeconds !== undefined
+                ? (maxGameLengthSeconds as number | null)
+                : DEFAULT_MAX_GAME_LENGTH_SECONDS,
+        replayDir: replayDir as string | undefined,
+        mapCacheDir: mapCacheDir as string | undefined,
+        outputDir: (outputDir as string | undefined) ?? DEFAULT_OUTPUT_DIR,
+    };
+}
+
+export function loadTournamentConfig(path: string): TournamentConfig {
+    let json: unknown;
+    try {
+        json = JSON.parse(readFileSync(path, "utf-8"));
+    } catch (err) {
+        throw new MatchConfigError(path, [`could not read tournament file: ${(err as Error).message}`]);
+    }
+    return parseTournamentConfig(json, path);
+}
+
+/**
+ * Lists every game of the tournament: each pair of bots plays `gamesPerPairing` games on every map, swapping start
+ * order between games so neither bot always gets the first slot.
+ */
+export function createSchedule(config: TournamentConfig): ScheduledGame[] {
+    const { bots, maps, gamesPerPairing } = config;
+    const schedule: ScheduledGame[] = [];
+    maps.forEach((mapName) => {
+        for (let i = 0; i < bots.length; ++i) {
+            for (let j = i + 1; j < bots.length; ++j) {
+                for (let game = 0; game < gamesPerPairing; ++game) {
+                    schedule.push({
+                        mapName,
+                        players: game % 2 === 0 ? [bots[i], bots[j]] : [bots[j], bots[i]],
+                    });
+                }
+            }
+        }
+    });
+    return schedule;
+}
+
+export function createMatchConfig(config: TournamentConfig, game: ScheduledGame): MatchConfig {
+    return {
+        settings: { ...config.settings, mapName: game.mapName },
+        agents: game.players,
+        maxGameLengthSeconds: config.maxGameLengthSeconds,
+        replayDir: config.replayDir,
+        mapCacheDir: config.mapCacheDir,
+        online: null,
+    };
+}
+
+function writeReport(outputDir: string, report: TournamentReport) {
+    mkdirSync(outputDir, { recursive: true });
+    writeFileSync(join(outputDir, RESULTS_JSON_FILE), JSON.stringify(report, null, 4));
+    writeFileSync(join(outputDir, RESULTS_MARKDOWN_FILE), renderMarkdownReport(report));
+}
+
+/**
+ * Plays every game of the tournament in turn. The results are rewritten after each game, so an interrupted
+ * tournament still leaves a report of the games played so far.
+ * Must only be called after `cdapi.init()`.
+ */
+export async function runTournament(config: TournamentConfig): Promise<TournamentReport> {
+    const schedule = createSchedule(config);
+    const botNames = config.bots.map(({ name }) => name);
+    // Fail fast on a bad map rather than part way through the tournament.
+    config.maps.forEach((mapName) =>
+        validateMap(createMatchConfig(config, { mapName, players: [config.bots[0], config.bots[1]] }), "tournament"),
+    );
+
+    const games: GameRecord[] = [];
+    let report = computeReport(botNames, games);
+    for (const [idx, scheduledGame] of schedule.entries()) {
+        const [first, second] = scheduledGame.players.map(({ name }) => name);
+        console.log(`Game ${idx + 1}/${schedule.length}: ${first} vs ${second} on ${scheduledGame.mapName}`);
+
+        const result = await runMatch(createMatchConfig(config, scheduledGame));
+        const record: GameRecord = {
+            mapName: result.mapName,
+            players: [first, second],
+            winner: result.winners[0] ?? null,
+            outcome: result.outcome,
+            durationSeconds: result.durationSeconds,
+            replayPath: result.replayPath,
+        };
+        console.log(`Game ${idx + 1}/${schedule.length}: ${record.winner ?? result.outcome}`);
+
+        games.push(record);
+        report = computeReport(botNames, games);
+        writeReport(config.outputDir, report);
+    }
+    return report;
+}
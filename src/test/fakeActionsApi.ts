@@ -0,0 +1,92 @@
+import { ActionsApi, ObjectType, OrderType, QueueType, SuperWeaponType } from "@chronodivide/game-api";
+
+export type RecordedAction = {
+    method: keyof ActionsApi;
+    args: unknown[];
+};
+
+/**
+ * Records every call made through `ActionsApi` instead of sending it to a game, so tests can assert on them.
+ */
+export class FakeActionsApi {
+    public readonly calls: RecordedAction[] = [];
+
+    private record(method: keyof ActionsApi, args: unknown[]) {
+        this.calls.push({ method, args });
+    }
+
+    /**
+     * Arguments of every call to the given method, in order.
+     */
+    public callsTo(method: keyof ActionsApi): unknown[][] {
+        return this.calls.filter((call) => call.method === method).map(({ args }) => args);
+    }
+
+    public clear() {
+        this.calls.length = 0;
+    }
+
+    public asActionsApi() {
+        return this as unknown as ActionsApi;
+    }
+
+    placeBuilding(buildingName: string, rx: number, ry: number) {
+        this.record("placeBuilding", [buildingName, rx, ry]);
+    }
+
+    sellObject(objectId: number) {
+        this.record("sellObject", [objectId]);
+    }
+
+    sellBuilding(buildingId: number) {
+        this.record("sellBuilding", [buildingId]);
+    }
+
+    toggleRepairWrench(buildingId: number) {
+        this.record("toggleRepairWrench", [buildingId]);
+    }
+
+    toggleAlliance(toPlayer: string, enabled: boolean) {
+        this.record("toggleAlliance", [toPlayer, enabled]);
+    }
+
+    pauseProduction(queueType: QueueType) {
+        this.record("pauseProduction", [queueType]);
+    }
+
+    resumeProduction(queueType: QueueType) {
+        this.record("resumeProduction", [queueType]);
+    }
+
+    queueForProduction(queueType: QueueType, objName: string, objType: ObjectType, quantity: number) {
+        this.record("queueForProduction", [queueType, objName, objType, quantity]);
+    }
+
+    unqueueFromProduction(queueType: QueueType, objName: string, objType: ObjectType, quantity: number) {
+        this.record("unqueueFromProduction", [queueType, objName, objType, quantity]);
+    }
+
+    activateSuperWeapon(type: SuperWeaponType, tile: { rx: number; ry: number }, tile2?: { rx: number; ry: number }) {
+        this.record("activateSuperWeapon", [type, tile, tile2]);
+    }
+
+    orderUnits(unitIds: number[], orderType: OrderType, ...target: (number | boolean)[]) {
+        this.record("orderUnits", [unitIds, orderType, ...target]);
+    }
+
+    sayAll(text: string) {
+        this.record("sayAll", [text]);
+    }
+
+    setGlobalDebugText(text: string | undefined) {
+        this.record("setGlobalDebugText", [text]);
+    }
+
+    setUnitDebugText(unitId: number, text: string | undefined) {
+        this.record("setUnitDebugText", [unitId, text]);
+    }
+
+    quitGame() {
+        this.record("quitGame", []);
+    }
+}
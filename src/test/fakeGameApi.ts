@@ -0,0 +1,332 @@
+// In-memory stand-ins for the game API, so bot logic can be tested without game assets or a running game.
+
+import {
+    BuildingPlacementData,
+    Country,
+    GameApi,
+    GeneralRules,
+    LandType,
+    ObjectType,
+    PlayerData,
+    SideType,
+    Size,
+    TechnoRules,
+    Tile,
+    UnitData,
+    Vector2,
+} from "@chronodivide/game-api";
+import { FakeIniFile } from "./fakeIni.js";
+import { FakeMapApi } from "./fakeMapApi.js";
+
+export const NEUTRAL_PLAYER = "@@NEUTRAL@@";
+
+const DEFAULT_TICK_RATE = 15;
+
+const DEFAULT_HIT_POINTS = 100;
+
+export type FakePlayerOptions = {
+    startLocation: Vector2;
+    country?: { name: string; side: SideType };
+    credits?: number;
+    isCombatant?: boolean;
+};
+
+export type FakeObjectOptions = {
+    name: string;
+    owner?: string;
+    rx: number;
+    ry: number;
+    // Defaults to whatever type the rules for this name were defined with, or a vehicle.
+    type?: ObjectType;
+    // Extra rules for this object type, only used the first time the type is seen (see `defineRules`).
+    rules?: Partial<TechnoRules>;
+    foundation?: Size;
+    hitPoints?: number;
+    maxHitPoints?: number;
+};
+
+/**
+ * Rules for an object type, filled in with defaults for the fields the bot looks at.
+ */
+export const createTechnoRules = (name: string, type: ObjectType, rules: Partial<TechnoRules> = {}): TechnoRules =>
+    ({
+        name,
+        type,
+        cost: 0,
+        adjacent: 0,
+        baseNormal: type === ObjectType.Building,
+        isSelectableCombatant: type !== ObjectType.Building,
+        ...rules,
+    }) as TechnoRules;
+
+const objectTypeToRulesKey = (type: ObjectType) => {
+    switch (type) {
+        case ObjectType.Aircraft:
+            return "aircraftRules";
+        case ObjectType.Building:
+            return "buildingRules";
+        case ObjectType.Infantry:
+            return "infantryRules";
+        default:
+            return "vehicleRules";
+    }
+};
+
+/**
+ * A game world made up of players, objects and a `FakeMapApi`, exposed through the same methods as `GameApi`.
+ * Set up the world with the mutators, then hand `asGameApi()` to the code under test.
+ */
+export class FakeGameApi {
+    public readonly mapApi: FakeMapApi;
+    public readonly rulesApi = {
+        aircraftRules: new Map<string, TechnoRules>(),
+        buildingRules: new Map<string, TechnoRules>(),
+        infantryRules: new Map<string, TechnoRules>(),
+        vehicleRules: new Map<string, TechnoRules>(),
+    };
+
+    public currentTick = 0;
+    public tickRate = DEFAULT_TICK_RATE;
+    public rulesIni = new FakeIniFile();
+    public aiIni = new FakeIniFile();
+    public generalRules: Partial<GeneralRules> = { baseUnit: [] };
+
+    private players: Map<string, PlayerData> = new Map();
+    private alliances: Set<string> = new Set();
+    private objects: Map<number, UnitData> = new Map();
+    private nextObjectId = 1;
+    private randomValues: number[] = [];
+    private placementData: Map<string, BuildingPlacementData> = new Map();
+
+    constructor(mapSize: Size, startingLocations: Vector2[] = []) {
+        this.mapApi = new FakeMapApi(mapSize, startingLocations);
+    }
+
+    public asGameApi() {
+        return this as unknown as GameApi;
+    }
+
+    public addPlayer(name: string, options: FakePlayerOptions) {
+        const country = options.country ?? { name: "Americans", side: SideType.GDI };
+        this.players.set(name, {
+            name,
+            country: { id: this.players.size, ...country } as unknown as Country,
+            startLocation: options.startLocation,
+            isObserver: false,
+            isAi: true,
+            isCombatant: options.isCombatant ?? true,
+            credits: options.credits ?? 0,
+            power: { total: 0, drain: 0, isLowPower: false },
+            radarDisabled: false,
+        });
+        return this;
+    }
+
+    public setAllied(playerA: string, playerB: string, allied = true) {
+        const key = [playerA, playerB].sort().join("\n");
+        if (allied) {
+            this.alliances.add(key);
+        } else {
+            this.alliances.delete(key);
+        }
+        return this;
+    }
+
+    /**
+     * Registers the rules of an object type, so it can be looked up by name like the real rules.
+     */
+    public defineRules(name: string, type: ObjectType, rules: Partial<TechnoRules> = {}) {
+        const technoRules = createTechnoRules(name, type, rules);
+        this.rulesApi[objectTypeToRulesKey(type)].set(name, technoRules);
+        return technoRules;
+    }
+
+    public setBuildingFoundation(name: string, foundation: Size) {
+        this.placementData.set(name, {
+            foundation,
+            foundationCenter: new Vector2(Math.floor(foundation.width / 2), Math.floor(foundation.height / 2)),
+        });
+        return this;
+    }
+
+    public addObject(options: FakeObjectOptions): number {
+        const tile = this.mapApi.getTile(options.rx, options.ry);
+        if (!tile) {
+            throw new Error(`Cannot place ${options.name} outside the map at ${options.rx},${options.ry}`);
+        }
+        const rules =
+            this.findRules(options.name) ??
+            this.defineRules(options.name, options.type ?? ObjectType.Vehicle, options.rules);
+        const id = this.nextObjectId++;
+        this.objects.set(id, {
+            id,
+            type: options.type ?? rules.type,
+            name: options.name,
+            rules,
+            tile,
+            foundation: options.foundation ??
+                this.placementData.get(options.name)?.foundation ?? { width: 1, height: 1 },
+            hitPoints: options.hitPoints ?? DEFAULT_HIT_POINTS,
+            maxHitPoints: options.maxHitPoints ?? DEFAULT_HIT_POINTS,
+            owner: options.owner ?? NEUTRAL_PLAYER,
+        } as UnitData);
+        return id;
+    }
+
+    public moveObject(id: number, rx: number, ry: number) {
+        const object = this.objects.get(id);
+        const tile = this.mapApi.getTile(rx, ry);
+        if (!object || !tile) {
+            throw new Error(`Cannot move object ${id} to ${rx},${ry}`);
+        }
+        object.tile = tile;
+        return this;
+    }
+
+    public removeObject(id: number) {
+        this.objects.delete(id);
+        return this;
+    }
+
+    /**
+     * Values returned by `generateRandom()` (and used by `generateRandomInt()`), in order. Once they run out, 0 is
+     * returned.
+     */
+    public queueRandomValues(...values: number[]) {
+        this.randomValues.push(...values);
+        return this;
+    }
+
+    private findRules(name: string) {
+        return Object.values(this.rulesApi)
+            .map((rules) => rules.get(name))
+            .find((rules) => !!rules);
+    }
+
+    private isAllied(playerA: string, playerB: string) {
+        return playerA === playerB || this.alliances.has([playerA, playerB].sort().join("\n"));
+    }
+
+    private occupiedTileIds() {
+        const occupied = new Set<string>();
+        [...this.objects.values()]
+            .filter((object) => object.type === ObjectType.Building)
+            .forEach(({ tile, foundation }) =>
+                this.mapApi.getTilesInRect(tile, foundation).forEach((occupiedTile) => occupied.add(occupiedTile.id)),
+            );
+        return occupied;
+    }
+
+    areAlliedPlayers(p1Name: string, p2Name: string) {
+        return this.isAllied(p1Name, p2Name);
+    }
+
+    // Buildings can be placed where their whole foundation is on the map and not on another building. Naval buildings
+    // have to be on water, and everything else on land.
+    canPlaceBuilding(playerName: string, buildingName: string, tile: Tile) {
+        const { foundation } = this.getBuildingPlacementData(buildingName);
+        const naval = !!this.findRules(buildingName)?.naval;
+        const occupied = this.occupiedTileIds();
+        const tiles = this.mapApi.getTilesInRect(tile, foundation);
+        return (
+            tiles.length === foundation.width * foundation.height &&
+            tiles.every(
+                (foundationTile) =>
+                    !occupied.has(foundationTile.id) && (foundationTile.landType === LandType.Water) === naval,
+            )
+        );
+    }
+
+    getBuildingPlacementData(objName: string): BuildingPlacementData {
+        return (
+            this.placementData.get(objName) ?? {
+                foundation: { width: 1, height: 1 },
+                foundationCenter: new Vector2(0, 0),
+            }
+        );
+    }
+
+    getPlayers() {
+        return [...this.players.keys()];
+    }
+
+    // An arrow function, because the bot passes this around unbound (e.g. `getPlayers().map(gameApi.getPlayerData)`).
+    getPlayerData = (playerName: string): PlayerData => {
+        const player = this.players.get(playerName);
+        if (!player) {
+            throw new Error(`Unknown player ${playerName}`);
+        }
+        return player;
+    };
+
+    getAllUnits(filter?: (r: TechnoRules) => boolean) {
+        return [...this.objects.values()].filter(({ rules }) => !filter || filter(rules)).map(({ id }) => id);
+    }
+
+    getNeutralUnits(filter?: (r: TechnoRules) => boolean) {
+        return [...this.objects.values()]
+            .filter(({ owner, rules }) => owner === NEUTRAL_PLAYER && (!filter || filter(rules)))
+            .map(({ id }) => id);
+    }
+
+    // Objects owned by other players are only visible on tiles the player can see.
+    getVisibleUnits(
+        playerName: string,
+        type: "self" | "allied" | "hostile" | "enemy",
+        filter?: (r: TechnoRules) => boolean,
+    ) {
+        return [...this.objects.values()]
+            .filter(({ owner, tile }) => {
+                if (type === "self") {
+                    return owner === playerName;
+                }
+                if (!this.mapApi.isVisibleTile(tile, playerName)) {
+                    return false;
+                }
+                const allied = this.isAllied(playerName, owner);
+                return type === "allied" ? allied && owner !== playerName : !allied;
+            })
+            .filter(({ rules }) => !filter || filter(rules))
+            .map(({ id }) => id);
+    }
+
+    getGameObjectData(objId: number) {
+        return this.objects.get(objId);
+    }
+
+    getUnitData(unitId: number) {
+        return this.objects.get(unitId);
+    }
+
+    getGeneralRules() {
+        return this.generalRules as GeneralRules;
+    }
+
+    getRulesIni() {
+        return this.rulesIni.asIniFile();
+    }
+
+    getAiIni() {
+        return this.aiIni.asIniFile();
+    }
+
+    generateRandom() {
+        return this.randomValues.shift() ?? 0;
+    }
+
+    generateRandomInt(min: number, max: number) {
+        return min + Math.floor(this.generateRandom() * (max - min + 1));
+    }
+
+    getTickRate() {
+        return this.tickRate;
+    }
+
+    getBaseTickRate() {
+        return DEFAULT_TICK_RATE;
+    }
+
+    getCurrentTick() {
+        return this.currentTick;
+    }
+}
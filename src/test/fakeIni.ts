@@ -0,0 +1,78 @@
+// A minimal stand-in for the game's ini files, which aren't exported at runtime by the game API.
+
+import { IniFile, IniSection } from "@chronodivide/game-api";
+
+export class FakeIniSection {
+    public entries: Map<string, string> = new Map();
+
+    constructor(public name: string) {}
+
+    public set(key: string, value: string) {
+        this.entries.set(key, value);
+    }
+
+    public get(key: string): string | undefined {
+        return this.entries.get(key);
+    }
+
+    public has(key: string) {
+        return this.entries.has(key);
+    }
+
+    public getString(key: string, defaultValue = "") {
+        return this.entries.get(key) ?? defaultValue;
+    }
+
+    public getNumber(key: string, defaultValue = 0) {
+        const value = this.entries.get(key);
+        return value === undefined ? defaultValue : Number(value);
+    }
+
+    // The game treats anything starting with y, t or 1 as true.
+    public getBool(key: string, defaultValue = false) {
+        const value = this.entries.get(key);
+        return value === undefined ? defaultValue : /^[yt1]/i.test(value.trim());
+    }
+}
+
+export class FakeIniFile {
+    private sections: Map<string, FakeIniSection> = new Map();
+
+    /**
+     * Parses ini text, e.g. `"[General]\nTeamDelays=100,200,300"`. Comments after `;` are dropped.
+     */
+    public static fromString(data: string) {
+        const ini = new FakeIniFile();
+        let section: FakeIniSection | null = null;
+        data.split(/\r?\n/).forEach((rawLine) => {
+            const line = rawLine.replace(/;.*$/, "").trim();
+            const header = line.match(/^\[(.+)\]$/);
+            if (header) {
+                section = ini.getOrCreateSection(header[1]);
+            } else if (section && line.includes("=")) {
+                const separator = line.indexOf("=");
+                section.set(line.substring(0, separator).trim(), line.substring(separator + 1).trim());
+            }
+        });
+        return ini;
+    }
+
+    public getOrCreateSection(name: string) {
+        let section = this.sections.get(name);
+        if (!section) {
+            section = new FakeIniSection(name);
+            this.sections.set(name, section);
+        }
+        return section;
+    }
+
+    public getSection(name: string): FakeIniSection | undefined {
+        return this.sections.get(name);
+    }
+
+    public asIniFile() {
+        return this as unknown as IniFile;
+    }
+}
+
+export const asIniSection = (section: FakeIniSection) => section as unknown as IniSection;
@@ -0,0 +1,160 @@
+import {
+    LandType,
+    MapApi,
+    Rectangle,
+    Size,
+    SpeedType,
+    TerrainType,
+    Tile,
+    TileResourceData,
+    Vector2,
+} from "@chronodivide/game-api";
+
+const LAND_TYPES = [
+    LandType.Clear,
+    LandType.Road,
+    LandType.Beach,
+    LandType.Rough,
+    LandType.Railroad,
+    LandType.Weeds,
+    LandType.Tiberium,
+];
+
+/**
+ * A rectangular map where every tile is clear land unless told otherwise, and nothing is visible until revealed.
+ */
+export class FakeMapApi {
+    private tiles: Tile[][];
+    private visibleTiles: Map<string, Set<string>> = new Map();
+    private resourceData: Map<string, TileResourceData> = new Map();
+
+    constructor(
+        private size: Size,
+        private startingLocations: Vector2[] = [],
+    ) {
+        this.tiles = new Array(size.width);
+        for (let rx = 0; rx < size.width; ++rx) {
+            this.tiles[rx] = new Array(size.height);
+            for (let ry = 0; ry < size.height; ++ry) {
+                this.tiles[rx][ry] = {
+                    id: `${rx}_${ry}`,
+                    rx,
+                    ry,
+                    dx: rx - ry,
+                    dy: rx + ry,
+                    z: 0,
+                    tileNum: 0,
+                    subTile: 0,
+                    terrainType: TerrainType.Default,
+                    landType: LandType.Clear,
+                    onBridgeLandType: undefined,
+                    rampType: 0,
+                    occluded: false,
+                };
+            }
+        }
+    }
+
+    public setLandType(rx: number, ry: number, landType: LandType) {
+        const tile = this.getTile(rx, ry);
+        if (!tile) {
+            throw new Error(`No tile at ${rx},${ry}`);
+        }
+        tile.landType = landType;
+        return this;
+    }
+
+    public setStartingLocations(startingLocations: Vector2[]) {
+        this.startingLocations = startingLocations;
+        return this;
+    }
+
+    public setResourceData(resourceData: TileResourceData) {
+        this.resourceData.set(resourceData.tile.id, resourceData);
+        return this;
+    }
+
+    /**
+     * Makes the tiles in the given area (or the whole map) visible to the player.
+     */
+    public reveal(playerName: string, area: Rectangle = { x: 0, y: 0, ...this.size }) {
+        const visible = this.visibleTiles.get(playerName) ?? new Set();
+        this.getTilesInRect(area).forEach((tile) => visible.add(tile.id));
+        this.visibleTiles.set(playerName, visible);
+        return this;
+    }
+
+    public hide(playerName: string, area: Rectangle = { x: 0, y: 0, ...this.size }) {
+        const visible = this.visibleTiles.get(playerName);
+        this.getTilesInRect(area).forEach((tile) => visible?.delete(tile.id));
+        return this;
+    }
+
+    public asMapApi() {
+        return this as unknown as MapApi;
+    }
+
+    getRealMapSize(): Size {
+        return this.size;
+    }
+
+    getStartingLocations(): Vector2[] {
+        return this.startingLocations;
+    }
+
+    getTile(rx: number, ry: number): Tile | undefined {
+        return this.tiles[rx]?.[ry];
+    }
+
+    // Only looks at the land type: ships sail on water, aircraft go anywhere, and everything else drives on land.
+    isPassableTile(tile: Tile, speedType: SpeedType, onBridge: boolean): boolean {
+        const landType = onBridge ? tile.onBridgeLandType : tile.landType;
+        if (landType === undefined) {
+            return false;
+        }
+        switch (speedType) {
+            case SpeedType.Winged:
+                return true;
+            case SpeedType.Float:
+                return landType === LandType.Water;
+            case SpeedType.FloatBeach:
+                return landType === LandType.Water || landType === LandType.Beach;
+            case SpeedType.Amphibious:
+            case SpeedType.Hover:
+                return landType === LandType.Water || LAND_TYPES.includes(landType);
+            default:
+                return LAND_TYPES.includes(landType);
+        }
+    }
+
+    getTilesInRect(rectangle: Rectangle): Tile[];
+    getTilesInRect(baseTile: Tile, size: Size): Tile[];
+    getTilesInRect(rectangleOrTile: Rectangle | Tile, maybeSize?: Size): Tile[] {
+        const rectangle: Rectangle =
+            "rx" in rectangleOrTile
+                ? { x: rectangleOrTile.rx, y: rectangleOrTile.ry, ...maybeSize! }
+                : (rectangleOrTile as Rectangle);
+        const tiles: Tile[] = [];
+        for (let rx = rectangle.x; rx < rectangle.x + rectangle.width; ++rx) {
+            for (let ry = rectangle.y; ry < rectangle.y + rectangle.height; ++ry) {
+                const tile = this.getTile(rx, ry);
+                if (tile) {
+                    tiles.push(tile);
+                }
+            }
+        }
+        return tiles;
+    }
+
+    isVisibleTile(tile: Tile, playerName: string): boolean {
+        return this.visibleTiles.get(playerName)?.has(tile.id) ?? false;
+    }
+
+    getTileResourceData(tile: Tile): TileResourceData | undefined {
+        return this.resourceData.get(tile.id);
+    }
+
+    getAllTilesResourceData(): TileResourceData[] {
+        return [...this.resourceData.values()];
+    }
+}
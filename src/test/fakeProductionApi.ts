@@ -0,0 +1,55 @@
+import { ProductionApi, QueueData, QueueStatus, QueueType, TechnoRules } from "@chronodivide/game-api";
+
+const DEFAULT_QUEUE_MAX_SIZE = 5;
+
+/**
+ * Production queues whose contents are set up by the test rather than by the game.
+ */
+export class FakeProductionApi {
+    private availableObjects: Map<string, { rules: TechnoRules; queueType: QueueType }> = new Map();
+    private queues: Map<QueueType, QueueData> = new Map();
+
+    public setAvailable(queueType: QueueType, ...rules: TechnoRules[]) {
+        rules.forEach((objRules) => this.availableObjects.set(objRules.name, { rules: objRules, queueType }));
+        return this;
+    }
+
+    public setQueueData(queueType: QueueType, queueData: Partial<QueueData>) {
+        this.queues.set(queueType, { ...this.getQueueData(queueType), ...queueData });
+        return this;
+    }
+
+    public asProductionApi() {
+        return this as unknown as ProductionApi;
+    }
+
+    isAvailableForProduction(objRules: TechnoRules) {
+        return this.availableObjects.has(objRules.name);
+    }
+
+    getAvailableObjects(queueType?: QueueType): TechnoRules[] {
+        return [...this.availableObjects.values()]
+            .filter((available) => queueType === undefined || available.queueType === queueType)
+            .map(({ rules }) => rules);
+    }
+
+    getQueueTypeForObject(objRules: TechnoRules): QueueType {
+        const available = this.availableObjects.get(objRules.name);
+        if (!available) {
+            throw new Error(`${objRules.name} is not available for production`);
+        }
+        return available.queueType;
+    }
+
+    getQueueData(queueType: QueueType): QueueData {
+        return (
+            this.queues.get(queueType) ?? {
+                size: 0,
+                maxSize: DEFAULT_QUEUE_MAX_SIZE,
+                status: QueueStatus.Idle,
+                type: queueType,
+                items: [],
+            }
+        );
+    }
+}
@@ -0,0 +1,32 @@
+import "dotenv/config";
+import { cdapi } from "@chronodivide/game-api";
+import { MatchConfigError } from "./runner/matchConfig.js";
+import { loadTournamentConfig, runTournament } from "./runner/tournament.js";
+
+const USAGE = `Usage: npm run tournament -- <tournament file>
+
+See scenarios/tournament.json for an example tournament file.`;
+
+async function main() {
+    const args = process.argv.slice(2).filter((arg) => !arg.startsWith("--es-module-specifier-resolution"));
+    if (args.length !== 1 || args[0] === "--help" || args[0] === "-h") {
+        console.log(USAGE);
+        return;
+    }
+    const config = loadTournamentConfig(args[0]);
+
+    await cdapi.init(process.env.MIX_DIR || "./");
+
+    const { standings } = await runTournament(config);
+    console.table(standings);
+    console.log(`Results written to ${config.outputDir}`);
+}
+
+main().catch((e) => {
+    if (e instanceof MatchConfigError) {
+        console.error(e.message);
+    } else {
+        console.error(e);
+    }
+    process.exit(1);
+});